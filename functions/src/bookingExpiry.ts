@@ -0,0 +1,186 @@
+import { DocumentData, FieldValue, Firestore, Timestamp } from "firebase-admin/firestore";
+
+// Mirrors BookingStatus and BookingActorRole in src/firebase/db/model/bookingmodel.ts
+const STATUS_PENDING = "pending";
+const STATUS_APPROVED = "approved";
+const STATUS_IN_PROGRESS = "in_progress";
+const STATUS_EXPIRED = "expired";
+const STATUS_COMPLETED = "completed";
+const ROLE_SYSTEM = "system";
+
+// Mirrors NotificationType and the booking texts in src/firebase/db/services/notificationService.ts
+const NOTIFICATION_EXPIRED = "booking_expired";
+const NOTIFICATION_COMPLETED = "booking_completed";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface BookingExpiryOptions {
+  responseWindowHours: number; // Requests expire this long after they were created
+  now?: Date;
+  dryRun?: boolean;            // Report what would change without writing
+}
+
+export interface BookingExpiryResult {
+  expired: string[];
+  completed: string[];
+}
+
+/**
+ * Reads the response window from the environment, defaulting to 24 hours
+ */
+export function getResponseWindowHours(): number {
+  const parsed = parseFloat(process.env.PENDING_RESPONSE_WINDOW_HOURS ?? "");
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 24;
+}
+
+/**
+ * Builds the notifications for a system status change: renters hear about
+ * expired requests, and both sides are asked to review a completed rental
+ */
+function systemNotifications(bookingId: string, booking: DocumentData, toStatus: string) {
+  const notification = (recipientIsOwner: boolean) => {
+    const otherName = recipientIsOwner ? booking.renterName : booking.ownerName;
+
+    return {
+      userId: recipientIsOwner ? booking.ownerId : booking.renterId,
+      type: toStatus === STATUS_EXPIRED ? NOTIFICATION_EXPIRED : NOTIFICATION_COMPLETED,
+      title: toStatus === STATUS_EXPIRED ? "Booking request expired" : "Rental completed",
+      body: toStatus === STATUS_EXPIRED
+        ? `${otherName} did not respond to your request for the ${booking.carTitle}`
+        : `The rental of the ${booking.carTitle} is complete. Leave a review for ${otherName}.`,
+      link: recipientIsOwner ? "/my-bookings?tab=received" : "/my-bookings",
+      data: { bookingId },
+      read: false,
+      createdAt: FieldValue.serverTimestamp()
+    };
+  };
+
+  return toStatus === STATUS_EXPIRED
+    ? [notification(false)]
+    : [notification(false), notification(true)];
+}
+
+/**
+ * Moves a booking to a final status written by the system, re-checking the
+ * status inside the transaction so an owner's response is never overwritten
+ * @returns true if the booking was updated
+ */
+async function applySystemTransition(
+  db: Firestore,
+  bookingId: string,
+  fromStatuses: string[],
+  toStatus: string,
+  reason: string,
+  releaseDates: boolean
+): Promise<boolean> {
+  const bookingRef = db.collection("bookings").doc(bookingId);
+
+  return db.runTransaction(async (transaction) => {
+    const bookingSnap = await transaction.get(bookingRef);
+    const booking = bookingSnap.data();
+
+    if (!booking || !fromStatuses.includes(booking.status)) {
+      return false;
+    }
+
+    // Day locks live under the car and are looked up by booking rather than by
+    // recomputing day keys, which depend on the renter's time zone
+    const lockSnaps = releaseDates
+      ? await transaction.get(
+          db.collection("carListings").doc(booking.carId)
+            .collection("bookingLocks")
+            .where("bookingId", "==", bookingId)
+        )
+      : null;
+
+    lockSnaps?.docs.forEach((lockSnap) => transaction.delete(lockSnap.ref));
+
+    transaction.update(bookingRef, {
+      status: toStatus,
+      // Expired requests also show the reason where declined ones show theirs
+      ...(toStatus === STATUS_EXPIRED ? { cancellationReason: reason } : {}),
+      statusReason: reason,
+      updatedAt: FieldValue.serverTimestamp()
+    });
+    transaction.create(bookingRef.collection("events").doc(), {
+      fromStatus: booking.status,
+      toStatus,
+      actorId: ROLE_SYSTEM,
+      actorRole: ROLE_SYSTEM,
+      reason,
+      timestamp: FieldValue.serverTimestamp()
+    });
+
+    systemNotifications(bookingId, booking, toStatus).forEach((notification) => {
+      transaction.create(db.collection("notifications").doc(), notification);
+    });
+
+    return true;
+  });
+}
+
+/**
+ * Expires pending bookings the owner never answered and completes approved or
+ * in-progress bookings whose end date has passed
+ * @param db Admin Firestore instance
+ * @param options Response window and run options
+ * @returns IDs of the bookings that were expired and completed
+ */
+export async function processStaleBookings(
+  db: Firestore,
+  options: BookingExpiryOptions
+): Promise<BookingExpiryResult> {
+  const now = options.now ?? new Date();
+  const result: BookingExpiryResult = { expired: [], completed: [] };
+
+  // Single-field queries only, to avoid composite index requirements
+  const pendingSnapshot = await db.collection("bookings")
+    .where("status", "==", STATUS_PENDING)
+    .get();
+
+  for (const bookingSnap of pendingSnapshot.docs) {
+    const booking = bookingSnap.data();
+    // createdAt is the server's write time (enforced by the rules); an expiresAt
+    // field on older bookings was written by the client and is ignored
+    const expiresAt = booking.createdAt instanceof Timestamp
+      ? booking.createdAt.toMillis() + options.responseWindowHours * HOUR_MS
+      : null;
+
+    if (expiresAt === null || expiresAt > now.getTime()) continue;
+
+    const updated = options.dryRun || await applySystemTransition(
+      db,
+      bookingSnap.id,
+      [STATUS_PENDING],
+      STATUS_EXPIRED,
+      "The owner did not respond to this request in time",
+      true
+    );
+    if (updated) result.expired.push(bookingSnap.id);
+  }
+
+  const activeSnapshot = await db.collection("bookings")
+    .where("status", "in", [STATUS_APPROVED, STATUS_IN_PROGRESS])
+    .get();
+
+  for (const bookingSnap of activeSnapshot.docs) {
+    const booking = bookingSnap.data();
+    if (!(booking.endDate instanceof Timestamp)) continue;
+
+    // endDate is the last rental day, so the rental is over once that whole day has passed
+    if (booking.endDate.toMillis() + DAY_MS > now.getTime()) continue;
+
+    const updated = options.dryRun || await applySystemTransition(
+      db,
+      bookingSnap.id,
+      [STATUS_APPROVED, STATUS_IN_PROGRESS],
+      STATUS_COMPLETED,
+      "The rental period ended",
+      false
+    );
+    if (updated) result.completed.push(bookingSnap.id);
+  }
+
+  return result;
+}
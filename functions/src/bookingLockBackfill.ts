@@ -0,0 +1,103 @@
+import { DocumentData, FieldValue, Firestore, Timestamp, WriteBatch } from "firebase-admin/firestore";
+import { dayKeysBetween, toDayKey } from "./shared/dayKeys.js";
+
+// Mirrors the statuses that hold a car's dates in src/firebase/db/model/bookingmodel.ts
+const ACTIVE_STATUSES = ["pending", "approved", "in_progress"];
+
+// Firestore batches hold at most 500 writes
+const MAX_BATCH_SIZE = 500;
+
+export interface LockBackfillOptions {
+  timeZone: string; // Zone the day keys of bookings without startDay/endDay are read in
+  dryRun?: boolean; // Report what would change without writing
+}
+
+export interface LockConflict {
+  bookingId: string;
+  day: string;
+  heldBy: string; // Booking that already holds the day
+}
+
+export interface LockBackfillResult {
+  locked: string[]; // Bookings that got at least one missing lock
+  conflicts: LockConflict[];
+}
+
+/**
+ * The first and last day keys of a booking: the stored keys, or for bookings
+ * created before they were stored, the dates read in the given time zone
+ */
+function getBookingDayRange(booking: DocumentData, timeZone: string): { startDay: string; endDay: string } | null {
+  if (typeof booking.startDay === "string" && typeof booking.endDay === "string") {
+    return { startDay: booking.startDay, endDay: booking.endDay };
+  }
+  if (!(booking.startDate instanceof Timestamp) || !(booking.endDate instanceof Timestamp)) {
+    return null;
+  }
+  return {
+    startDay: toDayKey(booking.startDate.toDate(), timeZone),
+    endDay: toDayKey(booking.endDate.toDate(), timeZone)
+  };
+}
+
+/**
+ * Writes the missing day locks of active bookings, which bookings created
+ * before day locks were introduced never got. Without them, createBooking's
+ * lock check can't see those bookings. Days already held by another booking
+ * are left alone and reported, as the two bookings overlap.
+ * @param db Admin Firestore instance
+ * @param options Time zone and run options
+ * @returns The bookings that were locked and the conflicting days
+ */
+export async function backfillBookingLocks(
+  db: Firestore,
+  options: LockBackfillOptions
+): Promise<LockBackfillResult> {
+  const result: LockBackfillResult = { locked: [], conflicts: [] };
+
+  const snapshot = await db.collection("bookings")
+    .where("status", "in", ACTIVE_STATUSES)
+    .get();
+
+  for (const bookingSnap of snapshot.docs) {
+    const booking = bookingSnap.data();
+    const range = getBookingDayRange(booking, options.timeZone);
+    if (!range) continue;
+
+    const locksRef = db.collection("carListings").doc(booking.carId).collection("bookingLocks");
+    const days = dayKeysBetween(range.startDay, range.endDay);
+    const lockSnaps = await db.getAll(...days.map((day) => locksRef.doc(day)));
+
+    const missing = lockSnaps.filter((lockSnap) => {
+      const heldBy = lockSnap.data()?.bookingId;
+      if (heldBy && heldBy !== bookingSnap.id) {
+        result.conflicts.push({ bookingId: bookingSnap.id, day: lockSnap.id, heldBy });
+      }
+      return !lockSnap.exists;
+    });
+    if (missing.length === 0) continue;
+
+    result.locked.push(bookingSnap.id);
+    if (options.dryRun) continue;
+
+    // create() fails if a booking took one of the days meanwhile, instead of overwriting its lock
+    const writes: ((batch: WriteBatch) => void)[] = [
+      ...missing.map((lockSnap) => (batch: WriteBatch) => batch.create(lockSnap.ref, {
+        bookingId: bookingSnap.id,
+        carId: booking.carId,
+        day: lockSnap.id,
+        createdAt: FieldValue.serverTimestamp()
+      })),
+      // The security rules compare lock days with these keys
+      (batch: WriteBatch) => batch.update(bookingSnap.ref, range)
+    ];
+
+    for (let start = 0; start < writes.length; start += MAX_BATCH_SIZE) {
+      const batch = db.batch();
+      writes.slice(start, start + MAX_BATCH_SIZE).forEach((write) => write(batch));
+      await batch.commit();
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,322 @@
+import { DocumentData, FieldValue, Firestore, Timestamp } from "firebase-admin/firestore";
+import { isTimeZone, startOfDayInZone } from "./dates.js";
+import { dayKeysBetween, dayKeyWeekday, isDayKey, toDayKey } from "./shared/dayKeys.js";
+import { calculateDayPriceBreakdown, totalsMatch } from "./shared/pricing.js";
+
+// Mirrors BookingStatus and BookingActorRole in src/firebase/db/model/bookingmodel.ts
+const STATUS_PENDING = "pending";
+const ROLE_RENTER = "renter";
+
+// Mirrors BookingErrorCode in src/firebase/db/model/bookingmodel.ts
+const ERROR_UNAUTHENTICATED = "unauthenticated";
+const ERROR_PERMISSION_DENIED = "permission-denied";
+const ERROR_NOT_FOUND = "not-found";
+const ERROR_INVALID_REQUEST = "invalid-request";
+const ERROR_INVALID_DATES = "invalid-dates";
+const ERROR_LISTING_UNAVAILABLE = "listing-unavailable";
+const ERROR_OUTSIDE_AVAILABILITY = "outside-availability";
+const ERROR_DATES_CONFLICT = "dates-conflict";
+const ERROR_PRICE_MISMATCH = "price-mismatch";
+
+// Mirrors ListingStatus in src/firebase/db/model/carmodel.ts
+const LISTING_ACTIVE = "active";
+
+// Mirrors NotificationType and the booking texts in src/firebase/db/services/notificationService.ts
+const NOTIFICATION_REQUESTED = "booking_requested";
+
+// Mirrors MessageType, BookingMessageEvent and postBookingEventMessage in src/firebase/db/services/messagingService.ts
+const MESSAGE_BOOKING_EVENT = "booking_event";
+const BOOKING_EVENT_REQUESTED = "requested";
+const REQUESTED_TEXT = "Booking requested";
+
+// A lock is written for every day in the booking's transaction, which Firestore caps at 500 writes
+const MAX_BOOKING_DAYS = 180;
+
+// Longest free text accepted with a request
+const MAX_NOTES_LENGTH = 2000;
+const MAX_NAME_LENGTH = 200;
+
+/**
+ * What the app sends to request a booking. The days are calendar days in the
+ * renter's time zone; the car's title, owner and price come from the listing.
+ */
+export interface BookingRequest {
+  carId: string;
+  startDay: string;   // yyyy-MM-dd, first day of the rental
+  endDay: string;     // yyyy-MM-dd, last day of the rental
+  timeZone: string;   // Renter's time zone, e.g. "America/Chicago"
+  totalPrice: number; // Total the renter was quoted
+  renterName: string;
+  renterProfileImage?: string;
+  ownerName: string;
+  notes?: string;
+}
+
+/**
+ * Mirrors BookingResult in src/firebase/db/model/bookingmodel.ts
+ */
+export interface BookingRequestResult {
+  success: boolean;
+  id?: string;
+  error?: string;
+  errorCode?: string;
+}
+
+function failure(error: string, errorCode: string): BookingRequestResult {
+  return { success: false, error, errorCode };
+}
+
+// The callable protocol sends unset fields as null
+function isOptionalString(value: unknown, maxLength: number): value is string | null | undefined {
+  return value === undefined || value === null || (typeof value === "string" && value.length <= maxLength);
+}
+
+/**
+ * Checks the shape of the data sent by the app
+ * @returns The request, or null if a field is missing or malformed
+ */
+function parseBookingRequest(data: unknown): BookingRequest | null {
+  if (!data || typeof data !== "object") return null;
+  const request = data as Record<string, unknown>;
+
+  if (
+    typeof request.carId !== "string" || request.carId.length === 0 || request.carId.includes("/") ||
+    !isDayKey(request.startDay) ||
+    !isDayKey(request.endDay) ||
+    !isTimeZone(request.timeZone) ||
+    typeof request.totalPrice !== "number" || !Number.isFinite(request.totalPrice) ||
+    typeof request.renterName !== "string" || request.renterName.length > MAX_NAME_LENGTH ||
+    typeof request.ownerName !== "string" || request.ownerName.length > MAX_NAME_LENGTH ||
+    !isOptionalString(request.renterProfileImage, MAX_NOTES_LENGTH) ||
+    !isOptionalString(request.notes, MAX_NOTES_LENGTH)
+  ) {
+    return null;
+  }
+
+  return {
+    carId: request.carId,
+    startDay: request.startDay,
+    endDay: request.endDay,
+    timeZone: request.timeZone,
+    totalPrice: request.totalPrice,
+    renterName: request.renterName,
+    renterProfileImage: request.renterProfileImage ?? undefined,
+    ownerName: request.ownerName,
+    notes: request.notes ?? undefined
+  };
+}
+
+/**
+ * Formats a day key like the app does, e.g. "Jan 7, 2030"
+ */
+function formatDayKey(day: string): string {
+  return new Intl.DateTimeFormat("en-US", { timeZone: "UTC", month: "short", day: "numeric", year: "numeric" })
+    .format(new Date(`${day}T00:00:00Z`));
+}
+
+/**
+ * Checks the days against the listing's availability window, the owner's
+ * weekly schedule and blackout ranges, mirroring checkAvailabilityWindow and
+ * isDateBlocked in the app with the dates read in the renter's time zone
+ * @returns An error result, or null if every day can be booked
+ */
+function checkAvailability(
+  listing: DocumentData,
+  availability: DocumentData | undefined,
+  days: string[],
+  timeZone: string
+): BookingRequestResult | null {
+  if (listing.availableFrom instanceof Timestamp && listing.availableTo instanceof Timestamp) {
+    const availableFrom = toDayKey(listing.availableFrom.toDate(), timeZone);
+    const availableTo = toDayKey(listing.availableTo.toDate(), timeZone);
+
+    if (days[0] < availableFrom || days[days.length - 1] > availableTo) {
+      return failure(
+        `This car is only available from ${formatDayKey(availableFrom)} to ${formatDayKey(availableTo)}`,
+        ERROR_OUTSIDE_AVAILABILITY
+      );
+    }
+  }
+
+  const weekdays: number[] | null = Array.isArray(availability?.availableWeekdays)
+    ? availability.availableWeekdays
+    : null;
+  const blackouts = (Array.isArray(availability?.blackouts) ? availability.blackouts : [])
+    .filter((blackout: DocumentData) => blackout.start instanceof Timestamp && blackout.end instanceof Timestamp)
+    .map((blackout: DocumentData) => ({
+      start: toDayKey(blackout.start.toDate(), timeZone),
+      end: toDayKey(blackout.end.toDate(), timeZone)
+    }));
+
+  const blockedDay = days.find((day) =>
+    (weekdays !== null && !weekdays.includes(dayKeyWeekday(day))) ||
+    blackouts.some((blackout: { start: string; end: string }) => day >= blackout.start && day <= blackout.end)
+  );
+
+  return blockedDay
+    ? failure(`This car is not available on ${formatDayKey(blockedDay)}`, ERROR_OUTSIDE_AVAILABILITY)
+    : null;
+}
+
+/**
+ * Creates a booking request for the signed-in renter. The dates are checked
+ * against the listing's availability and reserved through per-day lock
+ * documents in the same transaction, so two renters can never hold the same
+ * car on the same day. The price is rebuilt from the listing and the request
+ * is rejected if the renter was quoted a different total. The owner is
+ * notified and the request is posted to the booking's conversation.
+ * @param db Admin Firestore instance
+ * @param renterId The caller's user ID, undefined if they aren't signed in
+ * @param data The request sent by the app
+ * @returns The new booking's ID, or why it couldn't be created
+ */
+export async function createBookingRequest(
+  db: Firestore,
+  renterId: string | undefined,
+  data: unknown
+): Promise<BookingRequestResult> {
+  if (!renterId) {
+    return failure("User must be authenticated to create a booking", ERROR_UNAUTHENTICATED);
+  }
+
+  const request = parseBookingRequest(data);
+  if (!request) {
+    return failure("The booking request is incomplete", ERROR_INVALID_REQUEST);
+  }
+
+  if (request.startDay > request.endDay) {
+    return failure("End date cannot be before start date", ERROR_INVALID_DATES);
+  }
+
+  const days = dayKeysBetween(request.startDay, request.endDay);
+  if (days.length > MAX_BOOKING_DAYS) {
+    return failure(`Bookings cannot be longer than ${MAX_BOOKING_DAYS} days`, ERROR_INVALID_DATES);
+  }
+
+  const listingRef = db.collection("carListings").doc(request.carId);
+  const locksRef = listingRef.collection("bookingLocks");
+  const bookingRef = db.collection("bookings").doc();
+
+  return db.runTransaction(async (transaction): Promise<BookingRequestResult> => {
+    const [listingSnap, availabilitySnap] = await transaction.getAll(
+      listingRef,
+      db.collection("carAvailability").doc(request.carId)
+    );
+
+    const listing = listingSnap.data();
+    if (!listing) {
+      return failure("Car listing not found", ERROR_NOT_FOUND);
+    }
+
+    if (listing.owner === renterId) {
+      return failure("You can't book your own car", ERROR_PERMISSION_DENIED);
+    }
+
+    if (listing.status && listing.status !== LISTING_ACTIVE) {
+      return failure("This car is not currently available for booking", ERROR_LISTING_UNAVAILABLE);
+    }
+
+    const availabilityError = checkAvailability(listing, availabilitySnap.data(), days, request.timeZone);
+    if (availabilityError) {
+      return availabilityError;
+    }
+
+    const priceBreakdown = calculateDayPriceBreakdown(
+      { price: listing.price, pricing: listing.pricing },
+      request.startDay,
+      request.endDay
+    );
+    if (!totalsMatch(request.totalPrice, priceBreakdown)) {
+      return failure(
+        `The price for this booking has changed to $${priceBreakdown.total.toFixed(2)}. Please review and try again.`,
+        ERROR_PRICE_MISMATCH
+      );
+    }
+
+    // All reads must happen before any writes in a transaction
+    const lockSnaps = await transaction.getAll(...days.map((day) => locksRef.doc(day)));
+    if (lockSnaps.some((lockSnap) => lockSnap.exists)) {
+      return failure("This car is already booked for some of the selected dates", ERROR_DATES_CONFLICT);
+    }
+
+    const booking = {
+      carId: request.carId,
+      carTitle: listing.title ?? "",
+      // Listings are saved with imageUrls; older documents may only have imageUrl
+      carImageUrl: listing.imageUrls?.[0] ?? listing.imageUrl ?? "",
+      renterId,
+      renterName: request.renterName,
+      ...(request.renterProfileImage ? { renterProfileImage: request.renterProfileImage } : {}),
+      ownerId: listing.owner,
+      ownerName: request.ownerName,
+      // Midnights in the renter's time zone, as the app has always stored them
+      startDate: Timestamp.fromDate(startOfDayInZone(request.startDay, request.timeZone)),
+      endDate: Timestamp.fromDate(startOfDayInZone(request.endDay, request.timeZone)),
+      startDay: request.startDay,
+      endDay: request.endDay,
+      totalPrice: priceBreakdown.total,
+      priceBreakdown,
+      status: STATUS_PENDING,
+      ...(request.notes ? { notes: request.notes } : {}),
+      // The expiry job counts the response window from createdAt
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp()
+    };
+
+    transaction.create(bookingRef, booking);
+    days.forEach((day) => {
+      transaction.create(locksRef.doc(day), {
+        bookingId: bookingRef.id,
+        carId: request.carId,
+        day,
+        createdAt: FieldValue.serverTimestamp()
+      });
+    });
+    transaction.create(bookingRef.collection("events").doc(), {
+      fromStatus: null,
+      toStatus: STATUS_PENDING,
+      actorId: renterId,
+      actorRole: ROLE_RENTER,
+      timestamp: FieldValue.serverTimestamp()
+    });
+
+    transaction.create(db.collection("notifications").doc(), {
+      userId: booking.ownerId,
+      type: NOTIFICATION_REQUESTED,
+      title: "New booking request",
+      body: `${booking.renterName} wants to rent your ${booking.carTitle}`,
+      link: "/my-bookings?tab=received",
+      data: { bookingId: bookingRef.id },
+      read: false,
+      createdAt: FieldValue.serverTimestamp()
+    });
+
+    const conversationRef = db.collection("conversations").doc(`booking_${bookingRef.id}`);
+    transaction.set(conversationRef, {
+      participants: [renterId, booking.ownerId],
+      carId: request.carId,
+      bookingId: bookingRef.id,
+      carTitle: booking.carTitle,
+      lastMessage: {
+        text: REQUESTED_TEXT,
+        senderId: renterId,
+        timestamp: FieldValue.serverTimestamp(),
+        type: MESSAGE_BOOKING_EVENT
+      },
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp()
+    }, { merge: true });
+    transaction.create(db.collection("messages").doc(), {
+      conversationId: conversationRef.id,
+      senderId: renterId,
+      text: REQUESTED_TEXT,
+      type: MESSAGE_BOOKING_EVENT,
+      bookingEvent: BOOKING_EVENT_REQUESTED,
+      bookingId: bookingRef.id,
+      timestamp: FieldValue.serverTimestamp(),
+      read: false
+    });
+
+    return { success: true, id: bookingRef.id };
+  });
+}
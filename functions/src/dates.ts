@@ -0,0 +1,51 @@
+/**
+ * Reads the time zone bookings and searches are dated in from the environment,
+ * defaulting to UTC
+ */
+export function getBookingTimeZone(): string {
+  return process.env.BOOKING_TIME_ZONE || "UTC";
+}
+
+/**
+ * Whether a string names a time zone Intl knows, e.g. "America/Chicago"
+ */
+export function isTimeZone(value: unknown): value is string {
+  if (typeof value !== "string" || value.length === 0) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Milliseconds a time zone is ahead of UTC at a moment
+ */
+function timeZoneOffset(time: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit"
+  }).formatToParts(new Date(time));
+  const part = (type: string) => Number(parts.find((entry) => entry.type === type)?.value);
+
+  const wallTime = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+  return wallTime - Math.floor(time / 1000) * 1000;
+}
+
+/**
+ * The moment a day key's day starts in a time zone, as the app's startOfDay
+ * gives it in a browser set to that zone
+ */
+export function startOfDayInZone(day: string, timeZone: string): Date {
+  const utcMidnight = Date.parse(`${day}T00:00:00Z`);
+  const guess = utcMidnight - timeZoneOffset(utcMidnight, timeZone);
+  // The offset can differ at the guess when a DST change falls in between
+  return new Date(utcMidnight - timeZoneOffset(guess, timeZone));
+}
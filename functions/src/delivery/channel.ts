@@ -0,0 +1,22 @@
+import { Firestore } from "firebase-admin/firestore";
+
+/**
+ * A notification ready to send outside the app
+ */
+export interface DeliveryMessage {
+  notificationId: string;
+  type: string;
+  title: string;
+  body: string;
+  url: string;  // Absolute link into the app
+  tag?: string; // Lets channels replace an earlier message about the same thing
+}
+
+/**
+ * A way of reaching users outside the app. Each channel looks up its own
+ * addresses for the recipient (email address, push subscriptions).
+ */
+export interface DeliveryChannel {
+  name: "email" | "push"; // Matches NotificationChannel in src/firebase/db/model/notificationmodel.ts
+  deliver(db: Firestore, userId: string, message: DeliveryMessage): Promise<void>;
+}
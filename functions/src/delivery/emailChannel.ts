@@ -0,0 +1,74 @@
+import nodemailer from "nodemailer";
+import { Firestore } from "firebase-admin/firestore";
+import { DeliveryChannel, DeliveryMessage } from "./channel.js";
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+/**
+ * Reads SMTP settings from the environment
+ * Inside the emulator, missing settings point at a local mail catcher such as
+ * Mailpit or MailHog on localhost:1025; deployed functions need SMTP_HOST.
+ * @returns The settings, or null when email delivery is not configured
+ */
+export function getSmtpOptions(): SmtpOptions | null {
+  const host = process.env.SMTP_HOST || (process.env.FUNCTIONS_EMULATOR === "true" ? "localhost" : "");
+  if (!host) return null;
+
+  const port = parseInt(process.env.SMTP_PORT ?? "", 10);
+
+  return {
+    host,
+    port: Number.isFinite(port) && port > 0 ? port : 1025,
+    secure: process.env.SMTP_SECURE === "true",
+    user: process.env.SMTP_USER || undefined,
+    pass: process.env.SMTP_PASS || undefined,
+    from: process.env.MAIL_FROM || "Vroomly <notifications@vroomly.local>"
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Sends notifications by email over SMTP to the address on the user's profile
+ */
+export function createEmailChannel(options: SmtpOptions): DeliveryChannel {
+  const transport = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    ...(options.user ? { auth: { user: options.user, pass: options.pass } } : {})
+  });
+
+  return {
+    name: "email",
+
+    async deliver(db: Firestore, userId: string, message: DeliveryMessage) {
+      const profileSnap = await db.collection("userProfiles").doc(userId).get();
+      const email = profileSnap.data()?.email;
+      if (typeof email !== "string" || !email) return;
+
+      await transport.sendMail({
+        from: options.from,
+        to: email,
+        subject: message.title,
+        text: `${message.body}\n\n${message.url}\n\nYou can change which emails you receive in your profile preferences.`,
+        html: `<p>${escapeHtml(message.body)}</p>` +
+          `<p><a href="${escapeHtml(message.url)}">Open Vroomly</a></p>` +
+          `<p style="color:#888;font-size:12px">You can change which emails you receive in your profile preferences.</p>`
+      });
+    }
+  };
+}
@@ -0,0 +1,64 @@
+import webpush from "web-push";
+import { Firestore } from "firebase-admin/firestore";
+import { DeliveryChannel, DeliveryMessage } from "./channel.js";
+
+export interface VapidOptions {
+  subject: string;
+  publicKey: string;
+  privateKey: string;
+}
+
+/**
+ * Reads the VAPID key pair from the environment
+ * @returns The keys, or null when push delivery is not configured
+ */
+export function getVapidOptions(): VapidOptions | null {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) return null;
+
+  return {
+    subject: process.env.VAPID_SUBJECT || "mailto:notifications@vroomly.local",
+    publicKey,
+    privateKey
+  };
+}
+
+// Push services answer these for subscriptions that no longer exist
+const GONE_STATUS_CODES = [404, 410];
+
+/**
+ * Sends notifications as web push to every browser the user subscribed,
+ * removing subscriptions the push service reports as gone
+ */
+export function createPushChannel(options: VapidOptions): DeliveryChannel {
+  webpush.setVapidDetails(options.subject, options.publicKey, options.privateKey);
+
+  return {
+    name: "push",
+
+    async deliver(db: Firestore, userId: string, message: DeliveryMessage) {
+      const subscriptions = await db.collection("users").doc(userId).collection("pushSubscriptions").get();
+      const payload = JSON.stringify({
+        title: message.title,
+        body: message.body,
+        link: new URL(message.url).pathname + new URL(message.url).search,
+        tag: message.tag
+      });
+
+      await Promise.all(subscriptions.docs.map(async (subscriptionSnap) => {
+        const { endpoint, keys } = subscriptionSnap.data();
+
+        try {
+          await webpush.sendNotification({ endpoint, keys }, payload);
+        } catch (error) {
+          if (error instanceof webpush.WebPushError && GONE_STATUS_CODES.includes(error.statusCode)) {
+            await subscriptionSnap.ref.delete();
+          } else {
+            throw error;
+          }
+        }
+      }));
+    }
+  };
+}
@@ -0,0 +1,95 @@
+import { initializeApp } from "firebase-admin/app";
+import { getFirestore } from "firebase-admin/firestore";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { onCall } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions";
+import { getResponseWindowHours, processStaleBookings } from "./bookingExpiry.js";
+import { deliverNotification, getDeliveryChannels } from "./notificationDelivery.js";
+import { indexListing } from "./listingSearchIndex.js";
+import { notifySavedSearchMatches } from "./savedSearchAlerts.js";
+import { getBookingTimeZone } from "./dates.js";
+import { createBookingRequest } from "./bookingRequests.js";
+
+initializeApp();
+
+const deliveryChannels = getDeliveryChannels();
+
+/**
+ * Creates a booking request and its day locks; clients can't write bookings directly
+ */
+export const createBooking = onCall(async (request) => {
+  const result = await createBookingRequest(getFirestore(), request.auth?.uid, request.data);
+
+  if (result.success) {
+    logger.info(`Created booking ${result.id}`);
+  }
+  return result;
+});
+
+/**
+ * Expires unanswered booking requests and completes finished rentals
+ */
+export const expireStaleBookings = onSchedule("every 15 minutes", async () => {
+  const result = await processStaleBookings(getFirestore(), {
+    responseWindowHours: getResponseWindowHours()
+  });
+
+  logger.info(`Expired ${result.expired.length} and completed ${result.completed.length} bookings`, result);
+});
+
+/**
+ * Sends new notifications by email and web push according to the recipient's preferences
+ */
+export const deliverNotifications = onDocumentWritten("notifications/{notificationId}", async (event) => {
+  if (!event.data) return;
+
+  const result = await deliverNotification(
+    getFirestore(),
+    event.data.after.ref,
+    event.data.before.data(),
+    event.data.after.data(),
+    deliveryChannels
+  );
+
+  if (result.delivered.length > 0 || result.removed) {
+    logger.info(`Delivered notification ${event.params.notificationId}`, result);
+  }
+});
+
+/**
+ * Keeps the keyword search index in step with the active listings
+ */
+export const indexListings = onDocumentWritten("carListings/{listingId}", async (event) => {
+  if (!event.data) return;
+
+  const written = await indexListing(
+    getFirestore(),
+    event.params.listingId,
+    event.data.before.data(),
+    event.data.after.data()
+  );
+
+  if (written) {
+    logger.info(`Indexed listing ${event.params.listingId}`);
+  }
+});
+
+/**
+ * Alerts users whose saved searches match a listing that just became active
+ */
+export const alertSavedSearches = onDocumentWritten("carListings/{listingId}", async (event) => {
+  if (!event.data) return;
+
+  const notified = await notifySavedSearchMatches(
+    getFirestore(),
+    event.params.listingId,
+    event.data.before.data(),
+    event.data.after.data(),
+    { timeZone: getBookingTimeZone() }
+  );
+
+  if (notified > 0) {
+    logger.info(`Alerted ${notified} users about listing ${event.params.listingId}`);
+  }
+});
@@ -0,0 +1,116 @@
+import { DocumentData, FieldPath, FieldValue, Firestore } from "firebase-admin/firestore";
+import { listingSearchTerms } from "./searchIndex.js";
+
+// Mirrors ListingStatus.ACTIVE in src/firebase/db/model/carmodel.ts
+const ACTIVE_STATUS = "active";
+
+// Listings are spread over this many documents to stay under Firestore's 1 MB
+// document limit; the app reads the whole collection, so it can be raised
+// (followed by a rebuild) as the catalogue grows
+const SHARD_COUNT = 10;
+
+const INDEX_COLLECTION = "listingSearchIndex";
+
+/**
+ * What the app needs of a listing to search and suggest it
+ */
+export interface ListingSearchEntry {
+  title: string;
+  terms: Record<string, number>; // Term -> highest weight of the fields it appears in
+}
+
+export interface IndexRebuildOptions {
+  dryRun?: boolean; // Report what would be indexed without writing
+}
+
+/**
+ * The index document a listing's entry lives in
+ */
+function shardId(listingId: string): string {
+  let hash = 0;
+  for (let i = 0; i < listingId.length; i++) {
+    hash = (hash * 31 + listingId.charCodeAt(i)) >>> 0;
+  }
+  return `shard-${hash % SHARD_COUNT}`;
+}
+
+/**
+ * The index entry of a listing, or null if it shouldn't be searchable
+ */
+export function toSearchEntry(listing: DocumentData | undefined): ListingSearchEntry | null {
+  if (!listing || listing.status !== ACTIVE_STATUS) return null;
+  return { title: listing.title ?? "", terms: listingSearchTerms(listing) };
+}
+
+/**
+ * Updates a listing's entry in the search index after the listing was written.
+ * Active listings are (re)indexed and any other listing is removed. Writes that
+ * don't change the entry, such as new ratings, leave the index alone.
+ * @param db Admin Firestore instance
+ * @param listingId ID of the written listing
+ * @param before The listing before the write, if it existed
+ * @param after The listing after the write, if it still exists
+ * @returns Whether the index was written
+ */
+export async function indexListing(
+  db: Firestore,
+  listingId: string,
+  before: DocumentData | undefined,
+  after: DocumentData | undefined
+): Promise<boolean> {
+  const previous = toSearchEntry(before);
+  const entry = toSearchEntry(after);
+  if (JSON.stringify(previous) === JSON.stringify(entry)) return false;
+
+  // mergeFields replaces the listing's whole entry, so terms it lost don't linger
+  await db.collection(INDEX_COLLECTION).doc(shardId(listingId)).set(
+    {
+      listings: { [listingId]: entry ?? FieldValue.delete() },
+      updatedAt: FieldValue.serverTimestamp()
+    },
+    { mergeFields: [new FieldPath("listings", listingId), "updatedAt"] }
+  );
+  return true;
+}
+
+/**
+ * Rewrites the whole search index from the active listings, for listings
+ * created before the index existed or after changing SHARD_COUNT
+ * @param db Admin Firestore instance
+ * @param options Run options
+ * @returns IDs of the indexed listings
+ */
+export async function rebuildListingSearchIndex(
+  db: Firestore,
+  options: IndexRebuildOptions = {}
+): Promise<string[]> {
+  const snapshot = await db.collection("carListings")
+    .where("status", "==", ACTIVE_STATUS)
+    .get();
+
+  const shards = new Map<string, Record<string, ListingSearchEntry>>();
+  for (let shard = 0; shard < SHARD_COUNT; shard++) {
+    shards.set(`shard-${shard}`, {});
+  }
+  snapshot.docs.forEach((listingSnap) => {
+    shards.get(shardId(listingSnap.id))![listingSnap.id] = toSearchEntry(listingSnap.data())!;
+  });
+
+  if (!options.dryRun) {
+    const batch = db.batch();
+    // Shards left over from a larger SHARD_COUNT would keep stale entries
+    const existing = await db.collection(INDEX_COLLECTION).listDocuments();
+    existing
+      .filter((shardRef) => !shards.has(shardRef.id))
+      .forEach((shardRef) => batch.delete(shardRef));
+    shards.forEach((listings, id) => {
+      batch.set(db.collection(INDEX_COLLECTION).doc(id), {
+        listings,
+        updatedAt: FieldValue.serverTimestamp()
+      });
+    });
+    await batch.commit();
+  }
+
+  return snapshot.docs.map((listingSnap) => listingSnap.id);
+}
@@ -0,0 +1,155 @@
+import { DocumentData, DocumentReference, Firestore, Timestamp } from "firebase-admin/firestore";
+import { logger } from "firebase-functions";
+import { DeliveryChannel } from "./delivery/channel.js";
+import { createEmailChannel, getSmtpOptions } from "./delivery/emailChannel.js";
+import { createPushChannel, getVapidOptions } from "./delivery/pushChannel.js";
+
+// Mirrors NotificationCategory, NOTIFICATION_CATEGORIES and DEFAULT_NOTIFICATION_PREFERENCES
+// in src/firebase/db/model/notificationmodel.ts
+type Channel = "inApp" | "email" | "push";
+type ChannelPreferences = Record<Channel, boolean>;
+
+const CATEGORIES: Record<string, string> = {
+  saved_search_match: "savedSearches",
+  booking_requested: "bookingRequests",
+  booking_approved: "bookingUpdates",
+  booking_rejected: "bookingUpdates",
+  booking_canceled: "bookingUpdates",
+  booking_started: "bookingUpdates",
+  booking_completed: "bookingUpdates",
+  booking_expired: "bookingUpdates",
+  review_received: "reviews",
+  car_review_received: "reviews",
+  new_message: "messages"
+};
+
+const DEFAULT_PREFERENCES: Record<string, ChannelPreferences> = {
+  bookingRequests: { inApp: true, email: true, push: true },
+  bookingUpdates: { inApp: true, email: true, push: true },
+  messages: { inApp: true, email: true, push: true },
+  reviews: { inApp: true, email: true, push: false },
+  savedSearches: { inApp: true, email: true, push: false }
+};
+
+export interface DeliveryResult {
+  delivered: string[]; // Channels the notification was sent through
+  removed: boolean;    // Whether the in-app copy was deleted
+}
+
+/**
+ * Builds the channels configured through the environment
+ */
+export function getDeliveryChannels(): DeliveryChannel[] {
+  const smtp = getSmtpOptions();
+  const vapid = getVapidOptions();
+
+  return [
+    ...(smtp ? [createEmailChannel(smtp)] : []),
+    ...(vapid ? [createPushChannel(vapid)] : [])
+  ];
+}
+
+/**
+ * A category's channels for a user, mirroring resolveNotificationPreferences in
+ * src/firebase/db/services/notificationService.ts
+ */
+async function getChannelPreferences(db: Firestore, userId: string, category: string): Promise<ChannelPreferences> {
+  const profileSnap = await db.collection("userProfiles").doc(userId).get();
+  const stored = profileSnap.data()?.userPreferences?.notifications;
+  const defaults = DEFAULT_PREFERENCES[category] ?? { inApp: true, email: false, push: false };
+
+  if (stored && typeof stored === "object") {
+    return { ...defaults, ...stored[category] };
+  }
+  return stored === false ? { ...defaults, email: false, push: false } : defaults;
+}
+
+/**
+ * Whether the recipient already has an earlier unread message in a conversation
+ * The messages' own read state is used rather than the notification's, since the
+ * notification is deleted when in-app notifications are off.
+ */
+async function hasEarlierUnreadMessage(db: Firestore, conversationId: string, recipientId: string): Promise<boolean> {
+  const conversationSnap = await db.collection("conversations").doc(conversationId).get();
+  const participants: string[] = conversationSnap.data()?.participants ?? [];
+
+  const snapshots = await Promise.all(participants
+    .filter((participantId) => participantId !== recipientId)
+    .map((senderId) => db.collection("messages")
+      .where("conversationId", "==", conversationId)
+      .where("senderId", "==", senderId)
+      .where("read", "==", false)
+      .limit(2)
+      .get()));
+
+  return snapshots.reduce((total, snapshot) => total + snapshot.size, 0) > 1;
+}
+
+/**
+ * Sends a newly written notification through the recipient's preferred channels
+ * Message notifications are rewritten for every message in a conversation; those
+ * are pushed each time but emailed only for the first message the recipient
+ * hasn't read, so a busy conversation sends one email rather than one per
+ * message. When the recipient turned in-app notifications off for the category,
+ * the stored copy is deleted once the other channels have been tried.
+ * @param db Admin Firestore instance
+ * @param ref The notification document
+ * @param before Its data before the write, if it existed
+ * @param after Its data after the write, if it still exists
+ * @param channels The configured delivery channels
+ */
+export async function deliverNotification(
+  db: Firestore,
+  ref: DocumentReference,
+  before: DocumentData | undefined,
+  after: DocumentData | undefined,
+  channels: DeliveryChannel[]
+): Promise<DeliveryResult> {
+  const result: DeliveryResult = { delivered: [], removed: false };
+
+  // Deleted, or only marked read
+  if (!after) return result;
+  if (before && before.createdAt instanceof Timestamp && after.createdAt instanceof Timestamp &&
+      before.createdAt.isEqual(after.createdAt)) {
+    return result;
+  }
+
+  const category = CATEGORIES[after.type];
+  const preferences = await getChannelPreferences(db, after.userId, category);
+  const conversationId = after.type === "new_message" ? after.data?.conversationId : undefined;
+  const repeatsUnread = preferences.email && typeof conversationId === "string" &&
+    await hasEarlierUnreadMessage(db, conversationId, after.userId);
+  const appUrl = (process.env.APP_URL || "http://localhost:5173").replace(/\/$/, "");
+
+  const message = {
+    notificationId: ref.id,
+    type: after.type,
+    title: after.title,
+    body: after.body,
+    url: `${appUrl}${after.link}`,
+    tag: after.type === "new_message" ? ref.id : undefined
+  };
+
+  const outcomes = await Promise.allSettled(channels
+    .filter((channel) => preferences[channel.name])
+    .filter((channel) => !(channel.name === "email" && repeatsUnread))
+    .map(async (channel) => {
+      await channel.deliver(db, after.userId, message);
+      return channel.name;
+    }));
+
+  outcomes.forEach((outcome) => {
+    if (outcome.status === "fulfilled") {
+      result.delivered.push(outcome.value);
+    } else {
+      logger.error(`Failed to deliver notification ${ref.id}`, outcome.reason);
+    }
+  });
+
+  if (!preferences.inApp) {
+    await ref.delete();
+    result.removed = true;
+  }
+
+  return result;
+}
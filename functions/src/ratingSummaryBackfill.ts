@@ -0,0 +1,48 @@
+import { Firestore } from "firebase-admin/firestore";
+
+// Mirrors EMPTY_CAR_RATING_SUMMARY in src/firebase/db/model/reviewmodel.ts
+const EMPTY_CAR_RATING_SUMMARY = {
+  count: 0,
+  average: 0,
+  cleanliness: 0,
+  accuracy: 0,
+  comfort: 0,
+  totals: { cleanliness: 0, accuracy: 0, comfort: 0 }
+};
+
+// Firestore batches hold at most 500 writes
+const MAX_BATCH_SIZE = 500;
+
+export interface RatingBackfillOptions {
+  dryRun?: boolean; // Report what would change without writing
+}
+
+/**
+ * Gives listings created before car ratings existed the empty rating summary
+ * new listings start with. Firestore leaves documents without the field out of
+ * queries ordered by it, so until then they never appear in the rating sort.
+ * A listing's first review writes its summary, so listings without one have
+ * no reviews to count.
+ * @param db Admin Firestore instance
+ * @param options Run options
+ * @returns IDs of the listings that were updated
+ */
+export async function backfillListingRatingSummaries(
+  db: Firestore,
+  options: RatingBackfillOptions = {}
+): Promise<string[]> {
+  const snapshot = await db.collection("carListings").get();
+  const missing = snapshot.docs.filter((listingSnap) => listingSnap.get("ratingSummary") === undefined);
+
+  if (!options.dryRun) {
+    for (let start = 0; start < missing.length; start += MAX_BATCH_SIZE) {
+      const batch = db.batch();
+      missing.slice(start, start + MAX_BATCH_SIZE).forEach((listingSnap) => {
+        batch.update(listingSnap.ref, { ratingSummary: EMPTY_CAR_RATING_SUMMARY });
+      });
+      await batch.commit();
+    }
+  }
+
+  return missing.map((listingSnap) => listingSnap.id);
+}
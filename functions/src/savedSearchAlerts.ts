@@ -0,0 +1,245 @@
+import { DocumentData, FieldValue, Firestore, Timestamp } from "firebase-admin/firestore";
+import { toDayKey } from "./shared/dayKeys.js";
+import { listingSearchTerms, matchesQuery } from "./searchIndex.js";
+
+// Mirrors ListingStatus.ACTIVE in src/firebase/db/model/carmodel.ts
+const ACTIVE_STATUS = "active";
+
+// Mirror FuelType and TransmissionType in src/firebase/db/model/carmodel.ts
+const FUEL_TYPES = ["gasoline", "diesel", "electric", "hybrid", "plugin_hybrid"];
+const TRANSMISSION_TYPES = ["automatic", "manual"];
+
+// Firestore batches hold at most 500 writes
+const MAX_BATCH_SIZE = 500;
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+interface Bounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+/**
+ * The filters of a saved search; mirrors CarSearchFilters in
+ * src/firebase/db/model/carmodel.ts, with the date range as day keys
+ */
+interface SavedSearchFilters {
+  query?: string;
+  location?: string;
+  priceMin?: number;
+  priceMax?: number;
+  make?: string;
+  fuelType?: string;
+  transmission?: string;
+  seatsMin?: number;
+  availableFrom?: string; // yyyy-MM-dd
+  availableTo?: string;   // yyyy-MM-dd
+  near?: Coordinates;
+  radiusMiles?: number;
+  bounds?: Bounds;
+}
+
+export interface SavedSearchAlertOptions {
+  timeZone: string; // Zone the listing's availability window is read in
+}
+
+function parseNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === "") return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : undefined;
+}
+
+function parseDay(value: string | null): string | undefined {
+  return value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)) ? value : undefined;
+}
+
+// Coordinates are written as "lat,lng"
+function parseCoordinates(value: string | null): Coordinates | undefined {
+  const [lat, lng] = (value ?? "").split(",").map((part) => Number(part));
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return undefined;
+  }
+  return { lat, lng };
+}
+
+// Bounds are written as "south,west,north,east"
+function parseBounds(value: string | null): Bounds | undefined {
+  const [south, west, north, east] = (value ?? "").split(",").map((part) => Number(part));
+  if (![south, west, north, east].every(Number.isFinite) || south >= north || Math.abs(south) > 90 ||
+      Math.abs(north) > 90 || Math.abs(west) > 180 || Math.abs(east) > 180) {
+    return undefined;
+  }
+  return { south, west, north, east };
+}
+
+function parseOption(value: string | null, options: string[]): string | undefined {
+  return options.find((option) => option === value);
+}
+
+/**
+ * Reads the filters of a saved search from its query parameters, ignoring
+ * invalid values; mirrors filtersFromSearchParams in src/utils/carSearchParams.ts
+ */
+function filtersFromParams(params: URLSearchParams): SavedSearchFilters {
+  const filters: SavedSearchFilters = {
+    query: params.get("q")?.trim() || undefined,
+    location: params.get("location")?.trim() || undefined,
+    priceMin: parseNumber(params.get("minPrice")),
+    priceMax: parseNumber(params.get("maxPrice")),
+    make: params.get("make") || undefined,
+    fuelType: parseOption(params.get("fuel"), FUEL_TYPES),
+    transmission: parseOption(params.get("transmission"), TRANSMISSION_TYPES),
+    seatsMin: parseNumber(params.get("seats")),
+    availableFrom: parseDay(params.get("from")),
+    availableTo: parseDay(params.get("to")),
+    near: parseCoordinates(params.get("near")),
+    radiusMiles: parseNumber(params.get("radius")) || undefined,
+    bounds: parseBounds(params.get("bbox"))
+  };
+
+  // The radius only applies to an origin
+  if (!filters.near) filters.radiusMiles = undefined;
+
+  // A date range is only meaningful with both ends in order
+  if (!filters.availableFrom || !filters.availableTo || filters.availableTo < filters.availableFrom) {
+    filters.availableFrom = undefined;
+    filters.availableTo = undefined;
+  }
+
+  return filters;
+}
+
+/**
+ * Great-circle distance between two points in miles
+ */
+function distanceInMiles(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+}
+
+// Mirrors isWithinBounds in src/firebase/db/services/geoSearchService.ts
+function isWithinBounds(point: Coordinates, bounds: Bounds): boolean {
+  if (point.lat < bounds.south || point.lat > bounds.north) return false;
+  return bounds.west <= bounds.east
+    ? point.lng >= bounds.west && point.lng <= bounds.east
+    : point.lng >= bounds.west || point.lng <= bounds.east;
+}
+
+/**
+ * Checks a listing against a saved search, like the search page's filters do.
+ * Bookings aren't looked up, so a date range only checks the listing's
+ * availability window.
+ */
+function listingMatchesFilters(listing: DocumentData, filters: SavedSearchFilters, timeZone: string): boolean {
+  if (filters.query && !matchesQuery(listingSearchTerms(listing), filters.query)) return false;
+
+  if (filters.location) {
+    const location = String(listing.location ?? "").toLowerCase();
+    if (!location.includes(filters.location.toLowerCase())) return false;
+  }
+
+  if (filters.priceMin !== undefined && listing.price < filters.priceMin) return false;
+  if (filters.priceMax !== undefined && listing.price > filters.priceMax) return false;
+
+  const carInfo = listing.carInfo ?? {};
+
+  if (filters.make && String(carInfo.make ?? "").toLowerCase() !== filters.make.toLowerCase()) return false;
+  if (filters.fuelType && carInfo.fuelType !== filters.fuelType) return false;
+  if (filters.transmission && carInfo.transmission !== filters.transmission) return false;
+  if (filters.seatsMin !== undefined && (carInfo.seats ?? 0) < filters.seatsMin) return false;
+
+  if (filters.availableFrom && filters.availableTo) {
+    // The whole trip has to fit inside the listing's availability window
+    if (listing.availableFrom instanceof Timestamp &&
+        toDayKey(listing.availableFrom.toDate(), timeZone) > filters.availableFrom) {
+      return false;
+    }
+    if (listing.availableTo instanceof Timestamp &&
+        toDayKey(listing.availableTo.toDate(), timeZone) < filters.availableTo) {
+      return false;
+    }
+  }
+
+  if (filters.bounds && (!listing.coordinates || !isWithinBounds(listing.coordinates, filters.bounds))) {
+    return false;
+  }
+
+  if (filters.near && filters.radiusMiles) {
+    if (!listing.coordinates || distanceInMiles(filters.near, listing.coordinates) > filters.radiusMiles) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Notifies users whose saved searches match a listing that just became
+ * active, either as a new listing or by being reactivated. Owners aren't told
+ * about their own cars, and each user gets at most one alert per listing.
+ * @param db Admin Firestore instance
+ * @param listingId ID of the written listing
+ * @param before The listing before the write, if it existed
+ * @param after The listing after the write, if it still exists
+ * @param options Matching options
+ * @returns Number of users notified
+ */
+export async function notifySavedSearchMatches(
+  db: Firestore,
+  listingId: string,
+  before: DocumentData | undefined,
+  after: DocumentData | undefined,
+  options: SavedSearchAlertOptions
+): Promise<number> {
+  if (after?.status !== ACTIVE_STATUS || before?.status === ACTIVE_STATUS) return 0;
+
+  const snapshot = await db.collectionGroup("savedSearches")
+    .where("alertsEnabled", "==", true)
+    .get();
+
+  const notifiedUsers = new Set<string>();
+  // Mirrors the saved_search_match case of toNotificationData in
+  // src/firebase/db/services/notificationService.ts
+  const notifications: DocumentData[] = [];
+
+  snapshot.docs.forEach((searchSnap) => {
+    const search = searchSnap.data();
+    if (search.userId === after.owner || notifiedUsers.has(search.userId)) return;
+
+    const filters = filtersFromParams(new URLSearchParams(search.params ?? ""));
+    if (!listingMatchesFilters(after, filters, options.timeZone)) return;
+
+    notifiedUsers.add(search.userId);
+    notifications.push({
+      userId: search.userId,
+      type: "saved_search_match",
+      title: `New match for "${search.name}"`,
+      body: `${after.title} - $${after.price}/day in ${after.location}`,
+      link: `/cars/${listingId}`,
+      data: { listingId, savedSearchId: searchSnap.id },
+      read: false,
+      createdAt: FieldValue.serverTimestamp()
+    });
+  });
+
+  for (let start = 0; start < notifications.length; start += MAX_BATCH_SIZE) {
+    const batch = db.batch();
+    notifications.slice(start, start + MAX_BATCH_SIZE).forEach((notification) => {
+      batch.set(db.collection("notifications").doc(), notification);
+    });
+    await batch.commit();
+  }
+
+  return notifications.length;
+}
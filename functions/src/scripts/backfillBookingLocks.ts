@@ -0,0 +1,30 @@
+// Writes the day locks of active bookings created before day locks existed.
+// Against the emulator:  FIRESTORE_EMULATOR_HOST=127.0.0.1:8080 npm run backfill-locks
+// Against a project:     GOOGLE_APPLICATION_CREDENTIALS=key.json npm run backfill-locks
+// Older bookings only store their dates, which are read in BOOKING_TIME_ZONE (default UTC).
+// Pass --dry-run to list the bookings that would be locked without writing.
+import { initializeApp } from "firebase-admin/app";
+import { getFirestore } from "firebase-admin/firestore";
+import { backfillBookingLocks } from "../bookingLockBackfill.js";
+import { getBookingTimeZone } from "../dates.js";
+
+initializeApp({
+  projectId: process.env.GCLOUD_PROJECT || process.env.FIREBASE_PROJECT_ID || "vroomly-a6aea"
+});
+
+const dryRun = process.argv.includes("--dry-run");
+
+try {
+  const result = await backfillBookingLocks(getFirestore(), {
+    timeZone: getBookingTimeZone(),
+    dryRun
+  });
+
+  console.log(`${dryRun ? "[dry run] " : ""}Locked ${result.locked.length} bookings`, result.locked);
+  if (result.conflicts.length > 0) {
+    console.warn(`${result.conflicts.length} days are held by another booking`, result.conflicts);
+  }
+} catch (error) {
+  console.error("Booking lock backfill failed:", error);
+  process.exitCode = 1;
+}
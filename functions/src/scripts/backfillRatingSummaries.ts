@@ -0,0 +1,22 @@
+// Adds the empty rating summary to listings created before car ratings existed,
+// so they show up when listings are sorted by rating.
+// Against the emulator:  FIRESTORE_EMULATOR_HOST=127.0.0.1:8080 npm run backfill-ratings
+// Against a project:     GOOGLE_APPLICATION_CREDENTIALS=key.json npm run backfill-ratings
+// Pass --dry-run to list the listings that would change without writing.
+import { initializeApp } from "firebase-admin/app";
+import { getFirestore } from "firebase-admin/firestore";
+import { backfillListingRatingSummaries } from "../ratingSummaryBackfill.js";
+
+initializeApp({
+  projectId: process.env.GCLOUD_PROJECT || process.env.FIREBASE_PROJECT_ID || "vroomly-a6aea"
+});
+
+const dryRun = process.argv.includes("--dry-run");
+
+try {
+  const updated = await backfillListingRatingSummaries(getFirestore(), { dryRun });
+  console.log(`${dryRun ? "[dry run] " : ""}Added rating summaries to ${updated.length} listings`, updated);
+} catch (error) {
+  console.error("Rating summary backfill failed:", error);
+  process.exitCode = 1;
+}
@@ -0,0 +1,22 @@
+// Rewrites the keyword search index from the active listings, e.g. for listings
+// created before the index existed or after changing its shard count.
+// Against the emulator:  FIRESTORE_EMULATOR_HOST=127.0.0.1:8080 npm run rebuild-search-index
+// Against a project:     GOOGLE_APPLICATION_CREDENTIALS=key.json npm run rebuild-search-index
+// Pass --dry-run to list the listings that would be indexed without writing.
+import { initializeApp } from "firebase-admin/app";
+import { getFirestore } from "firebase-admin/firestore";
+import { rebuildListingSearchIndex } from "../listingSearchIndex.js";
+
+initializeApp({
+  projectId: process.env.GCLOUD_PROJECT || process.env.FIREBASE_PROJECT_ID || "vroomly-a6aea"
+});
+
+const dryRun = process.argv.includes("--dry-run");
+
+try {
+  const indexed = await rebuildListingSearchIndex(getFirestore(), { dryRun });
+  console.log(`${dryRun ? "[dry run] " : ""}Indexed ${indexed.length} listings`, indexed);
+} catch (error) {
+  console.error("Search index rebuild failed:", error);
+  process.exitCode = 1;
+}
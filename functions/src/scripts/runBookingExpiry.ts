@@ -0,0 +1,26 @@
+// Runs the booking expiry job once, outside of Cloud Functions.
+// Against the emulator:  FIRESTORE_EMULATOR_HOST=127.0.0.1:8080 npm run expire-bookings
+// Against a project:     GOOGLE_APPLICATION_CREDENTIALS=key.json npm run expire-bookings
+// Pass --dry-run to list the bookings that would change without writing.
+import { initializeApp } from "firebase-admin/app";
+import { getFirestore } from "firebase-admin/firestore";
+import { getResponseWindowHours, processStaleBookings } from "../bookingExpiry.js";
+
+initializeApp({
+  projectId: process.env.GCLOUD_PROJECT || process.env.FIREBASE_PROJECT_ID || "vroomly-a6aea"
+});
+
+const dryRun = process.argv.includes("--dry-run");
+
+try {
+  const result = await processStaleBookings(getFirestore(), {
+    responseWindowHours: getResponseWindowHours(),
+    dryRun
+  });
+
+  console.log(`${dryRun ? "[dry run] " : ""}Expired ${result.expired.length} pending bookings`, result.expired);
+  console.log(`${dryRun ? "[dry run] " : ""}Completed ${result.completed.length} bookings`, result.completed);
+} catch (error) {
+  console.error("Booking expiry job failed:", error);
+  process.exitCode = 1;
+}
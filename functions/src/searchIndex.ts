@@ -0,0 +1,49 @@
+import { DocumentData } from "firebase-admin/firestore";
+import { allowedTypos, boundedEditDistance, MIN_PREFIX_LENGTH, tokenize } from "./shared/textSearch.js";
+
+// Relative weight of each listing field in keyword search
+const FIELD_WEIGHTS = {
+  title: 3,
+  makeModel: 3,
+  features: 2,
+  description: 1
+};
+
+/**
+ * The search terms of a listing, each with the highest weight of the fields it appears in
+ */
+export function listingSearchTerms(listing: DocumentData): Record<string, number> {
+  const fields = [
+    { text: listing.title ?? "", weight: FIELD_WEIGHTS.title },
+    { text: `${listing.carInfo?.make ?? ""} ${listing.carInfo?.model ?? ""}`, weight: FIELD_WEIGHTS.makeModel },
+    { text: (listing.features ?? []).join(" "), weight: FIELD_WEIGHTS.features },
+    { text: listing.description ?? "", weight: FIELD_WEIGHTS.description }
+  ];
+
+  const terms: Record<string, number> = {};
+  fields.forEach((field) => {
+    tokenize(field.text).forEach((term) => {
+      terms[term] = Math.max(terms[term] ?? 0, field.weight);
+    });
+  });
+  return terms;
+}
+
+/**
+ * Whether a keyword query finds a document, as searchIndex in the app would:
+ * every query term has to match one of its terms exactly, as a prefix or with a typo
+ * @param terms The document's terms, e.g. from listingSearchTerms
+ * @param query The search text
+ */
+export function matchesQuery(terms: Record<string, number>, query: string): boolean {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0) return false;
+
+  const documentTerms = Object.keys(terms);
+
+  return queryTerms.every((queryTerm) => documentTerms.some((term) =>
+    term === queryTerm ||
+    (queryTerm.length >= MIN_PREFIX_LENGTH && term.startsWith(queryTerm)) ||
+    boundedEditDistance(queryTerm, term, allowedTypos(queryTerm)) <= allowedTypos(queryTerm)
+  ));
+}
@@ -0,0 +1,40 @@
+// Calendar days as yyyy-MM-dd keys, shared by the app (imported as
+// @shared/dayKeys) and the Cloud Functions. A key names a day without a time
+// zone, so both sides count and price the same days whatever zone they run in.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a value is a yyyy-MM-dd key of a real calendar day
+ */
+export function isDayKey(value: unknown): value is string {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return Number.isFinite(time) && new Date(time).toISOString().slice(0, 10) === value;
+}
+
+/**
+ * The yyyy-MM-dd key of a moment in a time zone
+ */
+export function toDayKey(date: Date, timeZone: string): string {
+  // en-CA formats dates as yyyy-MM-dd
+  return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(date);
+}
+
+/**
+ * Lists the day keys from one key to another, both ends inclusive
+ */
+export function dayKeysBetween(startDay: string, endDay: string): string[] {
+  const days: string[] = [];
+  for (let time = Date.parse(`${startDay}T00:00:00Z`); time <= Date.parse(`${endDay}T00:00:00Z`); time += DAY_MS) {
+    days.push(new Date(time).toISOString().slice(0, 10));
+  }
+  return days;
+}
+
+/**
+ * Day of the week of a day key, 0 for Sunday as in Date.getDay
+ */
+export function dayKeyWeekday(day: string): number {
+  return new Date(`${day}T00:00:00Z`).getUTCDay();
+}
@@ -0,0 +1,198 @@
+// Booking pricing, shared by the app (imported as @shared/pricing) and the
+// createBooking function, which rebuilds the quote the renter saw and rejects
+// the booking if the totals differ.
+
+import { dayKeysBetween, dayKeyWeekday } from "./dayKeys.js";
+
+export interface PricingConfig {
+  serviceFeeFlat: number;      // Fixed fee added to every booking (USD)
+  serviceFeePercent: number;   // Percentage of the discounted rental subtotal
+  taxRate: number;             // Tax rate applied to rental subtotal + service fee (e.g. 0.08)
+  weeklyDiscountMinDays: number;
+  monthlyDiscountMinDays: number;
+  currency: string;
+}
+
+export const PRICING_CONFIG: PricingConfig = {
+  serviceFeeFlat: 10,
+  serviceFeePercent: 0,
+  taxRate: 0,
+  weeklyDiscountMinDays: 7,
+  monthlyDiscountMinDays: 28,
+  currency: "USD",
+};
+
+/**
+ * Kind of charge in a price breakdown
+ */
+export enum PriceLineItemType {
+  WEEKDAY = "weekday",
+  WEEKEND = "weekend",
+  DISCOUNT = "discount",
+  SERVICE_FEE = "service_fee",
+  TAX = "tax"
+}
+
+/**
+ * A single itemized charge (discounts have a negative amount)
+ */
+export interface PriceLineItem {
+  type: PriceLineItemType;
+  label: string;
+  quantity?: number;   // Number of days for per-day charges
+  unitPrice?: number;  // Price per day for per-day charges
+  amount: number;
+}
+
+/**
+ * Itemized quote for a booking, rebuilt from the car listing
+ */
+export interface PriceBreakdown {
+  currency: string;
+  days: number;
+  weekdayDays: number;
+  weekendDays: number;
+  lineItems: PriceLineItem[];
+  rentalSubtotal: number;  // Daily charges before discounts
+  discount: number;        // Positive amount taken off the rental subtotal
+  serviceFee: number;
+  taxes: number;
+  total: number;
+}
+
+/**
+ * The listing fields that pricing depends on
+ */
+export interface PricedListing {
+  price: number;
+  pricing?: {
+    weekendPrice?: number;
+    weeklyDiscountPercent?: number;
+    monthlyDiscountPercent?: number;
+  };
+}
+
+/**
+ * Rounds a currency amount to cents
+ */
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Clamps an owner-provided discount to a sane percentage
+ */
+function normalizePercent(percent: number | undefined): number {
+  if (!percent || !Number.isFinite(percent)) return 0;
+  return Math.min(Math.max(percent, 0), 100);
+}
+
+/**
+ * Builds an itemized quote for renting a car between two days (both inclusive)
+ * @param listing The car listing (or its pricing fields)
+ * @param startDay First day of the rental (yyyy-MM-dd)
+ * @param endDay Last day of the rental (yyyy-MM-dd)
+ * @param config Service fee and tax configuration
+ * @returns The price breakdown, with every amount rounded to cents
+ */
+export function calculateDayPriceBreakdown(
+  listing: PricedListing,
+  startDay: string,
+  endDay: string,
+  config: PricingConfig = PRICING_CONFIG
+): PriceBreakdown {
+  const days = dayKeysBetween(startDay, endDay);
+
+  const weekdayRate = listing.price || 0;
+  const weekendRate = listing.pricing?.weekendPrice ?? weekdayRate;
+  const weekendDays = days.filter((day) => [0, 6].includes(dayKeyWeekday(day))).length;
+  const weekdayDays = days.length - weekendDays;
+
+  const lineItems: PriceLineItem[] = [];
+
+  if (weekdayDays > 0) {
+    lineItems.push({
+      type: PriceLineItemType.WEEKDAY,
+      label: `Weekdays ($${weekdayRate} × ${weekdayDays})`,
+      quantity: weekdayDays,
+      unitPrice: weekdayRate,
+      amount: roundCurrency(weekdayDays * weekdayRate)
+    });
+  }
+
+  if (weekendDays > 0) {
+    lineItems.push({
+      type: PriceLineItemType.WEEKEND,
+      label: `Weekend days ($${weekendRate} × ${weekendDays})`,
+      quantity: weekendDays,
+      unitPrice: weekendRate,
+      amount: roundCurrency(weekendDays * weekendRate)
+    });
+  }
+
+  const rentalSubtotal = roundCurrency(
+    lineItems.reduce((sum, item) => sum + item.amount, 0)
+  );
+
+  // Monthly discount replaces the weekly one rather than stacking with it
+  let discountPercent = 0;
+  let discountLabel = "";
+  if (days.length >= config.monthlyDiscountMinDays && normalizePercent(listing.pricing?.monthlyDiscountPercent) > 0) {
+    discountPercent = normalizePercent(listing.pricing?.monthlyDiscountPercent);
+    discountLabel = `Monthly discount (${discountPercent}%)`;
+  } else if (days.length >= config.weeklyDiscountMinDays && normalizePercent(listing.pricing?.weeklyDiscountPercent) > 0) {
+    discountPercent = normalizePercent(listing.pricing?.weeklyDiscountPercent);
+    discountLabel = `Weekly discount (${discountPercent}%)`;
+  }
+
+  const discount = roundCurrency(rentalSubtotal * discountPercent / 100);
+  if (discount > 0) {
+    lineItems.push({
+      type: PriceLineItemType.DISCOUNT,
+      label: discountLabel,
+      amount: -discount
+    });
+  }
+
+  const discountedSubtotal = rentalSubtotal - discount;
+
+  const serviceFee = days.length > 0
+    ? roundCurrency(config.serviceFeeFlat + discountedSubtotal * config.serviceFeePercent / 100)
+    : 0;
+  if (serviceFee > 0) {
+    lineItems.push({
+      type: PriceLineItemType.SERVICE_FEE,
+      label: "Service fee",
+      amount: serviceFee
+    });
+  }
+
+  const taxes = roundCurrency((discountedSubtotal + serviceFee) * config.taxRate);
+  if (taxes > 0) {
+    lineItems.push({
+      type: PriceLineItemType.TAX,
+      label: "Taxes",
+      amount: taxes
+    });
+  }
+
+  return {
+    currency: config.currency,
+    days: days.length,
+    weekdayDays,
+    weekendDays,
+    lineItems,
+    rentalSubtotal,
+    discount,
+    serviceFee,
+    taxes,
+    total: roundCurrency(discountedSubtotal + serviceFee + taxes)
+  };
+}
+
+/**
+ * Checks whether a client-provided total matches a computed breakdown
+ */
+export function totalsMatch(clientTotal: number, breakdown: PriceBreakdown): boolean {
+  return Math.abs(clientTotal - breakdown.total) < 0.005;
+}
@@ -0,0 +1,60 @@
+// Tokenizing and term matching shared by the app's keyword search
+// (src/utils/searchIndex.ts, imported as @shared/textSearch) and the Cloud
+// Functions that index listings. Both have to split text the same way for
+// queries typed in the app to match the indexed terms, so this module must
+// not import anything from either side.
+
+// Only complete words at least this long are matched as prefixes or with typos
+export const MIN_PREFIX_LENGTH = 2;
+export const MIN_TYPO_LENGTH = 4;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "in", "is",
+  "it", "of", "on", "or", "the", "to", "with"
+]);
+
+/**
+ * Splits text into lowercase search terms without accents or stop words
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((term) => term.length > 0 && !STOP_WORDS.has(term));
+}
+
+/**
+ * Edit distance between two terms, giving up once it exceeds maxDistance
+ * @returns The distance, or maxDistance + 1 if it is larger
+ */
+export function boundedEditDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * How many typos a query term may have; longer words are allowed more
+ */
+export function allowedTypos(term: string): number {
+  if (term.length < MIN_TYPO_LENGTH) return 0;
+  return term.length < 8 ? 1 : 2;
+}
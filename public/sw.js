@@ -0,0 +1,34 @@
+// Service worker for web push notifications (see src/utils/pushNotifications.ts)
+// The delivery function in functions/ sends JSON payloads of { title, body, link, tag }.
+
+self.addEventListener("push", (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : "" };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || "Vroomly", {
+      body: payload.body || "",
+      icon: "/favicon.ico",
+      tag: payload.tag,          // Replaces an earlier notification for the same conversation
+      renotify: Boolean(payload.tag),
+      data: { link: payload.link || "/notifications" }
+    })
+  );
+});
+
+// Focus a tab already showing the notification's page, or open one
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.link || "/", self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windowClients) => {
+      const existing = windowClients.find((client) => client.url === url);
+      return existing ? existing.focus() : self.clients.openWindow(url);
+    })
+  );
+});
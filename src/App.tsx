@@ -20,7 +20,9 @@ import { useEffect } from 'react';
 import { populateCarDataToFirestore } from '@/firebase/db/services/carMakeModelService';
 import { Toaster } from "@/components/ui/toaster";
 import { MessageNotifier } from "@/components/notifications/MessageNotifier";
+import { MessageOutboxSender } from "@/components/messaging/MessageOutboxSender";
 import { MyBookingsPage } from "./pages/MyBookingsPage";
+import { NotificationsPage } from "./pages/NotificationsPage";
 
 function App() {
   // Initialize car data in Firestore when the app starts
@@ -75,12 +77,18 @@ function App() {
                     <MyBookingsPage />
                   </ProtectedRoute>
                 } />
+                <Route path="/notifications" element={
+                  <ProtectedRoute>
+                    <NotificationsPage />
+                  </ProtectedRoute>
+                } />
                 <Route path="*" element={<NotFoundPage />} />
               </Routes>
             </main>
             <Footer />
             <Toaster />
             <MessageNotifier />
+            <MessageOutboxSender />
           </div>
         </BrowserRouter>
       </ThemeProvider>
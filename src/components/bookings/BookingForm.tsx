@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { format, differenceInDays, addDays } from "date-fns";
+import { useState, useEffect, useMemo } from "react";
+import { format, addDays, eachDayOfInterval } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Calendar } from "@/components/ui/calendar";
 import { Textarea } from "@/components/ui/textarea";
@@ -14,7 +14,16 @@ import {
 } from "@/components/ui/popover";
 import { useAuth } from "@/firebase/auth/AuthContext";
 import { createBooking } from "@/firebase/db/services/bookingService";
-import { BookingStatus } from "@/firebase/db/model/bookingmodel";
+import { 
+  getLockedRanges, 
+  getCarAvailability, 
+  isDateBlocked, 
+  toAvailabilityData 
+} from "@/firebase/db/services/availabilityService";
+import { BookedRange, CarCalendar } from "@/firebase/db/model/availabilitymodel";
+import { BookingStatus, PriceLineItemType } from "@/firebase/db/model/bookingmodel";
+import { CarPricing } from "@/firebase/db/model/carmodel";
+import { calculatePriceBreakdown } from "@/utils/pricingService";
 import { useNavigate } from "react-router-dom";
 
 interface BookingFormProps {
@@ -24,6 +33,7 @@ interface BookingFormProps {
   ownerId: string;
   ownerName: string;
   pricePerDay: number;
+  pricing?: CarPricing;
   availableFrom: Date;
   availableTo: Date;
   onSuccess?: () => void;
@@ -36,6 +46,7 @@ export function BookingForm({
   ownerId,
   ownerName,
   pricePerDay,
+  pricing,
   availableFrom,
   availableTo,
   onSuccess
@@ -47,11 +58,50 @@ export function BookingForm({
   const [error, setError] = useState("");
   const { user } = useAuth();
   const navigate = useNavigate();
+  const [availability, setAvailability] = useState(toAvailabilityData(undefined));
+  const [bookedRanges, setBookedRanges] = useState<BookedRange[]>([]);
 
-  // Calculate total price
-  const days = startDate && endDate ? differenceInDays(endDate, startDate) + 1 : 0;
-  const serviceFee = 10; // Fixed service fee
-  const totalPrice = days * pricePerDay + serviceFee;
+  // Load the owner's schedule and existing bookings so taken days can be disabled
+  useEffect(() => {
+    async function fetchCalendar() {
+      try {
+        const [availabilityDoc, lockedRanges] = await Promise.all([
+          getCarAvailability(carId),
+          getLockedRanges(carId)
+        ]);
+        setAvailability(toAvailabilityData(availabilityDoc ?? undefined));
+        setBookedRanges(lockedRanges);
+      } catch (err) {
+        console.error("Error loading availability calendar:", err);
+      }
+    }
+
+    fetchCalendar();
+  }, [carId]);
+
+  const calendar: CarCalendar = useMemo(() => ({
+    availableFrom,
+    availableTo,
+    ...availability,
+    bookedRanges
+  }), [availableFrom, availableTo, availability, bookedRanges]);
+
+  const isDayDisabled = (date: Date) => date < new Date() || isDateBlocked(date, calendar);
+
+  // A booking cannot span a blocked day, so the end date stops before the next one
+  const lastBookableEndDate = useMemo(() => {
+    if (!startDate || startDate > availableTo) return undefined;
+    const blockedDay = eachDayOfInterval({ start: startDate, end: availableTo })
+      .find((day) => isDateBlocked(day, calendar));
+    return blockedDay ? addDays(blockedDay, -1) : undefined;
+  }, [startDate, availableTo, calendar]);
+
+  // Quote shown to the renter; createBooking rebuilds it from the listing and rejects mismatches
+  const priceBreakdown = startDate && endDate
+    ? calculatePriceBreakdown({ price: pricePerDay, pricing }, startDate, endDate)
+    : null;
+  const days = priceBreakdown?.days ?? 0;
+  const totalPrice = priceBreakdown?.total ?? 0;
 
   const handleSubmit = async () => {
     if (!user) {
@@ -141,11 +191,7 @@ export function BookingForm({
                     mode="single"
                     selected={startDate}
                     onSelect={setStartDate}
-                    disabled={(date) => 
-                      date < new Date() || 
-                      date < availableFrom || 
-                      date > availableTo
-                    }
+                    disabled={isDayDisabled}
                     initialFocus
                   />
                 </PopoverContent>
@@ -169,10 +215,9 @@ export function BookingForm({
                     selected={endDate}
                     onSelect={setEndDate}
                     disabled={(date) => 
-                      date < new Date() || 
+                      isDayDisabled(date) || 
                       (startDate && date < startDate) ||
-                      date < availableFrom || 
-                      date > availableTo
+                      (!!lastBookableEndDate && date > lastBookableEndDate)
                     }
                     initialFocus
                   />
@@ -195,26 +240,32 @@ export function BookingForm({
       </div>
       
       <div className="pt-6 border-t">
-        <div className="flex items-center justify-between mb-3">
-          <span className="font-medium text-sm">Price per day</span>
-          <span className="font-medium">${pricePerDay}</span>
-        </div>
-
         <div className="flex items-center justify-between mb-3">
           <span className="font-medium text-sm">Days</span>
           <span className="font-medium">{days}</span>
         </div>
 
-        <div className="flex items-center justify-between mb-3 text-sm text-muted-foreground">
-          <span>Service fee</span>
-          <span>${serviceFee}</span>
-        </div>
+        {priceBreakdown?.lineItems.map((item) => (
+          <div
+            key={item.type}
+            className={`flex items-center justify-between mb-3 text-sm ${
+              item.type === PriceLineItemType.WEEKDAY || item.type === PriceLineItemType.WEEKEND
+                ? "font-medium"
+                : item.type === PriceLineItemType.DISCOUNT
+                  ? "text-green-600"
+                  : "text-muted-foreground"
+            }`}
+          >
+            <span>{item.label}</span>
+            <span>{item.amount < 0 ? `-$${Math.abs(item.amount).toFixed(2)}` : `$${item.amount.toFixed(2)}`}</span>
+          </div>
+        ))}
 
         <Separator className="my-4" />
 
         <div className="flex items-center justify-between font-bold text-lg">
           <span>Total</span>
-          <span className="text-xl">${totalPrice}</span>
+          <span className="text-xl">${totalPrice.toFixed(2)}</span>
         </div>
       </div>
       
@@ -1,14 +1,17 @@
 import { useState } from "react";
 import { format } from "date-fns";
 import { useNavigate } from "react-router-dom";
-import { Booking, BookingStatus } from "@/firebase/db/model/bookingmodel";
+import { Booking, BookingActorRole, BookingStatus } from "@/firebase/db/model/bookingmodel";
 import { BookingStatusBadge } from "./BookingStatusBadge";
+import { BookingTimeline } from "./BookingTimeline";
+import { PendingExpiryCountdown } from "./PendingExpiryCountdown";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { 
   updateBookingStatus 
 } from "@/firebase/db/services/bookingService";
+import { getAllowedTransitions } from "@/firebase/db/services/bookingLifecycle";
 import { useAuth } from "@/firebase/auth/AuthContext";
 import { 
   Calendar, 
@@ -17,7 +20,9 @@ import {
   MessageSquare, 
   Loader2, 
   CheckCircle, 
-  XCircle 
+  XCircle,
+  PlayCircle,
+  CheckCheck
 } from "lucide-react";
 import {
   Dialog,
@@ -53,11 +58,13 @@ export function BookingList({ bookings, isOwner = false, onStatusUpdate }: Booki
   const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
   const [updating, setUpdating] = useState(false);
   const [reason, setReason] = useState("");
-  const [showRejectDialog, setShowRejectDialog] = useState(false);
+  const [showReasonDialog, setShowReasonDialog] = useState(false);
+  const [reasonStatus, setReasonStatus] = useState<BookingStatus.REJECTED | BookingStatus.CANCELED>(BookingStatus.REJECTED);
   const [showDetailDialog, setShowDetailDialog] = useState(false);
   const [error, setError] = useState("");
   const { user } = useAuth();
   const navigate = useNavigate();
+  const role = isOwner ? BookingActorRole.OWNER : BookingActorRole.RENTER;
   
   if (bookings.length === 0) {
     return (
@@ -83,7 +90,9 @@ export function BookingList({ bookings, isOwner = false, onStatusUpdate }: Booki
         bookingId, 
         newStatus, 
         user, 
-        newStatus === BookingStatus.REJECTED ? reason : undefined
+        newStatus === BookingStatus.REJECTED || newStatus === BookingStatus.CANCELED 
+          ? reason.trim() || undefined 
+          : undefined
       );
       
       if (!result.success) {
@@ -91,7 +100,7 @@ export function BookingList({ bookings, isOwner = false, onStatusUpdate }: Booki
       }
       
       // Close dialogs
-      setShowRejectDialog(false);
+      setShowReasonDialog(false);
       setShowDetailDialog(false);
       
       // Notify parent component to refresh
@@ -106,6 +115,15 @@ export function BookingList({ bookings, isOwner = false, onStatusUpdate }: Booki
     }
   };
 
+  const openReasonDialog = (
+    booking: Booking, 
+    status: BookingStatus.REJECTED | BookingStatus.CANCELED
+  ) => {
+    setSelectedBooking(booking);
+    setReasonStatus(status);
+    setShowReasonDialog(true);
+  };
+
   const handleViewCar = (carId: string) => {
     navigate(`/cars/${carId}`);
   };
@@ -127,146 +145,179 @@ export function BookingList({ bookings, isOwner = false, onStatusUpdate }: Booki
 
   return (
     <div className="space-y-4">
-      {bookings.map((booking) => (
-        <Card key={booking.id} className="overflow-hidden">
-          <CardContent className="p-0">
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-              {/* Image section */}
-              <div className="relative h-40 md:h-full bg-muted overflow-hidden">
-                {booking.carImageUrl ? (
-                  <img 
-                    src={booking.carImageUrl} 
-                    alt={booking.carTitle} 
-                    className="w-full h-full object-cover"
-                  />
-                ) : (
-                  <div className="w-full h-full flex items-center justify-center bg-muted">
-                    <Car size={40} className="text-muted-foreground opacity-40" />
-                  </div>
-                )}
-              </div>
-              
-              {/* Info section */}
-              <div className="p-4 md:col-span-3">
-                <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-2">
-                  <h3 className="font-medium text-lg">{booking.carTitle}</h3>
-                  <BookingStatusBadge status={booking.status} />
+      {bookings.map((booking) => {
+        const allowedTransitions = getAllowedTransitions(booking.status, role);
+        
+        return (
+          <Card key={booking.id} className="overflow-hidden">
+            <CardContent className="p-0">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                {/* Image section */}
+                <div className="relative h-40 md:h-full bg-muted overflow-hidden">
+                  {booking.carImageUrl ? (
+                    <img 
+                      src={booking.carImageUrl} 
+                      alt={booking.carTitle} 
+                      className="w-full h-full object-cover"
+                    />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center bg-muted">
+                      <Car size={40} className="text-muted-foreground opacity-40" />
+                    </div>
+                  )}
                 </div>
+              
+                {/* Info section */}
+                <div className="p-4 md:col-span-3">
+                  <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-2">
+                    <h3 className="font-medium text-lg">{booking.carTitle}</h3>
+                    <BookingStatusBadge status={booking.status} />
+                  </div>
                 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-3">
-                  <div className="space-y-2">
-                    <div className="flex items-center gap-2 text-sm">
-                      <Calendar size={14} className="text-muted-foreground" />
-                      <span>
-                        {formatDate(booking.startDate)} - {formatDate(booking.endDate)}
-                      </span>
-                    </div>
-                    
-                    <div className="flex items-center gap-2 text-sm">
-                      {isOwner ? (
-                        <>
-                          <User size={14} className="text-muted-foreground" />
-                          <div className="flex items-center gap-2">
-                            <Avatar className="h-6 w-6">
-                              <AvatarImage src={booking.renterProfileImage} />
-                              <AvatarFallback>{getInitials(booking.renterName)}</AvatarFallback>
-                            </Avatar>
-                            <span>{booking.renterName}</span>
-                          </div>
-                        </>
-                      ) : (
-                        <>
-                          <User size={14} className="text-muted-foreground" />
-                          <span>Owned by {booking.ownerName}</span>
-                        </>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-3">
+                    <div className="space-y-2">
+                      <div className="flex items-center gap-2 text-sm">
+                        <Calendar size={14} className="text-muted-foreground" />
+                        <span>
+                          {formatDate(booking.startDate)} - {formatDate(booking.endDate)}
+                        </span>
+                      </div>
+                      
+                      {booking.status === BookingStatus.PENDING && (
+                        <PendingExpiryCountdown booking={booking} />
                       )}
-                    </div>
                     
-                    <div className="font-medium">
-                      Total: ${booking.totalPrice}
+                      <div className="flex items-center gap-2 text-sm">
+                        {isOwner ? (
+                          <>
+                            <User size={14} className="text-muted-foreground" />
+                            <div className="flex items-center gap-2">
+                              <Avatar className="h-6 w-6">
+                                <AvatarImage src={booking.renterProfileImage} />
+                                <AvatarFallback>{getInitials(booking.renterName)}</AvatarFallback>
+                              </Avatar>
+                              <span>{booking.renterName}</span>
+                            </div>
+                          </>
+                        ) : (
+                          <>
+                            <User size={14} className="text-muted-foreground" />
+                            <span>Owned by {booking.ownerName}</span>
+                          </>
+                        )}
+                      </div>
+                    
+                      <div className="font-medium">
+                        Total: ${booking.totalPrice}
+                      </div>
                     </div>
-                  </div>
                   
-                  <div className="flex items-end justify-end gap-2 mt-auto">
-                    <Button 
-                      variant="outline" 
-                      size="sm"
-                      onClick={() => handleViewCar(booking.carId)}
-                    >
-                      <Car size={14} className="mr-1" />
-                      View Car
-                    </Button>
-                    
-                    <Button 
-                      variant="secondary" 
-                      size="sm"
-                      onClick={() => {
-                        setSelectedBooking(booking);
-                        setShowDetailDialog(true);
-                      }}
-                    >
-                      Details
-                    </Button>
-                    
-                    {isOwner && booking.status === BookingStatus.PENDING && (
+                    <div className="flex items-end justify-end gap-2 mt-auto">
                       <Button 
-                        variant="default" 
+                        variant="outline" 
                         size="sm"
-                        onClick={() => handleStatusUpdate(booking.id, BookingStatus.APPROVED)}
-                        disabled={updating}
+                        onClick={() => handleViewCar(booking.carId)}
                       >
-                        {updating ? <Loader2 className="h-3 w-3 animate-spin" /> : <CheckCircle size={14} className="mr-1" />}
-                        Approve
+                        <Car size={14} className="mr-1" />
+                        View Car
                       </Button>
-                    )}
                     
-                    {isOwner && booking.status === BookingStatus.PENDING && (
                       <Button 
-                        variant="outline" 
+                        variant="secondary" 
                         size="sm"
-                        className="text-red-500 hover:text-red-600"
                         onClick={() => {
                           setSelectedBooking(booking);
-                          setShowRejectDialog(true);
+                          setShowDetailDialog(true);
                         }}
-                        disabled={updating}
                       >
-                        <XCircle size={14} className="mr-1" />
-                        Reject
+                        Details
                       </Button>
-                    )}
                     
-                    {!isOwner && booking.status === BookingStatus.PENDING && (
-                      <Button 
-                        variant="outline" 
-                        size="sm"
-                        className="text-red-500 hover:text-red-600"
-                        onClick={() => handleStatusUpdate(booking.id, BookingStatus.CANCELED)}
-                        disabled={updating}
-                      >
-                        Cancel
-                      </Button>
-                    )}
+                      {allowedTransitions.includes(BookingStatus.APPROVED) && (
+                        <Button 
+                          variant="default" 
+                          size="sm"
+                          onClick={() => handleStatusUpdate(booking.id, BookingStatus.APPROVED)}
+                          disabled={updating}
+                        >
+                          {updating ? <Loader2 className="h-3 w-3 animate-spin" /> : <CheckCircle size={14} className="mr-1" />}
+                          Approve
+                        </Button>
+                      )}
+                    
+                      {allowedTransitions.includes(BookingStatus.REJECTED) && (
+                        <Button 
+                          variant="outline" 
+                          size="sm"
+                          className="text-red-500 hover:text-red-600"
+                          onClick={() => openReasonDialog(booking, BookingStatus.REJECTED)}
+                          disabled={updating}
+                        >
+                          <XCircle size={14} className="mr-1" />
+                          Reject
+                        </Button>
+                      )}
+                    
+                      {allowedTransitions.includes(BookingStatus.IN_PROGRESS) && (
+                        <Button 
+                          variant="default" 
+                          size="sm"
+                          onClick={() => handleStatusUpdate(booking.id, BookingStatus.IN_PROGRESS)}
+                          disabled={updating}
+                        >
+                          {updating ? <Loader2 className="h-3 w-3 animate-spin" /> : <PlayCircle size={14} className="mr-1" />}
+                          Start Trip
+                        </Button>
+                      )}
+                    
+                      {allowedTransitions.includes(BookingStatus.COMPLETED) && (
+                        <Button 
+                          variant="default" 
+                          size="sm"
+                          onClick={() => handleStatusUpdate(booking.id, BookingStatus.COMPLETED)}
+                          disabled={updating}
+                        >
+                          {updating ? <Loader2 className="h-3 w-3 animate-spin" /> : <CheckCheck size={14} className="mr-1" />}
+                          Complete
+                        </Button>
+                      )}
+                    
+                      {allowedTransitions.includes(BookingStatus.CANCELED) && (
+                        <Button 
+                          variant="outline" 
+                          size="sm"
+                          className="text-red-500 hover:text-red-600"
+                          onClick={() => openReasonDialog(booking, BookingStatus.CANCELED)}
+                          disabled={updating}
+                        >
+                          Cancel
+                        </Button>
+                      )}
+                    </div>
                   </div>
                 </div>
               </div>
-            </div>
-          </CardContent>
-        </Card>
-      ))}
+            </CardContent>
+          </Card>
+        );
+      })}
 
-      {/* Rejection Dialog */}
-      <AlertDialog open={showRejectDialog} onOpenChange={setShowRejectDialog}>
+      {/* Rejection / Cancellation Dialog */}
+      <AlertDialog open={showReasonDialog} onOpenChange={setShowReasonDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Reject Booking Request</AlertDialogTitle>
+            <AlertDialogTitle>
+              {reasonStatus === BookingStatus.REJECTED ? "Reject Booking Request" : "Cancel Booking"}
+            </AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to reject this booking? Please provide a reason for the rejection.
+              {reasonStatus === BookingStatus.REJECTED
+                ? "Are you sure you want to reject this booking? Please provide a reason for the rejection."
+                : "Are you sure you want to cancel this booking? Please let the other party know why."}
             </AlertDialogDescription>
           </AlertDialogHeader>
           
           <Textarea
-            placeholder="Reason for rejection (optional)"
+            placeholder={reasonStatus === BookingStatus.REJECTED ? "Reason for rejection (optional)" : "Reason for cancellation (optional)"}
             value={reason}
             onChange={(e) => setReason(e.target.value)}
             className="mt-2"
@@ -279,11 +330,11 @@ export function BookingList({ bookings, isOwner = false, onStatusUpdate }: Booki
           )}
           
           <AlertDialogFooter>
-            <AlertDialogCancel disabled={updating}>Cancel</AlertDialogCancel>
+            <AlertDialogCancel disabled={updating}>Back</AlertDialogCancel>
             <AlertDialogAction
               onClick={() => {
                 if (selectedBooking) {
-                  handleStatusUpdate(selectedBooking.id, BookingStatus.REJECTED);
+                  handleStatusUpdate(selectedBooking.id, reasonStatus);
                 }
               }}
               disabled={updating}
@@ -291,10 +342,10 @@ export function BookingList({ bookings, isOwner = false, onStatusUpdate }: Booki
               {updating ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Rejecting...
+                  {reasonStatus === BookingStatus.REJECTED ? "Rejecting..." : "Canceling..."}
                 </>
               ) : (
-                "Reject Booking"
+                reasonStatus === BookingStatus.REJECTED ? "Reject Booking" : "Cancel Booking"
               )}
             </AlertDialogAction>
           </AlertDialogFooter>
@@ -304,7 +355,7 @@ export function BookingList({ bookings, isOwner = false, onStatusUpdate }: Booki
       {/* Booking Details Dialog */}
       <Dialog open={showDetailDialog} onOpenChange={setShowDetailDialog}>
         {selectedBooking && (
-          <DialogContent className="sm:max-w-md">
+          <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Booking Details</DialogTitle>
               <DialogDescription>
@@ -332,6 +383,16 @@ export function BookingList({ bookings, isOwner = false, onStatusUpdate }: Booki
               
               <div>
                 <h4 className="text-sm font-medium mb-1">Price</h4>
+                {selectedBooking.priceBreakdown && (
+                  <div className="space-y-1 mb-2 text-sm text-muted-foreground">
+                    {selectedBooking.priceBreakdown.lineItems.map((item) => (
+                      <div key={item.type} className="flex justify-between">
+                        <span>{item.label}</span>
+                        <span>{item.amount < 0 ? `-$${Math.abs(item.amount).toFixed(2)}` : `$${item.amount.toFixed(2)}`}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
                 <p className="font-medium">${selectedBooking.totalPrice}</p>
               </div>
               
@@ -348,6 +409,22 @@ export function BookingList({ bookings, isOwner = false, onStatusUpdate }: Booki
                   <p className="text-sm text-muted-foreground">{selectedBooking.cancellationReason}</p>
                 </div>
               )}
+
+              {selectedBooking.statusReason && !selectedBooking.cancellationReason && (
+                <div>
+                  <h4 className="text-sm font-medium mb-1">Status Update</h4>
+                  <p className="text-sm text-muted-foreground">{selectedBooking.statusReason}</p>
+                </div>
+              )}
+              
+              <div>
+                <h4 className="text-sm font-medium mb-2">History</h4>
+                <BookingTimeline 
+                  bookingId={selectedBooking.id}
+                  ownerName={selectedBooking.ownerName}
+                  renterName={selectedBooking.renterName}
+                />
+              </div>
               
               <Separator />
               
@@ -366,6 +443,11 @@ export function BookingList({ bookings, isOwner = false, onStatusUpdate }: Booki
                   <div className="mt-2">
                     <StartConversationButton 
                       targetUserId={selectedBooking.renterId} 
+                      context={{
+                        bookingId: selectedBooking.id,
+                        carId: selectedBooking.carId,
+                        carTitle: selectedBooking.carTitle
+                      }}
                       className="w-full"
                     >
                       <MessageSquare size={14} className="mr-1" />
@@ -387,6 +469,11 @@ export function BookingList({ bookings, isOwner = false, onStatusUpdate }: Booki
                   <div className="mt-2">
                     <StartConversationButton 
                       targetUserId={selectedBooking.ownerId} 
+                      context={{
+                        bookingId: selectedBooking.id,
+                        carId: selectedBooking.carId,
+                        carTitle: selectedBooking.carTitle
+                      }}
                       className="w-full"
                     >
                       <MessageSquare size={14} className="mr-1" />
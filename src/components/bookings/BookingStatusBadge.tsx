@@ -5,7 +5,9 @@ import {
   CheckCircle, 
   XCircle, 
   AlertTriangle, 
-  CheckCheck
+  CheckCheck,
+  Car,
+  TimerOff
 } from "lucide-react";
 
 interface BookingStatusBadgeProps {
@@ -28,6 +30,13 @@ export function BookingStatusBadge({ status }: BookingStatusBadgeProps) {
           <span>Approved</span>
         </Badge>
       );
+    case BookingStatus.IN_PROGRESS:
+      return (
+        <Badge variant="outline" className="bg-purple-50 text-purple-700 border-purple-200 flex gap-1 items-center">
+          <Car size={12} />
+          <span>In Progress</span>
+        </Badge>
+      );
     case BookingStatus.REJECTED:
       return (
         <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200 flex gap-1 items-center">
@@ -49,6 +58,13 @@ export function BookingStatusBadge({ status }: BookingStatusBadgeProps) {
           <span>Completed</span>
         </Badge>
       );
+    case BookingStatus.EXPIRED:
+      return (
+        <Badge variant="outline" className="bg-orange-50 text-orange-700 border-orange-200 flex gap-1 items-center">
+          <TimerOff size={12} />
+          <span>Expired</span>
+        </Badge>
+      );
     default:
       return (
         <Badge variant="outline">
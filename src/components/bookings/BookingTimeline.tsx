@@ -0,0 +1,77 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { BookingActorRole, BookingEvent } from "@/firebase/db/model/bookingmodel";
+import { getBookingEvents } from "@/firebase/db/services/bookingService";
+import { BookingStatusBadge } from "./BookingStatusBadge";
+
+interface BookingTimelineProps {
+  bookingId: string;
+  ownerName: string;
+  renterName: string;
+}
+
+export function BookingTimeline({ bookingId, ownerName, renterName }: BookingTimelineProps) {
+  const [events, setEvents] = useState<BookingEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchEvents() {
+      try {
+        setLoading(true);
+        setEvents(await getBookingEvents(bookingId));
+      } catch (err) {
+        console.error("Error loading booking history:", err);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchEvents();
+  }, [bookingId]);
+
+  const getActorName = (event: BookingEvent) => {
+    switch (event.actorRole) {
+      case BookingActorRole.OWNER:
+        return ownerName;
+      case BookingActorRole.RENTER:
+        return renterName;
+      default:
+        return "Vroomly";
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-2">
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground">No history recorded for this booking.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-muted ml-1.5 space-y-4">
+      {events.map((event) => (
+        <li key={event.id} className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+          <div className="flex flex-wrap items-center gap-2">
+            <BookingStatusBadge status={event.toStatus} />
+            <span className="text-xs text-muted-foreground">
+              {event.timestamp ? format(event.timestamp.toDate(), "MMM d, yyyy h:mm a") : "Just now"}
+            </span>
+          </div>
+          <p className="text-sm mt-1">
+            {event.fromStatus ? "Changed" : "Requested"} by {getActorName(event)}
+          </p>
+          {event.reason && (
+            <p className="text-sm text-muted-foreground mt-0.5">"{event.reason}"</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
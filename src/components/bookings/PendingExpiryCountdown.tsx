@@ -0,0 +1,43 @@
+import { useState, useEffect } from "react";
+import { Hourglass } from "lucide-react";
+import { Booking } from "@/firebase/db/model/bookingmodel";
+import { getRequestExpiryTime } from "@/firebase/db/services/bookingService";
+
+interface PendingExpiryCountdownProps {
+  booking: Booking;
+}
+
+export function PendingExpiryCountdown({ booking }: PendingExpiryCountdownProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const expiresAt = getRequestExpiryTime(booking.createdAt);
+  if (expiresAt === null) return null;
+
+  const remainingMinutes = Math.floor((expiresAt - now) / (60 * 1000));
+
+  if (remainingMinutes <= 0) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-orange-600">
+        <Hourglass size={14} />
+        <span>Request expired, waiting to be closed</span>
+      </div>
+    );
+  }
+
+  const hours = Math.floor(remainingMinutes / 60);
+  const minutes = remainingMinutes % 60;
+
+  return (
+    <div className={`flex items-center gap-2 text-sm ${hours < 2 ? "text-orange-600" : "text-muted-foreground"}`}>
+      <Hourglass size={14} />
+      <span>
+        Expires in {hours > 0 ? `${hours}h ` : ""}{minutes}m
+      </span>
+    </div>
+  );
+}
@@ -4,12 +4,12 @@ import { Input } from "@/components/ui/input";
 import { useAuth } from "@/firebase/auth/AuthContext";
 import { useNavigate } from "react-router-dom";
 import { CarListingData, FuelType, TransmissionType } from "@/firebase/db/model/carmodel";
-import { addCarListing } from "@/firebase/db/services/addCarListing";
+import { addCarListing, newCarListingId } from "@/firebase/db/services/addCarListing";
 import { decodeVin, VinLookupResult } from "../../utils/vinLookupService";
 import { Camera, Upload, X, Loader2, CalendarIcon, PlusCircle, HelpCircle } from "lucide-react";
 import { NumericInput } from "@/components/ui/custom-input";
 import { motion, AnimatePresence } from "framer-motion";
-import { uploadToImgbb } from "@/utils/imageUploadService";
+import { getCarImageFolder, uploadImage } from "@/utils/imageUploadService";
 import { Calendar } from "@/components/ui/calendar";
 import { Badge } from "@/components/ui/badge";
 import { format } from "date-fns";
@@ -39,7 +39,9 @@ interface CarFormData {
   description: string;
   price: number;
   location: string;
+  zipCode: string; // Geocoded for distance search when saved
   imageUrls: string[];
+  thumbnailUrls: string[]; // Same order as imageUrls
   features: string[];
   availableFrom: Date;
   availableTo: Date;
@@ -51,7 +53,9 @@ const initialFormData: CarFormData = {
   description: "",
   price: 0,
   location: "",
+  zipCode: "",
   imageUrls: [],
+  thumbnailUrls: [],
   features: [],
   availableFrom: new Date(),
   availableTo: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
@@ -64,6 +68,8 @@ interface AddCarFormProps {
 
 export function AddCarForm({ onSubmit, onCancel }: AddCarFormProps) {
   const [formData, setFormData] = useState<CarFormData>(initialFormData);
+  // Reserved up front so photos are uploaded into the listing's Storage folder
+  const [listingId, setListingId] = useState(newCarListingId);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [carInfo, setCarInfo] = useState<VinLookupResult["data"] | null>(null);
@@ -128,14 +134,17 @@ export function AddCarForm({ onSubmit, onCancel }: AddCarFormProps) {
         setImagePreviews(prev => [...prev, ...tempPreviews]);
 
         const uploadedUrls: string[] = [];
+        const uploadedThumbnailUrls: string[] = [];
         for (const file of files) {
-          const uploadedUrl = await uploadToImgbb(file);
-          uploadedUrls.push(uploadedUrl);
+          const uploaded = await uploadImage(file, getCarImageFolder(listingId), { thumbnail: true });
+          uploadedUrls.push(uploaded.url);
+          uploadedThumbnailUrls.push(uploaded.thumbnailUrl || uploaded.url);
         }
 
         setFormData(prev => ({
           ...prev,
-          imageUrls: [...prev.imageUrls, ...uploadedUrls]
+          imageUrls: [...prev.imageUrls, ...uploadedUrls],
+          thumbnailUrls: [...prev.thumbnailUrls, ...uploadedThumbnailUrls]
         }));
       } catch (err) {
         setError(err instanceof Error ? err.message : "Failed to upload images");
@@ -154,11 +163,12 @@ export function AddCarForm({ onSubmit, onCancel }: AddCarFormProps) {
 
         setImagePreviews(prev => [...prev, tempPreview]);
 
-        const uploadedUrl = await uploadToImgbb(file);
+        const uploaded = await uploadImage(file, getCarImageFolder(listingId), { thumbnail: true });
 
         setFormData(prev => ({
           ...prev,
-          imageUrls: [...prev.imageUrls, uploadedUrl]
+          imageUrls: [...prev.imageUrls, uploaded.url],
+          thumbnailUrls: [...prev.thumbnailUrls, uploaded.thumbnailUrl || uploaded.url]
         }));
       } catch (err) {
         setError(err instanceof Error ? err.message : "Failed to upload image");
@@ -184,7 +194,8 @@ export function AddCarForm({ onSubmit, onCancel }: AddCarFormProps) {
     setImagePreviews(prev => prev.filter((_, index) => index !== indexToRemove));
     setFormData(prev => ({
       ...prev,
-      imageUrls: prev.imageUrls.filter((_, index) => index !== indexToRemove)
+      imageUrls: prev.imageUrls.filter((_, index) => index !== indexToRemove),
+      thumbnailUrls: prev.thumbnailUrls.filter((_, index) => index !== indexToRemove)
     }));
   };
 
@@ -222,7 +233,9 @@ export function AddCarForm({ onSubmit, onCancel }: AddCarFormProps) {
         description: formData.description,
         price: formData.price,
         location: formData.location,
+        zipCode: formData.zipCode.trim(),
         imageUrls: formData.imageUrls,
+        thumbnailUrls: formData.thumbnailUrls,
         carInfo: {
           make: vinData.make,
           model: vinData.model,
@@ -237,7 +250,7 @@ export function AddCarForm({ onSubmit, onCancel }: AddCarFormProps) {
         features: formData.features
       };
 
-      const submitResult = await addCarListing(carListingData, user);
+      const submitResult = await addCarListing(carListingData, user, listingId);
 
       if (!submitResult.success) {
         throw new Error(submitResult.error || "Failed to add car listing");
@@ -245,6 +258,7 @@ export function AddCarForm({ onSubmit, onCancel }: AddCarFormProps) {
 
       setFormData(initialFormData);
       setImagePreviews([]);
+      setListingId(newCarListingId());
       if (onSubmit) onSubmit();
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to add your car listing. Please try again.");
@@ -387,6 +401,24 @@ export function AddCarForm({ onSubmit, onCancel }: AddCarFormProps) {
               required
             />
           </motion.div>
+
+          <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }}>
+            <label htmlFor="zipCode" className="block text-sm font-medium mb-1.5">Pickup ZIP Code</label>
+            <input
+              id="zipCode"
+              name="zipCode"
+              type="text"
+              inputMode="numeric"
+              pattern="\d{5}(-\d{4})?"
+              maxLength={10}
+              placeholder="e.g., 94103"
+              className="w-full p-2 border rounded text-base h-11"
+              value={formData.zipCode}
+              onChange={handleChange}
+              disabled={loading}
+              required
+            />
+          </motion.div>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
@@ -570,9 +602,14 @@ export function AddCarForm({ onSubmit, onCancel }: AddCarFormProps) {
                           const movedImage = newImageUrls.splice(index, 1)[0];
                           newImageUrls.unshift(movedImage);
 
+                          const newThumbnailUrls = [...prev.thumbnailUrls];
+                          const movedThumbnail = newThumbnailUrls.splice(index, 1)[0];
+                          newThumbnailUrls.unshift(movedThumbnail);
+
                           return {
                             ...prev,
-                            imageUrls: newImageUrls
+                            imageUrls: newImageUrls,
+                            thumbnailUrls: newThumbnailUrls
                           };
                         });
 
@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { DateRange } from "react-day-picker";
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import { BookedRange, CarAvailabilityData } from "@/firebase/db/model/availabilitymodel";
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+interface AvailabilityCalendarEditorProps {
+  value: CarAvailabilityData;
+  onChange: (value: CarAvailabilityData) => void;
+  bookedRanges: BookedRange[];
+  availableFrom?: Date;
+  availableTo?: Date;
+  disabled?: boolean;
+}
+
+export function AvailabilityCalendarEditor({
+  value,
+  onChange,
+  bookedRanges,
+  availableFrom,
+  availableTo,
+  disabled = false
+}: AvailabilityCalendarEditorProps) {
+  const [selectedRange, setSelectedRange] = useState<DateRange | undefined>();
+  const [reason, setReason] = useState("");
+
+  const toggleWeekday = (weekday: number) => {
+    const availableWeekdays = value.availableWeekdays.includes(weekday)
+      ? value.availableWeekdays.filter((day) => day !== weekday)
+      : [...value.availableWeekdays, weekday].sort();
+
+    onChange({ ...value, availableWeekdays });
+  };
+
+  const addBlackout = () => {
+    if (!selectedRange?.from) return;
+
+    onChange({
+      ...value,
+      blackouts: [
+        ...value.blackouts,
+        {
+          id: `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+          start: selectedRange.from,
+          end: selectedRange.to || selectedRange.from,
+          reason: reason.trim() || undefined
+        }
+      ]
+    });
+    setSelectedRange(undefined);
+    setReason("");
+  };
+
+  const removeBlackout = (id: string) => {
+    onChange({
+      ...value,
+      blackouts: value.blackouts.filter((blackout) => blackout.id !== id)
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Available Days of the Week</Label>
+        <div className="flex flex-wrap gap-2">
+          {WEEKDAY_LABELS.map((label, weekday) => (
+            <Button
+              key={label}
+              type="button"
+              size="sm"
+              variant={value.availableWeekdays.includes(weekday) ? "default" : "outline"}
+              onClick={() => toggleWeekday(weekday)}
+              disabled={disabled}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="border rounded-md w-fit">
+          <Calendar
+            mode="range"
+            selected={selectedRange}
+            onSelect={setSelectedRange}
+            disabled={disabled}
+            fromDate={availableFrom}
+            toDate={availableTo}
+            modifiers={{
+              booked: bookedRanges.map((range) => ({ from: range.start, to: range.end })),
+              blackout: value.blackouts.map((blackout) => ({ from: blackout.start, to: blackout.end })),
+              closed: (date: Date) => !value.availableWeekdays.includes(date.getDay())
+            }}
+            modifiersClassNames={{
+              booked: "bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200",
+              blackout: "bg-red-100 text-red-800 line-through dark:bg-red-900/40 dark:text-red-200",
+              closed: "text-muted-foreground opacity-40"
+            }}
+          />
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+            <span className="flex items-center gap-1.5">
+              <span className="w-3 h-3 rounded-sm bg-blue-100 border border-blue-200" /> Booked
+            </span>
+            <span className="flex items-center gap-1.5">
+              <span className="w-3 h-3 rounded-sm bg-red-100 border border-red-200" /> Blackout
+            </span>
+            <span className="flex items-center gap-1.5">
+              <span className="w-3 h-3 rounded-sm bg-muted border" /> Closed day
+            </span>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="blackoutReason">Block the selected dates</Label>
+            <Input
+              id="blackoutReason"
+              placeholder="Reason (optional), e.g., Vacation"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              disabled={disabled}
+              className="h-9"
+            />
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={addBlackout}
+              disabled={disabled || !selectedRange?.from}
+            >
+              <Plus size={14} className="mr-1" />
+              {selectedRange?.from
+                ? `Block ${format(selectedRange.from, "MMM d")}${
+                    selectedRange.to ? ` - ${format(selectedRange.to, "MMM d")}` : ""
+                  }`
+                : "Select dates to block"}
+            </Button>
+          </div>
+
+          {value.blackouts.length > 0 && (
+            <ul className="space-y-1.5">
+              {value.blackouts.map((blackout) => (
+                <li
+                  key={blackout.id}
+                  className={cn(
+                    "flex items-center justify-between gap-2 text-sm rounded-md border px-2 py-1",
+                    disabled && "opacity-60"
+                  )}
+                >
+                  <span>
+                    {format(blackout.start, "MMM d, yyyy")}
+                    {blackout.end.getTime() !== blackout.start.getTime() && ` - ${format(blackout.end, "MMM d, yyyy")}`}
+                    {blackout.reason && <span className="text-muted-foreground"> · {blackout.reason}</span>}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    onClick={() => removeBlackout(blackout.id)}
+                    disabled={disabled}
+                    aria-label="Remove blackout"
+                  >
+                    <X size={14} />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
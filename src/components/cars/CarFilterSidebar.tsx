@@ -0,0 +1,348 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { DateRange } from "react-day-picker";
+import { CalendarIcon, LocateFixed, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  CarSearchFacets,
+  CarSearchFilters,
+  FacetCount,
+  FuelType,
+  GeoCoordinates,
+  TransmissionType
+} from "@/firebase/db/model/carmodel";
+import { countActiveFilters, FUEL_LABELS, TRANSMISSION_LABELS } from "@/utils/carSearchParams";
+import { geocode } from "@/utils/geocodingService";
+import { getCurrentPosition } from "@/utils/geoUtils";
+import { SEARCH_RADIUS_OPTIONS_MILES } from "@/config/geo";
+
+/**
+ * Where distances are measured from, with a description for the sidebar
+ */
+export interface SearchOrigin {
+  coordinates: GeoCoordinates;
+  label: string; // e.g. "ZIP 94103" or "your location"
+  zipCode?: string;
+}
+
+interface CarFilterSidebarProps {
+  filters: CarSearchFilters;
+  facets: CarSearchFacets | null;
+  origin: SearchOrigin | null; // From the filters, or the user's profile ZIP as a fallback
+  onChange: (filters: CarSearchFilters) => void;
+}
+
+// A list of facet values that toggle a single-value filter
+const FacetOptions = ({
+  options,
+  selected,
+  getLabel = (value) => value,
+  onSelect
+}: {
+  options: FacetCount[];
+  selected?: string;
+  getLabel?: (value: string) => string;
+  onSelect: (value: string | undefined) => void;
+}) => {
+  if (options.length === 0) {
+    return <p className="text-sm text-muted-foreground">No options</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {options.map((option) => {
+        const isSelected = selected?.toLowerCase() === option.value.toLowerCase();
+        return (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => onSelect(isSelected ? undefined : option.value)}
+            disabled={!isSelected && option.count === 0}
+            className={`w-full flex items-center justify-between rounded-md px-2 py-1.5 text-sm transition-colors disabled:opacity-50 ${
+              isSelected ? "bg-primary text-primary-foreground" : "hover:bg-muted"
+            }`}
+          >
+            <span>{getLabel(option.value)}</span>
+            <span className={isSelected ? "" : "text-muted-foreground"}>{option.count}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+/**
+ * Search filters for the car listings page, with the number of matching cars
+ * next to each option
+ */
+export function CarFilterSidebar({ filters, facets, origin, onChange }: CarFilterSidebarProps) {
+  // Text inputs are applied on blur or Enter so the URL isn't rewritten on every keystroke
+  const [location, setLocation] = useState(filters.location ?? "");
+  const [priceMin, setPriceMin] = useState(filters.priceMin?.toString() ?? "");
+  const [priceMax, setPriceMax] = useState(filters.priceMax?.toString() ?? "");
+  const [zipCode, setZipCode] = useState(filters.nearZip ?? "");
+  const [locating, setLocating] = useState(false);
+  const [originError, setOriginError] = useState<string | null>(null);
+  const [dateRange, setDateRange] = useState<DateRange | undefined>(
+    filters.availableFrom ? { from: filters.availableFrom, to: filters.availableTo } : undefined
+  );
+
+  // Keep the inputs in sync when the URL changes (back button, shared link, clear all)
+  useEffect(() => {
+    setLocation(filters.location ?? "");
+    setPriceMin(filters.priceMin?.toString() ?? "");
+    setPriceMax(filters.priceMax?.toString() ?? "");
+    setZipCode(filters.nearZip ?? "");
+    setDateRange(filters.availableFrom ? { from: filters.availableFrom, to: filters.availableTo } : undefined);
+  }, [filters.location, filters.priceMin, filters.priceMax, filters.nearZip, filters.availableFrom, filters.availableTo]);
+
+  const update = (changes: Partial<CarSearchFilters>) => onChange({ ...filters, ...changes });
+
+  const applyText = () => {
+    const min = priceMin === "" ? undefined : Math.max(0, Number(priceMin));
+    const max = priceMax === "" ? undefined : Math.max(0, Number(priceMax));
+    update({
+      location: location.trim() || undefined,
+      priceMin: Number.isFinite(min) ? min : undefined,
+      priceMax: Number.isFinite(max) ? max : undefined
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") applyText();
+  };
+
+  const applyZipCode = async () => {
+    const zip = zipCode.trim();
+    if (zip === (filters.nearZip ?? "")) return;
+
+    setOriginError(null);
+    if (!zip) {
+      update({ near: undefined, nearZip: undefined, radiusMiles: undefined });
+      return;
+    }
+
+    const result = await geocode(zip);
+    if (result) {
+      update({ near: result.coordinates, nearZip: result.zipCode ?? zip });
+    } else {
+      setOriginError(`We couldn't find the ZIP code ${zip}`);
+    }
+  };
+
+  const handleUseMyLocation = async () => {
+    setOriginError(null);
+    setLocating(true);
+    try {
+      const coordinates = await getCurrentPosition();
+      update({ near: coordinates, nearZip: undefined });
+    } catch (error) {
+      setOriginError(error instanceof Error ? error.message : "Your location could not be determined");
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const handleDateSelect = (range: DateRange | undefined) => {
+    setDateRange(range);
+    // Only search once both ends are picked; clearing the selection clears the filter
+    if (!range?.from) {
+      update({ availableFrom: undefined, availableTo: undefined });
+    } else if (range.to) {
+      update({ availableFrom: range.from, availableTo: range.to });
+    }
+  };
+
+  const activeCount = countActiveFilters(filters);
+
+  return (
+    <aside className="space-y-5">
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold text-lg">Filters</h2>
+        {activeCount > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            // The origin isn't a filter, so distances keep showing
+            onClick={() => onChange({ near: filters.near, nearZip: filters.nearZip })}
+            className="h-8 px-2"
+          >
+            <X size={14} className="mr-1" />
+            Clear all ({activeCount})
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="filter-location">Location</Label>
+        <Input
+          id="filter-location"
+          placeholder="City or area"
+          value={location}
+          onChange={(e) => setLocation(e.target.value)}
+          onBlur={applyText}
+          onKeyDown={handleKeyDown}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="filter-zip">Distance</Label>
+        <div className="flex gap-2">
+          <Input
+            id="filter-zip"
+            placeholder="ZIP code"
+            inputMode="numeric"
+            maxLength={10}
+            value={zipCode}
+            onChange={(e) => setZipCode(e.target.value)}
+            onBlur={applyZipCode}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") applyZipCode();
+            }}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            onClick={handleUseMyLocation}
+            disabled={locating}
+            title="Use my location"
+            aria-label="Use my location"
+          >
+            {locating ? <Loader2 size={16} className="animate-spin" /> : <LocateFixed size={16} />}
+          </Button>
+        </div>
+        {originError ? (
+          <p className="text-xs text-destructive">{originError}</p>
+        ) : origin ? (
+          <p className="text-xs text-muted-foreground">Distances from {origin.label}</p>
+        ) : null}
+        <Select
+          value={filters.radiusMiles?.toString() ?? "any"}
+          onValueChange={(value) => update({
+            // A radius needs an origin; fall back to the one shown in the sidebar
+            near: filters.near ?? origin?.coordinates,
+            nearZip: filters.near ? filters.nearZip : origin?.zipCode,
+            radiusMiles: value === "any" ? undefined : Number(value)
+          })}
+          disabled={!origin}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Any distance" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">Any distance</SelectItem>
+            {SEARCH_RADIUS_OPTIONS_MILES.map((miles) => (
+              <SelectItem key={miles} value={miles.toString()}>Within {miles} mi</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Dates</Label>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" className="w-full justify-start font-normal">
+              <CalendarIcon size={16} className="mr-2" />
+              {filters.availableFrom && filters.availableTo ? (
+                `${format(filters.availableFrom, "MMM d")} - ${format(filters.availableTo, "MMM d, yyyy")}`
+              ) : (
+                <span className="text-muted-foreground">Any dates</span>
+              )}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="range"
+              selected={dateRange}
+              onSelect={handleDateSelect}
+              fromDate={new Date()}
+              numberOfMonths={1}
+            />
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Price per day</Label>
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={0}
+            placeholder={facets ? `$${facets.priceMin}` : "Min"}
+            value={priceMin}
+            onChange={(e) => setPriceMin(e.target.value)}
+            onBlur={applyText}
+            onKeyDown={handleKeyDown}
+            aria-label="Minimum price"
+          />
+          <span className="text-muted-foreground">-</span>
+          <Input
+            type="number"
+            min={0}
+            placeholder={facets ? `$${facets.priceMax}` : "Max"}
+            value={priceMax}
+            onChange={(e) => setPriceMax(e.target.value)}
+            onBlur={applyText}
+            onKeyDown={handleKeyDown}
+            aria-label="Maximum price"
+          />
+        </div>
+      </div>
+
+      <Separator />
+
+      <div className="space-y-2">
+        <Label>Make</Label>
+        <FacetOptions
+          options={facets?.make ?? []}
+          selected={filters.make}
+          onSelect={(make) => update({ make })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Fuel type</Label>
+        <FacetOptions
+          options={facets?.fuelType ?? []}
+          selected={filters.fuelType}
+          getLabel={(value) => FUEL_LABELS[value] ?? value}
+          onSelect={(fuelType) => update({ fuelType: fuelType as FuelType | undefined })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Transmission</Label>
+        <FacetOptions
+          options={facets?.transmission ?? []}
+          selected={filters.transmission}
+          getLabel={(value) => TRANSMISSION_LABELS[value] ?? value}
+          onSelect={(transmission) => update({ transmission: transmission as TransmissionType | undefined })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Seats</Label>
+        <FacetOptions
+          options={facets?.seats ?? []}
+          selected={filters.seatsMin?.toString()}
+          getLabel={(value) => `${value}+ seats`}
+          onSelect={(seats) => update({ seatsMin: seats ? Number(seats) : undefined })}
+        />
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,237 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { MapContainer, Marker, Popup, TileLayer, useMap, useMapEvents } from "react-leaflet";
+import L from "leaflet";
+import Supercluster from "supercluster";
+import { Search, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { GeoBounds, GeoCoordinates } from "@/firebase/db/model/carmodel";
+import {
+  MAP_CLUSTER_RADIUS_PX,
+  MAP_DEFAULT_CENTER,
+  MAP_DEFAULT_ZOOM,
+  MAP_MAX_ZOOM,
+  MAP_TILE_ATTRIBUTION,
+  MAP_TILE_URL
+} from "@/config/map";
+import "leaflet/dist/leaflet.css";
+
+export interface MapListing {
+  id: string;
+  title: string;
+  price: number;
+  coordinates?: GeoCoordinates;
+}
+
+interface CarListingsMapProps {
+  listings: MapListing[];
+  bounds?: GeoBounds;                         // The active "search this area" filter
+  onSearchArea: (bounds: GeoBounds) => void;
+  onClearArea: () => void;
+  onViewDetails: (id: string) => void;
+}
+
+interface PinProperties {
+  listing: MapListing;
+}
+
+interface MapView {
+  bounds: L.LatLngBounds;
+  zoom: number;
+}
+
+// Pins are plain HTML so they can show the price; the empty className drops Leaflet's default white box
+const priceIcon = (price: number) => L.divIcon({
+  className: "",
+  html: `<div class="-translate-x-1/2 -translate-y-full inline-block whitespace-nowrap rounded-full bg-background border shadow px-2 py-0.5 text-xs font-semibold hover:bg-primary hover:text-primary-foreground">$${Math.round(price)}</div>`,
+  iconSize: [0, 0]
+});
+
+const clusterIcon = (count: number) => L.divIcon({
+  className: "",
+  html: `<div class="-translate-x-1/2 -translate-y-1/2 flex items-center justify-center rounded-full bg-primary text-primary-foreground shadow font-semibold text-sm ${count < 10 ? "w-8 h-8" : "w-10 h-10"}">${count}</div>`,
+  iconSize: [0, 0]
+});
+
+function toGeoBounds(bounds: L.LatLngBounds): GeoBounds {
+  return {
+    south: bounds.getSouth(),
+    west: bounds.getWest(),
+    north: bounds.getNorth(),
+    east: bounds.getEast()
+  };
+}
+
+/**
+ * Renders the pins and clusters for the visible part of the map
+ */
+function ClusteredPins({
+  listings,
+  bounds,
+  onUserMove,
+  onViewChange,
+  onViewDetails
+}: {
+  listings: MapListing[];
+  bounds?: GeoBounds;
+  onUserMove: () => void;
+  onViewChange: (bounds: GeoBounds) => void;
+  onViewDetails: (id: string) => void;
+}) {
+  const map = useMap();
+  const [view, setView] = useState<MapView>(() => ({ bounds: map.getBounds(), zoom: map.getZoom() }));
+  // Moves made by fitting or zooming into a cluster shouldn't offer "search this area"
+  const programmaticMove = useRef(false);
+
+  useMapEvents({
+    moveend: () => {
+      setView({ bounds: map.getBounds(), zoom: map.getZoom() });
+      onViewChange(toGeoBounds(map.getBounds()));
+      if (programmaticMove.current) {
+        programmaticMove.current = false;
+      } else {
+        onUserMove();
+      }
+    }
+  });
+
+  const located = useMemo(
+    () => listings.filter((listing): listing is MapListing & { coordinates: GeoCoordinates } => !!listing.coordinates),
+    [listings]
+  );
+
+  // Frame the first page of each search, unless the results come from a map area the user chose.
+  // A new search starts from an empty list, which re-arms this.
+  const framed = useRef(false);
+  useEffect(() => {
+    if (located.length === 0) {
+      framed.current = false;
+      return;
+    }
+    if (bounds || framed.current) return;
+    framed.current = true;
+    programmaticMove.current = true;
+    map.fitBounds(
+      L.latLngBounds(located.map((listing) => [listing.coordinates.lat, listing.coordinates.lng])),
+      { padding: [40, 40], maxZoom: 12 }
+    );
+  }, [map, located, bounds]);
+
+  const index = useMemo(() => {
+    const supercluster = new Supercluster<PinProperties>({ radius: MAP_CLUSTER_RADIUS_PX, maxZoom: MAP_MAX_ZOOM - 1 });
+    supercluster.load(located.map((listing) => ({
+      type: "Feature",
+      properties: { listing },
+      geometry: { type: "Point", coordinates: [listing.coordinates.lng, listing.coordinates.lat] }
+    })));
+    return supercluster;
+  }, [located]);
+
+  const clusters = useMemo(() => index.getClusters(
+    [view.bounds.getWest(), view.bounds.getSouth(), view.bounds.getEast(), view.bounds.getNorth()],
+    Math.round(view.zoom)
+  ), [index, view]);
+
+  return (
+    <>
+      {clusters.map((feature) => {
+        const [lng, lat] = feature.geometry.coordinates;
+
+        if ("cluster" in feature.properties && feature.properties.cluster) {
+          const clusterId = feature.properties.cluster_id;
+          return (
+            <Marker
+              key={`cluster-${clusterId}`}
+              position={[lat, lng]}
+              icon={clusterIcon(feature.properties.point_count)}
+              eventHandlers={{
+                click: () => {
+                  programmaticMove.current = true;
+                  map.flyTo([lat, lng], Math.min(index.getClusterExpansionZoom(clusterId), MAP_MAX_ZOOM));
+                }
+              }}
+            />
+          );
+        }
+
+        const { listing } = feature.properties as PinProperties;
+        return (
+          <Marker key={listing.id} position={[lat, lng]} icon={priceIcon(listing.price)}>
+            <Popup>
+              <div className="space-y-2 min-w-[160px]">
+                <p className="font-semibold text-sm leading-tight">{listing.title}</p>
+                <p className="text-sm">${listing.price}/day</p>
+                <Button size="sm" className="w-full" onClick={() => onViewDetails(listing.id)}>
+                  View Details
+                </Button>
+              </div>
+            </Popup>
+          </Marker>
+        );
+      })}
+    </>
+  );
+}
+
+/**
+ * Map of listing pins with price labels. Dense pins are clustered, and after
+ * panning or zooming the user can search the visible area.
+ */
+export function CarListingsMap({ listings, bounds, onSearchArea, onClearArea, onViewDetails }: CarListingsMapProps) {
+  const [moved, setMoved] = useState(false);
+  const [visibleBounds, setVisibleBounds] = useState<GeoBounds | null>(null);
+  const unlocated = listings.filter((listing) => !listing.coordinates).length;
+
+  const initialBounds = bounds
+    ? L.latLngBounds([bounds.south, bounds.west], [bounds.north, bounds.east])
+    : undefined;
+
+  const handleSearchArea = () => {
+    if (!visibleBounds) return;
+    setMoved(false);
+    onSearchArea(visibleBounds);
+  };
+
+  return (
+    // Own stacking context so Leaflet's panes stay below menus and dialogs
+    <div className="relative z-0 h-[480px] rounded-lg overflow-hidden border">
+      <MapContainer
+        center={MAP_DEFAULT_CENTER}
+        zoom={MAP_DEFAULT_ZOOM}
+        bounds={initialBounds}
+        maxZoom={MAP_MAX_ZOOM}
+        scrollWheelZoom
+        className="h-full w-full"
+      >
+        <TileLayer url={MAP_TILE_URL} attribution={MAP_TILE_ATTRIBUTION} maxZoom={MAP_MAX_ZOOM} />
+        <ClusteredPins
+          listings={listings}
+          bounds={bounds}
+          onUserMove={() => setMoved(true)}
+          onViewChange={setVisibleBounds}
+          onViewDetails={onViewDetails}
+        />
+      </MapContainer>
+
+      <div className="absolute top-3 left-1/2 -translate-x-1/2 z-[1000] flex gap-2">
+        {moved && (
+          <Button size="sm" onClick={handleSearchArea} className="shadow">
+            <Search size={14} className="mr-1.5" />
+            Search this area
+          </Button>
+        )}
+        {bounds && !moved && (
+          <Button size="sm" variant="secondary" onClick={onClearArea} className="shadow">
+            <X size={14} className="mr-1.5" />
+            Clear map area
+          </Button>
+        )}
+      </div>
+
+      {unlocated > 0 && (
+        <p className="absolute bottom-2 left-2 z-[1000] rounded bg-background/90 px-2 py-1 text-xs text-muted-foreground">
+          {unlocated} car{unlocated !== 1 ? "s" : ""} without a pickup location not shown
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { useAuth } from "@/firebase/auth/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Star } from "lucide-react";
+import { CarReviewScores, ReviewableBooking } from "@/firebase/db/model/reviewmodel";
+import { getReviewableCarBookings, submitCarReview } from "@/firebase/db/services/reviewService";
+
+interface CarReviewFormProps {
+  carId: string;
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+const SCORE_FIELDS: { key: keyof CarReviewScores; label: string; hint: string }[] = [
+  { key: "cleanliness", label: "Cleanliness", hint: "Was the car clean inside and out?" },
+  { key: "accuracy", label: "Accuracy", hint: "Did the car match the listing?" },
+  { key: "comfort", label: "Comfort", hint: "How comfortable was the ride?" },
+];
+
+export function CarReviewForm({ carId, onSuccess, onCancel }: CarReviewFormProps) {
+  const { user } = useAuth();
+  const [reviewableBookings, setReviewableBookings] = useState<ReviewableBooking[]>([]);
+  const [bookingId, setBookingId] = useState("");
+  const [loadingBookings, setLoadingBookings] = useState(true);
+  const [scores, setScores] = useState<CarReviewScores>({ cleanliness: 0, accuracy: 0, comfort: 0 });
+  const [hoverScore, setHoverScore] = useState<{ key: keyof CarReviewScores; value: number } | null>(null);
+  const [comment, setComment] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Only completed rentals of this car can be reviewed
+    async function fetchReviewableBookings() {
+      if (!user) {
+        setLoadingBookings(false);
+        return;
+      }
+
+      try {
+        setLoadingBookings(true);
+        const bookings = await getReviewableCarBookings(carId, user.uid);
+        setReviewableBookings(bookings);
+        if (bookings.length === 1) {
+          setBookingId(bookings[0].bookingId);
+        }
+      } catch (err) {
+        console.error("Error fetching reviewable bookings:", err);
+        setError("Failed to load your bookings for this car");
+      } finally {
+        setLoadingBookings(false);
+      }
+    }
+
+    fetchReviewableBookings();
+  }, [user, carId]);
+
+  const allScored = SCORE_FIELDS.every(({ key }) => scores[key] > 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!user) {
+      setError("You must be logged in to submit a review");
+      return;
+    }
+
+    if (!bookingId) {
+      setError("Please select the booking you are reviewing");
+      return;
+    }
+
+    if (!allScored) {
+      setError("Please rate cleanliness, accuracy and comfort");
+      return;
+    }
+
+    if (comment.trim().length < 10) {
+      setError("Please provide a more detailed review (at least 10 characters)");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await submitCarReview(bookingId, scores, comment, user);
+
+      if (!result.success) {
+        setError(result.error || "Failed to submit review");
+        return;
+      }
+
+      onSuccess();
+    } catch (err) {
+      console.error("Error submitting car review:", err);
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loadingBookings) {
+    return (
+      <div className="flex justify-center items-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (reviewableBookings.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <h3 className="text-lg font-semibold">Review this Car</h3>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground">
+            {error || "You can review this car after completing a booking of it that you haven't reviewed yet."}
+          </p>
+        </CardContent>
+        <CardFooter className="flex justify-end">
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Back
+          </Button>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <h3 className="text-lg font-semibold">Review this Car</h3>
+      </CardHeader>
+
+      <form onSubmit={handleSubmit}>
+        <CardContent className="space-y-4">
+          {error && (
+            <div className="bg-red-100 dark:bg-red-950/30 border border-red-200 dark:border-red-900 text-red-800 dark:text-red-300 px-4 py-3 rounded">
+              <p className="text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium">Booking</label>
+            <Select value={bookingId} onValueChange={setBookingId} disabled={loading}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a completed booking" />
+              </SelectTrigger>
+              <SelectContent>
+                {reviewableBookings.map((booking) => (
+                  <SelectItem key={booking.bookingId} value={booking.bookingId}>
+                    Trip ended {format(booking.endDate.toDate(), "MMM d, yyyy")}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {SCORE_FIELDS.map(({ key, label, hint }) => (
+            <div key={key} className="space-y-1">
+              <label className="block text-sm font-medium">{label}</label>
+              <p className="text-xs text-muted-foreground">{hint}</p>
+              <div className="flex items-center">
+                {[1, 2, 3, 4, 5].map((star) => {
+                  const shown = hoverScore?.key === key ? hoverScore.value : scores[key];
+                  return (
+                    <button
+                      key={star}
+                      type="button"
+                      className="p-1"
+                      onClick={() => setScores((prev) => ({ ...prev, [key]: star }))}
+                      onMouseEnter={() => setHoverScore({ key, value: star })}
+                      onMouseLeave={() => setHoverScore(null)}
+                      aria-label={`${label}: ${star} star${star !== 1 ? "s" : ""}`}
+                    >
+                      <Star
+                        className={`h-6 w-6 ${
+                          star <= shown
+                            ? "text-yellow-500 fill-yellow-500"
+                            : "text-gray-300"
+                        }`}
+                      />
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+
+          <div className="space-y-2">
+            <label htmlFor="car-review-comment" className="block text-sm font-medium">Your Review</label>
+            <Textarea
+              id="car-review-comment"
+              placeholder="How was the car?"
+              rows={4}
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              disabled={loading}
+              required
+            />
+          </div>
+        </CardContent>
+
+        <CardFooter className="flex justify-end space-x-3">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={loading}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            disabled={loading || !allScored || !bookingId}
+          >
+            {loading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Submitting...
+              </>
+            ) : (
+              "Submit Review"
+            )}
+          </Button>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
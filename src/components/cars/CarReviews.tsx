@@ -0,0 +1,179 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Progress } from "@/components/ui/progress";
+import { Separator } from "@/components/ui/separator";
+import { Star, User, Loader2 } from "lucide-react";
+import { useAuth } from "@/firebase/auth/AuthContext";
+import { CarReview, CarReviewScores } from "@/firebase/db/model/reviewmodel";
+import { getReviewsForCar } from "@/firebase/db/services/reviewService";
+import { CarReviewForm } from "./CarReviewForm";
+
+interface CarReviewsProps {
+  carId: string;
+  ownerId: string;
+}
+
+const SUB_SCORES: { key: keyof CarReviewScores; label: string }[] = [
+  { key: "cleanliness", label: "Cleanliness" },
+  { key: "accuracy", label: "Accuracy" },
+  { key: "comfort", label: "Comfort" },
+];
+
+const averageOf = (reviews: CarReview[], pick: (review: CarReview) => number) =>
+  reviews.length > 0 ? reviews.reduce((sum, review) => sum + pick(review), 0) / reviews.length : 0;
+
+export function CarReviews({ carId, ownerId }: CarReviewsProps) {
+  const { user } = useAuth();
+  const [reviews, setReviews] = useState<CarReview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showReviewForm, setShowReviewForm] = useState(false);
+
+  const fetchReviews = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setReviews(await getReviewsForCar(carId));
+    } catch (err) {
+      console.error("Error fetching car reviews:", err);
+      setError("Failed to load reviews");
+    } finally {
+      setLoading(false);
+    }
+  }, [carId]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  const handleReviewSubmitted = () => {
+    setShowReviewForm(false);
+    fetchReviews();
+  };
+
+  const renderStars = (rating: number, size = "h-4 w-4") => (
+    <div className="flex">
+      {[1, 2, 3, 4, 5].map((star) => (
+        <Star
+          key={star}
+          className={`${size} ${
+            star <= Math.round(rating)
+              ? "text-yellow-500 fill-yellow-500"
+              : "text-gray-300"
+          }`}
+        />
+      ))}
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (showReviewForm) {
+    return (
+      <CarReviewForm
+        carId={carId}
+        onSuccess={handleReviewSubmitted}
+        onCancel={() => setShowReviewForm(false)}
+      />
+    );
+  }
+
+  const canReview = user && user.uid !== ownerId;
+  const overall = averageOf(reviews, (review) => review.rating);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-semibold">Reviews</h2>
+        {canReview && (
+          <Button variant="outline" onClick={() => setShowReviewForm(true)}>
+            Review this Car
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      {reviews.length > 0 ? (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+            <div className="flex items-center gap-3">
+              <span className="text-4xl font-bold">{overall.toFixed(1)}</span>
+              <div>
+                {renderStars(overall, "h-5 w-5")}
+                <p className="text-sm text-muted-foreground mt-1">
+                  {reviews.length} review{reviews.length !== 1 ? "s" : ""}
+                </p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {SUB_SCORES.map(({ key, label }) => {
+                const score = averageOf(reviews, (review) => review[key]);
+                return (
+                  <div key={key} className="flex items-center gap-3 text-sm">
+                    <span className="w-24 text-muted-foreground">{label}</span>
+                    <Progress value={(score / 5) * 100} className="flex-1" />
+                    <span className="w-8 text-right font-medium">{score.toFixed(1)}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-6">
+            {reviews.map((review) => (
+              <div key={review.id} className="space-y-2">
+                <div className="flex justify-between">
+                  <div className="flex items-center gap-2">
+                    <Avatar className="h-8 w-8">
+                      {review.reviewerPhoto ? (
+                        <AvatarImage src={review.reviewerPhoto} alt={review.reviewerName} />
+                      ) : (
+                        <AvatarFallback>
+                          <User className="h-4 w-4" />
+                        </AvatarFallback>
+                      )}
+                    </Avatar>
+                    <div>
+                      <p className="font-medium text-sm">{review.reviewerName}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {review.createdAt ? new Date(review.createdAt.toDate()).toLocaleDateString() : "Just now"}
+                      </p>
+                    </div>
+                  </div>
+                  {renderStars(review.rating)}
+                </div>
+                <p className="text-sm">{review.comment}</p>
+                <p className="text-xs text-muted-foreground">
+                  {SUB_SCORES.map(({ key, label }) => `${label} ${review[key]}/5`).join(" · ")}
+                </p>
+              </div>
+            ))}
+          </div>
+        </>
+      ) : (
+        <div className="text-center p-8 bg-muted/20 rounded-lg border">
+          <Star className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p className="font-medium">No reviews yet</p>
+          <p className="text-sm text-muted-foreground mt-1">
+            Renters can review this car after completing a trip.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
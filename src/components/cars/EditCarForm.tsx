@@ -2,7 +2,7 @@ import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/firebase/auth/AuthContext";
 import { Loader2, X, User, Upload, Camera, Info } from "lucide-react";
-import { FuelType, TransmissionType } from "@/firebase/db/model/carmodel";
+import { CarPricing, FuelType, ListingStatus, TransmissionType } from "@/firebase/db/model/carmodel";
 import { updateCarListing } from "@/firebase/db/services/updateCarListing";
 import { getUserProfile } from "@/firebase/db/services/userProfileService";
 import { UserProfile } from "@/firebase/db/model/usermodel";
@@ -40,14 +40,27 @@ import {
 import { Check, ChevronsUpDown } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { motion, AnimatePresence } from "framer-motion";
-import { uploadImage } from "@/utils/imageUploadService";
+import { getCarImageFolder, uploadImage } from "@/utils/imageUploadService";
+import { AvailabilityCalendarEditor } from "@/components/cars/AvailabilityCalendarEditor";
+import { BookedRange, CarAvailabilityData } from "@/firebase/db/model/availabilitymodel";
+import { 
+  getCarAvailability, 
+  getLockedRanges, 
+  saveCarAvailability, 
+  toAvailabilityData 
+} from "@/firebase/db/services/availabilityService";
 
 // Update the interface to remove title
 interface CarFormData {
   description: string;
   price: number;
+  weekendPrice: number; // 0 means weekends use the daily price
+  weeklyDiscountPercent: number;
+  monthlyDiscountPercent: number;
   location: string;
+  zipCode: string; // Geocoded for distance search when saved
   imageUrls: string[]; // Changed from imageUrl to imageUrls array
+  thumbnailUrls: string[]; // Same order as imageUrls
   make: string;
   model: string;
   year: number;
@@ -58,6 +71,7 @@ interface CarFormData {
   availableFrom: Date;
   availableTo: Date;
   features: string[];
+  status: ListingStatus;
 }
 
 interface EditCarFormProps {
@@ -85,6 +99,8 @@ export function EditCarForm({
   const [uploadingImages, setUploadingImages] = useState(false);
   const [makeOpen, setMakeOpen] = useState(false);
   const [modelOpen, setModelOpen] = useState(false);
+  const [availability, setAvailability] = useState<CarAvailabilityData>(toAvailabilityData(undefined));
+  const [bookedRanges, setBookedRanges] = useState<BookedRange[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
   const { user } = useAuth();
@@ -111,7 +127,8 @@ export function EditCarForm({
           if (locationFromProfile) {
             setFormData(prev => prev ? {
               ...prev,
-              location: locationFromProfile
+              location: locationFromProfile,
+              zipCode: prev.zipCode || profile.zipCode || ""
             } : null);
           }
         }
@@ -125,6 +142,24 @@ export function EditCarForm({
     fetchOwnerProfile();
   }, [user, formData]);
 
+  // Fetch availability rules and existing bookings for the calendar
+  useEffect(() => {
+    async function fetchAvailability() {
+      try {
+        const [availabilityDoc, lockedRanges] = await Promise.all([
+          getCarAvailability(carId),
+          getLockedRanges(carId)
+        ]);
+        setAvailability(toAvailabilityData(availabilityDoc ?? undefined));
+        setBookedRanges(lockedRanges);
+      } catch (err) {
+        console.error("Error fetching car availability:", err);
+      }
+    }
+    
+    fetchAvailability();
+  }, [carId]);
+
   // Convert Firestore data to form data
   useEffect(() => {
     if (initialData) {
@@ -148,6 +183,12 @@ export function EditCarForm({
             ? [initialData.imageUrl] 
             : ["https://placehold.co/600x400?text=Invalid+Image"];
         
+        // Listings created before thumbnails existed fall back to the full-size images
+        const thumbnailUrls = Array.isArray(initialData.thumbnailUrls) && 
+          initialData.thumbnailUrls.length === imageUrls.length
+            ? initialData.thumbnailUrls
+            : imageUrls;
+        
         // Set up image previews based on the loaded URLs
         setImagePreviews(imageUrls);
         
@@ -155,8 +196,13 @@ export function EditCarForm({
         setFormData({
           description: initialData.description || "",
           price: initialData.price || 0,
+          weekendPrice: initialData.pricing?.weekendPrice || 0,
+          weeklyDiscountPercent: initialData.pricing?.weeklyDiscountPercent || 0,
+          monthlyDiscountPercent: initialData.pricing?.monthlyDiscountPercent || 0,
           location: initialData.location || "",
+          zipCode: initialData.zipCode || "",
           imageUrls: imageUrls,
+          thumbnailUrls: thumbnailUrls,
           make: carInfo?.make || "",
           model: carInfo?.model || "",
           year: carInfo?.year || new Date().getFullYear(),
@@ -166,7 +212,8 @@ export function EditCarForm({
           seats: carInfo?.seats || 5,
           availableFrom: availableFrom,
           availableTo: availableTo,
-          features: initialData.features || []
+          features: initialData.features || [],
+          status: initialData.status || ListingStatus.ACTIVE
         });
       } catch (error) {
         console.error("Error parsing car data:", error);
@@ -252,6 +299,12 @@ export function EditCarForm({
       // Generate title from make, model, and year
       const generatedTitle = generateCarTitle(formData.make, formData.model, formData.year);
       
+      // Only store the pricing rules the owner actually set
+      const pricing: CarPricing = {};
+      if (formData.weekendPrice > 0) pricing.weekendPrice = formData.weekendPrice;
+      if (formData.weeklyDiscountPercent > 0) pricing.weeklyDiscountPercent = formData.weeklyDiscountPercent;
+      if (formData.monthlyDiscountPercent > 0) pricing.monthlyDiscountPercent = formData.monthlyDiscountPercent;
+      
       // Convert form data to expected format for API
       const carListingData = {
         owner: user.uid,
@@ -261,8 +314,11 @@ export function EditCarForm({
         title: generatedTitle, // Use generated title
         description: formData.description,
         price: formData.price,
+        pricing,
         location: formData.location,
+        zipCode: formData.zipCode.trim(),
         imageUrls: formData.imageUrls,
+        thumbnailUrls: formData.thumbnailUrls,
         carInfo: {
           make: formData.make,
           model: formData.model,
@@ -275,6 +331,7 @@ export function EditCarForm({
         availableFrom: formData.availableFrom,
         availableTo: formData.availableTo,
         features: formData.features,
+        status: formData.status,
         updatedAt: new Date()
       };
       
@@ -285,6 +342,12 @@ export function EditCarForm({
         throw new Error(result.error || "Failed to update car listing");
       }
       
+      const availabilityResult = await saveCarAvailability(carId, availability, user);
+      
+      if (!availabilityResult.success) {
+        throw new Error(availabilityResult.error || "Failed to update availability");
+      }
+      
       setSuccess(true);
       
       // Call the onSubmit callback after a brief delay to show success state
@@ -319,9 +382,11 @@ export function EditCarForm({
 
         // Upload to Firebase Storage
         const uploadedUrls: string[] = [];
+        const uploadedThumbnailUrls: string[] = [];
         for (const file of files) {
-          const uploadedUrl = await uploadImage(file, 'cars');
-          uploadedUrls.push(uploadedUrl);
+          const uploaded = await uploadImage(file, getCarImageFolder(carId), { thumbnail: true });
+          uploadedUrls.push(uploaded.url);
+          uploadedThumbnailUrls.push(uploaded.thumbnailUrl || uploaded.url);
         }
         
         // Update form data with the uploaded URLs
@@ -330,7 +395,8 @@ export function EditCarForm({
           const allImageUrls = [...prev.imageUrls, ...uploadedUrls];
           return {
             ...prev,
-            imageUrls: allImageUrls
+            imageUrls: allImageUrls,
+            thumbnailUrls: [...prev.thumbnailUrls, ...uploadedThumbnailUrls]
           };
         });
       } catch (err) {
@@ -353,15 +419,16 @@ export function EditCarForm({
         setImagePreviews(prev => [...prev, tempPreview]);
 
         // Upload to Firebase Storage
-        const uploadedUrl = await uploadImage(file, 'cars');
+        const uploaded = await uploadImage(file, getCarImageFolder(carId), { thumbnail: true });
         
         // Update form data with the uploaded URL
         setFormData(prev => {
           if (!prev) return prev;
-          const allImageUrls = [...prev.imageUrls, uploadedUrl];
+          const allImageUrls = [...prev.imageUrls, uploaded.url];
           return {
             ...prev,
-            imageUrls: allImageUrls
+            imageUrls: allImageUrls,
+            thumbnailUrls: [...prev.thumbnailUrls, uploaded.thumbnailUrl || uploaded.url]
           };
         });
       } catch (err) {
@@ -395,9 +462,11 @@ export function EditCarForm({
     setFormData(prev => {
       if (!prev) return prev;
       const updatedImageUrls = prev.imageUrls.filter((_, index) => index !== indexToRemove);
+      const updatedThumbnailUrls = prev.thumbnailUrls.filter((_, index) => index !== indexToRemove);
       return {
         ...prev,
-        imageUrls: updatedImageUrls.length ? updatedImageUrls : ["https://placehold.co/600x400?text=No+Image"]
+        imageUrls: updatedImageUrls.length ? updatedImageUrls : ["https://placehold.co/600x400?text=No+Image"],
+        thumbnailUrls: updatedThumbnailUrls.length ? updatedThumbnailUrls : ["https://placehold.co/600x400?text=No+Image"]
       };
     });
   };
@@ -412,9 +481,14 @@ export function EditCarForm({
       const movedImage = newImageUrls.splice(index, 1)[0];
       newImageUrls.unshift(movedImage);
       
+      const newThumbnailUrls = [...prev.thumbnailUrls];
+      const movedThumbnail = newThumbnailUrls.splice(index, 1)[0];
+      newThumbnailUrls.unshift(movedThumbnail);
+      
       return {
         ...prev,
-        imageUrls: newImageUrls
+        imageUrls: newImageUrls,
+        thumbnailUrls: newThumbnailUrls
       };
     });
     
@@ -898,6 +972,69 @@ export function EditCarForm({
                   />
                 </motion.div>
               </div>
+
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: 0.65 }}
+                className="grid grid-cols-1 sm:grid-cols-3 gap-5"
+              >
+                <div className="space-y-2">
+                  <Label htmlFor="weekendPrice">
+                    <div className="flex items-center gap-1.5">
+                      Weekend Price ($)
+                      <TooltipProvider>
+                        <Tooltip delayDuration={300}>
+                          <TooltipTrigger>
+                            <Info className="h-3.5 w-3.5 text-muted-foreground" />
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            <p className="text-xs">Daily price on Saturdays and Sundays. Leave empty to use the regular price.</p>
+                          </TooltipContent>
+                        </Tooltip>
+                      </TooltipProvider>
+                    </div>
+                  </Label>
+                  <NumericInput
+                    id="weekendPrice"
+                    value={formData.weekendPrice || null}
+                    onChange={(value) => handleNumericChange('weekendPrice', value)}
+                    min={0}
+                    step={0.01}
+                    placeholder={formData.price ? `${formData.price}` : "Same as daily"}
+                    disabled={loading}
+                    className="h-11"
+                  />
+                </div>
+                
+                <div className="space-y-2">
+                  <Label htmlFor="weeklyDiscountPercent">Weekly Discount (%)</Label>
+                  <NumericInput
+                    id="weeklyDiscountPercent"
+                    value={formData.weeklyDiscountPercent || null}
+                    onChange={(value) => handleNumericChange('weeklyDiscountPercent', value)}
+                    min={0}
+                    max={100}
+                    placeholder="7+ days, e.g., 10"
+                    disabled={loading}
+                    className="h-11"
+                  />
+                </div>
+                
+                <div className="space-y-2">
+                  <Label htmlFor="monthlyDiscountPercent">Monthly Discount (%)</Label>
+                  <NumericInput
+                    id="monthlyDiscountPercent"
+                    value={formData.monthlyDiscountPercent || null}
+                    onChange={(value) => handleNumericChange('monthlyDiscountPercent', value)}
+                    min={0}
+                    max={100}
+                    placeholder="28+ days, e.g., 20"
+                    disabled={loading}
+                    className="h-11"
+                  />
+                </div>
+              </motion.div>
               
               <motion.div
                 initial={{ opacity: 0 }}
@@ -956,7 +1093,8 @@ export function EditCarForm({
                             
                             setFormData(prev => prev ? {
                               ...prev,
-                              location: locationFromProfile
+                              location: locationFromProfile,
+                              zipCode: prev.zipCode || ownerProfile.zipCode || ""
                             } : null);
                           }
                         }}
@@ -972,6 +1110,54 @@ export function EditCarForm({
                   )}
                 </AnimatePresence>
               </motion.div>
+
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: 0.75 }}
+                className="space-y-2"
+              >
+                <Label htmlFor="zipCode">Pickup ZIP Code</Label>
+                <Input
+                  id="zipCode"
+                  name="zipCode"
+                  placeholder="e.g., 94103"
+                  inputMode="numeric"
+                  pattern="\d{5}(-\d{4})?"
+                  maxLength={10}
+                  value={formData?.zipCode || ""}
+                  onChange={handleChange}
+                  disabled={loading}
+                  required
+                  className="h-11"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Renters see the approximate distance to your car, never your address.
+                </p>
+              </motion.div>
+
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: 0.75 }}
+                className="space-y-2"
+              >
+                <FormSelect
+                  id="status"
+                  name="status"
+                  label="Listing Status"
+                  value={formData.status}
+                  onChange={(value) => handleChange({ target: { name: 'status', value }} as any)}
+                  options={[
+                    { value: ListingStatus.ACTIVE, label: 'Active (shown in search)' },
+                    { value: ListingStatus.RENTED, label: 'Rented' },
+                    { value: ListingStatus.MAINTENANCE, label: 'Maintenance' },
+                    { value: ListingStatus.INACTIVE, label: 'Inactive' }
+                  ]}
+                  disabled={loading}
+                  required
+                />
+              </motion.div>
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
                 <motion.div
@@ -1013,6 +1199,26 @@ export function EditCarForm({
                 </motion.div>
               </div>
               
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: 0.85 }}
+                className="space-y-2"
+              >
+                <Label className="text-sm font-medium">Availability Calendar</Label>
+                <p className="text-xs text-muted-foreground">
+                  Choose the days you rent out your car and block dates when it isn't available. Booked dates are shown in blue.
+                </p>
+                <AvailabilityCalendarEditor
+                  value={availability}
+                  onChange={setAvailability}
+                  bookedRanges={bookedRanges}
+                  availableFrom={formData.availableFrom}
+                  availableTo={formData.availableTo}
+                  disabled={loading}
+                />
+              </motion.div>
+              
               <motion.div
                 initial={{ opacity: 0 }}
                 animate={{ opacity: 1 }}
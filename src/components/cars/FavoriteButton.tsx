@@ -0,0 +1,44 @@
+import { useState } from "react";
+import { Heart } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface FavoriteButtonProps {
+  isFavorite: boolean;
+  onToggle: () => Promise<void>;
+  className?: string;
+}
+
+/**
+ * Heart toggle for saving a car. Clicks don't reach the card underneath.
+ */
+export function FavoriteButton({ isFavorite, onToggle, className }: FavoriteButtonProps) {
+  const [pending, setPending] = useState(false);
+
+  const handleClick = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (pending) return;
+
+    setPending(true);
+    try {
+      await onToggle();
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={pending}
+      className={cn(
+        "rounded-full bg-background/90 p-2 shadow hover:bg-background transition-colors disabled:opacity-70",
+        className
+      )}
+      aria-label={isFavorite ? "Remove from saved cars" : "Save car"}
+      aria-pressed={isFavorite}
+    >
+      <Heart size={18} className={isFavorite ? "fill-red-500 text-red-500" : "text-foreground"} />
+    </button>
+  );
+}
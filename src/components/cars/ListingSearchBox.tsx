@@ -0,0 +1,166 @@
+import { useEffect, useId, useRef, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { Car, Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { getSearchSuggestions } from "@/firebase/db/services/listingSearchService";
+
+// Wait for a pause in typing before looking up suggestions
+const SUGGESTION_DELAY_MS = 150;
+
+type Suggestion =
+  | { kind: "query"; query: string }
+  | { kind: "listing"; id: string; title: string };
+
+interface ListingSearchBoxProps {
+  className?: string;
+  onNavigate?: () => void; // Called after a search or suggestion is opened, e.g. to close a menu
+}
+
+/**
+ * Keyword search box with suggestions. Searching opens /cars?q=, and picking
+ * a listing suggestion opens that listing.
+ */
+export function ListingSearchBox({ className, onNavigate }: ListingSearchBoxProps) {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const listId = useId();
+  const [text, setText] = useState("");
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const typedRef = useRef(false);
+
+  // Show the current search while on the results page
+  useEffect(() => {
+    typedRef.current = false;
+    setText(location.pathname === "/cars" ? new URLSearchParams(location.search).get("q") ?? "" : "");
+  }, [location.pathname, location.search]);
+
+  useEffect(() => {
+    // Only suggest for what the user typed, not for text restored from the URL
+    if (!typedRef.current || text.trim().length < 2) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const result = await getSearchSuggestions(text);
+      if (cancelled) return;
+      setSuggestions([
+        ...result.queries.map((query): Suggestion => ({ kind: "query", query })),
+        ...result.listings.map((listing): Suggestion => ({ kind: "listing", ...listing }))
+      ]);
+      setActiveIndex(-1);
+    }, SUGGESTION_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [text]);
+
+  const search = (query: string) => {
+    const trimmed = query.trim();
+    if (!trimmed) return;
+    setOpen(false);
+    navigate(`/cars?${new URLSearchParams({ q: trimmed })}`);
+    onNavigate?.();
+  };
+
+  const select = (suggestion: Suggestion) => {
+    if (suggestion.kind === "query") {
+      search(suggestion.query);
+    } else {
+      setOpen(false);
+      navigate(`/cars/${suggestion.id}`);
+      onNavigate?.();
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    const showing = open && suggestions.length > 0;
+
+    if (event.key === "ArrowDown" && showing) {
+      event.preventDefault();
+      setActiveIndex((index) => (index + 1) % suggestions.length);
+    } else if (event.key === "ArrowUp" && showing) {
+      event.preventDefault();
+      setActiveIndex((index) => (index <= 0 ? suggestions.length : index) - 1);
+    } else if (event.key === "Enter") {
+      event.preventDefault();
+      if (showing && activeIndex >= 0) {
+        select(suggestions[activeIndex]);
+      } else {
+        search(text);
+      }
+    } else if (event.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  const showSuggestions = open && suggestions.length > 0;
+
+  return (
+    <div className={cn("relative", className)}>
+      <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground pointer-events-none" />
+      <Input
+        type="search"
+        value={text}
+        placeholder="Search cars"
+        className="pl-9"
+        role="combobox"
+        aria-label="Search cars"
+        aria-expanded={showSuggestions}
+        aria-controls={listId}
+        aria-activedescendant={activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+        onChange={(event) => {
+          typedRef.current = true;
+          setText(event.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+      />
+
+      {showSuggestions && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute left-0 right-0 top-full mt-1 z-50 rounded-md border bg-popover text-popover-foreground shadow-md py-1"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.kind === "query" ? `q-${suggestion.query}` : `l-${suggestion.id}`}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={cn(
+                "flex items-center gap-2 px-3 py-2 text-sm cursor-pointer",
+                index === activeIndex && "bg-accent text-accent-foreground"
+              )}
+              // Keep focus in the input so blur doesn't close the list before the click lands
+              onMouseDown={(event) => event.preventDefault()}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => select(suggestion)}
+            >
+              {suggestion.kind === "query" ? (
+                <>
+                  <Search size={14} className="text-muted-foreground shrink-0" />
+                  <span className="truncate">{suggestion.query}</span>
+                </>
+              ) : (
+                <>
+                  <Car size={14} className="text-muted-foreground shrink-0" />
+                  <span className="truncate">{suggestion.title}</span>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { Circle, MapContainer, TileLayer } from "react-leaflet";
+import { GeoCoordinates } from "@/firebase/db/model/carmodel";
+import { MAP_MAX_ZOOM, MAP_TILE_ATTRIBUTION, MAP_TILE_URL, PICKUP_AREA_RADIUS_METERS } from "@/config/map";
+import "leaflet/dist/leaflet.css";
+
+interface PickupAreaMapProps {
+  coordinates: GeoCoordinates;
+}
+
+/**
+ * Shows roughly where a car is picked up. The owner shares the exact address
+ * with the renter once a booking is confirmed.
+ */
+export function PickupAreaMap({ coordinates }: PickupAreaMapProps) {
+  const center: [number, number] = [coordinates.lat, coordinates.lng];
+
+  return (
+    // Own stacking context so Leaflet's panes stay below menus and dialogs
+    <div className="relative z-0 h-64 rounded-lg overflow-hidden border">
+      <MapContainer
+        center={center}
+        zoom={12}
+        maxZoom={Math.min(MAP_MAX_ZOOM, 14)} // Zooming further in would suggest more precision than there is
+        scrollWheelZoom={false}
+        className="h-full w-full"
+      >
+        <TileLayer url={MAP_TILE_URL} attribution={MAP_TILE_ATTRIBUTION} maxZoom={MAP_MAX_ZOOM} />
+        <Circle
+          center={center}
+          radius={PICKUP_AREA_RADIUS_METERS}
+          pathOptions={{ color: "hsl(221 83% 53%)", fillOpacity: 0.15, weight: 2 }}
+        />
+      </MapContainer>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { CarSearchFilters } from "@/firebase/db/model/carmodel";
+import { saveSearch } from "@/firebase/db/services/savedSearchService";
+import { describeFilters } from "@/utils/carSearchParams";
+
+interface SaveSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  filters: CarSearchFilters;
+}
+
+/**
+ * Names and saves the current car search, with new-listing alerts on by default
+ */
+export function SaveSearchDialog({ open, onOpenChange, userId, filters }: SaveSearchDialogProps) {
+  const [name, setName] = useState("");
+  const [alertsEnabled, setAlertsEnabled] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState("");
+
+  // Start from a description of the filters each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setName(describeFilters(filters));
+      setAlertsEnabled(true);
+      setSaved(false);
+      setError("");
+    }
+  }, [open, filters]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError("");
+
+    const result = await saveSearch(userId, name, filters, alertsEnabled);
+
+    setSaving(false);
+    if (result.success) {
+      setSaved(true);
+    } else {
+      setError(result.error || "Failed to save search");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{saved ? "Search saved" : "Save this search"}</DialogTitle>
+          <DialogDescription>
+            {saved
+              ? alertsEnabled
+                ? "We'll notify you when a new car matches this search."
+                : "You can run it again from your profile."
+              : "Run it again any time from your profile, and hear about new cars that match."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {saved ? (
+          <DialogFooter>
+            <Button variant="outline" asChild>
+              <Link to="/profile?tab=searches">Manage saved searches</Link>
+            </Button>
+            <Button onClick={() => onOpenChange(false)}>Done</Button>
+          </DialogFooter>
+        ) : (
+          <>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="savedSearchName">Name</Label>
+                <Input
+                  id="savedSearchName"
+                  value={name}
+                  maxLength={100}
+                  onChange={(e) => setName(e.target.value)}
+                  disabled={saving}
+                />
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="savedSearchAlerts" className="font-normal">
+                  Notify me about new matching cars
+                </Label>
+                <Switch
+                  id="savedSearchAlerts"
+                  checked={alertsEnabled}
+                  onCheckedChange={setAlertsEnabled}
+                  disabled={saving}
+                />
+              </div>
+
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saving || !name.trim()}>
+                {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Save Search
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
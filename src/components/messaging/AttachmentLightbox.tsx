@@ -0,0 +1,90 @@
+import { useEffect, useState } from "react";
+import { ChevronLeft, ChevronRight, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog";
+import { MessageAttachment } from "@/firebase/db/model/messagemodel";
+
+interface AttachmentLightboxProps {
+  images: MessageAttachment[];
+  index: number | null; // Image to show, or null when closed
+  onClose: () => void;
+}
+
+/**
+ * Full-size view of the photos sent in a message, with arrow-key navigation
+ */
+export function AttachmentLightbox({ images, index, onClose }: AttachmentLightboxProps) {
+  const [current, setCurrent] = useState(index ?? 0);
+
+  useEffect(() => {
+    if (index !== null) setCurrent(index);
+  }, [index]);
+
+  const hasMultiple = images.length > 1;
+  const showPrevious = () => setCurrent((value) => (value - 1 + images.length) % images.length);
+  const showNext = () => setCurrent((value) => (value + 1) % images.length);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!hasMultiple) return;
+    if (e.key === "ArrowLeft") showPrevious();
+    if (e.key === "ArrowRight") showNext();
+  };
+
+  const image = images[current];
+
+  return (
+    <Dialog open={index !== null && Boolean(image)} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-4xl p-3 gap-2" onKeyDown={handleKeyDown}>
+        {image && (
+          <>
+            <DialogTitle className="text-sm font-medium truncate pr-8">{image.name}</DialogTitle>
+            <DialogDescription className="sr-only">
+              Photo {current + 1} of {images.length}
+            </DialogDescription>
+
+            <div className="relative flex items-center justify-center bg-muted rounded min-h-[200px]">
+              <img
+                src={image.url}
+                alt={image.name}
+                className="max-h-[75vh] max-w-full object-contain rounded"
+              />
+
+              {hasMultiple && (
+                <>
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    className="absolute left-2 h-8 w-8 rounded-full opacity-80"
+                    onClick={showPrevious}
+                    aria-label="Previous photo"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    className="absolute right-2 h-8 w-8 rounded-full opacity-80"
+                    onClick={showNext}
+                    aria-label="Next photo"
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>{hasMultiple ? `${current + 1} / ${images.length}` : ""}</span>
+              <Button variant="ghost" size="sm" className="h-7 text-xs" asChild>
+                <a href={image.url} target="_blank" rel="noopener noreferrer" download={image.name}>
+                  <Download className="h-3.5 w-3.5 mr-1" />
+                  Open original
+                </a>
+              </Button>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
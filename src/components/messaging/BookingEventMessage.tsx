@@ -0,0 +1,52 @@
+import { format } from "date-fns";
+import { CalendarCheck, CalendarPlus, CalendarX, LucideIcon } from "lucide-react";
+import { BookingMessageEvent, Message } from "@/firebase/db/model/messagemodel";
+
+const EVENT_ICONS: Record<BookingMessageEvent, LucideIcon> = {
+  [BookingMessageEvent.REQUESTED]: CalendarPlus,
+  [BookingMessageEvent.APPROVED]: CalendarCheck,
+  [BookingMessageEvent.REJECTED]: CalendarX,
+  [BookingMessageEvent.CANCELED]: CalendarX
+};
+
+const EVENT_VERBS: Record<BookingMessageEvent, string> = {
+  [BookingMessageEvent.REQUESTED]: "requested this booking",
+  [BookingMessageEvent.APPROVED]: "approved the booking",
+  [BookingMessageEvent.REJECTED]: "declined the booking",
+  [BookingMessageEvent.CANCELED]: "canceled the booking"
+};
+
+interface BookingEventMessageProps {
+  message: Message;
+  actorName: string; // "You" for the current user's own changes
+}
+
+/**
+ * A booking status change posted into the booking's conversation, shown as a
+ * centered notice instead of a chat bubble
+ */
+export function BookingEventMessage({ message, actorName }: BookingEventMessageProps) {
+  const event = message.bookingEvent;
+  const Icon = event ? EVENT_ICONS[event] : CalendarCheck;
+
+  return (
+    <div className="flex justify-center my-2">
+      <div className="max-w-[85%] text-center rounded-lg border bg-muted/40 px-3 py-1.5">
+        <p className="text-xs flex items-center justify-center gap-1.5">
+          <Icon className="h-3.5 w-3.5 text-primary flex-shrink-0" />
+          {event ? (
+            <span><span className="font-medium">{actorName}</span> {EVENT_VERBS[event]}</span>
+          ) : (
+            <span>{message.text}</span>
+          )}
+        </p>
+        {message.reason && (
+          <p className="text-xs text-muted-foreground mt-0.5 italic">"{message.reason}"</p>
+        )}
+        {message.timestamp && (
+          <p className="text-[10px] text-muted-foreground mt-0.5">{format(message.timestamp.toDate(), "h:mm a")}</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { useEffect, useMemo } from "react";
+import { FileText, X } from "lucide-react";
+
+interface ComposerAttachmentsProps {
+  files: File[];
+  onRemove: (index: number) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Files waiting to be sent with the next message, each with a remove button
+ */
+export function ComposerAttachments({ files, onRemove, disabled = false }: ComposerAttachmentsProps) {
+  // Local previews for photos; revoked when the list changes
+  const previews = useMemo(
+    () => files.map((file) => (file.type.startsWith("image/") ? URL.createObjectURL(file) : null)),
+    [files]
+  );
+
+  useEffect(() => {
+    return () => previews.forEach((url) => url && URL.revokeObjectURL(url));
+  }, [previews]);
+
+  if (files.length === 0) return null;
+
+  return (
+    <div className="flex gap-2 overflow-x-auto pb-2">
+      {files.map((file, index) => (
+        <div key={`${file.name}-${file.lastModified}-${index}`} className="relative flex-shrink-0">
+          {previews[index] ? (
+            <img
+              src={previews[index]}
+              alt={file.name}
+              className="h-14 w-14 rounded object-cover border"
+            />
+          ) : (
+            <div className="h-14 w-28 rounded border bg-muted flex items-center gap-1 px-2 text-[10px]">
+              <FileText className="h-4 w-4 flex-shrink-0" />
+              <span className="truncate">{file.name}</span>
+            </div>
+          )}
+          <button
+            type="button"
+            onClick={() => onRemove(index)}
+            disabled={disabled}
+            className="absolute -top-1.5 -right-1.5 rounded-full bg-background border shadow-sm p-0.5 hover:bg-muted disabled:opacity-50"
+            aria-label={`Remove ${file.name}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
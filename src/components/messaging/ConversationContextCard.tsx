@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { Calendar, Car } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { BookingStatusBadge } from "@/components/bookings/BookingStatusBadge";
+import { Booking } from "@/firebase/db/model/bookingmodel";
+import { CarListing } from "@/firebase/db/model/carmodel";
+import { getBookingById } from "@/firebase/db/services/bookingService";
+import { getCarListingById } from "@/firebase/db/services/getCarListings";
+import { getConversation } from "@/firebase/db/services/messagingService";
+
+interface ConversationContextCardProps {
+  conversationId: string;
+  userId: string;
+  refreshKey?: number; // Changes when a booking event arrives, so the status is reloaded
+}
+
+interface CarSummary {
+  id: string;
+  title: string;
+  imageUrl?: string;
+  price?: number;
+}
+
+/**
+ * The car or booking a conversation is about, shown above its messages
+ */
+export function ConversationContextCard({ conversationId, userId, refreshKey = 0 }: ConversationContextCardProps) {
+  const [car, setCar] = useState<CarSummary | null>(null);
+  const [booking, setBooking] = useState<Booking | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchContext() {
+      try {
+        const conversation = await getConversation(conversationId);
+        if (!conversation) return;
+
+        if (conversation.bookingId) {
+          const bookingData = await getBookingById(conversation.bookingId);
+          if (cancelled || !bookingData) return;
+          setBooking(bookingData);
+          setCar({ id: bookingData.carId, title: bookingData.carTitle, imageUrl: bookingData.carImageUrl });
+        } else if (conversation.carId) {
+          const listing = await getCarListingById(conversation.carId) as CarListing | null;
+          if (cancelled) return;
+          setBooking(null);
+          setCar({
+            id: conversation.carId,
+            title: listing?.title ?? conversation.carTitle ?? "Car",
+            imageUrl: listing?.thumbnailUrls?.[0] ?? listing?.imageUrls?.[0] ?? listing?.imageUrl,
+            price: listing?.price
+          });
+        } else {
+          setBooking(null);
+          setCar(null);
+        }
+      } catch (error) {
+        console.error("Error loading conversation context:", error);
+      }
+    }
+
+    fetchContext();
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId, refreshKey]);
+
+  if (!car) return null;
+
+  return (
+    <div className="border-b px-3 py-2 flex items-center gap-3 bg-muted/30">
+      {car.imageUrl ? (
+        <img src={car.imageUrl} alt={car.title} className="h-10 w-14 rounded object-cover flex-shrink-0" />
+      ) : (
+        <div className="h-10 w-14 rounded bg-muted flex items-center justify-center flex-shrink-0">
+          <Car className="h-4 w-4 text-muted-foreground" />
+        </div>
+      )}
+
+      <div className="min-w-0 flex-1">
+        <Link to={`/cars/${car.id}`} className="text-sm font-medium truncate block hover:underline">
+          {car.title}
+        </Link>
+        {booking ? (
+          <p className="text-xs text-muted-foreground flex items-center gap-1">
+            <Calendar className="h-3 w-3" />
+            {format(booking.startDate.toDate(), "MMM d")} - {format(booking.endDate.toDate(), "MMM d, yyyy")}
+            <span className="mx-1">·</span>
+            ${booking.totalPrice}
+          </p>
+        ) : car.price !== undefined && (
+          <p className="text-xs text-muted-foreground">${car.price}/day</p>
+        )}
+      </div>
+
+      {booking && (
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <BookingStatusBadge status={booking.status} />
+          <Button variant="outline" size="sm" className="h-7 text-xs" asChild>
+            <Link to={booking.ownerId === userId ? "/my-bookings?tab=received" : "/my-bookings"}>
+              View booking
+            </Link>
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
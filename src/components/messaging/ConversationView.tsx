@@ -1,18 +1,41 @@
-import { useState, useEffect, useRef, useCallback } from "react";
-import { 
-  subscribeToConversationMessages as subscribeToMessages, 
-  sendMessage as sendMessageToFirebase,
-  markMessagesFromSenderAsRead
-} from "@/firebase/db/services/messagingService";
-import { Message } from "@/firebase/db/model/messagemodel";
+import { useState, useEffect, useLayoutEffect, useRef, useCallback, useMemo } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { Timestamp } from "firebase/firestore";
+import { editMessage, markMessagesFromSenderAsRead } from "@/firebase/db/services/messagingService";
+import { Message, MessageType, OutboxMessage, OutboxStatus } from "@/firebase/db/model/messagemodel";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { format, formatDistanceToNow, isToday, isYesterday } from "date-fns";
-import { ChevronLeft, Send, User, Loader2, ArrowDown } from "lucide-react";
+import { ChevronLeft, Send, User, Loader2, ArrowDown, Paperclip, Upload, Clock, AlertCircle } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { getUserProfile } from "@/firebase/db/services/userProfileService";
 import { UserProfile } from "@/firebase/db/model/usermodel";
+import { useActiveConversation } from "@/hooks/useActiveConversation";
+import { useConversationMessages } from "@/hooks/useConversationMessages";
+import { useMessageOutbox } from "@/hooks/useMessageOutbox";
+import { discardOutboxMessage, queueMessage, retryOutboxMessage } from "@/utils/messageOutbox";
+import { ConversationContextCard } from "./ConversationContextCard";
+import { BookingEventMessage } from "./BookingEventMessage";
+import { MessageAttachments } from "./MessageAttachments";
+import { MessageActions } from "./MessageActions";
+import { MessageReactions } from "./MessageReactions";
+import { MessageEditHistory } from "./MessageEditHistory";
+import { ComposerAttachments } from "./ComposerAttachments";
+import {
+  deleteMessageAttachments,
+  filterAttachments,
+  uploadMessageAttachments
+} from "@/utils/attachmentUploadService";
+import { ATTACHMENT_DOCUMENT_TYPES, ATTACHMENT_IMAGE_TYPES } from "@/config/attachments";
+
+// A rendered line in the message list: a day heading or a message
+type ThreadRow =
+  | { kind: "date"; key: string; date: Date }
+  | { kind: "message"; key: string; message: Message; showAvatar: boolean; isConsecutive: boolean };
+
+// Distance from the top, in pixels, at which the previous page starts loading
+const LOAD_OLDER_THRESHOLD = 200;
 
 interface ConversationViewProps {
   conversationId: string;
@@ -29,54 +52,102 @@ export function ConversationView({
   otherUserName,
   onBack
 }: ConversationViewProps) {
-  const [messages, setMessages] = useState<Message[]>([]);
+  const {
+    messages: loadedMessages,
+    loading,
+    hasOlder,
+    loadingOlder,
+    loadOlder
+  } = useConversationMessages(conversationId);
+  const outbox = useMessageOutbox(conversationId);
   const [newMessage, setNewMessage] = useState("");
-  const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
   const [otherUserProfile, setOtherUserProfile] = useState<UserProfile | null>(null);
   const [showScrollButton, setShowScrollButton] = useState(false);
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+  const [savingEdit, setSavingEdit] = useState(false);
+  const [editError, setEditError] = useState<string | null>(null);
   
-  const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isAtBottomRef = useRef(true);
+  const scrollAnchorRef = useRef<number | null>(null); // Distance from the bottom while older messages load
+  const openedAtRef = useRef(Date.now());              // Only messages arriving after this animate in
+
+  // Keeps MessageNotifier quiet about the conversation on screen
+  useActiveConversation(conversationId);
   
-  // Updated scrollToBottom function to only scroll the container, not the whole page
+  // Messages not confirmed yet are shown at the end until the server has them
+  const outboxById = useMemo(() => new Map(outbox.map((entry) => [entry.id, entry])), [outbox]);
+  const messages = useMemo(() => {
+    const loadedIds = new Set(loadedMessages.map((message) => message.id));
+    const unconfirmed = outbox
+      .filter((entry) => !loadedIds.has(entry.id))
+      .map((entry): Message => ({
+        id: entry.id,
+        conversationId: entry.conversationId,
+        senderId: entry.senderId,
+        text: entry.text,
+        attachments: entry.attachments,
+        type: MessageType.TEXT,
+        timestamp: Timestamp.fromMillis(entry.createdAt),
+        read: false
+      }));
+    return unconfirmed.length > 0 ? [...loadedMessages, ...unconfirmed] : loadedMessages;
+  }, [loadedMessages, outbox]);
+
+  // Group messages by day, noting runs of messages from the same sender
+  const rows = useMemo(() => {
+    const result: ThreadRow[] = [];
+    let previous: Message | null = null;
+
+    messages.forEach(message => {
+      const messageDate = message.timestamp.toDate();
+      const isNewDay = !previous || format(previous.timestamp.toDate(), 'yyyy-MM-dd') !== format(messageDate, 'yyyy-MM-dd');
+
+      if (isNewDay) {
+        result.push({ kind: "date", key: `date-${format(messageDate, 'yyyy-MM-dd')}`, date: messageDate });
+      }
+
+      const isConsecutive = !isNewDay && previous?.senderId === message.senderId;
+      result.push({ kind: "message", key: message.id, message, showAvatar: !isConsecutive, isConsecutive });
+      previous = message;
+    });
+
+    return result;
+  }, [messages]);
+
+  // Only the rows near the viewport are rendered, so long threads stay fast
+  const virtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => messagesContainerRef.current,
+    estimateSize: (index) => (rows[index].kind === "date" ? 32 : 64),
+    getItemKey: (index) => rows[index].key,
+    overscan: 8
+  });
+
+  // Scroll only the container, not the whole page
   const scrollToBottom = useCallback(() => {
-    if (messagesContainerRef.current) {
-      const container = messagesContainerRef.current;
-      container.scrollTo({
-        top: container.scrollHeight,
-        behavior: "smooth"
-      });
+    if (rows.length > 0) {
+      virtualizer.scrollToIndex(rows.length - 1, { align: "end" });
     }
-  }, []);
-  
-  // Subscribe to messages in this conversation
+  }, [rows.length, virtualizer]);
+
   useEffect(() => {
     if (!conversationId || !userId) return;
     
-    setLoading(true);
+    openedAtRef.current = Date.now();
+    isAtBottomRef.current = true;
+    scrollAnchorRef.current = null;
     
     // Mark messages as read when conversation is opened
     markMessagesFromSenderAsRead(conversationId, otherUserId);
     
-    // Subscribe to messages
-    const unsubscribe = subscribeToMessages(conversationId, (newMessages) => {
-      setMessages(newMessages);
-      setLoading(false);
-      
-      // Only auto-scroll if user is already at the bottom
-      if (messagesContainerRef.current) {
-        const { scrollHeight, scrollTop, clientHeight } = messagesContainerRef.current;
-        const isAtBottom = scrollHeight - scrollTop - clientHeight < 100;
-        
-        if (isAtBottom) {
-          // Use setTimeout to let the messages render first
-          setTimeout(() => scrollToBottom(), 0);
-        }
-      }
-    });
-    
     // Fetch other user's profile data
     const fetchOtherUserProfile = async () => {
       try {
@@ -90,35 +161,43 @@ export function ConversationView({
     };
     
     fetchOtherUserProfile();
-    
-    return () => unsubscribe();
-  }, [conversationId, userId, otherUserId, scrollToBottom]);
+  }, [conversationId, userId, otherUserId]);
   
-  // Initial scroll to bottom when messages first load
+  // Keep the view pinned to the newest message when one arrives, unless the user scrolled up
+  const newestMessageId = messages[messages.length - 1]?.id;
   useEffect(() => {
-    if (!loading && messages.length > 0) {
+    if (!loading && newestMessageId && isAtBottomRef.current) {
       // Use setTimeout to let the messages render first
       setTimeout(() => scrollToBottom(), 0);
     }
-  }, [loading, messages.length, scrollToBottom]);
+  }, [loading, newestMessageId, scrollToBottom]);
   
-  // Track scroll position to show/hide scroll button
-  useEffect(() => {
+  // Keep the same messages in view after an older page is added above them
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    if (!loadingOlder && container && scrollAnchorRef.current !== null) {
+      container.scrollTop = container.scrollHeight - scrollAnchorRef.current;
+      scrollAnchorRef.current = null;
+    }
+  }, [loadingOlder, messages]);
+  
+  // Track scroll position to show/hide scroll button and load older messages
+  const handleScroll = () => {
     const container = messagesContainerRef.current;
     if (!container) return;
     
-    const handleScroll = () => {
-      const { scrollHeight, scrollTop, clientHeight } = container;
-      const isNotAtBottom = scrollHeight - scrollTop - clientHeight > 100;
-      setShowScrollButton(isNotAtBottom);
-    };
+    const { scrollHeight, scrollTop, clientHeight } = container;
+    const isNotAtBottom = scrollHeight - scrollTop - clientHeight > 100;
+    isAtBottomRef.current = !isNotAtBottom;
+    setShowScrollButton(isNotAtBottom);
     
-    container.addEventListener('scroll', handleScroll);
-    return () => container.removeEventListener('scroll', handleScroll);
-  }, []);
+    if (scrollTop < LOAD_OLDER_THRESHOLD && hasOlder && !loadingOlder && !loading) {
+      scrollAnchorRef.current = scrollHeight - scrollTop;
+      loadOlder();
+    }
+  };
   
-    
-  // Animation variants for messages
+    // Animation variants for messages
   const incomingMessageVariants = {
     hidden: { opacity: 0, x: -20, y: 0 },
     visible: { opacity: 1, x: 0, y: 0, transition: { type: "spring", stiffness: 500, damping: 35 } },
@@ -132,16 +211,73 @@ export function ConversationView({
     exit: { opacity: 0, x: 20, transition: { duration: 0.2 } }
   };
   
+  // Queue picked, pasted or dropped files for the next message
+  const addFiles = (files: File[]) => {
+    if (files.length === 0) return;
+    const { accepted, errors } = filterAttachments(files, pendingFiles.length);
+    setPendingFiles((current) => [...current, ...accepted]);
+    setAttachmentError(errors.length > 0 ? errors.join(" ") : null);
+  };
+
+  const removePendingFile = (index: number) => {
+    setPendingFiles((current) => current.filter((_, i) => i !== index));
+    setAttachmentError(null);
+  };
+
+  // Pasted screenshots and copied files arrive as clipboard files; plain text pastes normally
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length > 0) {
+      e.preventDefault();
+      addFiles(files);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Ignore leaving into a child element
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsDragging(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    setIsDragging(false);
+    if (!sending) addFiles(Array.from(e.dataTransfer.files));
+  };
+
   // Handle sending a message
   const handleSendMessage = async () => {
-    if (!newMessage.trim() || !conversationId || !userId) return;
+    if ((!newMessage.trim() && pendingFiles.length === 0) || !conversationId || !userId) return;
     
     setSending(true);
+    setAttachmentError(null);
     const messageContent = newMessage.trim();
+    const filesToSend = pendingFiles;
     setNewMessage(""); // Clear input immediately for better UX
     
     try {
-      await sendMessageToFirebase(conversationId, userId, messageContent);
+      if (filesToSend.length > 0 && !navigator.onLine) {
+        throw new Error("You're offline. Attachments can be sent once you're back online.");
+      }
+
+      // Files are uploaded first; the message itself waits in the outbox until it's confirmed
+      const attachments = await uploadMessageAttachments(conversationId, filesToSend);
+      isAtBottomRef.current = true;
+      try {
+        await queueMessage(conversationId, userId, messageContent, attachments);
+      } catch (error) {
+        await deleteMessageAttachments(attachments);
+        throw error;
+      }
+      setPendingFiles([]);
       
       // Focus back on the textarea
       if (textareaRef.current) {
@@ -154,6 +290,9 @@ export function ConversationView({
       console.error("Error sending message:", error);
       // Could restore the message content here if sending fails
       setNewMessage(messageContent);
+      if (filesToSend.length > 0) {
+        setAttachmentError(error instanceof Error ? error.message : "Failed to send attachments");
+      }
     } finally {
       setSending(false);
     }
@@ -171,29 +310,175 @@ export function ConversationView({
     return formatDistanceToNow(timestamp, { addSuffix: true });
   };
   
-  // Group messages by date
-  const groupMessagesByDate = () => {
-    const groups: { date: Date, messages: Message[] }[] = [];
-    
-    messages.forEach(message => {
-      const messageDate = message.timestamp.toDate();
-      const dateString = format(messageDate, 'yyyy-MM-dd');
-      
-      const existingGroup = groups.find(group => 
-        format(group.date, 'yyyy-MM-dd') === dateString
+  const renderOutboxStatus = (entry: OutboxMessage) => {
+    if (entry.status === OutboxStatus.PENDING) {
+      return (
+        <div className="text-[10px] text-muted-foreground text-right flex items-center justify-end gap-1">
+          <Clock className="h-3 w-3" />
+          {navigator.onLine ? "Sending..." : "Waiting for connection"}
+        </div>
       );
-      
-      if (existingGroup) {
-        existingGroup.messages.push(message);
-      } else {
-        groups.push({
-          date: messageDate,
-          messages: [message]
-        });
-      }
-    });
+    }
+
+    return (
+      <div className="text-[10px] text-red-500 text-right flex items-center justify-end gap-1" title={entry.error}>
+        <AlertCircle className="h-3 w-3" />
+        Not sent
+        <button type="button" className="font-medium underline" onClick={() => retryOutboxMessage(entry.id)}>
+          Retry
+        </button>
+        <span>·</span>
+        <button type="button" className="font-medium underline" onClick={() => discardOutboxMessage(entry.id)}>
+          Delete
+        </button>
+      </div>
+    );
+  };
+
+  const startEditing = (message: Message) => {
+    setEditingMessageId(message.id);
+    setEditText(message.text);
+    setEditError(null);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessageId(null);
+    setEditError(null);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingMessageId) return;
+
+    setSavingEdit(true);
+    setEditError(null);
+    try {
+      await editMessage(editingMessageId, userId, editText);
+      setEditingMessageId(null);
+    } catch (error) {
+      setEditError(error instanceof Error ? error.message : "Failed to edit message");
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+
+  // Enter saves, Escape cancels, Shift+Enter adds a new line
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSaveEdit();
+    } else if (e.key === 'Escape') {
+      cancelEditing();
+    }
+  };
+
+  const renderMessage = (message: Message, showAvatar: boolean, isConsecutive: boolean) => {
+    if (message.type === MessageType.BOOKING_EVENT) {
+      return (
+        <BookingEventMessage
+          message={message}
+          actorName={message.senderId === userId ? "You" : otherUserName}
+        />
+      );
+    }
+
+    const isMine = message.senderId === userId;
+    const outboxEntry = isMine ? outboxById.get(message.id) : undefined;
+    const isEditing = editingMessageId === message.id;
     
-    return groups;
+    return (
+      <motion.div
+        initial={message.timestamp.toMillis() > openedAtRef.current ? "hidden" : false}
+        animate="visible"
+        variants={isMine ? outgoingMessageVariants : incomingMessageVariants}
+        className={`group flex ${isMine ? 'justify-end' : 'justify-start'} ${isConsecutive ? 'pt-0.5' : 'pt-2'}`}
+      >
+        <div className={`flex items-end gap-1.5 max-w-[85%] ${isMine ? 'flex-row-reverse' : 'flex-row'}`}>
+          {!isMine && showAvatar && (
+            <Avatar className="h-6 w-6 flex-shrink-0">
+              {otherUserProfile?.profileImageUrl ? (
+                <AvatarImage src={otherUserProfile.profileImageUrl} alt={otherUserName} />
+              ) : (
+                <AvatarFallback>
+                  <User className="h-3 w-3" />
+                </AvatarFallback>
+              )}
+            </Avatar>
+          )}
+          
+          {!isMine && !showAvatar && (
+            <div className="w-6 flex-shrink-0" />
+          )}
+          
+          <div className={`space-y-0.5 min-w-0 ${isMine ? 'items-end' : 'items-start'}`}>
+            {message.deleted ? (
+              <div className="px-2.5 py-2 rounded-2xl border text-xs italic text-muted-foreground">
+                This message was deleted
+              </div>
+            ) : isEditing ? (
+              <div className="space-y-1 w-64 max-w-full">
+                <Textarea
+                  value={editText}
+                  onChange={(e) => setEditText(e.target.value)}
+                  onKeyDown={handleEditKeyDown}
+                  className="min-h-[40px] max-h-[120px] resize-none text-xs py-2"
+                  disabled={savingEdit}
+                  autoFocus
+                />
+                {editError && <p className="text-[10px] text-red-500">{editError}</p>}
+                <div className="flex justify-end gap-1">
+                  <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={cancelEditing} disabled={savingEdit}>
+                    Cancel
+                  </Button>
+                  <Button size="sm" className="h-6 text-xs" onClick={handleSaveEdit} disabled={savingEdit}>
+                    {savingEdit && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                    Save
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <motion.div
+                whileHover={{ scale: 1.01 }}
+                className={`px-2.5 py-2 rounded-2xl text-sm shadow-sm ${
+                  isMine 
+                    ? 'bg-primary text-primary-foreground rounded-tr-none' 
+                    : 'bg-muted rounded-tl-none'
+                } ${isConsecutive ? (isMine ? 'rounded-tr-2xl' : 'rounded-tl-2xl') : ''}`}
+              >
+                {message.attachments && message.attachments.length > 0 && (
+                  <div className={message.text ? "mb-1.5" : ""}>
+                    <MessageAttachments attachments={message.attachments} isMine={isMine} />
+                  </div>
+                )}
+                {message.text && (
+                  <div className="whitespace-pre-wrap break-words text-xs">{message.text}</div>
+                )}
+              </motion.div>
+            )}
+
+            <MessageReactions message={message} userId={userId} isMine={isMine} />
+            
+            {outboxEntry ? renderOutboxStatus(outboxEntry) : (
+              <div className={`text-[10px] text-muted-foreground ${isMine ? 'text-right' : 'text-left'}`}>
+                {formatMessageTime(message.timestamp.toDate())}
+                {message.editedAt && !message.deleted && <MessageEditHistory message={message} />}
+                {message.read && isMine && (
+                  <span className="ml-1 text-primary/70">• Read</span>
+                )}
+              </div>
+            )}
+          </div>
+
+          {!outboxEntry && !message.deleted && !isEditing && (
+            <MessageActions
+              message={message}
+              userId={userId}
+              onEdit={() => startEditing(message)}
+              className="self-center opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity"
+            />
+          )}
+        </div>
+      </motion.div>
+    );
   };
   
   const formatDateHeading = (date: Date) => {
@@ -207,7 +492,19 @@ export function ConversationView({
   };
   
   return (
-    <div className="flex flex-col h-full overflow-hidden">
+    <div
+      className="flex flex-col h-full overflow-hidden relative"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {isDragging && (
+        <div className="absolute inset-0 z-20 flex flex-col items-center justify-center gap-2 bg-background/90 border-2 border-dashed border-primary rounded pointer-events-none">
+          <Upload className="h-8 w-8 text-primary" />
+          <p className="text-sm font-medium">Drop photos or PDFs to attach</p>
+        </div>
+      )}
+
       {/* Header */}
       <header className="border-b p-2 flex items-center gap-2 bg-background/95 backdrop-blur sticky top-0 z-10 shadow-sm">
         <Button 
@@ -233,12 +530,19 @@ export function ConversationView({
         
         
          </header>
+
+      <ConversationContextCard
+        conversationId={conversationId}
+        userId={userId}
+        refreshKey={messages.filter((message) => message.type === MessageType.BOOKING_EVENT).length}
+      />
       
       {/* Messages area */}
       <div 
         ref={messagesContainerRef}
-        className="flex-grow overflow-y-auto p-3 space-y-3 relative"
+        className="flex-grow overflow-y-auto p-3 relative"
         style={{ overscrollBehavior: 'contain' }} // Prevent scroll chaining
+        onScroll={handleScroll}
       >
         {loading ? (
           <div className="flex justify-center items-center h-full">
@@ -255,74 +559,42 @@ export function ConversationView({
             <p className="text-xs mt-1">Be the first to send a message</p>
           </div>
         ) : (
-          <AnimatePresence initial={false}>
-            {groupMessagesByDate().map((group, groupIndex) => (
-              <div key={groupIndex} className="space-y-3">
-                <div className="sticky top-2 z-10 flex justify-center">
-                  <div className="bg-muted text-muted-foreground text-[10px] px-2 py-0.5 rounded-full">
-                    {formatDateHeading(group.date)}
-                  </div>
+          <>
+            {/* Zero-height so it doesn't shift the rows the virtualizer positions */}
+            <div className="sticky top-0 z-10 h-0 flex justify-center">
+              {loadingOlder && (
+                <div className="flex items-center gap-1.5 bg-muted text-muted-foreground text-[10px] px-2 py-0.5 rounded-full shadow-sm">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  Loading earlier messages
                 </div>
-                
-                {group.messages.map((message, index) => {
-                  const isMine = message.senderId === userId;
-                  const showAvatar = index === 0 || group.messages[index - 1]?.senderId !== message.senderId;
-                  const isConsecutive = index > 0 && group.messages[index - 1]?.senderId === message.senderId;
-                  
-                  return (
-                    <motion.div
-                      key={message.id}
-                      initial="hidden"
-                      animate="visible"
-                      exit="exit"
-                      variants={isMine ? outgoingMessageVariants : incomingMessageVariants}
-                      className={`flex ${isMine ? 'justify-end' : 'justify-start'} ${isConsecutive ? 'mt-0.5' : 'mt-2'}`}
-                    >
-                      <div className={`flex items-end gap-1.5 max-w-[85%] ${isMine ? 'flex-row-reverse' : 'flex-row'}`}>
-                        {!isMine && showAvatar && (
-                          <Avatar className="h-6 w-6 flex-shrink-0">
-                            {otherUserProfile?.profileImageUrl ? (
-                              <AvatarImage src={otherUserProfile.profileImageUrl} alt={otherUserName} />
-                            ) : (
-                              <AvatarFallback>
-                                <User className="h-3 w-3" />
-                              </AvatarFallback>
-                            )}
-                          </Avatar>
-                        )}
-                        
-                        {!isMine && !showAvatar && (
-                          <div className="w-6 flex-shrink-0" />
-                        )}
-                        
-                        <div className={`space-y-0.5 ${isMine ? 'items-end' : 'items-start'}`}>
-                          <motion.div
-                            whileHover={{ scale: 1.01 }}
-                            className={`px-2.5 py-2 rounded-2xl text-sm shadow-sm ${
-                              isMine 
-                                ? 'bg-primary text-primary-foreground rounded-tr-none' 
-                                : 'bg-muted rounded-tl-none'
-                            } ${isConsecutive ? (isMine ? 'rounded-tr-2xl' : 'rounded-tl-2xl') : ''}`}
-                          >
-                            <div className="whitespace-pre-wrap break-words text-xs">{message.text}</div>
-                          </motion.div>
-                          
-                          <div className={`text-[10px] text-muted-foreground ${isMine ? 'text-right' : 'text-left'}`}>
-                            {formatMessageTime(message.timestamp.toDate())}
-                            {message.read && isMine && (
-                              <span className="ml-1 text-primary/70">• Read</span>
-                            )}
-                          </div>
+              )}
+            </div>
+
+            <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+              {virtualizer.getVirtualItems().map((item) => {
+                const row = rows[item.index];
+
+                return (
+                  <div
+                    key={item.key}
+                    data-index={item.index}
+                    ref={virtualizer.measureElement}
+                    className="absolute left-0 top-0 w-full"
+                    style={{ transform: `translateY(${item.start}px)` }}
+                  >
+                    {row.kind === "date" ? (
+                      <div className="flex justify-center py-2">
+                        <div className="bg-muted text-muted-foreground text-[10px] px-2 py-0.5 rounded-full">
+                          {formatDateHeading(row.date)}
                         </div>
                       </div>
-                    </motion.div>
-                  );
-                })}
-              </div>
-            ))}
-          </AnimatePresence>
+                    ) : renderMessage(row.message, row.showAvatar, row.isConsecutive)}
+                  </div>
+                );
+              })}
+            </div>
+          </>
         )}
-        <div ref={messagesEndRef} />
         
         {/* Scroll to bottom button */}
         <AnimatePresence>
@@ -348,13 +620,39 @@ export function ConversationView({
       
       {/* Message input */}
       <div className="border-t p-2 bg-background/95 backdrop-blur sticky bottom-0 z-10">
+        <ComposerAttachments files={pendingFiles} onRemove={removePendingFile} disabled={sending} />
+        {attachmentError && (
+          <p className="text-xs text-red-500 pb-2">{attachmentError}</p>
+        )}
         <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={[...ATTACHMENT_IMAGE_TYPES, ...ATTACHMENT_DOCUMENT_TYPES].join(",")}
+            className="hidden"
+            onChange={(e) => {
+              addFiles(Array.from(e.target.files ?? []));
+              e.target.value = ""; // Allow picking the same file again
+            }}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="flex-shrink-0 h-9 w-9"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={sending}
+            aria-label="Attach photos or files"
+          >
+            <Paperclip className="h-3.5 w-3.5" />
+          </Button>
           <Textarea
             ref={textareaRef}
             placeholder="Type your message..."
             value={newMessage}
             onChange={(e) => setNewMessage(e.target.value)}
             onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
             className="min-h-[40px] max-h-[100px] resize-none text-sm py-2"
             disabled={sending}
           />
@@ -362,7 +660,7 @@ export function ConversationView({
             <Button 
               onClick={handleSendMessage} 
               size="icon" 
-              disabled={!newMessage.trim() || sending}
+              disabled={(!newMessage.trim() && pendingFiles.length === 0) || sending}
               className="flex-shrink-0 h-9 w-9"
             >
               {sending ? (
@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { Loader2, Pencil, SmilePlus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Message } from "@/firebase/db/model/messagemodel";
+import { canModifyMessage, deleteMessage, setMessageReaction } from "@/firebase/db/services/messagingService";
+import { MESSAGE_EDIT_WINDOW_MINUTES, MESSAGE_REACTIONS } from "@/config/messages";
+
+interface MessageActionsProps {
+  message: Message;
+  userId: string;
+  onEdit: () => void;
+  className?: string;
+}
+
+/**
+ * Buttons shown when hovering a message: react, and for the sender's recent
+ * messages, edit and delete for everyone
+ */
+export function MessageActions({ message, userId, onEdit, className = "" }: MessageActionsProps) {
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canModify = canModifyMessage(message, userId);
+  const myReaction = message.reactions?.[userId] ?? null;
+
+  const handleReact = async (emoji: string) => {
+    setPickerOpen(false);
+    try {
+      await setMessageReaction(message.id, userId, emoji === myReaction ? null : emoji);
+    } catch (err) {
+      console.error("Error reacting to message:", err);
+    }
+  };
+
+  const handleDelete = async (e: React.MouseEvent) => {
+    e.preventDefault(); // Keep the dialog open until the message is deleted
+    setDeleting(true);
+    setError(null);
+    try {
+      await deleteMessage(message.id, userId);
+      setConfirmOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete message");
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <div className={`flex items-center gap-0.5 rounded-full border bg-background shadow-sm px-0.5 ${className}`}>
+      <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-6 w-6 rounded-full" aria-label="Add reaction">
+            <SmilePlus className="h-3.5 w-3.5" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-1 flex gap-0.5" side="top">
+          {MESSAGE_REACTIONS.map((emoji) => (
+            <button
+              key={emoji}
+              type="button"
+              onClick={() => handleReact(emoji)}
+              className={`h-8 w-8 rounded-full text-lg hover:bg-muted ${emoji === myReaction ? "bg-muted" : ""}`}
+              aria-label={`React with ${emoji}`}
+            >
+              {emoji}
+            </button>
+          ))}
+        </PopoverContent>
+      </Popover>
+
+      {canModify && (
+        <>
+          <Button variant="ghost" size="icon" className="h-6 w-6 rounded-full" onClick={onEdit} aria-label="Edit message">
+            <Pencil className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 rounded-full text-destructive"
+            onClick={() => setConfirmOpen(true)}
+            aria-label="Delete message"
+          >
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </>
+      )}
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this message for everyone?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The message and its attachments will be removed for both of you. Messages can be
+              deleted up to {MESSAGE_EDIT_WINDOW_MINUTES} minutes after they are sent.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          {error && (
+            <div className="bg-destructive/15 border border-destructive text-destructive px-4 py-3 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={deleting}
+              className="bg-destructive hover:bg-destructive/90"
+            >
+              {deleting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                'Delete'
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
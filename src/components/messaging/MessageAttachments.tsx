@@ -0,0 +1,70 @@
+import { useState } from "react";
+import { FileText } from "lucide-react";
+import { MessageAttachment } from "@/firebase/db/model/messagemodel";
+import { AttachmentLightbox } from "./AttachmentLightbox";
+
+interface MessageAttachmentsProps {
+  attachments: MessageAttachment[];
+  isMine: boolean;
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Photo thumbnails and document links inside a message bubble; photos open in a lightbox
+ */
+export function MessageAttachments({ attachments, isMine }: MessageAttachmentsProps) {
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+
+  const images = attachments.filter((attachment) => attachment.kind === "image");
+  const files = attachments.filter((attachment) => attachment.kind === "file");
+
+  return (
+    <div className="space-y-1.5">
+      {images.length > 0 && (
+        <div className={`grid gap-1 ${images.length === 1 ? "grid-cols-1" : "grid-cols-2"}`}>
+          {images.map((image, index) => (
+            <button
+              key={image.path}
+              type="button"
+              onClick={() => setLightboxIndex(index)}
+              className="block overflow-hidden rounded-lg focus:outline-none focus:ring-2 focus:ring-ring"
+              aria-label={`View ${image.name}`}
+            >
+              <img
+                src={image.thumbnailUrl ?? image.url}
+                alt={image.name}
+                loading="lazy"
+                width={image.width}
+                height={image.height}
+                className={`w-full object-cover ${images.length === 1 ? "max-h-60" : "h-28"}`}
+              />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {files.map((file) => (
+        <a
+          key={file.path}
+          href={file.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className={`flex items-center gap-2 rounded-lg px-2 py-1.5 text-xs hover:underline ${
+            isMine ? "bg-primary-foreground/10" : "bg-background/60"
+          }`}
+        >
+          <FileText className="h-4 w-4 flex-shrink-0" />
+          <span className="truncate">{file.name}</span>
+          <span className="flex-shrink-0 opacity-70">{formatFileSize(file.size)}</span>
+        </a>
+      ))}
+
+      <AttachmentLightbox images={images} index={lightboxIndex} onClose={() => setLightboxIndex(null)} />
+    </div>
+  );
+}
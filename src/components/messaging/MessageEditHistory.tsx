@@ -0,0 +1,54 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Message, MessageEdit } from "@/firebase/db/model/messagemodel";
+import { getMessageEditHistory } from "@/firebase/db/services/messagingService";
+
+interface MessageEditHistoryProps {
+  message: Message;
+}
+
+/**
+ * The "Edited" marker on a message, which opens its earlier versions
+ */
+export function MessageEditHistory({ message }: MessageEditHistoryProps) {
+  const [edits, setEdits] = useState<MessageEdit[] | null>(null);
+
+  const handleOpenChange = async (open: boolean) => {
+    if (!open) return;
+    setEdits(null);
+    setEdits(await getMessageEditHistory(message.id));
+  };
+
+  return (
+    <Popover onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button type="button" className="ml-1 underline-offset-2 hover:underline">
+          • Edited
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-3 space-y-2 text-xs" side="top">
+        <p className="font-medium text-sm">Edit history</p>
+        {edits === null ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : edits.length === 0 ? (
+          <p className="text-muted-foreground">No earlier versions.</p>
+        ) : (
+          <ol className="space-y-2 max-h-60 overflow-y-auto">
+            {edits.map((edit) => (
+              <li key={edit.id} className="border-l-2 pl-2">
+                <p className="whitespace-pre-wrap break-words">{edit.text || <em>No text</em>}</p>
+                <p className="text-[10px] text-muted-foreground">
+                  Replaced {format(edit.replacedAt.toDate(), "MMM d, h:mm a")}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,9 +1,9 @@
 import { useState, useEffect } from "react";
 import { subscribeToConversations } from "@/firebase/db/services/messagingService";
-import { ConversationSummary } from "@/firebase/db/model/messagemodel";
+import { ConversationSummary, MessageType } from "@/firebase/db/model/messagemodel";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Card, CardContent } from "@/components/ui/card";
-import { MessageCircle, User, Clock, Search } from "lucide-react";
+import { MessageCircle, User, Clock, Search, Car, CalendarCheck } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { formatDistanceToNow } from "date-fns";
@@ -56,7 +56,8 @@ export function MessageList({ userId, onSelectConversation, selectedConversation
 
   // Filter conversations based on search query
   const filteredConversations = conversations.filter(
-    conversation => conversation.otherUserName.toLowerCase().includes(searchQuery.toLowerCase())
+    conversation => conversation.otherUserName.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      conversation.carTitle?.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
   if (loading) {
@@ -162,12 +163,25 @@ export function MessageList({ userId, onSelectConversation, selectedConversation
                               {formatDistanceToNow(conversation.lastMessageDate, { addSuffix: true })}
                             </span>
                           </div>
-                          <div className="text-sm truncate text-muted-foreground">
-                            {conversation.isLastMessageMine && (
-                              <span className="text-xs mr-1 text-primary/70">You:</span>
-                            )}
-                            {conversation.lastMessage}
-                          </div>
+                          {conversation.carTitle && (
+                            <div className="text-xs truncate text-primary/80 flex items-center gap-1">
+                              <Car className="h-3 w-3 flex-shrink-0" />
+                              {conversation.carTitle}
+                            </div>
+                          )}
+                          {conversation.lastMessageType === MessageType.BOOKING_EVENT ? (
+                            <div className="text-sm truncate text-muted-foreground italic flex items-center gap-1">
+                              <CalendarCheck className="h-3.5 w-3.5 flex-shrink-0" />
+                              {conversation.lastMessage}
+                            </div>
+                          ) : (
+                            <div className="text-sm truncate text-muted-foreground">
+                              {conversation.isLastMessageMine && (
+                                <span className="text-xs mr-1 text-primary/70">You:</span>
+                              )}
+                              {conversation.lastMessage}
+                            </div>
+                          )}
                           {conversation.unreadCount > 0 && (
                             <motion.div
                               initial={{ scale: 0.5, opacity: 0 }}
@@ -0,0 +1,27 @@
+import { useEffect } from 'react';
+import { useAuth } from '@/firebase/auth/AuthContext';
+import { flushOutbox } from '@/utils/messageOutbox';
+
+/**
+ * Sends the signed-in user's pending messages when the app starts and whenever
+ * the browser comes back online, whichever page is open
+ */
+export function MessageOutboxSender() {
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const userId = user.uid;
+    const handleOnline = () => {
+      flushOutbox(userId);
+    };
+
+    handleOnline();
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [user]);
+
+  // This is a hidden component that just provides functionality
+  return null;
+}
@@ -0,0 +1,48 @@
+import { Message } from "@/firebase/db/model/messagemodel";
+import { setMessageReaction } from "@/firebase/db/services/messagingService";
+
+interface MessageReactionsProps {
+  message: Message;
+  userId: string;
+  isMine: boolean;
+}
+
+/**
+ * Reaction counts under a message; clicking your own reaction removes it and
+ * clicking another one switches to it
+ */
+export function MessageReactions({ message, userId, isMine }: MessageReactionsProps) {
+  const reactions = Object.entries(message.reactions ?? {});
+  if (reactions.length === 0) return null;
+
+  const counts = new Map<string, number>();
+  reactions.forEach(([, emoji]) => counts.set(emoji, (counts.get(emoji) ?? 0) + 1));
+  const myReaction = message.reactions?.[userId];
+
+  const handleToggle = async (emoji: string) => {
+    try {
+      await setMessageReaction(message.id, userId, emoji === myReaction ? null : emoji);
+    } catch (error) {
+      console.error("Error reacting to message:", error);
+    }
+  };
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${isMine ? "justify-end" : "justify-start"}`}>
+      {[...counts.entries()].map(([emoji, count]) => (
+        <button
+          key={emoji}
+          type="button"
+          onClick={() => handleToggle(emoji)}
+          className={`flex items-center gap-0.5 rounded-full border px-1.5 text-xs leading-5 hover:bg-muted ${
+            emoji === myReaction ? "border-primary bg-primary/10" : "bg-background"
+          }`}
+          aria-label={emoji === myReaction ? `Remove your ${emoji} reaction` : `React with ${emoji}`}
+        >
+          <span>{emoji}</span>
+          {count > 1 && <span className="text-[10px] text-muted-foreground">{count}</span>}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -5,15 +5,18 @@ import { ButtonHTMLAttributes } from "react";
 import { MessageCircle } from "lucide-react";
 import { useAuth } from "@/firebase/auth/AuthContext";
 import { getOrCreateConversation } from "@/firebase/db/services/messagingService";
+import { ConversationContext } from "@/firebase/db/model/messagemodel";
 interface StartConversationButtonProps extends ButtonHTMLAttributes<HTMLButtonElement> {
   targetUserId: string;
   targetUsername?: string;
+  context?: ConversationContext; // Car or booking the conversation is about
 }
             
 
 export function StartConversationButton({ 
   targetUserId, 
   targetUsername,
+  context,
   children,
   ...props
 }: StartConversationButtonProps) {
@@ -36,11 +39,11 @@ export function StartConversationButton({
     setLoading(true);
     try {
       // If we have a username, navigate directly to start the conversation
-      if (targetUsername) {
+      if (targetUsername && !context) {
         navigate(`/messages/user/${targetUsername}`);
       } else {
         // Otherwise, create the conversation first then navigate
-        const conversationId = await getOrCreateConversation(user.uid, targetUserId);
+        const conversationId = await getOrCreateConversation(user.uid, targetUserId, context);
         navigate(`/messages/${conversationId}`);
       }
     } catch (error) {
@@ -1,81 +1,157 @@
-import { useEffect } from 'react';
+import { useEffect, useRef } from 'react';
 import { useAuth } from '@/firebase/auth/AuthContext';
-import { getNewMessages } from '@/firebase/db/services/messagingService';
+import { subscribeToIncomingMessages } from '@/firebase/db/services/messagingService';
+import { getUserProfile } from '@/firebase/db/services/userProfileService';
+import { IncomingMessage } from '@/firebase/db/model/messagemodel';
+import { NotificationCategory } from '@/firebase/db/model/notificationmodel';
+import { resolveNotificationPreferences } from '@/firebase/db/services/notificationService';
+import { getActiveConversationId } from '@/hooks/useActiveConversation';
 import { useToast } from '@/components/ui/use-toast';
 import { ToastAction } from '@/components/ui/toast';
 import { useNavigate } from 'react-router-dom';
 
+// Messages arriving within this window are shown together
+const COALESCE_MS = 2000;
+
+// Above this many conversations in one burst, a single summary toast is shown instead
+const MAX_CONVERSATION_TOASTS = 3;
+
+// Only a conversation's last message is observed, so a burst can't be counted
+// exactly; toasts say whether there was more than one message, not how many
+interface PendingConversation {
+  senderId: string;
+  latestText: string;
+  multiple: boolean;
+}
+
+/**
+ * The newest message time already notified, kept per user so a reload neither
+ * repeats old toasts nor misses messages that arrived while the app was closed
+ */
+function sinceKey(userId: string): string {
+  return `messageNotifier:since:${userId}`;
+}
+
+function readSince(userId: string): number | null {
+  const stored = Number(localStorage.getItem(sinceKey(userId)));
+  return Number.isFinite(stored) && stored > 0 ? stored : null;
+}
+
 export function MessageNotifier() {
   const { user } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
-  
+  const senderNamesRef = useRef(new Map<string, string>());
+
   useEffect(() => {
     if (!user) return;
-    
-    let messageCheck: ReturnType<typeof setInterval>;
-    
-    // Set up a periodic check for new messages (in addition to unread count)
-    // This runs outside of the current conversation view
-    const setupMessageChecker = () => {
-      messageCheck = setInterval(async () => {
-        try {
-          // Get any new messages in the last 10 seconds
-          const newMessages = await getNewMessages(user.uid, 10000);
-          
-          // If we have new messages, show notifications
-          if (newMessages && newMessages.length > 0) {
-            // Group by sender to avoid multiple notifications from the same person
-            const messageBySender = newMessages.reduce((acc, message) => {
-              if (!acc[message.senderName]) {
-                acc[message.senderName] = {
-                  senderId: message.senderId,
-                  conversationId: message.conversationId,
-                  messages: []
-                };
-              }
-              acc[message.senderName].messages.push(message.text);
-              return acc;
-            }, {} as Record<string, { senderId: string, conversationId: string, messages: string[] }>);
-            
-            // Show a notification for each sender
-            Object.entries(messageBySender).forEach(([senderName, data]) => {
-              // Only show the most recent message in the notification
-              const latestMessage = data.messages[data.messages.length - 1];
-              
-              toast({
-                title: `Message from ${senderName}`,
-                description: latestMessage,
-                variant: "default", 
-                action: (
-                  <ToastAction altText="View" onClick={() => navigate(`/messages/${data.conversationId}`)}>
-                    View
-                  </ToastAction>
-                ),
-              });
-              
-              // Play notification sound if page is not focused
-              if (document.visibilityState !== 'visible') {
-                const audio = new Audio('/message-notification.mp3');
-                audio.volume = 0.4;
-                audio.play().catch(e => console.log('Unable to play sound', e));
-              }
+
+    const userId = user.uid;
+    const pending = new Map<string, PendingConversation>();
+    // Without a stored cursor, only messages from now on are new
+    let since = readSince(userId) ?? Date.now();
+    let flushTimer: ReturnType<typeof setTimeout> | undefined;
+    let toastsEnabled = true;
+
+    // Toasts are the in-app channel for messages, so they follow the user's preference
+    getUserProfile(userId)
+      .then((profile) => {
+        const preferences = resolveNotificationPreferences(profile?.userPreferences?.notifications);
+        toastsEnabled = preferences[NotificationCategory.MESSAGES].inApp;
+      })
+      .catch((err) => console.error("Error loading notification preferences:", err));
+
+    const getSenderName = async (senderId: string) => {
+      const cached = senderNamesRef.current.get(senderId);
+      if (cached) return cached;
+
+      const profile = await getUserProfile(senderId);
+      const name = profile?.displayName || profile?.username || "Unknown User";
+      senderNamesRef.current.set(senderId, name);
+      return name;
+    };
+
+    const flush = async () => {
+      const conversations = [...pending.entries()];
+      pending.clear();
+      if (conversations.length === 0 || !toastsEnabled) return;
+
+      try {
+        if (conversations.length > MAX_CONVERSATION_TOASTS) {
+          toast({
+            title: "New messages",
+            description: `From ${conversations.length} conversations`,
+            action: (
+              <ToastAction altText="View messages" onClick={() => navigate('/messages')}>
+                View
+              </ToastAction>
+            ),
+          });
+        } else {
+          for (const [conversationId, conversation] of conversations) {
+            const senderName = await getSenderName(conversation.senderId);
+            toast({
+              title: conversation.multiple
+                ? `New messages from ${senderName}`
+                : `Message from ${senderName}`,
+              description: conversation.latestText,
+              action: (
+                <ToastAction altText="View" onClick={() => navigate(`/messages/${conversationId}`)}>
+                  View
+                </ToastAction>
+              ),
             });
           }
-        } catch (err) {
-          console.error("Error checking for new messages:", err);
         }
-      }, 15000); // Check every 15 seconds
+
+        // Play notification sound if page is not focused
+        if (document.visibilityState !== 'visible') {
+          const audio = new Audio('/message-notification.mp3');
+          audio.volume = 0.4;
+          audio.play().catch(e => console.log('Unable to play sound', e));
+        }
+      } catch (err) {
+        console.error("Error showing message notifications:", err);
+      }
     };
-    
-    setupMessageChecker();
-    
+
+    const handleMessages = (messages: IncomingMessage[]) => {
+      const newest = Math.max(...messages.map((message) => message.timestamp.toMillis()));
+      const cursor = since;
+      const activeConversationId = getActiveConversationId();
+
+      messages
+        .filter((message) => message.timestamp.toMillis() > cursor)
+        .filter((message) => message.conversationId !== activeConversationId)
+        .forEach((message) => {
+          pending.set(message.conversationId, {
+            senderId: message.senderId,
+            latestText: message.text,
+            multiple: pending.has(message.conversationId)
+          });
+        });
+
+      if (newest > cursor) {
+        since = newest;
+        localStorage.setItem(sinceKey(userId), String(since));
+      }
+
+      if (pending.size > 0 && !flushTimer) {
+        flushTimer = setTimeout(() => {
+          flushTimer = undefined;
+          flush();
+        }, COALESCE_MS);
+      }
+    };
+
+    const unsubscribe = subscribeToIncomingMessages(userId, handleMessages);
+
     return () => {
-      // Clean up interval on unmount
-      clearInterval(messageCheck);
+      unsubscribe();
+      clearTimeout(flushTimer);
     };
   }, [user, toast, navigate]);
-  
+
   // This is a hidden component that just provides functionality
   return null;
 }
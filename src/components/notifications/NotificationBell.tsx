@@ -0,0 +1,110 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { AppNotification } from "@/firebase/db/model/notificationmodel";
+import {
+  markAllNotificationsRead,
+  markNotificationRead,
+  subscribeToNotifications,
+  subscribeToUnreadNotificationCount
+} from "@/firebase/db/services/notificationService";
+import { NotificationItem } from "./NotificationItem";
+
+// Notifications shown in the dropdown; the rest are on /notifications
+const DROPDOWN_LIMIT = 8;
+
+interface NotificationBellProps {
+  userId: string;
+}
+
+/**
+ * Navbar bell with the unread count and the latest notifications
+ */
+export function NotificationBell({ userId }: NotificationBellProps) {
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  useEffect(() => {
+    const unsubscribeList = subscribeToNotifications(userId, setNotifications, DROPDOWN_LIMIT);
+    const unsubscribeCount = subscribeToUnreadNotificationCount(userId, setUnreadCount);
+
+    return () => {
+      unsubscribeList();
+      unsubscribeCount();
+    };
+  }, [userId]);
+
+  const handleOpen = (notification: AppNotification) => {
+    if (!notification.read) {
+      markNotificationRead(notification.id);
+    }
+    navigate(notification.link);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative"
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+        >
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute top-0.5 right-0.5 flex h-4 min-w-4 px-1 items-center justify-center rounded-full bg-red-500 text-white text-[10px] font-bold">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>Notifications</span>
+          {unreadCount > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs"
+              onClick={() => markAllNotificationsRead(userId)}
+            >
+              Mark all as read
+            </Button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+
+        {notifications.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">You're all caught up.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="cursor-pointer"
+                onClick={() => handleOpen(notification)}
+              >
+                <NotificationItem notification={notification} compact />
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+
+        <DropdownMenuSeparator />
+        <DropdownMenuItem className="justify-center cursor-pointer" onClick={() => navigate("/notifications")}>
+          View all notifications
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,67 @@
+import { formatDistanceToNow } from "date-fns";
+import {
+  Calendar,
+  CalendarCheck,
+  CalendarClock,
+  CalendarX,
+  Car,
+  LucideIcon,
+  MessageCircle,
+  Search,
+  Star
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { AppNotification, NotificationType } from "@/firebase/db/model/notificationmodel";
+
+const TYPE_ICONS: Record<NotificationType, LucideIcon> = {
+  [NotificationType.SAVED_SEARCH_MATCH]: Search,
+  [NotificationType.BOOKING_REQUESTED]: Calendar,
+  [NotificationType.BOOKING_APPROVED]: CalendarCheck,
+  [NotificationType.BOOKING_REJECTED]: CalendarX,
+  [NotificationType.BOOKING_CANCELED]: CalendarX,
+  [NotificationType.BOOKING_STARTED]: Car,
+  [NotificationType.BOOKING_COMPLETED]: CalendarCheck,
+  [NotificationType.BOOKING_EXPIRED]: CalendarClock,
+  [NotificationType.REVIEW_RECEIVED]: Star,
+  [NotificationType.CAR_REVIEW_RECEIVED]: Star,
+  [NotificationType.NEW_MESSAGE]: MessageCircle
+};
+
+interface NotificationItemProps {
+  notification: AppNotification;
+  compact?: boolean; // Clamps the text to fit the navbar dropdown
+}
+
+/**
+ * Icon, text and age of a notification, shared by the bell dropdown and the notifications page
+ */
+export function NotificationItem({ notification, compact = false }: NotificationItemProps) {
+  const Icon = TYPE_ICONS[notification.type] ?? Calendar;
+
+  return (
+    <div className="flex items-start gap-3 min-w-0 w-full">
+      <div className={cn(
+        "rounded-full p-2 flex-shrink-0",
+        notification.read ? "bg-muted text-muted-foreground" : "bg-primary/10 text-primary"
+      )}>
+        <Icon className="h-4 w-4" />
+      </div>
+
+      <div className="min-w-0 flex-1">
+        <p className={cn("text-sm truncate", !notification.read && "font-semibold")}>
+          {notification.title}
+        </p>
+        <p className={cn("text-sm text-muted-foreground", compact && "line-clamp-2")}>
+          {notification.body}
+        </p>
+        {notification.createdAt && (
+          <p className="text-xs text-muted-foreground mt-1">
+            {formatDistanceToNow(notification.createdAt.toDate(), { addSuffix: true })}
+          </p>
+        )}
+      </div>
+
+      {!notification.read && <span className="h-2 w-2 rounded-full bg-primary mt-2 flex-shrink-0" />}
+    </div>
+  );
+}
@@ -14,6 +14,8 @@ import {
 } from "@/components/ui/tooltip";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { NotificationPreferencesForm } from "./NotificationPreferencesForm";
+import { resolveNotificationPreferences } from "@/firebase/db/services/notificationService";
 
 interface EditProfileFormProps {
   initialData: UserProfile;
@@ -51,8 +53,7 @@ export function EditProfileForm({ initialData, onSuccess, onCancel }: EditProfil
     emergencyContactName: initialData.emergencyContact?.name || "",
     emergencyContactRelationship: initialData.emergencyContact?.relationship || "",
     emergencyContactPhone: initialData.emergencyContact?.phoneNumber || "",
-    notificationsEnabled: initialData.userPreferences?.notifications !== undefined ? 
-      initialData.userPreferences.notifications : true,
+    notificationPreferences: resolveNotificationPreferences(initialData.userPreferences?.notifications),
     darkModeEnabled: initialData.userPreferences?.darkMode !== undefined ? 
       initialData.userPreferences.darkMode : false,
     preferredLanguage: initialData.userPreferences?.language || "en"
@@ -205,7 +206,7 @@ export function EditProfileForm({ initialData, onSuccess, onCancel }: EditProfil
       
       // Format user preferences
       const userPreferences = {
-        notifications: formData.notificationsEnabled,
+        notifications: formData.notificationPreferences,
         darkMode: formData.darkModeEnabled,
         language: formData.preferredLanguage
       };
@@ -705,21 +706,6 @@ export function EditProfileForm({ initialData, onSuccess, onCancel }: EditProfil
             </div>
             
             <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <div className="space-y-0.5">
-                  <Label htmlFor="notificationsEnabled">Enable Notifications</Label>
-                  <p className="text-xs text-muted-foreground">
-                    Receive updates about your account and bookings
-                  </p>
-                </div>
-                <Switch
-                  id="notificationsEnabled"
-                  checked={formData.notificationsEnabled}
-                  onCheckedChange={(checked) => handleSwitchChange('notificationsEnabled', checked)}
-                  disabled={loading}
-                />
-              </div>
-              
               <div className="flex items-center justify-between">
                 <div className="space-y-0.5">
                   <Label htmlFor="darkModeEnabled">Dark Mode</Label>
@@ -735,6 +721,15 @@ export function EditProfileForm({ initialData, onSuccess, onCancel }: EditProfil
                 />
               </div>
             </div>
+
+            {user && (
+              <NotificationPreferencesForm
+                userId={user.uid}
+                value={formData.notificationPreferences}
+                onChange={(notificationPreferences) => setFormData(prev => ({ ...prev, notificationPreferences }))}
+                disabled={loading}
+              />
+            )}
           </TabsContent>
         </Tabs>
         
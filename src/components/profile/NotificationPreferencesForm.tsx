@@ -0,0 +1,138 @@
+import { useEffect, useState } from "react";
+import { BellRing, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import {
+  NOTIFICATION_CATEGORY_LABELS,
+  NOTIFICATION_CHANNEL_LABELS,
+  NotificationCategory,
+  NotificationChannel,
+  NotificationPreferences
+} from "@/firebase/db/model/notificationmodel";
+import {
+  disablePushNotifications,
+  enablePushNotifications,
+  getPushState,
+  PushState
+} from "@/utils/pushNotifications";
+
+interface NotificationPreferencesFormProps {
+  userId: string;
+  value: NotificationPreferences;
+  onChange: (preferences: NotificationPreferences) => void;
+  disabled?: boolean;
+}
+
+const PUSH_STATE_DESCRIPTIONS: Record<PushState, string> = {
+  unsupported: "This browser can't receive push notifications.",
+  denied: "Notifications are blocked for this site. Allow them in your browser settings to turn push on.",
+  disabled: "Push notifications are off on this device.",
+  enabled: "Push notifications are on for this device."
+};
+
+/**
+ * Per-category switches for each delivery channel, plus the push subscription
+ * of the current browser (push preferences only apply to subscribed devices)
+ */
+export function NotificationPreferencesForm({
+  userId,
+  value,
+  onChange,
+  disabled = false
+}: NotificationPreferencesFormProps) {
+  const [pushState, setPushState] = useState<PushState | null>(null);
+  const [pushUpdating, setPushUpdating] = useState(false);
+  const [pushError, setPushError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getPushState().then(setPushState).catch(() => setPushState("unsupported"));
+  }, []);
+
+  const handleToggle = (category: NotificationCategory, channel: NotificationChannel, checked: boolean) => {
+    onChange({
+      ...value,
+      [category]: { ...value[category], [channel]: checked }
+    });
+  };
+
+  const handlePushToggle = async () => {
+    setPushUpdating(true);
+    setPushError(null);
+    try {
+      setPushState(pushState === "enabled"
+        ? await disablePushNotifications(userId)
+        : await enablePushNotifications(userId));
+    } catch (error) {
+      console.error("Error updating push subscription:", error);
+      setPushError("Couldn't update push notifications. Please try again.");
+    } finally {
+      setPushUpdating(false);
+    }
+  };
+
+  return (
+    <fieldset className="border rounded p-3 space-y-4">
+      <legend className="text-sm font-medium px-2">Notifications</legend>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground">
+              <th className="font-medium pb-2">Notify me about</th>
+              {Object.values(NotificationChannel).map((channel) => (
+                <th key={channel} className="font-medium pb-2 text-center w-16">
+                  {NOTIFICATION_CHANNEL_LABELS[channel]}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {Object.values(NotificationCategory).map((category) => (
+              <tr key={category}>
+                <td className="py-2 pr-2">
+                  <p className="font-medium">{NOTIFICATION_CATEGORY_LABELS[category].label}</p>
+                  <p className="text-xs text-muted-foreground">{NOTIFICATION_CATEGORY_LABELS[category].description}</p>
+                </td>
+                {Object.values(NotificationChannel).map((channel) => (
+                  <td key={channel} className="py-2 text-center">
+                    <Switch
+                      checked={value[category][channel]}
+                      onCheckedChange={(checked) => handleToggle(category, channel, checked)}
+                      disabled={disabled}
+                      aria-label={`${NOTIFICATION_CATEGORY_LABELS[category].label}: ${NOTIFICATION_CHANNEL_LABELS[channel]}`}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between gap-4 border-t pt-3">
+        <div className="space-y-0.5">
+          <p className="text-sm font-medium flex items-center gap-1.5">
+            <BellRing className="h-4 w-4" />
+            Push on this device
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {pushState ? PUSH_STATE_DESCRIPTIONS[pushState] : "Checking push support..."}
+          </p>
+          {pushError && <p className="text-xs text-red-500">{pushError}</p>}
+        </div>
+        {(pushState === "enabled" || pushState === "disabled") && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={handlePushToggle}
+            disabled={disabled || pushUpdating}
+          >
+            {pushUpdating && <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />}
+            {pushState === "enabled" ? "Turn off" : "Turn on"}
+          </Button>
+        )}
+      </div>
+    </fieldset>
+  );
+}
@@ -0,0 +1,146 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Heart, Loader2, TrendingDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { ListingStatus } from "@/firebase/db/model/carmodel";
+import {
+  FavoriteWithListing,
+  getFavoritesWithListings,
+  getPriceDrop,
+  removeFavorite
+} from "@/firebase/db/services/favoritesService";
+
+interface SavedCarsPanelProps {
+  userId: string;
+}
+
+/**
+ * The cars the user saved, with their current price and any drop since saving
+ */
+export function SavedCarsPanel({ userId }: SavedCarsPanelProps) {
+  const navigate = useNavigate();
+  const [savedCars, setSavedCars] = useState<FavoriteWithListing[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchSavedCars() {
+      try {
+        setLoading(true);
+        setSavedCars(await getFavoritesWithListings(userId));
+      } catch (err) {
+        console.error("Error loading saved cars:", err);
+        setError("Failed to load saved cars. Please try again later.");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchSavedCars();
+  }, [userId]);
+
+  const handleRemove = async (listingId: string) => {
+    setRemovingId(listingId);
+    const result = await removeFavorite(userId, listingId);
+    if (result.success) {
+      setSavedCars((prev) => prev.filter((item) => item.favorite.listingId !== listingId));
+    } else {
+      setError(result.error || "Failed to remove saved car");
+    }
+    setRemovingId(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <h3 className="text-lg font-semibold">Saved Cars</h3>
+        <p className="text-sm text-muted-foreground">
+          Tap the heart on any car to save it here and keep an eye on its price.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : savedCars.length === 0 ? (
+          <div className="text-center p-8 border rounded-lg bg-muted/20">
+            <p className="text-muted-foreground mb-4">You haven't saved any cars yet.</p>
+            <Button variant="outline" asChild>
+              <Link to="/cars">Browse Cars</Link>
+            </Button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {savedCars.map(({ favorite, listing }) => {
+              const available = listing?.status === ListingStatus.ACTIVE;
+              const priceDrop = listing ? getPriceDrop(favorite, listing.price) : 0;
+
+              return (
+                <div key={favorite.listingId} className="border rounded-md overflow-hidden flex">
+                  {favorite.imageUrl ? (
+                    <img
+                      src={favorite.imageUrl}
+                      alt={favorite.title}
+                      loading="lazy"
+                      className="w-28 h-full min-h-28 object-cover flex-shrink-0"
+                    />
+                  ) : (
+                    <div className="w-28 min-h-28 bg-muted flex-shrink-0" />
+                  )}
+
+                  <div className="p-3 flex flex-col gap-1 min-w-0 flex-1">
+                    <h4 className="font-medium truncate">{listing?.title ?? favorite.title}</h4>
+
+                    {listing ? (
+                      <p className="text-sm">
+                        ${listing.price}/day
+                        {listing.price !== favorite.savedPrice && (
+                          <span className="text-muted-foreground line-through ml-2">${favorite.savedPrice}</span>
+                        )}
+                      </p>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">This listing has been removed</p>
+                    )}
+
+                    <div className="flex flex-wrap gap-1">
+                      {priceDrop > 0 && (
+                        <Badge className="bg-green-600 hover:bg-green-600">
+                          <TrendingDown className="h-3 w-3 mr-1" />
+                          ${priceDrop} less
+                        </Badge>
+                      )}
+                      {listing && !available && <Badge variant="outline">Not available</Badge>}
+                    </div>
+
+                    <div className="flex gap-2 mt-auto pt-2">
+                      {listing && (
+                        <Button size="sm" variant="outline" onClick={() => navigate(`/cars/${favorite.listingId}`)}>
+                          View
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleRemove(favorite.listingId)}
+                        disabled={removingId === favorite.listingId}
+                      >
+                        <Heart className="h-4 w-4 mr-1.5 fill-red-500 text-red-500" />
+                        Remove
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,176 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Bell, BellOff, Loader2, Search, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { SavedSearch } from "@/firebase/db/model/savedsearchmodel";
+import { AppNotification, NotificationType } from "@/firebase/db/model/notificationmodel";
+import {
+  deleteSavedSearch,
+  getSavedSearches,
+  setSavedSearchAlerts
+} from "@/firebase/db/services/savedSearchService";
+import { getNotifications } from "@/firebase/db/services/notificationService";
+import { describeFilters, filtersFromSearchParams } from "@/utils/carSearchParams";
+
+// Recent matches listed under each saved search
+const MATCHES_PER_SEARCH = 3;
+
+interface SavedSearchesPanelProps {
+  userId: string;
+}
+
+/**
+ * The user's saved searches with their alert settings and latest matches
+ */
+export function SavedSearchesPanel({ userId }: SavedSearchesPanelProps) {
+  const navigate = useNavigate();
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [matches, setMatches] = useState<AppNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchSavedSearches() {
+      try {
+        setLoading(true);
+        const [savedSearches, notifications] = await Promise.all([
+          getSavedSearches(userId),
+          getNotifications(userId, NotificationType.SAVED_SEARCH_MATCH)
+        ]);
+        setSearches(savedSearches);
+        setMatches(notifications);
+      } catch (err) {
+        console.error("Error loading saved searches:", err);
+        setError("Failed to load saved searches. Please try again later.");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchSavedSearches();
+  }, [userId]);
+
+  const handleToggleAlerts = async (search: SavedSearch, alertsEnabled: boolean) => {
+    setBusyId(search.id);
+    const result = await setSavedSearchAlerts(userId, search.id, alertsEnabled);
+    if (result.success) {
+      setSearches((prev) => prev.map((item) => item.id === search.id ? { ...item, alertsEnabled } : item));
+    } else {
+      setError(result.error || "Failed to update saved search");
+    }
+    setBusyId(null);
+  };
+
+  const handleDelete = async (search: SavedSearch) => {
+    setBusyId(search.id);
+    const result = await deleteSavedSearch(userId, search.id);
+    if (result.success) {
+      setSearches((prev) => prev.filter((item) => item.id !== search.id));
+    } else {
+      setError(result.error || "Failed to delete saved search");
+    }
+    setBusyId(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <h3 className="text-lg font-semibold">Saved Searches</h3>
+        <p className="text-sm text-muted-foreground">
+          Save a search from the Browse Cars page to run it again and get notified about new matches.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : searches.length === 0 ? (
+          <div className="text-center p-8 border rounded-lg bg-muted/20">
+            <p className="text-muted-foreground mb-4">You haven't saved any searches yet.</p>
+            <Button variant="outline" asChild>
+              <Link to="/cars">Browse Cars</Link>
+            </Button>
+          </div>
+        ) : (
+          searches.map((search) => {
+            const searchMatches = matches
+              .filter((match) => match.data?.savedSearchId === search.id)
+              .slice(0, MATCHES_PER_SEARCH);
+
+            return (
+              <div key={search.id} className="border rounded-md p-4 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <h4 className="font-medium truncate">{search.name}</h4>
+                    <p className="text-sm text-muted-foreground">
+                      {describeFilters(filtersFromSearchParams(new URLSearchParams(search.params)))}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => navigate(`/cars${search.params ? `?${search.params}` : ""}`)}
+                    >
+                      <Search className="h-4 w-4 mr-1.5" />
+                      Run
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDelete(search)}
+                      disabled={busyId === search.id}
+                      aria-label={`Delete ${search.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <span className="text-sm flex items-center gap-2">
+                    {search.alertsEnabled ? <Bell className="h-4 w-4" /> : <BellOff className="h-4 w-4" />}
+                    New listing alerts
+                  </span>
+                  <Switch
+                    checked={search.alertsEnabled}
+                    onCheckedChange={(checked) => handleToggleAlerts(search, checked)}
+                    disabled={busyId === search.id}
+                    aria-label={`New listing alerts for ${search.name}`}
+                  />
+                </div>
+
+                {searchMatches.length > 0 && (
+                  <div className="border-t pt-3 space-y-1">
+                    <p className="text-xs font-medium text-muted-foreground">Recent matches</p>
+                    {searchMatches.map((match) => (
+                      <Link
+                        key={match.id}
+                        to={match.link}
+                        className="flex justify-between gap-4 text-sm hover:underline"
+                      >
+                        <span className="truncate">{match.body}</span>
+                        {match.createdAt && (
+                          <span className="text-xs text-muted-foreground shrink-0">
+                            {formatDistanceToNow(match.createdAt.toDate(), { addSuffix: true })}
+                          </span>
+                        )}
+                      </Link>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
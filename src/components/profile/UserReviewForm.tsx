@@ -1,9 +1,19 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
 import { useAuth } from "@/firebase/auth/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Loader2, Star } from "lucide-react";
+import { ReviewableBooking } from "@/firebase/db/model/reviewmodel";
+import { getReviewableBookings, submitReview } from "@/firebase/db/services/reviewService";
 
 interface UserReviewFormProps {
   userId: string;
@@ -11,14 +21,43 @@ interface UserReviewFormProps {
   onCancel: () => void;
 }
 
-export function UserReviewForm({  onSuccess, onCancel }: UserReviewFormProps) {
+export function UserReviewForm({ userId, onSuccess, onCancel }: UserReviewFormProps) {
   const { user } = useAuth();
+  const [reviewableBookings, setReviewableBookings] = useState<ReviewableBooking[]>([]);
+  const [bookingId, setBookingId] = useState("");
+  const [loadingBookings, setLoadingBookings] = useState(true);
   const [rating, setRating] = useState(0);
   const [hoverRating, setHoverRating] = useState(0);
   const [comment, setComment] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  useEffect(() => {
+    // Reviews can only be written for completed bookings with this user
+    async function fetchReviewableBookings() {
+      if (!user) {
+        setLoadingBookings(false);
+        return;
+      }
+
+      try {
+        setLoadingBookings(true);
+        const bookings = await getReviewableBookings(user.uid, userId);
+        setReviewableBookings(bookings);
+        if (bookings.length === 1) {
+          setBookingId(bookings[0].bookingId);
+        }
+      } catch (err) {
+        console.error("Error fetching reviewable bookings:", err);
+        setError("Failed to load your bookings with this user");
+      } finally {
+        setLoadingBookings(false);
+      }
+    }
+
+    fetchReviewableBookings();
+  }, [user, userId]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -27,6 +66,11 @@ export function UserReviewForm({  onSuccess, onCancel }: UserReviewFormProps) {
       return;
     }
     
+    if (!bookingId) {
+      setError("Please select the booking you are reviewing");
+      return;
+    }
+
     if (rating === 0) {
       setError("Please select a rating");
       return;
@@ -41,10 +85,13 @@ export function UserReviewForm({  onSuccess, onCancel }: UserReviewFormProps) {
     setError(null);
     
     try {
-      // Here you would implement the API call to save the review
-      // For now, we'll just simulate a successful submission
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
+      const result = await submitReview(bookingId, rating, comment, user);
+
+      if (!result.success) {
+        setError(result.error || "Failed to submit review");
+        return;
+      }
+
       onSuccess();
     } catch (err) {
       console.error("Error submitting review:", err);
@@ -54,6 +101,34 @@ export function UserReviewForm({  onSuccess, onCancel }: UserReviewFormProps) {
     }
   };
 
+  if (loadingBookings) {
+    return (
+      <div className="flex justify-center items-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (reviewableBookings.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <h3 className="text-lg font-semibold">Write a Review</h3>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground">
+            {error || "You can review this user once you have a completed booking together that you haven't reviewed yet."}
+          </p>
+        </CardContent>
+        <CardFooter className="flex justify-end">
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Back
+          </Button>
+        </CardFooter>
+      </Card>
+    );
+  }
+
   return (
     <Card>
       <CardHeader>
@@ -68,6 +143,22 @@ export function UserReviewForm({  onSuccess, onCancel }: UserReviewFormProps) {
             </div>
           )}
           
+          <div className="space-y-2">
+            <label className="block text-sm font-medium">Booking</label>
+            <Select value={bookingId} onValueChange={setBookingId} disabled={loading}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a completed booking" />
+              </SelectTrigger>
+              <SelectContent>
+                {reviewableBookings.map((booking) => (
+                  <SelectItem key={booking.bookingId} value={booking.bookingId}>
+                    {booking.carTitle} · ended {format(booking.endDate.toDate(), "MMM d, yyyy")}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           <div className="space-y-2">
             <label className="block text-sm font-medium">Rating</label>
             <div className="flex items-center">
@@ -120,7 +211,7 @@ export function UserReviewForm({  onSuccess, onCancel }: UserReviewFormProps) {
           </Button>
           <Button
             type="submit"
-            disabled={loading || rating === 0}
+            disabled={loading || rating === 0 || !bookingId}
           >
             {loading ? (
               <>
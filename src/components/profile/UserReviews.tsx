@@ -1,22 +1,17 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Star, ThumbsUp, Flag, User, Loader2 } from "lucide-react";
 import { UserReviewForm } from "./UserReviewForm";
 import { useAuth } from "@/firebase/auth/AuthContext";
-
-interface Review {
-  id: string;
-  userId: string;
-  reviewerId: string;
-  reviewerName: string;
-  reviewerPhoto?: string;
-  rating: number;
-  comment: string;
-  createdAt: any; // Timestamp
-  helpfulCount: number;
-}
+import { Review, ReviewDirection } from "@/firebase/db/model/reviewmodel";
+import {
+  flagReview,
+  getHelpfulVotes,
+  getReviewsForUser,
+  toggleHelpfulVote
+} from "@/firebase/db/services/reviewService";
 
 interface UserReviewsProps {
   userId: string;
@@ -29,33 +24,80 @@ export function UserReviews({ userId, userName }: UserReviewsProps) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showReviewForm, setShowReviewForm] = useState(false);
-  const [averageRating, setAverageRating] = useState(0);
+  const [helpfulVotes, setHelpfulVotes] = useState<Set<string>>(new Set());
+  const [flaggedReviews, setFlaggedReviews] = useState<Set<string>>(new Set());
+  const [pendingReviewId, setPendingReviewId] = useState<string | null>(null);
 
-  useEffect(() => {
-    // Fetch reviews for the user
-    async function fetchReviews() {
-      try {
-        setLoading(true);
-        // Here you would implement the API call to fetch reviews
-        // For now, we'll just simulate with an empty array
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        setReviews([]);
-        setAverageRating(0);
-      } catch (err) {
-        console.error("Error fetching reviews:", err);
-        setError("Failed to load reviews");
-      } finally {
-        setLoading(false);
+  const fetchReviews = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const userReviews = await getReviewsForUser(userId);
+      setReviews(userReviews);
+
+      if (user) {
+        setHelpfulVotes(await getHelpfulVotes(userReviews.map((review) => review.id), user.uid));
       }
+    } catch (err) {
+      console.error("Error fetching reviews:", err);
+      setError("Failed to load reviews");
+    } finally {
+      setLoading(false);
     }
+  }, [userId, user]);
 
+  useEffect(() => {
     fetchReviews();
-  }, [userId]);
+  }, [fetchReviews]);
 
   const handleReviewSubmitted = () => {
     setShowReviewForm(false);
-    // Reload reviews
-    // For now, we'll just simulate with the current state
+    fetchReviews();
+  };
+
+  const handleHelpful = async (review: Review) => {
+    if (!user || pendingReviewId) return;
+
+    setPendingReviewId(review.id);
+    const result = await toggleHelpfulVote(review.id, user);
+    setPendingReviewId(null);
+
+    if (!result.success) {
+      setError(result.error || "Failed to update vote");
+      return;
+    }
+
+    setHelpfulVotes((prev) => {
+      const next = new Set(prev);
+      if (result.helpful) {
+        next.add(review.id);
+      } else {
+        next.delete(review.id);
+      }
+      return next;
+    });
+    setReviews((prev) =>
+      prev.map((r) =>
+        r.id === review.id
+          ? { ...r, helpfulCount: r.helpfulCount + (result.helpful ? 1 : -1) }
+          : r
+      )
+    );
+  };
+
+  const handleFlag = async (review: Review) => {
+    if (!user || pendingReviewId) return;
+
+    setPendingReviewId(review.id);
+    const result = await flagReview(review.id, user);
+    setPendingReviewId(null);
+
+    if (!result.success) {
+      setError(result.error || "Failed to report review");
+      return;
+    }
+
+    setFlaggedReviews((prev) => new Set(prev).add(review.id));
   };
 
   const renderStars = (rating: number) => {
@@ -65,7 +107,7 @@ export function UserReviews({ userId, userName }: UserReviewsProps) {
           <Star
             key={star}
             className={`h-4 w-4 ${
-              star <= rating
+              star <= Math.round(rating)
                 ? "text-yellow-500 fill-yellow-500"
                 : "text-gray-300"
             }`}
@@ -83,14 +125,6 @@ export function UserReviews({ userId, userName }: UserReviewsProps) {
     );
   }
 
-  if (error) {
-    return (
-      <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md text-red-700 dark:text-red-300">
-        {error}
-      </div>
-    );
-  }
-
   if (showReviewForm) {
     return (
       <UserReviewForm
@@ -101,6 +135,10 @@ export function UserReviews({ userId, userName }: UserReviewsProps) {
     );
   }
 
+  const averageRating = reviews.length > 0
+    ? reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length
+    : 0;
+
   return (
     <div className="space-y-4">
       <div className="flex justify-between items-center">
@@ -111,7 +149,13 @@ export function UserReviews({ userId, userName }: UserReviewsProps) {
           </Button>
         )}
       </div>
-      
+
+      {error && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
       {reviews.length > 0 ? (
         <>
           <div className="flex items-center gap-2 mb-4">
@@ -121,56 +165,77 @@ export function UserReviews({ userId, userName }: UserReviewsProps) {
             <span className="font-medium">{averageRating.toFixed(1)}</span>
             <span className="text-muted-foreground">({reviews.length} reviews)</span>
           </div>
-          
+
           <div className="space-y-4">
-            {reviews.map((review) => (
-              <Card key={review.id}>
-                <CardContent className="p-4">
-                  <div className="flex justify-between mb-3">
-                    <div className="flex items-center gap-2">
-                      <Avatar className="h-8 w-8">
-                        {review.reviewerPhoto ? (
-                          <AvatarImage src={review.reviewerPhoto} alt={review.reviewerName} />
-                        ) : (
-                          <AvatarFallback>
-                            <User className="h-4 w-4" />
-                          </AvatarFallback>
-                        )}
-                      </Avatar>
+            {reviews.map((review) => {
+              const isOwnReview = user?.uid === review.reviewerId;
+              const isFlagged = flaggedReviews.has(review.id);
+
+              return (
+                <Card key={review.id}>
+                  <CardContent className="p-4">
+                    <div className="flex justify-between mb-3">
+                      <div className="flex items-center gap-2">
+                        <Avatar className="h-8 w-8">
+                          {review.reviewerPhoto ? (
+                            <AvatarImage src={review.reviewerPhoto} alt={review.reviewerName} />
+                          ) : (
+                            <AvatarFallback>
+                              <User className="h-4 w-4" />
+                            </AvatarFallback>
+                          )}
+                        </Avatar>
+                        <div>
+                          <p className="font-medium text-sm">{review.reviewerName}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {review.direction === ReviewDirection.RENTER_TO_OWNER ? "Renter" : "Host"}
+                            {" · "}
+                            {review.createdAt ? new Date(review.createdAt.toDate()).toLocaleDateString() : "Just now"}
+                          </p>
+                        </div>
+                      </div>
                       <div>
-                        <p className="font-medium text-sm">{review.reviewerName}</p>
-                        <p className="text-xs text-muted-foreground">
-                          {new Date(review.createdAt.toDate()).toLocaleDateString()}
-                        </p>
+                        {renderStars(review.rating)}
                       </div>
                     </div>
-                    <div>
-                      {renderStars(review.rating)}
+
+                    <p className="text-sm mt-2 mb-4">{review.comment}</p>
+
+                    <div className="flex justify-between text-sm text-muted-foreground">
+                      <button
+                        className={`flex items-center gap-1 hover:text-foreground disabled:opacity-50 disabled:hover:text-muted-foreground ${
+                          helpfulVotes.has(review.id) ? "text-primary" : ""
+                        }`}
+                        onClick={() => handleHelpful(review)}
+                        disabled={!user || isOwnReview || pendingReviewId === review.id}
+                      >
+                        <ThumbsUp className={`h-4 w-4 ${helpfulVotes.has(review.id) ? "fill-current" : ""}`} />
+                        Helpful ({review.helpfulCount})
+                      </button>
+                      {!isOwnReview && (
+                        <button
+                          className="flex items-center gap-1 hover:text-foreground disabled:opacity-50 disabled:hover:text-muted-foreground"
+                          onClick={() => handleFlag(review)}
+                          disabled={!user || isFlagged || pendingReviewId === review.id}
+                        >
+                          <Flag className="h-4 w-4" />
+                          {isFlagged ? "Reported" : "Report"}
+                        </button>
+                      )}
                     </div>
-                  </div>
-                  
-                  <p className="text-sm mt-2 mb-4">{review.comment}</p>
-                  
-                  <div className="flex justify-between text-sm text-muted-foreground">
-                    <button className="flex items-center gap-1 hover:text-foreground">
-                      <ThumbsUp className="h-4 w-4" />
-                      Helpful ({review.helpfulCount})
-                    </button>
-                    <button className="flex items-center gap-1 hover:text-foreground">
-                      <Flag className="h-4 w-4" />
-                      Report
-                    </button>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
+                  </CardContent>
+                </Card>
+              );
+            })}
           </div>
         </>
       ) : (
         <div className="text-center p-8 bg-muted/20 rounded-lg border">
           <Star className="h-12 w-12 mx-auto mb-4 opacity-50" />
           <p className="font-medium">No reviews yet</p>
-          <p className="text-sm text-muted-foreground mt-1">Be the first to leave a review for {userName}.</p>
+          <p className="text-sm text-muted-foreground mt-1">
+            Reviews appear here after {userName} completes a booking.
+          </p>
           {user && user.uid !== userId && (
             <Button onClick={() => setShowReviewForm(true)} className="mt-4">
               Write a Review
@@ -39,6 +39,8 @@ import { Badge } from "./badge";
 import { Avatar, AvatarFallback, AvatarImage } from "./avatar";
 import { subscribeToUnreadCount } from "@/firebase/db/services/messagingService";
 import { motion } from "framer-motion";
+import { ListingSearchBox } from "@/components/cars/ListingSearchBox";
+import { NotificationBell } from "@/components/notifications/NotificationBell";
 
 // Define navigation structure
 interface NavItem {
@@ -259,9 +261,13 @@ export function Navbar() {
               ))}
             </NavigationMenuList>
           </NavigationMenu>
+
+          {/* Desktop search */}
+          <ListingSearchBox className="hidden md:block w-full max-w-56 lg:max-w-xs ml-4" />
         </div>
 
         <div className="flex items-center space-x-2 sm:space-x-4">
+          {user && <NotificationBell userId={user.uid} />}
           <ModeToggle />
           
           {user ? (
@@ -364,6 +370,8 @@ export function Navbar() {
       {mobileMenuOpen && (
         <div className="md:hidden py-4 px-4 border-t bg-background">
           <nav className="flex flex-col space-y-3">
+            <ListingSearchBox onNavigate={() => setMobileMenuOpen(false)} />
+
             {/* Main navigation items */}
             {mainNavItems.map((item) => (
               <Link 
@@ -0,0 +1,14 @@
+// Limits for files sent in messages (see utils/attachmentUploadService.ts)
+// Keep in sync with storage.rules and firestore.rules
+
+// Most attachments a single message can carry
+export const MAX_ATTACHMENTS_PER_MESSAGE = 6;
+
+// Largest stored attachment; photos are compressed first, so this mostly limits documents
+export const MAX_ATTACHMENT_SIZE_BYTES = 10 * 1024 * 1024;
+
+// Photos are re-encoded before upload, which also strips EXIF data such as GPS coordinates
+export const ATTACHMENT_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/heic", "image/heif"];
+
+// Documents are uploaded unchanged
+export const ATTACHMENT_DOCUMENT_TYPES = ["application/pdf"];
@@ -0,0 +1,12 @@
+// Booking lifecycle configuration
+// The scheduled expiry job reads the same window from PENDING_RESPONSE_WINDOW_HOURS (see functions/)
+
+const responseWindowHours = parseFloat(import.meta.env.VITE_PENDING_RESPONSE_WINDOW_HOURS ?? "");
+
+// How long an owner has to answer a booking request before it expires
+export const PENDING_RESPONSE_WINDOW_HOURS =
+  Number.isFinite(responseWindowHours) && responseWindowHours > 0 ? responseWindowHours : 24;
+
+// Time zone the dates of bookings made before day keys were stored are read in.
+// Keep it in sync with BOOKING_TIME_ZONE in functions/.env, which the backfill-locks script uses.
+export const BOOKING_TIME_ZONE = import.meta.env.VITE_BOOKING_TIME_ZONE || "UTC";
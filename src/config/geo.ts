@@ -0,0 +1,13 @@
+// Location search configuration (see utils/geocodingService.ts and services/geoSearchService.ts)
+
+const distanceSortRadius = parseFloat(import.meta.env.VITE_DISTANCE_SORT_RADIUS_MILES ?? "");
+
+// How far "Nearest" sorting looks when no radius filter is set, in miles
+export const DISTANCE_SORT_RADIUS_MILES =
+  Number.isFinite(distanceSortRadius) && distanceSortRadius > 0 ? distanceSortRadius : 250;
+
+// Radius choices offered in the search sidebar, in miles
+export const SEARCH_RADIUS_OPTIONS_MILES = [10, 25, 50, 100, 250];
+
+// Characters of geohash stored on listings (10 is roughly a one meter cell)
+export const GEOHASH_PRECISION = 10;
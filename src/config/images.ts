@@ -0,0 +1,14 @@
+// Client-side image processing applied before photos are uploaded (see utils/imageProcessing.ts)
+
+// Longest edge of the full-size image, in pixels
+export const IMAGE_MAX_DIMENSION = 1920;
+
+// Longest edge of thumbnails used in listing grids, in pixels
+export const THUMBNAIL_MAX_DIMENSION = 480;
+
+// Encoder quality between 0 and 1
+export const IMAGE_QUALITY = 0.82;
+export const THUMBNAIL_QUALITY = 0.75;
+
+// Largest original file accepted for processing; processed uploads must still fit the Storage rules limit
+export const MAX_SOURCE_IMAGE_SIZE_BYTES = 25 * 1024 * 1024;
@@ -0,0 +1,26 @@
+// Map configuration for the listings map and the pickup area on car pages
+// Point VITE_MAP_TILE_URL at a local tile server (e.g. http://localhost:8081/tile/{z}/{x}/{y}.png)
+// to develop without hitting the public OpenStreetMap servers.
+
+export const MAP_TILE_URL =
+  import.meta.env.VITE_MAP_TILE_URL || "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+
+export const MAP_TILE_ATTRIBUTION =
+  import.meta.env.VITE_MAP_TILE_ATTRIBUTION ||
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+const maxZoom = parseInt(import.meta.env.VITE_MAP_MAX_ZOOM ?? "", 10);
+
+// Highest zoom level the tile source serves
+export const MAP_MAX_ZOOM = Number.isFinite(maxZoom) && maxZoom > 0 ? maxZoom : 19;
+
+// Shown before any listings are loaded: the contiguous United States
+export const MAP_DEFAULT_CENTER: [number, number] = [39.5, -98.35];
+export const MAP_DEFAULT_ZOOM = 4;
+
+// Pins closer than this many pixels are grouped into a cluster
+export const MAP_CLUSTER_RADIUS_PX = 60;
+
+// Radius of the approximate pickup area on car pages, in meters.
+// Listing coordinates are already ZIP centroids, so the circle never points at an address.
+export const PICKUP_AREA_RADIUS_METERS = 2500;
@@ -0,0 +1,7 @@
+// Message editing and reactions. Keep in sync with the messages rules in firestore.rules
+
+// How long after sending a message its sender can edit or delete it
+export const MESSAGE_EDIT_WINDOW_MINUTES = 15;
+
+// Reactions either participant can add to a message, one per person
+export const MESSAGE_REACTIONS = ["👍", "❤️", "😂", "😮", "😢", "🙏"];
@@ -0,0 +1,9 @@
+// Web push configuration (see utils/pushNotifications.ts and public/sw.js)
+// Generate a key pair with `npx web-push generate-vapid-keys` in functions/ and give
+// the private key to the delivery function as VAPID_PRIVATE_KEY.
+
+// Public VAPID key; push notifications are unavailable when it is not set
+export const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY || "";
+
+// Service worker that shows push notifications, served from public/
+export const PUSH_SERVICE_WORKER_URL = "/sw.js";
@@ -0,0 +1,6 @@
+// Booking pricing configuration
+// The fees and tax rate are shared with the createBooking function, which
+// rebuilds every booking's quote, so they live in functions/src/shared/pricing.ts.
+
+export { PRICING_CONFIG } from "@shared/pricing";
+export type { PricingConfig } from "@shared/pricing";
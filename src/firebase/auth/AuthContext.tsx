@@ -3,6 +3,7 @@ import { User } from 'firebase/auth';
 import { auth } from '../firebase';
 import { signOutUser } from './auth_signin';
 import { hasCompletedOnboarding } from "../db/services/userProfileService";
+import { disablePushNotifications } from "@/utils/pushNotifications";
 
 type AuthContextType = {
   user: User | null;
@@ -35,6 +36,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   }, []);
 
   const logout = async () => {
+    // Stop this browser receiving the user's notifications before the next user signs in
+    if (user) {
+      await disablePushNotifications(user.uid).catch((error) =>
+        console.error("Error removing push subscription on sign out:", error)
+      );
+    }
     await signOutUser();
   };
 
@@ -0,0 +1,60 @@
+import { Timestamp } from "firebase/firestore";
+
+/**
+ * A range of days (both ends inclusive) during which the car cannot be booked
+ */
+export interface BlackoutRange {
+  id: string;             // Client-generated ID so ranges can be edited individually
+  start: Timestamp;
+  end: Timestamp;
+  reason?: string;        // Optional note for the owner (e.g. "Vacation", "Service")
+}
+
+/**
+ * Recurring availability rules for a car, stored at carAvailability/{carId}
+ */
+export interface CarAvailability {
+  carId: string;
+  owner: string;                // User ID of the car owner
+  availableWeekdays: number[];  // Days of the week the car can be rented (0 = Sunday ... 6 = Saturday)
+  blackouts: BlackoutRange[];
+  updatedAt: Timestamp;
+}
+
+/**
+ * Data needed to save a car's availability rules
+ */
+export interface CarAvailabilityData {
+  availableWeekdays: number[];
+  blackouts: {
+    id: string;
+    start: Date;
+    end: Date;
+    reason?: string;
+  }[];
+}
+
+/**
+ * A date range already taken by a pending or approved booking
+ */
+export interface BookedRange {
+  bookingId: string;
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Everything needed to render a car's availability calendar
+ */
+export interface CarCalendar {
+  availableFrom: Date | null;   // Listing availability window
+  availableTo: Date | null;
+  availableWeekdays: number[];
+  blackouts: CarAvailabilityData["blackouts"];
+  bookedRanges: BookedRange[];
+}
+
+/**
+ * Every day of the week, used when a car has no recurring rules yet
+ */
+export const ALL_WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
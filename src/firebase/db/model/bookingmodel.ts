@@ -1,4 +1,9 @@
 import { Timestamp } from "firebase/firestore";
+import { PriceBreakdown } from "@shared/pricing";
+
+// Quotes are built by code shared with the createBooking function
+export { PriceLineItemType } from "@shared/pricing";
+export type { PriceBreakdown, PriceLineItem } from "@shared/pricing";
 
 /**
  * Represents the status of a booking
@@ -6,9 +11,33 @@ import { Timestamp } from "firebase/firestore";
 export enum BookingStatus {
   PENDING = "pending",
   APPROVED = "approved",
+  IN_PROGRESS = "in_progress",
   REJECTED = "rejected",
   COMPLETED = "completed",
-  CANCELED = "canceled"
+  CANCELED = "canceled",
+  EXPIRED = "expired"
+}
+
+/**
+ * Who performed a booking status change
+ */
+export enum BookingActorRole {
+  OWNER = "owner",
+  RENTER = "renter",
+  SYSTEM = "system" // Scheduled jobs (e.g. expiring stale requests)
+}
+
+/**
+ * A single status change in a booking's history, stored at bookings/{id}/events/{eventId}
+ */
+export interface BookingEvent {
+  id: string;
+  fromStatus: BookingStatus | null; // null for the initial request
+  toStatus: BookingStatus;
+  actorId: string;                  // User ID, or "system" for scheduled jobs
+  actorRole: BookingActorRole;
+  reason?: string;
+  timestamp: Timestamp;
 }
 
 /**
@@ -26,11 +55,16 @@ export interface Booking {
   ownerName: string;
   startDate: Timestamp;
   endDate: Timestamp;
+  startDay?: string; // yyyy-MM-dd key of the first day lock, in the renter's time zone
+  endDay?: string;   // yyyy-MM-dd key of the last day lock
   totalPrice: number;
+  priceBreakdown?: PriceBreakdown; // Server-computed quote the total was checked against
   status: BookingStatus;
   createdAt: Timestamp;
   updatedAt: Timestamp;
   cancellationReason?: string;
+  canceledBy?: BookingActorRole;
+  statusReason?: string; // Why the system expired or completed the booking
   notes?: string; // Additional notes from the renter
 }
 
@@ -53,6 +87,49 @@ export interface BookingData {
   notes?: string;
 }
 
+/**
+ * What createBooking sends to the createBooking function (functions/src/bookingRequests.ts)
+ */
+export interface BookingRequest {
+  carId: string;
+  startDay: string;   // yyyy-MM-dd, first day in the renter's time zone
+  endDay: string;     // yyyy-MM-dd, last day
+  timeZone: string;   // Renter's time zone; the stored dates are its midnights
+  totalPrice: number; // Total the renter was quoted
+  renterName: string;
+  renterProfileImage?: string;
+  ownerName: string;
+  notes?: string;
+}
+
+/**
+ * Machine-readable reasons a booking operation can fail
+ */
+export enum BookingErrorCode {
+  UNAUTHENTICATED = "unauthenticated",
+  PERMISSION_DENIED = "permission-denied",
+  NOT_FOUND = "not-found",
+  INVALID_REQUEST = "invalid-request",
+  INVALID_DATES = "invalid-dates",
+  LISTING_UNAVAILABLE = "listing-unavailable",
+  OUTSIDE_AVAILABILITY = "outside-availability",
+  INVALID_TRANSITION = "invalid-transition",
+  DATES_CONFLICT = "dates-conflict",
+  PRICE_MISMATCH = "price-mismatch",
+  UNKNOWN = "unknown"
+}
+
+/**
+ * Per-day reservation marker stored at carListings/{carId}/bookingLocks/{yyyy-MM-dd}.
+ * A lock document exists for every day held by a pending or approved booking.
+ */
+export interface BookingDayLock {
+  bookingId: string;
+  carId: string;
+  day: string; // yyyy-MM-dd
+  createdAt: Timestamp;
+}
+
 /**
  * Result of booking operations
  */
@@ -60,4 +137,5 @@ export interface BookingResult {
   success: boolean;
   id?: string;
   error?: string;
+  errorCode?: BookingErrorCode;
 }
@@ -1,5 +1,6 @@
 import { Timestamp } from "firebase/firestore";
 import { User } from "firebase/auth";
+import { CarRatingSummary } from "./reviewmodel";
 
 /**
  * Represents the basic information about a car
@@ -15,6 +16,24 @@ export interface CarInfo {
   licensePlate?: string;  // Optional license plate (might be hidden from public)
 }
 
+/**
+ * A point on the map in decimal degrees
+ */
+export interface GeoCoordinates {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * A rectangular map area in decimal degrees
+ */
+export interface GeoBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
 /**
  * Type of fuel used by the vehicle
  */
@@ -34,6 +53,15 @@ export enum TransmissionType {
   MANUAL = "manual",
 }
 
+/**
+ * Optional pricing rules set by the owner on top of the daily price
+ */
+export interface CarPricing {
+  weekendPrice?: number;          // Daily price on Saturdays and Sundays (defaults to price)
+  weeklyDiscountPercent?: number; // Discount for rentals of 7+ days
+  monthlyDiscountPercent?: number; // Discount for rentals of 28+ days (replaces the weekly discount)
+}
+
 /**
  * Represents a car listing in the application
  */
@@ -44,9 +72,12 @@ export interface CarListing {
   description: string;    // Detailed description
   carInfo: CarInfo;       // Car details
   price: number;          // Daily rental price
+  pricing?: CarPricing;   // Optional weekend rate and long-rental discounts
   location: string;       // Location (city, state)
   imageUrl: string;       // Main image URL
+  imageUrls?: string[];   // All image URLs, main image first, as saved by addCarListing
   additionalImages?: string[]; // Optional additional images
+  thumbnailUrls?: string[]; // Small variants of imageUrls, in the same order
   availableFrom: Timestamp; // Start of availability period
   availableTo: Timestamp;  // End of availability period
   createdAt: Timestamp;   // When the listing was created
@@ -54,6 +85,10 @@ export interface CarListing {
   features: string[];     // List of car features
   restrictions?: string[]; // Optional rental restrictions
   status: ListingStatus;  // Current status of the listing
+  ratingSummary?: CarRatingSummary; // Maintained by reviewService when car reviews are submitted
+  zipCode?: string;       // Pickup ZIP code, geocoded into coordinates
+  coordinates?: GeoCoordinates; // Approximate pickup point (ZIP centroid by default)
+  geohash?: string;       // Geohash of coordinates, used for radius queries
 }
 
 /**
@@ -75,20 +110,25 @@ export interface CarListingData {
   description: string;
   carInfo: CarInfo;
   price: number;
+  pricing?: CarPricing;
   location: string;
   
   imageUrls: string[]; // Array to store multiple image URLs
+  thumbnailUrls?: string[]; // Small variants of imageUrls, in the same order
   additionalImages?: string[];
   availableFrom: Date;
   availableTo: Date;
   features?: string[];
   restrictions?: string[];
+  zipCode?: string; // Coordinates and geohash are derived from this when the listing is saved
+  status?: ListingStatus; // Only honoured by updateCarListing; new listings always start ACTIVE
 }
 
 /**
  * Filters for searching cars
  */
 export interface CarSearchFilters {
+  query?: string;         // Keywords matched against title, make, model, features and description
   location?: string;
   priceMin?: number;
   priceMax?: number;
@@ -98,6 +138,32 @@ export interface CarSearchFilters {
   seatsMin?: number;
   availableFrom?: Date;
   availableTo?: Date;
+  near?: GeoCoordinates;  // Origin for distances, radius filtering and "Nearest" sorting
+  nearZip?: string;       // ZIP code the origin was geocoded from, if any
+  radiusMiles?: number;   // Only listings within this distance of near
+  bounds?: GeoBounds;     // Only listings inside this map area ("search this area")
+}
+
+/**
+ * Number of listings that would match if a facet value were selected
+ */
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+/**
+ * Facet counts for the search sidebar. Each facet is counted against the
+ * listings matching every other active filter, so selecting a value never
+ * hides the alternatives.
+ */
+export interface CarSearchFacets {
+  make: FacetCount[];
+  fuelType: FacetCount[];
+  transmission: FacetCount[];
+  seats: FacetCount[];    // Value is a minimum seat count
+  priceMin: number;       // Cheapest daily price among matching listings
+  priceMax: number;       // Most expensive daily price among matching listings
 }
 
 /**
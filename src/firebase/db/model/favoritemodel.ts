@@ -0,0 +1,24 @@
+import { Timestamp } from "firebase/firestore";
+
+/**
+ * A car listing the user bookmarked, stored at users/{uid}/favorites/{listingId}
+ * The title and image are copied so the list still makes sense if the listing is removed.
+ */
+export interface Favorite {
+  listingId: string;
+  userId: string;
+  title: string;
+  imageUrl?: string;
+  savedPrice: number;     // Daily price when the car was saved, to show price drops since then
+  createdAt: Timestamp;
+}
+
+/**
+ * The listing fields needed to save a favorite
+ */
+export interface FavoriteListing {
+  id: string;
+  title: string;
+  price: number;
+  imageUrl?: string;
+}
@@ -1,31 +1,109 @@
 import { Timestamp } from "firebase/firestore";
 
+/**
+ * Kinds of message shown in a conversation
+ */
+export enum MessageType {
+  TEXT = "text",
+  BOOKING_EVENT = "booking_event" // Posted by bookingService when a booking changes status
+}
+
+/**
+ * Booking changes announced in the booking's conversation
+ */
+export enum BookingMessageEvent {
+  REQUESTED = "requested",
+  APPROVED = "approved",
+  REJECTED = "rejected",
+  CANCELED = "canceled"
+}
+
+/**
+ * What a conversation is about. Conversations about a booking have the ID
+ * booking_{bookingId}; those about a car are kept apart from general chat
+ * between the same two users.
+ */
+export interface ConversationContext {
+  carId?: string;
+  bookingId?: string;
+  carTitle?: string; // Copied so conversation lists can show it without loading the car
+}
+
 /**
  * Represents a conversation between two users
  */
-export interface Conversation {
+export interface Conversation extends ConversationContext {
   id: string;
   participants: string[]; // Array of user IDs
   lastMessage?: {
     text: string;
     senderId: string;
     timestamp: Timestamp;
+    type?: MessageType; // Missing on messages sent before system messages existed
+    messageId?: string; // Lets edits and deletions of the latest message update the preview
   };
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
 
+/**
+ * A photo or document sent with a message, stored under the conversation's
+ * Storage folder (see getConversationAttachmentFolder)
+ */
+export interface MessageAttachment {
+  kind: "image" | "file";
+  name: string;           // Original file name, shown for documents and downloads
+  contentType: string;    // Type of the stored file, e.g. image/webp after compression
+  size: number;           // Stored size in bytes
+  path: string;
+  url: string;
+  thumbnailPath?: string; // Images only
+  thumbnailUrl?: string;
+  width?: number;
+  height?: number;
+}
+
 /**
  * Represents a message within a conversation
  */
 export interface Message {
   id: string;
   conversationId: string;
-  senderId: string;
-  text: string;
+  senderId: string;               // For booking events, the user who changed the booking
+  text: string;                   // For booking events, a plain description used in previews
   timestamp: Timestamp;
   read: boolean;
   readAt?: Timestamp;
+  type?: MessageType;             // Missing means TEXT
+  bookingEvent?: BookingMessageEvent;
+  bookingId?: string;
+  reason?: string;                // Given when rejecting or canceling
+  attachments?: MessageAttachment[]; // Text may be empty when attachments are present
+  editedAt?: Timestamp;           // Set when the sender changed the text; see MessageEdit
+  deleted?: boolean;              // Deleted for everyone: text and attachments are cleared
+  deletedAt?: Timestamp;
+  reactions?: Record<string, string>; // Emoji by the ID of the user who reacted
+}
+
+/**
+ * An earlier version of an edited message, stored in messages/{messageId}/edits
+ * Only readable by the conversation's participants, and removed when the
+ * message is deleted.
+ */
+export interface MessageEdit {
+  id: string;
+  text: string;          // The text before the edit
+  replacedAt: Timestamp; // When the edit replaced it
+}
+
+/**
+ * The latest message another participant sent in a conversation
+ */
+export interface IncomingMessage {
+  conversationId: string;
+  senderId: string;
+  text: string;
+  timestamp: Timestamp;
 }
 
 /**
@@ -38,6 +116,33 @@ export interface ConversationSummary {
   otherUserPhoto?: string;
   lastMessage: string;
   lastMessageDate: Date;
+  lastMessageType: MessageType;
   unreadCount: number;
   isLastMessageMine: boolean;
+  carTitle?: string;
+  bookingId?: string;
+}
+
+/**
+ * Delivery state of a message in the client-side outbox
+ */
+export enum OutboxStatus {
+  PENDING = "pending", // Waiting to be sent, or being sent
+  FAILED = "failed"    // Rejected by the server; sent again only when the user retries
+}
+
+/**
+ * A message written on this device that the server has not confirmed yet,
+ * kept in IndexedDB until it is sent (see utils/messageOutbox.ts)
+ */
+export interface OutboxMessage {
+  id: string;                     // The message ID, reserved with newMessageId
+  conversationId: string;
+  senderId: string;
+  text: string;
+  attachments: MessageAttachment[]; // Uploaded before the message is queued
+  createdAt: number;              // Milliseconds since the epoch
+  status: OutboxStatus;
+  attempts: number;
+  error?: string;
 }
@@ -0,0 +1,180 @@
+import { Timestamp } from "firebase/firestore";
+
+/**
+ * What a notification is about
+ */
+export enum NotificationType {
+  SAVED_SEARCH_MATCH = "saved_search_match",   // Published by the alertSavedSearches function in functions/
+  BOOKING_REQUESTED = "booking_requested",     // Published by the createBooking function in functions/
+  BOOKING_APPROVED = "booking_approved",
+  BOOKING_REJECTED = "booking_rejected",
+  BOOKING_CANCELED = "booking_canceled",
+  BOOKING_STARTED = "booking_started",
+  BOOKING_COMPLETED = "booking_completed",
+  BOOKING_EXPIRED = "booking_expired",         // Published by the booking expiry job in functions/
+  REVIEW_RECEIVED = "review_received",         // Someone reviewed the user
+  CAR_REVIEW_RECEIVED = "car_review_received", // A renter reviewed one of the user's cars
+  NEW_MESSAGE = "new_message"
+}
+
+/**
+ * Ways a notification can reach a user
+ */
+export enum NotificationChannel {
+  IN_APP = "inApp",
+  EMAIL = "email",
+  PUSH = "push"
+}
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  [NotificationChannel.IN_APP]: "In-app",
+  [NotificationChannel.EMAIL]: "Email",
+  [NotificationChannel.PUSH]: "Push"
+};
+
+/**
+ * Groups of notification types that users set delivery preferences for
+ */
+export enum NotificationCategory {
+  BOOKING_REQUESTS = "bookingRequests", // Requests for the user's cars
+  BOOKING_UPDATES = "bookingUpdates",   // Status changes of bookings the user is part of
+  MESSAGES = "messages",
+  REVIEWS = "reviews",
+  SAVED_SEARCHES = "savedSearches"
+}
+
+export const NOTIFICATION_CATEGORY_LABELS: Record<NotificationCategory, { label: string; description: string }> = {
+  [NotificationCategory.BOOKING_REQUESTS]: {
+    label: "Booking requests",
+    description: "Someone wants to rent one of your cars"
+  },
+  [NotificationCategory.BOOKING_UPDATES]: {
+    label: "Booking updates",
+    description: "Approvals, cancellations and the start and end of rentals"
+  },
+  [NotificationCategory.MESSAGES]: {
+    label: "Messages",
+    description: "New messages in your conversations"
+  },
+  [NotificationCategory.REVIEWS]: {
+    label: "Reviews",
+    description: "Reviews of you and your cars"
+  },
+  [NotificationCategory.SAVED_SEARCHES]: {
+    label: "Saved searches",
+    description: "New cars matching your saved searches"
+  }
+};
+
+export const NOTIFICATION_CATEGORIES: Record<NotificationType, NotificationCategory> = {
+  [NotificationType.SAVED_SEARCH_MATCH]: NotificationCategory.SAVED_SEARCHES,
+  [NotificationType.BOOKING_REQUESTED]: NotificationCategory.BOOKING_REQUESTS,
+  [NotificationType.BOOKING_APPROVED]: NotificationCategory.BOOKING_UPDATES,
+  [NotificationType.BOOKING_REJECTED]: NotificationCategory.BOOKING_UPDATES,
+  [NotificationType.BOOKING_CANCELED]: NotificationCategory.BOOKING_UPDATES,
+  [NotificationType.BOOKING_STARTED]: NotificationCategory.BOOKING_UPDATES,
+  [NotificationType.BOOKING_COMPLETED]: NotificationCategory.BOOKING_UPDATES,
+  [NotificationType.BOOKING_EXPIRED]: NotificationCategory.BOOKING_UPDATES,
+  [NotificationType.REVIEW_RECEIVED]: NotificationCategory.REVIEWS,
+  [NotificationType.CAR_REVIEW_RECEIVED]: NotificationCategory.REVIEWS,
+  [NotificationType.NEW_MESSAGE]: NotificationCategory.MESSAGES
+};
+
+/**
+ * Which channels each category is delivered through, stored as
+ * userPreferences.notifications on the user's profile
+ */
+export type NotificationPreferences = Record<NotificationCategory, Record<NotificationChannel, boolean>>;
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  [NotificationCategory.BOOKING_REQUESTS]: { inApp: true, email: true, push: true },
+  [NotificationCategory.BOOKING_UPDATES]: { inApp: true, email: true, push: true },
+  [NotificationCategory.MESSAGES]: { inApp: true, email: true, push: true },
+  [NotificationCategory.REVIEWS]: { inApp: true, email: true, push: false },
+  [NotificationCategory.SAVED_SEARCHES]: { inApp: true, email: true, push: false }
+};
+
+/**
+ * Notification types for booking status changes
+ */
+export type BookingNotificationType =
+  | NotificationType.BOOKING_REQUESTED
+  | NotificationType.BOOKING_APPROVED
+  | NotificationType.BOOKING_REJECTED
+  | NotificationType.BOOKING_CANCELED
+  | NotificationType.BOOKING_STARTED
+  | NotificationType.BOOKING_COMPLETED
+  | NotificationType.BOOKING_EXPIRED;
+
+/**
+ * Something that happened that a user should hear about. Services publish
+ * events; notificationService turns them into stored notifications.
+ */
+export type NotificationEvent =
+  | {
+      type: BookingNotificationType;
+      recipientId: string;
+      recipientIsOwner: boolean; // Owners and renters find the booking under different tabs
+      bookingId: string;
+      carTitle: string;
+      actorName: string;         // The other side of the booking
+      reason?: string;
+    }
+  | {
+      type: NotificationType.REVIEW_RECEIVED;
+      recipientId: string;
+      recipientUsername?: string; // Links to the public profile that shows the review
+      reviewId: string;
+      reviewerName: string;
+      rating: number;
+    }
+  | {
+      type: NotificationType.CAR_REVIEW_RECEIVED;
+      recipientId: string;
+      reviewId: string;
+      carId: string;
+      carTitle: string;
+      reviewerName: string;
+      rating: number;
+    }
+  | {
+      type: NotificationType.NEW_MESSAGE;
+      recipientId: string;
+      conversationId: string;
+      senderName: string;
+      preview: string;
+    };
+
+/**
+ * An in-app notification for one user, stored in the top-level notifications collection
+ */
+export interface AppNotification {
+  id: string;
+  userId: string;                 // Recipient
+  type: NotificationType;
+  title: string;
+  body: string;
+  link: string;                   // In-app path opened from the notification
+  data: Record<string, string>;   // IDs the notification refers to, e.g. listingId
+  read: boolean;
+  createdAt: Timestamp;
+}
+
+/**
+ * Data needed to create a notification
+ */
+export type NotificationData = Omit<AppNotification, "id" | "read" | "createdAt">;
+
+/**
+ * A browser's web push subscription, stored at users/{uid}/pushSubscriptions/{id}
+ * where the ID is derived from the endpoint, so each browser is stored once
+ */
+export interface StoredPushSubscription {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+  userAgent: string;
+  createdAt: Timestamp;
+}
@@ -0,0 +1,112 @@
+import { Timestamp } from "firebase/firestore";
+
+/**
+ * Which side of a completed booking wrote the review
+ */
+export enum ReviewDirection {
+  RENTER_TO_OWNER = "renter_to_owner",
+  OWNER_TO_RENTER = "owner_to_renter"
+}
+
+/**
+ * A review of one user by another after a completed booking.
+ * Stored at reviews/{bookingId}_{direction}, so each booking gets at most one
+ * review in each direction.
+ */
+export interface Review {
+  id: string;
+  bookingId: string;
+  carId: string;
+  subjectId: string;      // User being reviewed
+  reviewerId: string;     // User who wrote the review
+  reviewerName: string;
+  reviewerPhoto?: string;
+  direction: ReviewDirection;
+  rating: number;         // 1-5 stars
+  comment: string;
+  helpfulCount: number;
+  flagCount: number;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+/**
+ * A completed booking the current user can still review
+ */
+export interface ReviewableBooking {
+  bookingId: string;
+  carTitle: string;
+  endDate: Timestamp;
+  direction: ReviewDirection;
+}
+
+/**
+ * Aggregated ratings stored on the reviewed user's profile
+ */
+export interface RatingSummary {
+  count: number;
+  total: number;      // Sum of all ratings, kept so the average can be updated incrementally
+  average: number;
+  distribution: Record<"1" | "2" | "3" | "4" | "5", number>;
+  lastReviewId?: string; // Review that produced the latest update, checked by the security rules
+}
+
+/**
+ * Result of review operations
+ */
+export interface ReviewResult {
+  success: boolean;
+  id?: string;
+  error?: string;
+}
+
+export const EMPTY_RATING_SUMMARY: RatingSummary = {
+  count: 0,
+  total: 0,
+  average: 0,
+  distribution: { "1": 0, "2": 0, "3": 0, "4": 0, "5": 0 }
+};
+
+/**
+ * Aspects of the car a renter scores after a completed booking
+ */
+export interface CarReviewScores {
+  cleanliness: number;  // 1-5 stars
+  accuracy: number;     // 1-5 stars, how well the car matched the listing
+  comfort: number;      // 1-5 stars
+}
+
+/**
+ * A renter's review of the car itself.
+ * Stored at carReviews/{bookingId}, so each booking gets at most one car review.
+ */
+export interface CarReview extends CarReviewScores {
+  id: string;
+  bookingId: string;
+  carId: string;
+  reviewerId: string;
+  reviewerName: string;
+  reviewerPhoto?: string;
+  rating: number;       // Overall score, the mean of the sub-scores
+  comment: string;
+  createdAt: Timestamp;
+}
+
+/**
+ * Aggregated car ratings stored on the car listing
+ */
+export interface CarRatingSummary extends CarReviewScores {
+  count: number;
+  average: number;                  // Mean overall rating
+  totals: CarReviewScores;          // Sums of each sub-score, kept for incremental updates
+  lastReviewId?: string;            // Review that produced the latest update, checked by the security rules
+}
+
+export const EMPTY_CAR_RATING_SUMMARY: CarRatingSummary = {
+  count: 0,
+  average: 0,
+  cleanliness: 0,
+  accuracy: 0,
+  comfort: 0,
+  totals: { cleanliness: 0, accuracy: 0, comfort: 0 }
+};
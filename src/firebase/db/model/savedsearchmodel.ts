@@ -0,0 +1,15 @@
+import { Timestamp } from "firebase/firestore";
+
+/**
+ * A car search a user saved, stored at users/{uid}/savedSearches/{id}.
+ * The filters are kept in the same query string format as the /cars URL
+ * (see carSearchParams), so a saved search opens exactly like a shared link.
+ */
+export interface SavedSearch {
+  id: string;
+  userId: string;
+  name: string;           // e.g. "SUV under $60 in Austin"
+  params: string;         // Filters as /cars query parameters, without sort or view
+  alertsEnabled: boolean; // Notify the user when a new listing matches
+  createdAt: Timestamp;
+}
@@ -1,3 +1,6 @@
+import { RatingSummary } from "./reviewmodel";
+import { DEFAULT_NOTIFICATION_PREFERENCES, NotificationPreferences } from "./notificationmodel";
+
 export interface UserProfile {
   uid: string;
   username: string; 
@@ -35,10 +38,11 @@ export interface UserProfile {
     phoneNumber: string;
   };
   userPreferences?: {
-    notifications: boolean;
+    notifications: NotificationPreferences | boolean; // A single switch in profiles saved before per-channel preferences
     darkMode: boolean;
     language: string;
   };
+  ratingSummary?: RatingSummary; // Maintained by reviewService when reviews are submitted
 }
 
 export interface UserProfileFormData {
@@ -69,7 +73,7 @@ export interface UserProfileFormData {
   emergencyContactName?: string;
   emergencyContactRelationship?: string;
   emergencyContactPhone?: string;
-  notificationsEnabled?: boolean;
+  notificationPreferences?: NotificationPreferences;
   darkModeEnabled?: boolean;
   preferredLanguage?: string;
 }
@@ -100,7 +104,7 @@ export const initialUserProfileFormData: UserProfileFormData = {
   emergencyContactName: "",
   emergencyContactRelationship: "",
   emergencyContactPhone: "",
-  notificationsEnabled: true,
+  notificationPreferences: DEFAULT_NOTIFICATION_PREFERENCES,
   darkModeEnabled: false,
   preferredLanguage: "en",
 };
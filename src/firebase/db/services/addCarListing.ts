@@ -1,8 +1,10 @@
-import { collection, addDoc, serverTimestamp } from "firebase/firestore"; 
+import { collection, doc, setDoc, serverTimestamp } from "firebase/firestore"; 
 import db from "../firestore";
 import { CarListingData, ListingStatus } from "../model/carmodel";
+import { EMPTY_CAR_RATING_SUMMARY } from "../model/reviewmodel";
 import { User } from "firebase/auth";
 import { updateCarListing } from "./updateCarListing"; // Import the new function
+import { resolveListingGeo } from "./geoSearchService";
 
 interface AddCarListingResult {
   success: boolean;
@@ -10,15 +12,26 @@ interface AddCarListingResult {
   error?: string; // Error message if unsuccessful
 }
 
+/**
+ * Reserves an ID for a car listing that has not been saved yet, so its photos
+ * can be uploaded to the listing's Storage folder before the form is submitted
+ * @returns A new car listing ID
+ */
+export function newCarListingId(): string {
+  return doc(collection(db, "carListings")).id;
+}
+
 /**
  * Adds a new car listing to Firestore
  * @param listingData The car listing data to be added
  * @param user The authenticated user adding the listing
+ * @param listingId Optional ID reserved with newCarListingId
  * @returns Promise with the result of the operation
  */
 export async function addCarListing(
   listingData: CarListingData, 
-  user: User
+  user: User,
+  listingId: string = newCarListingId()
 ): Promise<AddCarListingResult> {
   try {
     // Verify the user is authenticated
@@ -34,19 +47,31 @@ export async function addCarListing(
       listingData.owner = user.uid; // Force the owner to be the current user
     }
 
+    // Geocode the pickup ZIP so the listing shows up in nearby searches
+    const geo = listingData.zipCode ? await resolveListingGeo(listingData.zipCode) : null;
+    if (listingData.zipCode && !geo) {
+      return {
+        success: false,
+        error: `We couldn't find the ZIP code ${listingData.zipCode}`
+      };
+    }
+
     // Prepare the Firestore document
     const firestoreData = {
       ...listingData,
+      ...geo,
       // Convert JavaScript Dates to Firestore Timestamps
       availableFrom: listingData.availableFrom,
       availableTo: listingData.availableTo,
       createdAt: serverTimestamp(),
       updatedAt: serverTimestamp(),
-      status: ListingStatus.ACTIVE // Set default status to active
+      status: ListingStatus.ACTIVE, // Set default status to active
+      ratingSummary: EMPTY_CAR_RATING_SUMMARY // Lets unreviewed listings appear when sorting by rating
     };
 
     // Add the document to Firestore
-    const docRef = await addDoc(collection(db, "carListings"), firestoreData);
+    const docRef = doc(db, "carListings", listingId);
+    await setDoc(docRef, firestoreData);
 
     return {
       success: true,
@@ -0,0 +1,238 @@
+import {
+  collection,
+  collectionGroup,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  setDoc,
+  serverTimestamp,
+  Timestamp,
+  DocumentData
+} from "firebase/firestore";
+import { format, parseISO, startOfDay } from "date-fns";
+import db from "../firestore";
+import { User } from "firebase/auth";
+import {
+  ALL_WEEKDAYS,
+  BookedRange,
+  CarAvailability,
+  CarAvailabilityData,
+  CarCalendar
+} from "../model/availabilitymodel";
+import { getCarListingById } from "./getCarListings";
+
+interface AvailabilityResult {
+  success: boolean;
+  error?: string; // Error message if unsuccessful
+}
+
+/**
+ * Converts a Firestore Timestamp or Date into a Date
+ */
+function toDate(value: Timestamp | Date): Date {
+  return value instanceof Timestamp ? value.toDate() : value;
+}
+
+/**
+ * Converts a raw carAvailability document into the form used by the calendar
+ * @param data The Firestore document data, or undefined if the car has no rules yet
+ * @returns The availability rules with dates converted to JavaScript Dates
+ */
+export function toAvailabilityData(data: DocumentData | undefined): CarAvailabilityData {
+  return {
+    availableWeekdays: Array.isArray(data?.availableWeekdays) ? data.availableWeekdays : ALL_WEEKDAYS,
+    blackouts: Array.isArray(data?.blackouts)
+      ? data.blackouts.map((blackout: DocumentData) => ({
+          id: blackout.id,
+          start: toDate(blackout.start),
+          end: toDate(blackout.end),
+          reason: blackout.reason
+        }))
+      : []
+  };
+}
+
+/**
+ * Fetches the availability rules for a car
+ * @param carId The ID of the car listing
+ * @returns The availability rules or null if the owner has not set any
+ */
+export async function getCarAvailability(carId: string): Promise<CarAvailability | null> {
+  try {
+    const docSnap = await getDoc(doc(db, "carAvailability", carId));
+
+    if (docSnap.exists()) {
+      return docSnap.data() as CarAvailability;
+    } else {
+      return null;
+    }
+  } catch (error) {
+    console.error("Error fetching car availability:", error);
+    throw error;
+  }
+}
+
+/**
+ * Saves the recurring availability and blackout ranges for a car
+ * @param carId The ID of the car listing
+ * @param availabilityData The new availability rules
+ * @param user The authenticated user saving the rules
+ * @returns Promise with the result of the operation
+ */
+export async function saveCarAvailability(
+  carId: string,
+  availabilityData: CarAvailabilityData,
+  user: User
+): Promise<AvailabilityResult> {
+  try {
+    // Verify the user is authenticated
+    if (!user || !user.uid) {
+      return {
+        success: false,
+        error: "User must be authenticated to update availability"
+      };
+    }
+
+    // Verify that the current user owns this listing
+    const listing = await getCarListingById(carId) as { owner?: string } | null;
+
+    if (!listing) {
+      return {
+        success: false,
+        error: "Car listing not found"
+      };
+    }
+
+    if (listing.owner !== user.uid) {
+      return {
+        success: false,
+        error: "You don't have permission to update this car's availability"
+      };
+    }
+
+    if (availabilityData.availableWeekdays.length === 0) {
+      return {
+        success: false,
+        error: "Select at least one day of the week the car is available"
+      };
+    }
+
+    const invalidBlackout = availabilityData.blackouts.find((blackout) => blackout.start > blackout.end);
+    if (invalidBlackout) {
+      return {
+        success: false,
+        error: "Blackout ranges must end on or after their start date"
+      };
+    }
+
+    await setDoc(doc(db, "carAvailability", carId), {
+      carId,
+      owner: user.uid,
+      availableWeekdays: [...new Set(availabilityData.availableWeekdays)].sort(),
+      blackouts: availabilityData.blackouts.map((blackout) => ({
+        id: blackout.id,
+        start: startOfDay(blackout.start),
+        end: startOfDay(blackout.end),
+        ...(blackout.reason ? { reason: blackout.reason } : {})
+      })),
+      updatedAt: serverTimestamp()
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error saving car availability:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to save availability"
+    };
+  }
+}
+
+/**
+ * Builds the upcoming booked date ranges of a car from its per-day booking locks.
+ * Unlike the bookings themselves, locks are readable by every user, so this is
+ * what renters use to see which days are taken. Days before today are left
+ * out, as they can no longer be booked.
+ * @param carId The ID of the car listing
+ * @returns The booked date ranges, one per booking
+ */
+export async function getLockedRanges(carId: string): Promise<BookedRange[]> {
+  try {
+    // Day keys are yyyy-MM-dd, so string comparison follows date order
+    const q = query(
+      collection(db, "carListings", carId, "bookingLocks"),
+      where("day", ">=", format(new Date(), "yyyy-MM-dd"))
+    );
+    const querySnapshot = await getDocs(q);
+    const ranges = new Map<string, BookedRange>();
+
+    querySnapshot.forEach((lockDoc) => {
+      const { bookingId, day } = lockDoc.data();
+      const date = parseISO(day);
+      const range = ranges.get(bookingId);
+
+      if (!range) {
+        ranges.set(bookingId, { bookingId, start: date, end: date });
+      } else {
+        if (date < range.start) range.start = date;
+        if (date > range.end) range.end = date;
+      }
+    });
+
+    return [...ranges.values()];
+  } catch (error) {
+    console.error("Error fetching booked dates:", error);
+    throw error;
+  }
+}
+
+/**
+ * Finds the cars that have at least one booked day in a date range
+ * @param startDate First day of the range
+ * @param endDate Last day of the range (inclusive)
+ * @returns The IDs of cars with a booking lock in the range
+ */
+export async function getCarIdsBookedBetween(startDate: Date, endDate: Date): Promise<Set<string>> {
+  try {
+    // Day keys are yyyy-MM-dd, so string comparison follows date order
+    const q = query(
+      collectionGroup(db, "bookingLocks"),
+      where("day", ">=", format(startDate, "yyyy-MM-dd")),
+      where("day", "<=", format(endDate, "yyyy-MM-dd"))
+    );
+    const querySnapshot = await getDocs(q);
+
+    return new Set(querySnapshot.docs.map((lockDoc) => lockDoc.data().carId as string));
+  } catch (error) {
+    console.error("Error fetching booked cars:", error);
+    throw error;
+  }
+}
+
+/**
+ * Checks whether a single day is blocked by the listing window, the weekly
+ * schedule, a blackout range or an existing booking
+ * @param date The day to check
+ * @param calendar The car's calendar data
+ * @returns true if the day cannot be booked
+ */
+export function isDateBlocked(date: Date, calendar: Partial<CarCalendar>): boolean {
+  const day = startOfDay(date);
+
+  if (calendar.availableFrom && day < startOfDay(calendar.availableFrom)) return true;
+  if (calendar.availableTo && day > startOfDay(calendar.availableTo)) return true;
+
+  if (calendar.availableWeekdays && !calendar.availableWeekdays.includes(day.getDay())) {
+    return true;
+  }
+
+  const inRange = (range: { start: Date; end: Date }) =>
+    day >= startOfDay(range.start) && day <= startOfDay(range.end);
+
+  if (calendar.blackouts?.some(inRange)) return true;
+  if (calendar.bookedRanges?.some(inRange)) return true;
+
+  return false;
+}
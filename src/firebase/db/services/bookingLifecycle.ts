@@ -0,0 +1,71 @@
+import { BookingActorRole, BookingStatus } from "../model/bookingmodel";
+
+/**
+ * Allowed status changes, keyed by the current status and then the next status,
+ * listing the roles that may perform each change.
+ * Statuses missing from the table (rejected, canceled, completed, expired) are final.
+ */
+export const BOOKING_TRANSITIONS: Partial<Record<BookingStatus, Partial<Record<BookingStatus, BookingActorRole[]>>>> = {
+  [BookingStatus.PENDING]: {
+    [BookingStatus.APPROVED]: [BookingActorRole.OWNER],
+    [BookingStatus.REJECTED]: [BookingActorRole.OWNER],
+    [BookingStatus.CANCELED]: [BookingActorRole.RENTER],
+    [BookingStatus.EXPIRED]: [BookingActorRole.SYSTEM]
+  },
+  [BookingStatus.APPROVED]: {
+    [BookingStatus.IN_PROGRESS]: [BookingActorRole.OWNER],
+    [BookingStatus.CANCELED]: [BookingActorRole.OWNER, BookingActorRole.RENTER],
+    [BookingStatus.COMPLETED]: [BookingActorRole.SYSTEM]
+  },
+  [BookingStatus.IN_PROGRESS]: {
+    [BookingStatus.COMPLETED]: [BookingActorRole.OWNER, BookingActorRole.SYSTEM]
+  }
+};
+
+/**
+ * Statuses in which a booking holds its dates on the car's calendar
+ */
+export const ACTIVE_BOOKING_STATUSES = [
+  BookingStatus.PENDING,
+  BookingStatus.APPROVED,
+  BookingStatus.IN_PROGRESS
+];
+
+/**
+ * Statuses that give the booking's dates back to the car
+ */
+export const RELEASING_BOOKING_STATUSES = [
+  BookingStatus.REJECTED,
+  BookingStatus.CANCELED,
+  BookingStatus.EXPIRED
+];
+
+/**
+ * Checks whether a role may move a booking from one status to another
+ */
+export function canTransition(
+  from: BookingStatus,
+  to: BookingStatus,
+  role: BookingActorRole
+): boolean {
+  return BOOKING_TRANSITIONS[from]?.[to]?.includes(role) ?? false;
+}
+
+/**
+ * Lists the statuses a role may move a booking to from its current status
+ */
+export function getAllowedTransitions(
+  from: BookingStatus,
+  role: BookingActorRole
+): BookingStatus[] {
+  const transitions = BOOKING_TRANSITIONS[from] ?? {};
+  return (Object.keys(transitions) as BookingStatus[])
+    .filter((to) => transitions[to]?.includes(role));
+}
+
+/**
+ * Checks whether a status has no further transitions
+ */
+export function isFinalStatus(status: BookingStatus): boolean {
+  return !BOOKING_TRANSITIONS[status];
+}
@@ -1,22 +1,177 @@
 import { 
   collection, 
-  addDoc, 
   doc, 
   getDoc, 
   getDocs, 
   query, 
   where, 
-  updateDoc, 
   serverTimestamp, 
-  
+  runTransaction,
+  Timestamp,
+  DocumentData,
   orderBy
 } from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { format, startOfDay } from "date-fns";
 import db from "../firestore";
-import { Booking, BookingData, BookingResult, BookingStatus } from "../model/bookingmodel";
+import { functions } from "@/firebase/firebase";
+import { 
+  Booking, 
+  BookingActorRole,
+  BookingData, 
+  BookingErrorCode, 
+  BookingEvent,
+  BookingRequest,
+  BookingResult, 
+  BookingStatus 
+} from "../model/bookingmodel";
+import { BookingNotificationType, NotificationType } from "../model/notificationmodel";
+import { BookingMessageEvent } from "../model/messagemodel";
 import { User } from "firebase/auth";
+import { BOOKING_TIME_ZONE, PENDING_RESPONSE_WINDOW_HOURS } from "@/config/bookings";
+import { dayKeysBetween, toDayKey } from "@shared/dayKeys";
+import { 
+  ACTIVE_BOOKING_STATUSES, 
+  BOOKING_TRANSITIONS, 
+  RELEASING_BOOKING_STATUSES, 
+  canTransition 
+} from "./bookingLifecycle";
+import { notificationWrite } from "./notificationService";
+import { postBookingEventMessage } from "./messagingService";
+
+// Notification sent to the other side of a booking for each status a user can set
+const STATUS_NOTIFICATIONS: Partial<Record<BookingStatus, BookingNotificationType>> = {
+  [BookingStatus.APPROVED]: NotificationType.BOOKING_APPROVED,
+  [BookingStatus.REJECTED]: NotificationType.BOOKING_REJECTED,
+  [BookingStatus.CANCELED]: NotificationType.BOOKING_CANCELED,
+  [BookingStatus.IN_PROGRESS]: NotificationType.BOOKING_STARTED,
+  [BookingStatus.COMPLETED]: NotificationType.BOOKING_COMPLETED
+};
+
+// System message posted to the booking's conversation for each status a user can set
+const STATUS_MESSAGES: Partial<Record<BookingStatus, BookingMessageEvent>> = {
+  [BookingStatus.APPROVED]: BookingMessageEvent.APPROVED,
+  [BookingStatus.REJECTED]: BookingMessageEvent.REJECTED,
+  [BookingStatus.CANCELED]: BookingMessageEvent.CANCELED
+};
+
+/**
+ * Converts a Firestore Timestamp or Date into a Date
+ */
+function toDate(value: Timestamp | Date): Date {
+  return value instanceof Timestamp ? value.toDate() : value;
+}
+
+/**
+ * Gets the time a pending booking request expires if the owner hasn't answered
+ * It is derived from createdAt, which the security rules pin to the server's
+ * write time, so the renter can't extend the deadline; the scheduled expiry
+ * job uses the same rule.
+ * @param createdAt The booking's creation time, null while the write is pending
+ * @returns Milliseconds since the epoch, or null if the booking isn't stored yet
+ */
+export function getRequestExpiryTime(createdAt: Timestamp | null | undefined): number | null {
+  return createdAt ? createdAt.toMillis() + PENDING_RESPONSE_WINDOW_HOURS * 60 * 60 * 1000 : null;
+}
+
+/**
+ * The first and last day keys (yyyy-MM-dd) of a booking: the stored keys, or for
+ * bookings created before they were stored, the dates read in BOOKING_TIME_ZONE
+ * like the backfill-locks script does
+ */
+function getBookingDayRange(booking: Booking): { startDay: string; endDay: string } {
+  if (booking.startDay && booking.endDay) {
+    return { startDay: booking.startDay, endDay: booking.endDay };
+  }
+  return {
+    startDay: toDayKey(toDate(booking.startDate), BOOKING_TIME_ZONE),
+    endDay: toDayKey(toDate(booking.endDate), BOOKING_TIME_ZONE)
+  };
+}
 
 /**
- * Creates a new booking in Firestore
+ * Reference to the lock document reserving a car for a single day
+ */
+function dayLockRef(carId: string, day: string) {
+  return doc(db, "carListings", carId, "bookingLocks", day);
+}
+
+/**
+ * Checks that the requested dates fall inside the listing's availability window
+ * @returns An error result, or null if the dates are allowed
+ */
+function checkAvailabilityWindow(
+  listing: DocumentData,
+  startDate: Date,
+  endDate: Date
+): BookingResult | null {
+  if (!listing.availableFrom || !listing.availableTo) {
+    return null;
+  }
+
+  const availableFrom = startOfDay(toDate(listing.availableFrom));
+  const availableTo = startOfDay(toDate(listing.availableTo));
+
+  if (startOfDay(startDate) < availableFrom || startOfDay(endDate) > availableTo) {
+    return {
+      success: false,
+      error: `This car is only available from ${format(availableFrom, "MMM d, yyyy")} to ${format(availableTo, "MMM d, yyyy")}`,
+      errorCode: BookingErrorCode.OUTSIDE_AVAILABILITY
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Finds an existing booking for the same car whose dates overlap the given range.
+ * Bookings created before day locks were introduced get their locks from the
+ * backfill-locks script in functions/, after which createBooking's lock check
+ * sees them; this also catches any the script couldn't lock. The security rules
+ * only let the car's owner list its bookings, so this runs when a request is approved.
+ */
+async function findOverlappingBooking(
+  carId: string,
+  startDate: Date,
+  endDate: Date,
+  statuses: BookingStatus[],
+  excludeBookingId?: string
+): Promise<Booking | null> {
+  const bookings = await getBookingsByCar(carId);
+  const start = startOfDay(startDate);
+  const end = startOfDay(endDate);
+
+  return bookings.find((booking) => 
+    booking.id !== excludeBookingId &&
+    statuses.includes(booking.status) &&
+    startOfDay(toDate(booking.startDate)) <= end &&
+    start <= startOfDay(toDate(booking.endDate))
+  ) || null;
+}
+
+/**
+ * Reference to a new entry in a booking's status history
+ */
+function newBookingEventRef(bookingId: string) {
+  return doc(collection(db, "bookings", bookingId, "events"));
+}
+
+/**
+ * Result returned when the requested dates are already taken
+ */
+function datesConflictResult(): BookingResult {
+  return {
+    success: false,
+    error: "This car is already booked for some of the selected dates",
+    errorCode: BookingErrorCode.DATES_CONFLICT
+  };
+}
+
+/**
+ * Requests a booking through the createBooking function, which checks the
+ * dates against the listing's availability, takes a lock on every day and
+ * rebuilds the price, rejecting the request if the total doesn't match.
+ * Clients can't write bookings themselves (see firestore.rules).
  * @param bookingData The booking data to be added
  * @param user The authenticated user creating the booking
  * @returns Promise with the result of the operation
@@ -30,38 +185,40 @@ export async function createBooking(
     if (!user || !user.uid) {
       return {
         success: false,
-        error: "User must be authenticated to create a booking"
+        error: "User must be authenticated to create a booking",
+        errorCode: BookingErrorCode.UNAUTHENTICATED
       };
     }
 
-    // Ensure the renter ID matches the current user
-    if (bookingData.renterId !== user.uid) {
-      bookingData.renterId = user.uid; // Force the renter to be the current user
+    if (startOfDay(bookingData.startDate) > startOfDay(bookingData.endDate)) {
+      return {
+        success: false,
+        error: "End date cannot be before start date",
+        errorCode: BookingErrorCode.INVALID_DATES
+      };
     }
 
-    // Prepare the Firestore document
-    const firestoreData = {
-      ...bookingData,
-      // Convert JavaScript Dates to Firestore Timestamps
-      startDate: bookingData.startDate,
-      endDate: bookingData.endDate,
-      createdAt: serverTimestamp(),
-      updatedAt: serverTimestamp(),
-      status: BookingStatus.PENDING // Default status for new bookings
-    };
-
-    // Add the document to Firestore
-    const docRef = await addDoc(collection(db, "bookings"), firestoreData);
+    // The function takes the renter from the caller's auth and the car's details from the listing
+    const requestBooking = httpsCallable<BookingRequest, BookingResult>(functions, "createBooking");
+    const result = await requestBooking({
+      carId: bookingData.carId,
+      startDay: format(bookingData.startDate, "yyyy-MM-dd"),
+      endDay: format(bookingData.endDate, "yyyy-MM-dd"),
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      totalPrice: bookingData.totalPrice,
+      renterName: bookingData.renterName,
+      renterProfileImage: bookingData.renterProfileImage,
+      ownerName: bookingData.ownerName,
+      notes: bookingData.notes
+    });
 
-    return {
-      success: true,
-      id: docRef.id
-    };
+    return result.data;
   } catch (error) {
     console.error("Error adding booking:", error);
     return {
       success: false,
-      error: error instanceof Error ? error.message : "Failed to create booking"
+      error: error instanceof Error ? error.message : "Failed to create booking",
+      errorCode: BookingErrorCode.UNKNOWN
     };
   }
 }
@@ -204,6 +361,10 @@ export async function getBookingsByOwner(userId: string): Promise<Booking[]> {
 
 /**
  * Updates the status of a booking
+ * The change must be allowed by the booking state machine for the user's role
+ * (see bookingLifecycle.ts) and is recorded in the booking's events history.
+ * Approving re-validates the dates and takes the day locks; rejecting or
+ * canceling releases them so the dates can be booked again.
  * @param bookingId The booking ID
  * @param status The new status
  * @param user The authenticated user updating the booking
@@ -221,7 +382,8 @@ export async function updateBookingStatus(
     if (!user || !user.uid) {
       return {
         success: false,
-        error: "User must be authenticated to update a booking"
+        error: "User must be authenticated to update a booking",
+        errorCode: BookingErrorCode.UNAUTHENTICATED
       };
     }
 
@@ -231,7 +393,8 @@ export async function updateBookingStatus(
     if (!booking) {
       return {
         success: false,
-        error: "Booking not found"
+        error: "Booking not found",
+        errorCode: BookingErrorCode.NOT_FOUND
       };
     }
 
@@ -239,22 +402,156 @@ export async function updateBookingStatus(
     if (booking.ownerId !== user.uid && booking.renterId !== user.uid) {
       return {
         success: false,
-        error: "You don't have permission to update this booking"
+        error: "You don't have permission to update this booking",
+        errorCode: BookingErrorCode.PERMISSION_DENIED
+      };
+    }
+
+    const role = booking.ownerId === user.uid ? BookingActorRole.OWNER : BookingActorRole.RENTER;
+
+    return await transitionBooking(booking, status, user.uid, role, reason);
+  } catch (error) {
+    console.error("Error updating booking status:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to update booking status",
+      errorCode: BookingErrorCode.UNKNOWN
+    };
+  }
+}
+
+/**
+ * Applies a status change to a booking inside a transaction
+ * @param booking The booking as last read (its status is re-read in the transaction)
+ * @param status The new status
+ * @param actorId ID of the user making the change
+ * @param actorRole Role of the actor on this booking
+ * @param reason Optional reason for the change
+ * @returns Promise with the result of the operation
+ */
+async function transitionBooking(
+  booking: Booking,
+  status: BookingStatus,
+  actorId: string,
+  actorRole: BookingActorRole,
+  reason?: string
+): Promise<BookingResult> {
+  const bookingId = booking.id;
+  const startDate = toDate(booking.startDate);
+  const endDate = toDate(booking.endDate);
+  const dayRange = getBookingDayRange(booking);
+  const days = dayKeysBetween(dayRange.startDay, dayRange.endDay);
+  const releasesDates = RELEASING_BOOKING_STATUSES.includes(status);
+
+  // Released locks are found by booking, like the expiry job does, so they are
+  // freed whichever days they were keyed on. Transactions can't run queries, so
+  // they are listed here and re-read in the transaction.
+  const heldLockRefs = releasesDates
+    ? (await getDocs(query(
+        collection(db, "carListings", booking.carId, "bookingLocks"),
+        where("bookingId", "==", bookingId)
+      ))).docs.map((lockSnap) => lockSnap.ref)
+    : [];
+
+  if (status === BookingStatus.APPROVED) {
+    const overlapping = await findOverlappingBooking(
+      booking.carId,
+      startDate,
+      endDate,
+      [BookingStatus.APPROVED, BookingStatus.IN_PROGRESS],
+      bookingId
+    );
+    if (overlapping) {
+      return datesConflictResult();
+    }
+  }
+
+  const docRef = doc(db, "bookings", bookingId);
+
+  return await runTransaction(db, async (transaction): Promise<BookingResult> => {
+    // All reads must happen before any writes in a transaction
+    const bookingSnap = await transaction.get(docRef);
+    
+    if (!bookingSnap.exists()) {
+      return {
+        success: false,
+        error: "Booking not found",
+        errorCode: BookingErrorCode.NOT_FOUND
       };
     }
 
-    // Different status updates have different permission requirements
-    if (status === BookingStatus.APPROVED || status === BookingStatus.REJECTED) {
-      // Only the owner can approve or reject
-      if (booking.ownerId !== user.uid) {
+    const currentStatus = bookingSnap.data().status as BookingStatus;
+    const expiresAt = getRequestExpiryTime(bookingSnap.data().createdAt);
+    
+    // The expiry job runs periodically, so a request can be past its deadline before it is marked expired
+    if (
+      currentStatus === BookingStatus.PENDING && 
+      status === BookingStatus.APPROVED && 
+      expiresAt !== null && expiresAt <= Date.now()
+    ) {
+      return {
+        success: false,
+        error: "This booking request has expired",
+        errorCode: BookingErrorCode.INVALID_TRANSITION
+      };
+    }
+
+    if (!canTransition(currentStatus, status, actorRole)) {
+      // The change exists in the state machine, just not for this role
+      if (BOOKING_TRANSITIONS[currentStatus]?.[status]) {
         return {
           success: false,
-          error: "Only the car owner can approve or reject bookings"
+          error: `You don't have permission to change this booking to ${status.replace("_", " ")}`,
+          errorCode: BookingErrorCode.PERMISSION_DENIED
         };
       }
-    } else if (status === BookingStatus.CANCELED) {
-      // Both the renter and owner can cancel, but we should track who did it
-      // (We'd need to add a "canceledBy" field for this, but keeping it simple for now)
+      return {
+        success: false,
+        error: `A ${currentStatus.replace("_", " ")} booking cannot be changed to ${status.replace("_", " ")}`,
+        errorCode: BookingErrorCode.INVALID_TRANSITION
+      };
+    }
+
+    const lockSnaps = status === BookingStatus.APPROVED
+      ? await Promise.all(days.map((day) => transaction.get(dayLockRef(booking.carId, day))))
+      : await Promise.all(heldLockRefs.map((lockRef) => transaction.get(lockRef)));
+
+    if (status === BookingStatus.APPROVED) {
+      const listingSnap = await transaction.get(doc(db, "carListings", booking.carId));
+      
+      if (!listingSnap.exists()) {
+        return {
+          success: false,
+          error: "Car listing not found",
+          errorCode: BookingErrorCode.NOT_FOUND
+        };
+      }
+
+      const windowError = checkAvailabilityWindow(listingSnap.data(), startDate, endDate);
+      if (windowError) {
+        return windowError;
+      }
+
+      const heldByOther = lockSnaps.some((lockSnap) => 
+        lockSnap.exists() && lockSnap.data().bookingId !== bookingId
+      );
+      if (heldByOther) {
+        return datesConflictResult();
+      }
+
+      // Bookings created before day locks existed get their locks now
+      days.forEach((day) => {
+        transaction.set(dayLockRef(booking.carId, day), {
+          bookingId,
+          carId: booking.carId,
+          day,
+          createdAt: serverTimestamp()
+        });
+      });
+    } else if (releasesDates) {
+      lockSnaps
+        .filter((lockSnap) => lockSnap.exists() && lockSnap.data().bookingId === bookingId)
+        .forEach((lockSnap) => transaction.delete(lockSnap.ref));
     }
 
     // Prepare the update data
@@ -263,25 +560,78 @@ export async function updateBookingStatus(
       updatedAt: serverTimestamp()
     };
 
+    // The lock rules compare lock days with these keys, which older bookings lack
+    if (status === BookingStatus.APPROVED && !bookingSnap.data().startDay) {
+      updateData.startDay = dayRange.startDay;
+      updateData.endDay = dayRange.endDay;
+    }
+
     // Add reason if provided
     if (reason) {
       updateData.cancellationReason = reason;
     }
 
-    // Update the document in Firestore
-    const docRef = doc(db, "bookings", bookingId);
-    await updateDoc(docRef, updateData);
+    if (status === BookingStatus.CANCELED) {
+      updateData.canceledBy = actorRole;
+    }
+
+    transaction.update(docRef, updateData);
+    transaction.set(newBookingEventRef(bookingId), {
+      fromStatus: currentStatus,
+      toStatus: status,
+      actorId,
+      actorRole,
+      ...(reason ? { reason } : {}),
+      timestamp: serverTimestamp()
+    });
+
+    const notificationType = STATUS_NOTIFICATIONS[status];
+    if (notificationType) {
+      const actorIsOwner = actorRole === BookingActorRole.OWNER;
+      const notification = notificationWrite({
+        type: notificationType,
+        recipientId: actorIsOwner ? booking.renterId : booking.ownerId,
+        recipientIsOwner: !actorIsOwner,
+        bookingId,
+        carTitle: booking.carTitle,
+        actorName: actorIsOwner ? booking.ownerName : booking.renterName,
+        reason
+      });
+      transaction.set(notification.ref, notification.data);
+    }
+
+    const messageEvent = STATUS_MESSAGES[status];
+    if (messageEvent) {
+      postBookingEventMessage(transaction, bookingId, booking, messageEvent, actorId, reason);
+    }
 
     return {
       success: true,
       id: bookingId
     };
+  });
+}
+
+/**
+ * Gets the status history of a booking, oldest first
+ * @param bookingId The booking ID
+ * @returns Promise with an array of booking events
+ */
+export async function getBookingEvents(bookingId: string): Promise<BookingEvent[]> {
+  try {
+    const q = query(
+      collection(db, "bookings", bookingId, "events"),
+      orderBy("timestamp", "asc")
+    );
+    const querySnapshot = await getDocs(q);
+    
+    return querySnapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data()
+    } as BookingEvent));
   } catch (error) {
-    console.error("Error updating booking status:", error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Failed to update booking status"
-    };
+    console.error("Error fetching booking events:", error);
+    throw error;
   }
 }
 
@@ -295,7 +645,7 @@ export async function getBookingsByCar(carId: string): Promise<Booking[]> {
     const q = query(
       collection(db, "bookings"), 
       where("carId", "==", carId),
-      where("status", "in", [BookingStatus.APPROVED, BookingStatus.PENDING])
+      where("status", "in", ACTIVE_BOOKING_STATUSES)
     );
     const querySnapshot = await getDocs(q);
     
@@ -0,0 +1,368 @@
+import { DocumentData, Timestamp } from "firebase/firestore";
+import { startOfDay } from "date-fns";
+import { CarSearchFacets, CarSearchFilters, FacetCount, GeoBounds, GeoCoordinates, ListingStatus } from "../model/carmodel";
+import {
+  CarListingSort,
+  CarListingsCursor,
+  CarListingsPage,
+  DEFAULT_LISTINGS_PAGE_SIZE,
+  getAvailableCarListings,
+  getCarListingsByIds,
+  getCarListingsPage
+} from "./getCarListings";
+import { getCarIdsBookedBetween } from "./availabilityService";
+import { getCarListingsInBounds, getCarListingsNear, isWithinBounds } from "./geoSearchService";
+import { searchListingKeywords } from "./listingSearchService";
+import { distanceInMiles } from "@/utils/geoUtils";
+import { DISTANCE_SORT_RADIUS_MILES } from "@/config/geo";
+
+/**
+ * Seat counts offered as "at least N seats" options
+ */
+export const SEAT_FACET_OPTIONS = [2, 4, 5, 7];
+
+/**
+ * Filters that have their own facet and are ignored when counting that facet
+ */
+type FacetKey = "make" | "fuelType" | "transmission" | "seatsMin";
+
+// Upper bound on queries per search page when filters reject most listings
+const MAX_BATCHES_PER_PAGE = 5;
+
+// Most relevant keyword matches read per search
+const MAX_KEYWORD_RESULTS = 120;
+
+/**
+ * Listing sorts plus sorting by distance from the search origin and by keyword relevance
+ */
+export type CarSearchSort = CarListingSort | "distance" | "relevance";
+
+export interface CarSearchPageOptions {
+  sort?: CarSearchSort;
+  pageSize?: number;
+  cursor?: CarListingsCursor | null;
+}
+
+/**
+ * Data looked up once per search that listings are checked against
+ */
+interface SearchContext {
+  bookedCarIds: Set<string>;                  // Cars with bookings in the requested date range
+  keywordScores: Map<string, number> | null;  // Relevance of keyword matches, null without a query
+}
+
+/**
+ * Converts a Firestore Timestamp or Date into a Date
+ */
+function toDate(value: Timestamp | Date): Date {
+  return value instanceof Timestamp ? value.toDate() : value;
+}
+
+/**
+ * Checks a listing against the filters
+ * @param listing The raw listing document
+ * @param filters The active filters
+ * @param context Booked cars and keyword matches for the search
+ * @param ignore A facet filter to leave out, used when counting that facet
+ */
+function matchesFilters(
+  listing: DocumentData,
+  filters: CarSearchFilters,
+  context: SearchContext,
+  ignore?: FacetKey
+): boolean {
+  if (context.keywordScores && !context.keywordScores.has(listing.id)) return false;
+
+  if (filters.location) {
+    const location = String(listing.location ?? "").toLowerCase();
+    if (!location.includes(filters.location.trim().toLowerCase())) return false;
+  }
+
+  if (filters.priceMin !== undefined && listing.price < filters.priceMin) return false;
+  if (filters.priceMax !== undefined && listing.price > filters.priceMax) return false;
+
+  const carInfo = listing.carInfo ?? {};
+
+  if (ignore !== "make" && filters.make &&
+      String(carInfo.make ?? "").toLowerCase() !== filters.make.toLowerCase()) {
+    return false;
+  }
+  if (ignore !== "fuelType" && filters.fuelType && carInfo.fuelType !== filters.fuelType) return false;
+  if (ignore !== "transmission" && filters.transmission && carInfo.transmission !== filters.transmission) {
+    return false;
+  }
+  if (ignore !== "seatsMin" && filters.seatsMin !== undefined && (carInfo.seats ?? 0) < filters.seatsMin) {
+    return false;
+  }
+
+  if (filters.availableFrom && filters.availableTo) {
+    // The whole trip has to fit inside the listing's availability window
+    if (listing.availableFrom && startOfDay(toDate(listing.availableFrom)) > startOfDay(filters.availableFrom)) {
+      return false;
+    }
+    if (listing.availableTo && startOfDay(toDate(listing.availableTo)) < startOfDay(filters.availableTo)) {
+      return false;
+    }
+    if (context.bookedCarIds.has(listing.id)) return false;
+  }
+
+  if (filters.bounds && (!listing.coordinates || !isWithinBounds(listing.coordinates, filters.bounds))) {
+    return false;
+  }
+
+  if (filters.near && filters.radiusMiles) {
+    if (!listing.coordinates || distanceInMiles(filters.near, listing.coordinates) > filters.radiusMiles) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+// Client-side equivalents of the Firestore sorts, for results of a radius query
+const compareListings: Record<CarListingSort, (a: DocumentData, b: DocumentData) => number> = {
+  newest: (a, b) => (b.createdAt?.seconds ?? 0) - (a.createdAt?.seconds ?? 0),
+  price_asc: (a, b) => a.price - b.price,
+  price_desc: (a, b) => b.price - a.price,
+  rating: (a, b) =>
+    (b.ratingSummary?.average ?? 0) - (a.ratingSummary?.average ?? 0) ||
+    (b.ratingSummary?.count ?? 0) - (a.ratingSummary?.count ?? 0)
+};
+
+/**
+ * Sorts search results in place
+ * Distance sorting needs distanceMiles on the listings, and relevance a keyword query.
+ */
+function sortListings(listings: DocumentData[], sort: CarSearchSort, context: SearchContext): void {
+  if (sort === "distance") {
+    listings.sort((a, b) => (a.distanceMiles ?? Infinity) - (b.distanceMiles ?? Infinity));
+  } else if (sort === "relevance") {
+    const scores = context.keywordScores;
+    if (scores) listings.sort((a, b) => (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0));
+  } else {
+    listings.sort(compareListings[sort]);
+  }
+}
+
+/**
+ * Counts listings per value, sorted by count and then alphabetically
+ */
+function countBy(listings: DocumentData[], getValue: (listing: DocumentData) => string | undefined): FacetCount[] {
+  const counts = new Map<string, number>();
+
+  listings.forEach((listing) => {
+    const value = getValue(listing);
+    if (value) counts.set(value, (counts.get(value) ?? 0) + 1);
+  });
+
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+/**
+ * Builds the facet counts for the search sidebar
+ */
+function buildFacets(
+  listings: DocumentData[],
+  filters: CarSearchFilters,
+  context: SearchContext
+): CarSearchFacets {
+  const matchingExcept = (ignore: FacetKey) =>
+    listings.filter((listing) => matchesFilters(listing, filters, context, ignore));
+
+  const seatCandidates = matchingExcept("seatsMin");
+  const matching = listings.filter((listing) => matchesFilters(listing, filters, context));
+  const prices = matching.map((listing) => listing.price).filter((price) => typeof price === "number");
+
+  return {
+    make: countBy(matchingExcept("make"), (listing) => listing.carInfo?.make),
+    fuelType: countBy(matchingExcept("fuelType"), (listing) => listing.carInfo?.fuelType),
+    transmission: countBy(matchingExcept("transmission"), (listing) => listing.carInfo?.transmission),
+    seats: SEAT_FACET_OPTIONS.map((seats) => ({
+      value: String(seats),
+      count: seatCandidates.filter((listing) => (listing.carInfo?.seats ?? 0) >= seats).length
+    })),
+    priceMin: prices.length ? Math.min(...prices) : 0,
+    priceMax: prices.length ? Math.max(...prices) : 0
+  };
+}
+
+/**
+ * Fetches the cars booked on any day of the filter's date range and the
+ * listings matching the keyword query
+ */
+async function getSearchContext(filters: CarSearchFilters): Promise<SearchContext> {
+  const [bookedCarIds, keywordScores] = await Promise.all([
+    filters.availableFrom && filters.availableTo
+      ? getCarIdsBookedBetween(filters.availableFrom, filters.availableTo)
+      : Promise.resolve(new Set<string>()),
+    filters.query ? searchListingKeywords(filters.query) : Promise.resolve(null)
+  ]);
+
+  return { bookedCarIds, keywordScores };
+}
+
+/**
+ * Adds distanceMiles to listings with coordinates when the search has an origin
+ */
+function withDistances(listings: DocumentData[], near?: GeoCoordinates): DocumentData[] {
+  if (!near) return listings;
+  return listings.map((listing) => listing.coordinates
+    ? { ...listing, distanceMiles: distanceInMiles(near, listing.coordinates) }
+    : listing);
+}
+
+/**
+ * Fetches one page of active car listings matching the filters
+ * Firestore cannot combine the location, price, seat and date filters in one
+ * query, so listings are read in sort order and filtered here. When filters
+ * reject most of a batch, further batches are read (up to MAX_BATCHES_PER_PAGE)
+ * so a page is rarely empty while more results exist.
+ * @param filters The search filters
+ * @param options Sort order, page size and the cursor returned by the previous page
+ * @returns The matching listings and the cursor for the next page
+ */
+export async function searchCarListingsPage(
+  filters: CarSearchFilters,
+  options: CarSearchPageOptions = {}
+): Promise<CarListingsPage> {
+  try {
+    if (filters.bounds) {
+      return await searchCarListingsInArea(filters, filters.bounds, options.sort);
+    }
+
+    if (filters.near && (filters.radiusMiles || options.sort === "distance")) {
+      return await searchCarListingsNear(filters, filters.near, options.sort);
+    }
+
+    if (filters.query) {
+      return await searchCarListingsByKeywords(filters, options.sort);
+    }
+
+    const pageSize = options.pageSize || DEFAULT_LISTINGS_PAGE_SIZE;
+    // Without an origin or a query there is no distance or relevance to sort by
+    const sort = options.sort === "distance" || options.sort === "relevance" ? undefined : options.sort;
+    const context = await getSearchContext(filters);
+
+    const items: DocumentData[] = [];
+    let cursor = options.cursor ?? null;
+    let batches = 0;
+
+    do {
+      const page = await getCarListingsPage({ sort, pageSize, cursor });
+      items.push(...page.items.filter((listing) => matchesFilters(listing, filters, context)));
+      cursor = page.nextCursor;
+      batches++;
+    } while (cursor && items.length < pageSize && batches < MAX_BATCHES_PER_PAGE);
+
+    // Distances are shown on the cards whenever an origin is known
+    return { items: withDistances(items, filters.near), nextCursor: cursor };
+  } catch (error) {
+    console.error("Error searching car listings:", error);
+    throw error;
+  }
+}
+
+/**
+ * Radius search, used for a distance filter or "Nearest" sorting
+ * Geohash ranges can't be combined with the cursor of another sort order, so
+ * every listing within the radius is returned as a single page.
+ */
+async function searchCarListingsNear(
+  filters: CarSearchFilters,
+  near: GeoCoordinates,
+  sort: CarSearchSort = "distance"
+): Promise<CarListingsPage> {
+  const [listings, context] = await Promise.all([
+    getCarListingsNear(near, filters.radiusMiles || DISTANCE_SORT_RADIUS_MILES),
+    getSearchContext(filters)
+  ]);
+
+  // getCarListingsNear already returns the nearest first
+  const items = listings.filter((listing) => matchesFilters(listing, filters, context));
+  if (sort !== "distance") sortListings(items, sort, context);
+
+  return { items, nextCursor: null };
+}
+
+/**
+ * Map area search ("search this area"), returned as a single page like radius search
+ */
+async function searchCarListingsInArea(
+  filters: CarSearchFilters,
+  bounds: GeoBounds,
+  sort: CarSearchSort = "newest"
+): Promise<CarListingsPage> {
+  const [listings, context] = await Promise.all([
+    getCarListingsInBounds(bounds, filters.near),
+    getSearchContext(filters)
+  ]);
+
+  const items = listings.filter((listing) => matchesFilters(listing, filters, context));
+  if (sort !== "distance" || filters.near) sortListings(items, sort, context);
+
+  return { items, nextCursor: null };
+}
+
+/**
+ * Keyword search, returned as a single page like radius search
+ * Matches come from the keyword index; only the MAX_KEYWORD_RESULTS most
+ * relevant are read and then filtered. The index can lag a listing edit by a
+ * moment, so listings that stopped being active are dropped here.
+ */
+async function searchCarListingsByKeywords(
+  filters: CarSearchFilters,
+  sort: CarSearchSort = "relevance"
+): Promise<CarListingsPage> {
+  const context = await getSearchContext(filters);
+  const ids = [...(context.keywordScores ?? new Map<string, number>()).entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_KEYWORD_RESULTS)
+    .map(([id]) => id);
+  const listings = await getCarListingsByIds(ids);
+
+  const items = withDistances(
+    listings.filter((listing) =>
+      listing.status === ListingStatus.ACTIVE && matchesFilters(listing, filters, context)),
+    filters.near
+  );
+  sortListings(items, sort, context);
+
+  return { items, nextCursor: null };
+}
+
+// Active listings behind the facet counts, read once per session
+let facetListings: Promise<DocumentData[]> | null = null;
+
+function getFacetListings(): Promise<DocumentData[]> {
+  if (!facetListings) {
+    facetListings = getAvailableCarListings().catch((error) => {
+      facetListings = null; // Let the next call retry
+      throw error;
+    });
+  }
+  return facetListings;
+}
+
+/**
+ * Counts the active listings per facet value for the search sidebar
+ * Counts cover every active listing rather than the loaded pages. The listings
+ * are read once per session and recounted here on each filter change, so
+ * listings published since the page loaded aren't counted.
+ * @param filters The search filters
+ * @returns Facet counts and the price range of the matching listings
+ */
+export async function getCarSearchFacets(filters: CarSearchFilters): Promise<CarSearchFacets> {
+  try {
+    const [listings, context] = await Promise.all([
+      getFacetListings(),
+      getSearchContext(filters)
+    ]);
+
+    return buildFacets(listings, filters, context);
+  } catch (error) {
+    console.error("Error counting search facets:", error);
+    throw error;
+  }
+}
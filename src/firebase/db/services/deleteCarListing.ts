@@ -2,6 +2,7 @@ import { doc, deleteDoc } from "firebase/firestore";
 import db from "../firestore";
 import { User } from "firebase/auth";
 import { getCarListingById } from "./getCarListings";
+import { deleteImageFolder, getCarImageFolder } from "@/utils/imageUploadService";
 
 // Define the structure of a car listing
 interface CarListing {
@@ -16,7 +17,7 @@ interface DeleteCarListingResult {
 }
 
 /**
- * Deletes a car listing from Firestore
+ * Deletes a car listing from Firestore along with its photos in Storage
  * @param listingId The ID of the car listing to delete
  * @param user The authenticated user deleting the listing
  * @returns Promise with the result of the operation
@@ -56,6 +57,13 @@ export async function deleteCarListing(
     const docRef = doc(db, "carListings", listingId);
     await deleteDoc(docRef);
 
+    // The listing is already gone, so a failed cleanup only leaves orphaned files
+    try {
+      await deleteImageFolder(getCarImageFolder(listingId));
+    } catch (storageError) {
+      console.error("Error deleting car listing images:", storageError);
+    }
+
     return {
       success: true
     };
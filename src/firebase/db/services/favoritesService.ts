@@ -0,0 +1,136 @@
+import {
+  collection,
+  deleteDoc,
+  doc,
+  DocumentData,
+  getDocs,
+  onSnapshot,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp
+} from "firebase/firestore";
+import db from "../firestore";
+import { Favorite, FavoriteListing } from "../model/favoritemodel";
+import { getCarListingById } from "./getCarListings";
+
+interface FavoriteResult {
+  success: boolean;
+  id?: string;
+  error?: string;
+}
+
+/**
+ * A favorite together with the listing as it is now
+ */
+export interface FavoriteWithListing {
+  favorite: Favorite;
+  listing: DocumentData | null; // null once the listing has been deleted
+}
+
+function favoritesRef(userId: string) {
+  return collection(db, "users", userId, "favorites");
+}
+
+/**
+ * How much cheaper a listing is than when it was saved
+ * @returns The drop in dollars per day, or 0 if the price hasn't gone down
+ */
+export function getPriceDrop(favorite: Favorite, currentPrice: number): number {
+  return Math.max(0, favorite.savedPrice - currentPrice);
+}
+
+/**
+ * Saves a listing to the user's favorites, recording its current price
+ * Saving a listing that is already a favorite succeeds without changing it,
+ * so the price it was saved at is kept.
+ * @param userId The user saving the listing
+ * @param listing The listing to save
+ * @returns Promise with the result of the operation
+ */
+export async function addFavorite(userId: string, listing: FavoriteListing): Promise<FavoriteResult> {
+  try {
+    // Keyed by listing ID, so saving twice keeps a single favorite. Favorites
+    // can only be created, not overwritten, so an existing one is left alone.
+    const favoriteRef = doc(favoritesRef(userId), listing.id);
+    await runTransaction(db, async (transaction) => {
+      const existing = await transaction.get(favoriteRef);
+      if (existing.exists()) return;
+
+      transaction.set(favoriteRef, {
+        listingId: listing.id,
+        userId,
+        title: listing.title,
+        ...(listing.imageUrl ? { imageUrl: listing.imageUrl } : {}),
+        savedPrice: listing.price,
+        createdAt: serverTimestamp()
+      });
+    });
+
+    return { success: true, id: listing.id };
+  } catch (error) {
+    console.error("Error saving favorite:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to save car"
+    };
+  }
+}
+
+/**
+ * Removes a listing from the user's favorites
+ */
+export async function removeFavorite(userId: string, listingId: string): Promise<FavoriteResult> {
+  try {
+    await deleteDoc(doc(favoritesRef(userId), listingId));
+    return { success: true, id: listingId };
+  } catch (error) {
+    console.error("Error removing favorite:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to remove saved car"
+    };
+  }
+}
+
+/**
+ * Subscribes to the user's favorites
+ * @param userId The user
+ * @param callback Called with the favorites by listing ID on every change
+ * @returns Function to unsubscribe
+ */
+export function subscribeToFavorites(
+  userId: string,
+  callback: (favorites: Map<string, Favorite>) => void
+): () => void {
+  return onSnapshot(
+    favoritesRef(userId),
+    (snapshot) => {
+      callback(new Map(snapshot.docs.map((doc) => [doc.id, doc.data() as Favorite])));
+    },
+    (error) => {
+      console.error("Error in favorites subscription:", error);
+    }
+  );
+}
+
+/**
+ * Fetches the user's favorites with their current listings, newest first
+ * @param userId The user
+ */
+export async function getFavoritesWithListings(userId: string): Promise<FavoriteWithListing[]> {
+  try {
+    const snapshot = await getDocs(query(favoritesRef(userId), orderBy("createdAt", "desc")));
+    const favorites = snapshot.docs.map((doc) => doc.data() as Favorite);
+
+    const listings = await Promise.all(favorites.map((favorite) => getCarListingById(favorite.listingId)));
+
+    return favorites.map((favorite, index) => ({
+      favorite,
+      listing: listings[index] ?? null
+    }));
+  } catch (error) {
+    console.error("Error fetching favorites:", error);
+    throw error;
+  }
+}
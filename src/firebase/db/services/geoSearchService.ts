@@ -0,0 +1,122 @@
+import {
+  collection,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  startAt,
+  endAt,
+  DocumentData
+} from "firebase/firestore";
+import { geohashQueryBounds } from "geofire-common";
+import db from "../firestore";
+import { GeoBounds, GeoCoordinates, ListingStatus } from "../model/carmodel";
+import { geocode } from "@/utils/geocodingService";
+import { distanceInMiles, toGeohash, METERS_PER_MILE } from "@/utils/geoUtils";
+
+/**
+ * Location fields stored on a listing, derived from its ZIP code
+ */
+export interface ListingGeo {
+  zipCode: string;
+  coordinates: GeoCoordinates;
+  geohash: string;
+}
+
+/**
+ * Geocodes a listing's ZIP code into the fields used by radius search
+ * @param zipCode The pickup ZIP code
+ * @returns The location fields, or null if the ZIP code is unknown
+ */
+export async function resolveListingGeo(zipCode: string): Promise<ListingGeo | null> {
+  const result = await geocode(zipCode);
+  if (!result) return null;
+
+  return {
+    zipCode: result.zipCode ?? zipCode.trim(),
+    coordinates: result.coordinates,
+    geohash: toGeohash(result.coordinates)
+  };
+}
+
+/**
+ * Checks whether a point lies inside a map area, including areas that cross the antimeridian
+ */
+export function isWithinBounds(point: GeoCoordinates, bounds: GeoBounds): boolean {
+  if (point.lat < bounds.south || point.lat > bounds.north) return false;
+  return bounds.west <= bounds.east
+    ? point.lng >= bounds.west && point.lng <= bounds.east
+    : point.lng >= bounds.west || point.lng <= bounds.east;
+}
+
+/**
+ * Fetches active listings inside a map area
+ * The area is covered with the smallest circle around it, so the query reuses
+ * the radius search and drops the listings outside the rectangle.
+ * @param bounds The visible map area
+ * @param origin Optional point to measure distanceMiles from
+ * @returns Listings inside the area, nearest to the area's center first
+ */
+export async function getCarListingsInBounds(bounds: GeoBounds, origin?: GeoCoordinates): Promise<DocumentData[]> {
+  const east = bounds.west <= bounds.east ? bounds.east : bounds.east + 360;
+  const center: GeoCoordinates = {
+    lat: (bounds.south + bounds.north) / 2,
+    lng: (((bounds.west + east) / 2 + 540) % 360) - 180
+  };
+  const radiusMiles = Math.max(
+    distanceInMiles(center, { lat: bounds.north, lng: bounds.west }),
+    distanceInMiles(center, { lat: bounds.south, lng: bounds.west })
+  );
+
+  const listings = await getCarListingsNear(center, radiusMiles);
+
+  return listings
+    .filter((listing) => isWithinBounds(listing.coordinates, bounds))
+    // Distances from the area's center mean nothing to the user, so only keep them relative to an origin
+    .map((listing) => ({
+      ...listing,
+      distanceMiles: origin ? distanceInMiles(origin, listing.coordinates) : undefined
+    }));
+}
+
+/**
+ * Fetches active listings within a radius, nearest first
+ * A circle is covered by a few geohash ranges, each queried separately. The
+ * ranges overlap a square around the circle, so corner matches are dropped by
+ * their exact distance. Listings without coordinates are never returned.
+ * @param center The search origin
+ * @param radiusMiles The search radius in miles
+ * @returns Listings with a distanceMiles field, sorted by distance
+ */
+export async function getCarListingsNear(center: GeoCoordinates, radiusMiles: number): Promise<DocumentData[]> {
+  try {
+    const bounds = geohashQueryBounds([center.lat, center.lng], radiusMiles * METERS_PER_MILE);
+
+    const snapshots = await Promise.all(bounds.map(([start, end]) => getDocs(query(
+      collection(db, "carListings"),
+      where("status", "==", ListingStatus.ACTIVE),
+      orderBy("geohash"),
+      startAt(start),
+      endAt(end)
+    ))));
+
+    const listings = new Map<string, DocumentData>();
+
+    snapshots.forEach((snapshot) => {
+      snapshot.docs.forEach((doc) => {
+        const data = doc.data();
+        if (!data.coordinates) return;
+
+        const distanceMiles = distanceInMiles(center, data.coordinates);
+        if (distanceMiles <= radiusMiles) {
+          listings.set(doc.id, { id: doc.id, ...data, distanceMiles });
+        }
+      });
+    });
+
+    return [...listings.values()].sort((a, b) => a.distanceMiles - b.distanceMiles);
+  } catch (error) {
+    console.error("Error fetching car listings near location:", error);
+    throw error;
+  }
+}
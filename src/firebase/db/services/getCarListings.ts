@@ -1,4 +1,18 @@
-import { collection, doc, getDoc, getDocs, query, where, orderBy, limit as limitQuery, QueryConstraint, DocumentData } from "firebase/firestore";
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  documentId,
+  query,
+  where,
+  orderBy,
+  startAfter,
+  limit as limitQuery,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+  DocumentData
+} from "firebase/firestore";
 import db from "../firestore";
 import { ListingStatus } from "../model/carmodel";
 
@@ -91,6 +105,98 @@ export async function getCarListings(options: CarListingsOptions = {}) {
   }
 }
 
+/**
+ * Sort orders supported by getCarListingsPage
+ */
+export type CarListingSort = 'newest' | 'price_asc' | 'price_desc' | 'rating';
+
+/**
+ * Position after the last listing of a page, passed back to fetch the next one
+ */
+export type CarListingsCursor = QueryDocumentSnapshot<DocumentData>;
+
+export interface CarListingsPageOptions {
+  status?: ListingStatus;
+  sort?: CarListingSort;
+  pageSize?: number;
+  cursor?: CarListingsCursor | null;
+}
+
+export interface CarListingsPage {
+  items: DocumentData[];
+  nextCursor: CarListingsCursor | null; // null once there are no more listings
+}
+
+export const DEFAULT_LISTINGS_PAGE_SIZE = 12;
+
+// Each sort needs a composite index with status, see firestore.indexes.json
+const SORT_ORDERS: Record<CarListingSort, QueryConstraint[]> = {
+  newest: [orderBy("createdAt", "desc")],
+  price_asc: [orderBy("price", "asc")],
+  price_desc: [orderBy("price", "desc")],
+  // Listings created before ratings existed need the empty ratingSummary to show up here
+  // (npm run backfill-ratings in functions/ adds it)
+  rating: [orderBy("ratingSummary.average", "desc"), orderBy("ratingSummary.count", "desc")]
+};
+
+/**
+ * Fetches one page of car listings
+ * @param options Status, sort order, page size and the cursor returned by the previous page
+ * @returns The listings on the page and the cursor for the next page
+ */
+export async function getCarListingsPage(options: CarListingsPageOptions = {}): Promise<CarListingsPage> {
+  try {
+    const pageSize = options.pageSize || DEFAULT_LISTINGS_PAGE_SIZE;
+
+    const constraints: QueryConstraint[] = [
+      where("status", "==", options.status || ListingStatus.ACTIVE),
+      ...SORT_ORDERS[options.sort || 'newest'],
+      ...(options.cursor ? [startAfter(options.cursor)] : []),
+      // One extra document tells us whether another page exists
+      limitQuery(pageSize + 1)
+    ];
+
+    const querySnapshot = await getDocs(query(collection(db, "carListings"), ...constraints));
+    const pageDocs = querySnapshot.docs.slice(0, pageSize);
+
+    return {
+      items: pageDocs.map((doc) => ({ id: doc.id, ...doc.data() })),
+      nextCursor: querySnapshot.docs.length > pageSize ? pageDocs[pageDocs.length - 1] : null
+    };
+  } catch (error) {
+    console.error("Error fetching car listings page:", error);
+    throw error;
+  }
+}
+
+// Firestore "in" filters accept at most 30 values
+const MAX_IN_VALUES = 30;
+
+/**
+ * Fetches car listings by ID
+ * @param ids IDs of the listings to fetch
+ * @returns The listings that exist, in no particular order
+ */
+export async function getCarListingsByIds(ids: string[]) {
+  try {
+    const chunks: string[][] = [];
+    for (let start = 0; start < ids.length; start += MAX_IN_VALUES) {
+      chunks.push(ids.slice(start, start + MAX_IN_VALUES));
+    }
+
+    const snapshots = await Promise.all(chunks.map((chunk) =>
+      getDocs(query(collection(db, "carListings"), where(documentId(), "in", chunk)))
+    ));
+
+    return snapshots.flatMap((snapshot) =>
+      snapshot.docs.map((doc): DocumentData => ({ id: doc.id, ...doc.data() }))
+    );
+  } catch (error) {
+    console.error("Error fetching car listings by ID:", error);
+    throw error;
+  }
+}
+
 /**
  * Fetches car listings by owner
  * @param ownerId ID of the owner
@@ -4,3 +4,12 @@ export * from './updateCarListing';
 export * from './deleteCarListing';
 export * from './getCarListings';
 export * from './bookingService';
+export * from './availabilityService';
+export * from './reviewService';
+export * from './carSearchService';
+export * from './geoSearchService';
+export * from './listingSearchService';
+export * from './savedSearchService';
+export * from './notificationService';
+export * from './favoritesService';
+export * from './pushSubscriptionService';
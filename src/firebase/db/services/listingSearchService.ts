@@ -0,0 +1,98 @@
+import { collection, getDocs } from "firebase/firestore";
+import db from "../firestore";
+import { buildSearchIndex, IndexedDocument, searchIndex, SearchIndex, suggestQueries } from "@/utils/searchIndex";
+
+// How long a built index is reused before the index shards are fetched again
+const INDEX_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * A listing's entry in a listingSearchIndex shard, written by the indexListings function
+ */
+interface ListingSearchEntry {
+  title: string;
+  terms: Record<string, number>; // Term -> weight, see listingSearchTerms in functions/src/searchIndex.ts
+}
+
+export interface ListingSearchIndex {
+  index: SearchIndex;
+  titles: Map<string, string>; // Titles of the indexed listings by ID
+}
+
+export interface SearchSuggestions {
+  queries: string[];                              // Completions of what the user typed
+  listings: { id: string; title: string }[];      // Best matching listings
+}
+
+let cachedIndex: { builtAt: number; value: Promise<ListingSearchIndex> } | null = null;
+
+/**
+ * Builds the keyword index from the shards the indexListings function keeps,
+ * which hold the terms of every active listing
+ */
+async function buildListingSearchIndex(): Promise<ListingSearchIndex> {
+  const snapshot = await getDocs(collection(db, "listingSearchIndex"));
+  const documents: IndexedDocument[] = [];
+  const titles = new Map<string, string>();
+
+  snapshot.forEach((shard) => {
+    const listings: Record<string, ListingSearchEntry> = shard.data().listings ?? {};
+    Object.entries(listings).forEach(([id, entry]) => {
+      documents.push({ id, terms: entry.terms });
+      titles.set(id, entry.title);
+    });
+  });
+
+  return { index: buildSearchIndex(documents), titles };
+}
+
+/**
+ * Returns the keyword index over the active listings, building it on first use
+ * and again once it is older than a few minutes
+ */
+export function getListingSearchIndex(): Promise<ListingSearchIndex> {
+  if (!cachedIndex || Date.now() - cachedIndex.builtAt > INDEX_TTL_MS) {
+    const value = buildListingSearchIndex();
+    cachedIndex = { builtAt: Date.now(), value };
+    // Don't keep a failed build around
+    value.catch(() => {
+      if (cachedIndex?.value === value) cachedIndex = null;
+    });
+  }
+  return cachedIndex.value;
+}
+
+/**
+ * Ranks active listings against a keyword query
+ * @param query The search text
+ * @returns Relevance scores by listing ID; listings that don't match are left out
+ */
+export async function searchListingKeywords(query: string): Promise<Map<string, number>> {
+  try {
+    const { index } = await getListingSearchIndex();
+    return new Map(searchIndex(index, query).map((hit) => [hit.id, hit.score]));
+  } catch (error) {
+    console.error("Error searching listings:", error);
+    throw error;
+  }
+}
+
+/**
+ * Suggestions for the search box as the user types
+ * @param query The text typed so far
+ * @param limit Maximum number of query completions and listings each
+ */
+export async function getSearchSuggestions(query: string, limit: number = 5): Promise<SearchSuggestions> {
+  try {
+    const { index, titles } = await getListingSearchIndex();
+
+    return {
+      queries: suggestQueries(index, query, limit),
+      listings: searchIndex(index, query)
+        .slice(0, limit)
+        .map((hit) => ({ id: hit.id, title: titles.get(hit.id) ?? "" }))
+    };
+  } catch (error) {
+    console.error("Error fetching search suggestions:", error);
+    return { queries: [], listings: [] };
+  }
+}
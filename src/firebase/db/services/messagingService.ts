@@ -4,6 +4,7 @@ import {
   where, 
   getDocs, 
   doc, 
+  getDoc,
   addDoc, 
   updateDoc, 
   serverTimestamp, 
@@ -11,22 +12,75 @@ import {
   orderBy,
   limit,
   onSnapshot,
-  setDoc
+  setDoc,
+  startAfter,
+  QueryDocumentSnapshot,
+  Transaction,
+  writeBatch,
+  deleteField,
+  documentId
 } from "firebase/firestore";
 import db from "../firestore";
-import { Conversation, Message, ConversationSummary } from "../model/messagemodel";
+import {
+  Conversation,
+  ConversationContext,
+  ConversationSummary,
+  BookingMessageEvent,
+  IncomingMessage,
+  Message,
+  MessageAttachment,
+  MessageEdit,
+  MessageType
+} from "../model/messagemodel";
+import { NotificationType } from "../model/notificationmodel";
 import { getUserProfile } from "./userProfileService";
+import { publishNotification } from "./notificationService";
+import { MESSAGE_EDIT_WINDOW_MINUTES, MESSAGE_REACTIONS } from "@/config/messages";
+import { deleteMessageAttachments } from "@/utils/attachmentUploadService";
+
+/**
+ * ID of the conversation about a booking, which bookingService also writes to
+ */
+export function getBookingConversationId(bookingId: string): string {
+  return `booking_${bookingId}`;
+}
 
 /**
  * Gets or creates a conversation between two users
+ * Conversations about a booking or a car are kept separate from each other and
+ * from general conversations between the same users.
  * @param userId Current user ID
  * @param otherUserId ID of the other user
+ * @param context Optional car or booking the conversation is about
  * @returns The conversation ID
  */
-export async function getOrCreateConversation(userId: string, otherUserId: string): Promise<string> {
+export async function getOrCreateConversation(
+  userId: string,
+  otherUserId: string,
+  context: ConversationContext = {}
+): Promise<string> {
   try {
-    // Look for existing conversation between these users
     const conversationsRef = collection(db, "conversations");
+    const newConversation = {
+      participants: [userId, otherUserId],
+      ...(context.carId ? { carId: context.carId } : {}),
+      ...(context.bookingId ? { bookingId: context.bookingId } : {}),
+      ...(context.carTitle ? { carTitle: context.carTitle } : {}),
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    };
+
+    // Booking conversations have a known ID, and usually exist since the booking was requested
+    if (context.bookingId) {
+      const conversationRef = doc(conversationsRef, getBookingConversationId(context.bookingId));
+      const conversationSnap = await getDoc(conversationRef);
+      if (!conversationSnap.exists()) {
+        await setDoc(conversationRef, newConversation);
+      }
+      return conversationRef.id;
+    }
+
+    // Look for existing conversation between these users
     const q = query(
       conversationsRef,
       where("participants", "array-contains", userId)
@@ -34,21 +88,18 @@ export async function getOrCreateConversation(userId: string, otherUserId: strin
     
     const querySnapshot = await getDocs(q);
     
-    // Check if a conversation already exists with these participants
+    // Check if a conversation already exists with these participants about the same car
     for (const docSnapshot of querySnapshot.docs) {
       const data = docSnapshot.data();
-      if (data.participants && Array.isArray(data.participants) && data.participants.includes(otherUserId)) {
+      if (
+        data.participants && Array.isArray(data.participants) && data.participants.includes(otherUserId) &&
+        !data.bookingId && (data.carId ?? null) === (context.carId ?? null)
+      ) {
         return docSnapshot.id;
       }
     }
     
     // Otherwise, create a new conversation
-    const newConversation = {
-      participants: [userId, otherUserId],
-      createdAt: serverTimestamp(),
-      updatedAt: serverTimestamp()
-    };
-    
     const docRef = await addDoc(conversationsRef, newConversation);
     return docRef.id;
     
@@ -58,50 +109,171 @@ export async function getOrCreateConversation(userId: string, otherUserId: strin
   }
 }
 
+/**
+ * Gets a conversation
+ * @param conversationId ID of the conversation
+ * @returns The conversation, or null if it does not exist
+ */
+export async function getConversation(conversationId: string): Promise<Conversation | null> {
+  try {
+    const conversationSnap = await getDoc(doc(db, "conversations", conversationId));
+    return conversationSnap.exists()
+      ? { id: conversationSnap.id, ...conversationSnap.data() } as Conversation
+      : null;
+  } catch (error) {
+    console.error("Error fetching conversation:", error);
+    throw error;
+  }
+}
+
+// Firestore batches hold at most 500 writes
+const MAX_BATCH_SIZE = 500;
+
+const BOOKING_EVENT_TEXT: Record<BookingMessageEvent, string> = {
+  [BookingMessageEvent.REQUESTED]: "Booking requested",
+  [BookingMessageEvent.APPROVED]: "Booking approved",
+  [BookingMessageEvent.REJECTED]: "Booking declined",
+  [BookingMessageEvent.CANCELED]: "Booking canceled"
+};
+
+/**
+ * Posts a booking status change into the booking's conversation as part of the
+ * transaction that changes the booking, creating the conversation if needed
+ * @param transaction The booking transaction
+ * @param bookingId The booking
+ * @param booking The booking's participants and car
+ * @param event What happened
+ * @param actorId The user who changed the booking
+ * @param reason Optional reason given for rejecting or canceling
+ */
+export function postBookingEventMessage(
+  transaction: Transaction,
+  bookingId: string,
+  booking: { renterId: string; ownerId: string; carId: string; carTitle: string },
+  event: BookingMessageEvent,
+  actorId: string,
+  reason?: string
+): void {
+  const conversationRef = doc(db, "conversations", getBookingConversationId(bookingId));
+  const text = BOOKING_EVENT_TEXT[event];
+
+  transaction.set(conversationRef, {
+    participants: [booking.renterId, booking.ownerId],
+    carId: booking.carId,
+    bookingId,
+    carTitle: booking.carTitle,
+    lastMessage: {
+      text,
+      senderId: actorId,
+      timestamp: serverTimestamp(),
+      type: MessageType.BOOKING_EVENT
+    },
+    // A request starts the conversation; conversations for older bookings start with a later event
+    ...(event === BookingMessageEvent.REQUESTED ? { createdAt: serverTimestamp() } : {}),
+    updatedAt: serverTimestamp()
+  }, { merge: true });
+
+  transaction.set(doc(collection(db, "messages")), {
+    conversationId: conversationRef.id,
+    senderId: actorId,
+    text,
+    type: MessageType.BOOKING_EVENT,
+    bookingEvent: event,
+    bookingId,
+    ...(reason ? { reason } : {}),
+    timestamp: serverTimestamp(),
+    read: false
+  });
+}
+
+/**
+ * Text shown for a message in conversation lists and notifications, describing
+ * its attachments when it has no text
+ * @param text Message text
+ * @param attachments Files sent with the message
+ */
+export function getMessagePreview(text: string, attachments: MessageAttachment[] = []): string {
+  if (text || attachments.length === 0) return text;
+
+  const imageCount = attachments.filter((attachment) => attachment.kind === "image").length;
+  if (imageCount === attachments.length) {
+    return imageCount === 1 ? "Sent a photo" : `Sent ${imageCount} photos`;
+  }
+  return attachments.length === 1 ? "Sent a file" : `Sent ${attachments.length} files`;
+}
+
+/**
+ * Reserves an ID for a message before it is sent, so a retried send writes the
+ * same document instead of a duplicate
+ * @returns A new message ID
+ */
+export function newMessageId(): string {
+  return doc(collection(db, "messages")).id;
+}
+
+/**
+ * Checks whether a message was already written, e.g. by an earlier attempt
+ * whose response was lost
+ * @param messageId ID from newMessageId
+ */
+export async function messageExists(messageId: string): Promise<boolean> {
+  const messageSnap = await getDoc(doc(db, "messages", messageId));
+  return messageSnap.exists();
+}
+
 /**
  * Sends a message in a conversation
+ * The message and the conversation's last message are written in one batch, so
+ * a failed send leaves nothing behind.
  * @param conversationId ID of the conversation
  * @param senderId ID of the sender
- * @param text Message text
+ * @param text Message text, which may be empty when attachments are sent
+ * @param attachments Files already uploaded with uploadMessageAttachment
+ * @param messageId ID reserved with newMessageId; a new one is used if omitted
  * @returns ID of the sent message
  */
 export async function sendMessage(
   conversationId: string, 
   senderId: string, 
-  text: string
+  text: string,
+  attachments: MessageAttachment[] = [],
+  messageId: string = newMessageId()
 ): Promise<string> {
+  if (!text && attachments.length === 0) {
+    throw new Error("A message needs text or an attachment");
+  }
+
   try {
-    // Create new message with client-side timestamp first for better optimistic updates
-    const clientTimestamp = Timestamp.now();
-    const messagesRef = collection(db, "messages");
-    const newMessage = {
+    const preview = getMessagePreview(text, attachments);
+    const batch = writeBatch(db);
+
+    batch.set(doc(db, "messages", messageId), {
       conversationId,
       senderId,
       text,
-      timestamp: clientTimestamp, // Use client timestamp for immediate display
+      type: MessageType.TEXT,
+      ...(attachments.length > 0 ? { attachments } : {}),
+      timestamp: serverTimestamp(), // Shown with a local estimate until the write is confirmed
       read: false
-    };
-    
-    // Add message to Firestore
-    const docRef = await addDoc(messagesRef, newMessage);
-    
-    // Update the message with server timestamp after it's created
-    await updateDoc(doc(db, "messages", docRef.id), {
-      timestamp: serverTimestamp()
     });
-    
+
     // Update the conversation's last message
-    const conversationRef = doc(db, "conversations", conversationId);
-    await updateDoc(conversationRef, {
+    batch.update(doc(db, "conversations", conversationId), {
       lastMessage: {
-        text,
+        text: preview,
         senderId,
-        timestamp: serverTimestamp()
+        timestamp: serverTimestamp(),
+        type: MessageType.TEXT,
+        messageId
       },
       updatedAt: serverTimestamp()
     });
+
+    await batch.commit();
     
-    return docRef.id;
+    await notifyMessageRecipients(conversationId, senderId, preview);
+    
+    return messageId;
     
   } catch (error) {
     console.error("Error sending message:", error);
@@ -110,45 +282,193 @@ export async function sendMessage(
 }
 
 /**
- * Marks messages as read
- * @param conversationId ID of the conversation
- * @param userId ID of the current user (recipient)
+ * Tells the other participants about a new message
+ * Failures are logged rather than thrown, since the message itself was sent.
  */
-export async function markMessagesAsRead(conversationId: string, userId: string): Promise<void> {
+async function notifyMessageRecipients(conversationId: string, senderId: string, text: string): Promise<void> {
   try {
-    // Use simpler queries to avoid composite index requirements
-    // First, just query messages by conversationId
-    const messagesRef = collection(db, "messages");
-    const q = query(
-      messagesRef,
-      where("conversationId", "==", conversationId)
-    );
-    
-    const querySnapshot = await getDocs(q);
-    
-    // Then filter the results client-side by sender and read status
-    const unreadMessages = querySnapshot.docs.filter(doc => {
-      const data = doc.data();
-      return data.senderId !== userId && data.read === false;
+    const [conversationSnap, senderProfile] = await Promise.all([
+      getDoc(doc(db, "conversations", conversationId)),
+      getUserProfile(senderId)
+    ]);
+    const participants: string[] = conversationSnap.data()?.participants ?? [];
+
+    await Promise.all(participants
+      .filter((participantId) => participantId !== senderId)
+      .map((recipientId) => publishNotification({
+        type: NotificationType.NEW_MESSAGE,
+        recipientId,
+        conversationId,
+        senderName: senderProfile?.displayName || "Someone",
+        preview: text
+      })));
+  } catch (error) {
+    console.error("Error notifying message recipients:", error);
+  }
+}
+
+/**
+ * Whether a message can still be edited or deleted by a user: only the sender
+ * can, within MESSAGE_EDIT_WINDOW_MINUTES of sending it
+ * @param message The message
+ * @param userId The current user
+ */
+export function canModifyMessage(message: Message, userId: string): boolean {
+  return message.senderId === userId &&
+    (message.type ?? MessageType.TEXT) === MessageType.TEXT &&
+    !message.deleted &&
+    Date.now() - message.timestamp.toMillis() < MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000;
+}
+
+/**
+ * Loads a message and its conversation, checking that the user takes part in it
+ */
+async function getMessageForParticipant(messageId: string, userId: string) {
+  const messageSnap = await getDoc(doc(db, "messages", messageId));
+  if (!messageSnap.exists()) {
+    throw new Error("Message not found");
+  }
+
+  const message = { id: messageSnap.id, ...messageSnap.data() } as Message;
+  const conversation = await getConversation(message.conversationId);
+  if (!conversation || !conversation.participants.includes(userId)) {
+    throw new Error("You are not part of this conversation");
+  }
+
+  return { message, conversation };
+}
+
+/**
+ * Changes a message's text, keeping the previous text in its edit history
+ * @param messageId ID of the message
+ * @param userId ID of the current user, who must be the sender
+ * @param text The new text; may only be empty if the message has attachments
+ */
+export async function editMessage(messageId: string, userId: string, text: string): Promise<void> {
+  try {
+    const { message, conversation } = await getMessageForParticipant(messageId, userId);
+    if (!canModifyMessage(message, userId)) {
+      throw new Error(`Messages can only be edited by their sender within ${MESSAGE_EDIT_WINDOW_MINUTES} minutes`);
+    }
+
+    const newText = text.trim();
+    if (newText === message.text) return;
+    if (!newText && !message.attachments?.length) {
+      throw new Error("A message needs text or an attachment");
+    }
+
+    const messageRef = doc(db, "messages", messageId);
+    const batch = writeBatch(db);
+
+    batch.set(doc(collection(messageRef, "edits")), {
+      text: message.text,
+      replacedAt: serverTimestamp()
     });
-    
-    // Update each unread message
-    const updatePromises = unreadMessages.map(async (document) => {
-      const messageRef = doc(db, "messages", document.id);
-      await updateDoc(messageRef, {
-        read: true,
-        readAt: serverTimestamp()
+    batch.update(messageRef, {
+      text: newText,
+      editedAt: serverTimestamp()
+    });
+
+    if (conversation.lastMessage?.messageId === messageId) {
+      batch.update(doc(db, "conversations", conversation.id), {
+        "lastMessage.text": getMessagePreview(newText, message.attachments)
+      });
+    }
+
+    await batch.commit();
+  } catch (error) {
+    console.error("Error editing message:", error);
+    throw error;
+  }
+}
+
+/**
+ * Deletes a message for everyone: its text, attachments and edit history are
+ * removed and a placeholder stays in the conversation
+ * @param messageId ID of the message
+ * @param userId ID of the current user, who must be the sender
+ */
+export async function deleteMessage(messageId: string, userId: string): Promise<void> {
+  try {
+    const { message, conversation } = await getMessageForParticipant(messageId, userId);
+    if (!canModifyMessage(message, userId)) {
+      throw new Error(`Messages can only be deleted by their sender within ${MESSAGE_EDIT_WINDOW_MINUTES} minutes`);
+    }
+
+    const messageRef = doc(db, "messages", messageId);
+    const edits = await getDocs(collection(messageRef, "edits"));
+    const batch = writeBatch(db);
+
+    batch.update(messageRef, {
+      text: "",
+      attachments: deleteField(),
+      reactions: deleteField(),
+      deleted: true,
+      deletedAt: serverTimestamp()
+    });
+    edits.docs.forEach((edit) => batch.delete(edit.ref));
+
+    if (conversation.lastMessage?.messageId === messageId) {
+      batch.update(doc(db, "conversations", conversation.id), {
+        "lastMessage.text": "Message deleted"
       });
+    }
+
+    await batch.commit();
+
+    // The message no longer points at the files, so a failure here only leaves orphaned uploads
+    if (message.attachments?.length) {
+      await deleteMessageAttachments(message.attachments);
+    }
+  } catch (error) {
+    console.error("Error deleting message:", error);
+    throw error;
+  }
+}
+
+/**
+ * Sets or clears the user's reaction to a message
+ * @param messageId ID of the message
+ * @param userId ID of the current user, who must take part in the conversation
+ * @param emoji One of MESSAGE_REACTIONS, or null to remove the reaction
+ */
+export async function setMessageReaction(messageId: string, userId: string, emoji: string | null): Promise<void> {
+  try {
+    if (emoji !== null && !MESSAGE_REACTIONS.includes(emoji)) {
+      throw new Error("Unsupported reaction");
+    }
+
+    const { message } = await getMessageForParticipant(messageId, userId);
+    if (message.deleted || (message.type ?? MessageType.TEXT) !== MessageType.TEXT) {
+      throw new Error("You can't react to this message");
+    }
+
+    await updateDoc(doc(db, "messages", messageId), {
+      [`reactions.${userId}`]: emoji ?? deleteField()
     });
-    
-    await Promise.all(updatePromises);
-    
   } catch (error) {
-    console.error("Error marking messages as read:", error);
+    console.error("Error updating reaction:", error);
     throw error;
   }
 }
 
+/**
+ * Gets the earlier versions of an edited message, oldest first
+ * @param messageId ID of the message
+ */
+export async function getMessageEditHistory(messageId: string): Promise<MessageEdit[]> {
+  try {
+    const edits = await getDocs(query(
+      collection(db, "messages", messageId, "edits"),
+      orderBy("replacedAt", "asc")
+    ));
+    return edits.docs.map((edit) => ({ id: edit.id, ...edit.data() } as MessageEdit));
+  } catch (error) {
+    console.error("Error getting message edit history:", error);
+    return [];
+  }
+}
+
 /**
  * Gets all conversations for a user
  * @param userId ID of the user
@@ -252,7 +572,10 @@ export async function getUserConversations(userId: string): Promise<Conversation
           lastMessage: conversation.lastMessage?.text || "No messages yet",
           lastMessageDate,
           unreadCount,
-          isLastMessageMine: conversation.lastMessage?.senderId === userId
+          lastMessageType: conversation.lastMessage?.type ?? MessageType.TEXT,
+          isLastMessageMine: conversation.lastMessage?.senderId === userId,
+          carTitle: conversation.carTitle,
+          bookingId: conversation.bookingId
         } as ConversationSummary;
       } catch (err) {
         console.error(`Error processing conversation: ${conversation.id}`, err);
@@ -274,137 +597,127 @@ export async function getUserConversations(userId: string): Promise<Conversation
   }
 }
 
+// Messages per page of conversation history, and in the live window
+export const MESSAGE_PAGE_SIZE = 30;
+
 /**
- * Gets messages for a specific conversation
+ * Converts a message document, filling in timestamps still pending on the server
+ */
+function toMessage(docSnapshot: QueryDocumentSnapshot): Message {
+  // Pending server timestamps read as the local write time instead of null
+  const data = docSnapshot.data({ serverTimestamps: "estimate" });
+  return {
+    id: docSnapshot.id,
+    ...data,
+    // Handle messages with pending timestamps (like optimistic updates)
+    timestamp: data.timestamp instanceof Timestamp 
+      ? data.timestamp 
+      : data.timestamp === null
+        ? Timestamp.fromMillis(Date.now()) // Handle null timestamps from pending messages
+        : Timestamp.now()
+  } as Message;
+}
+
+/**
+ * Gets a page of messages for a specific conversation
+ * Messages are ordered by timestamp and then document ID, so a page boundary
+ * between messages sent at the same moment neither skips nor repeats them.
  * @param conversationId ID of the conversation
- * @param limit Maximum number of messages to retrieve
- * @returns Array of messages
+ * @param messageLimit Maximum number of messages to retrieve
+ * @param before Oldest message already loaded; omit for the latest page
+ * @returns Array of messages, oldest first
+ * @throws If the conversation ID is empty or the query fails
  */
 export async function getConversationMessages(
   conversationId: string, 
-  messageLimit = 50
+  messageLimit = MESSAGE_PAGE_SIZE,
+  before?: Pick<Message, "id" | "timestamp">
 ): Promise<Message[]> {
-  try {
-    if (!conversationId) {
-      console.error("getConversationMessages called with empty conversationId");
-      return [];
-    }
+  if (!conversationId) {
+    throw new Error("getConversationMessages called with empty conversationId");
+  }
 
-    // Simpler query that only filters by conversationId to avoid index requirements
-    // We'll add client-side filtering if needed
+  try {
     const messagesRef = collection(db, "messages");
     const q = query(
       messagesRef,
       where("conversationId", "==", conversationId),
-      // Only use orderBy with timestamp to avoid composite index requirements
       orderBy("timestamp", "desc"),
+      orderBy(documentId(), "desc"),
+      ...(before ? [startAfter(before.timestamp, before.id)] : []),
       limit(messageLimit)
     );
     
     const querySnapshot = await getDocs(q);
     
-    if (querySnapshot.empty) {
-      return [];
-    }
-    
-    const messages = querySnapshot.docs.map(doc => {
-      const data = doc.data();
-      return {
-        id: doc.id,
-        ...data,
-        // Handle messages with pending timestamps (like optimistic updates)
-        timestamp: data.timestamp instanceof Timestamp 
-          ? data.timestamp 
-          : data.timestamp === null
-            ? Timestamp.fromMillis(Date.now()) // Handle null timestamps from pending messages
-            : Timestamp.now()
-      } as Message;
-    });
-    
     // Return in chronological order (oldest first)
-    return messages.reverse();
+    return querySnapshot.docs.map(toMessage).reverse();
     
   } catch (error) {
     console.error(`Error getting messages for conversation ${conversationId}:`, error);
     if (error instanceof Error && error.message.includes("index")) {
       console.info("You need to create an index for this query. Follow the link in the error message above.");
     }
-    return [];
+    throw error;
   }
 }
 
 /**
- * Subscribe to messages for a specific conversation
- * This is more efficient than polling and avoids message disappearing
+ * Subscribe to the latest messages in a conversation
+ * Only the newest messages are kept live; older ones are loaded with
+ * getConversationMessages using the oldest live message as the cursor.
  * @param conversationId ID of the conversation
- * @param callback Function to call with updated messages
+ * @param callback Function to call with the latest messages, oldest first, and
+ * whether older messages may exist
+ * @param messageLimit Number of messages kept live
  * @returns Unsubscribe function
  */
 export function subscribeToConversationMessages(
   conversationId: string,
-  callback: (messages: Message[]) => void
+  callback: (messages: Message[], hasOlder: boolean) => void,
+  messageLimit = MESSAGE_PAGE_SIZE
 ): () => void {
   if (!conversationId) {
     console.error("subscribeToConversationMessages called with empty conversationId");
-    callback([]);
+    callback([], false);
     return () => {};
   }
 
-  // Use a simple query to avoid index requirements
   const messagesRef = collection(db, "messages");
   const q = query(
     messagesRef,
-    where("conversationId", "==", conversationId)
+    where("conversationId", "==", conversationId),
+    orderBy("timestamp", "desc"),
+    orderBy(documentId(), "desc"),
+    limit(messageLimit)
   );
 
   let lastProcessedMessages: Message[] = [];
+  let lastHasOlder = false;
 
   // Subscribe to message updates
   const unsubscribe = onSnapshot(q, (snapshot) => {
     try {
-      // Check if there are actual changes before processing
-      if (snapshot.empty && lastProcessedMessages.length === 0) {
-        callback([]);
-        return;
-      }
+      const messages = snapshot.docs.map(toMessage).reverse();
+      const hasOlder = snapshot.size >= messageLimit;
 
-      const messages = snapshot.docs.map(doc => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          ...data,
-          timestamp: data.timestamp instanceof Timestamp 
-            ? data.timestamp 
-            : data.timestamp === null
-              ? Timestamp.fromMillis(Date.now()) // Handle null timestamps
-              : Timestamp.now()
-        } as Message;
-      });
-
-      // Sort by timestamp manually (client-side)
-      const sortedMessages = messages.sort((a, b) => {
-        return a.timestamp.toMillis() - b.timestamp.toMillis();
-      });
-
-      // Only update if there are real changes
-      const hasChanges = sortedMessages.length !== lastProcessedMessages.length ||
-        sortedMessages.some((msg, i) => 
-          i >= lastProcessedMessages.length || 
-          msg.id !== lastProcessedMessages[i].id || 
-          msg.read !== lastProcessedMessages[i].read
-        );
+      // Only update if there are real changes, including edits, deletions and reactions
+      const hasChanges = messages.length !== lastProcessedMessages.length ||
+        snapshot.docChanges().some((change) => change.type === "modified") ||
+        messages.some((msg, i) => msg.id !== lastProcessedMessages[i].id);
 
-      if (hasChanges) {
-        lastProcessedMessages = sortedMessages;
-        callback(sortedMessages);
+      if (hasChanges || lastProcessedMessages.length === 0) {
+        lastProcessedMessages = messages;
+        lastHasOlder = hasOlder;
+        callback(messages, hasOlder);
       }
     } catch (error) {
       console.error(`Error in message subscription for ${conversationId}:`, error);
-      callback(lastProcessedMessages); // Return the last known good set of messages
+      callback(lastProcessedMessages, lastHasOlder); // Return the last known good set of messages
     }
   }, (error) => {
     console.error(`Error in message subscription for ${conversationId}:`, error);
-    callback(lastProcessedMessages); // Return the last known good set of messages
+    callback(lastProcessedMessages, lastHasOlder); // Return the last known good set of messages
   });
 
   return unsubscribe;
@@ -504,7 +817,10 @@ export function subscribeToConversations(
             lastMessage: conversation.lastMessage?.text || "No messages yet",
             lastMessageDate,
             unreadCount,
-            isLastMessageMine: conversation.lastMessage?.senderId === userId
+            lastMessageType: conversation.lastMessage?.type ?? MessageType.TEXT,
+            isLastMessageMine: conversation.lastMessage?.senderId === userId,
+            carTitle: conversation.carTitle,
+            bookingId: conversation.bookingId
           } as ConversationSummary;
         } catch (err) {
           console.error(`Error processing conversation: ${conversation.id}`, err);
@@ -617,9 +933,8 @@ export function subscribeToUnreadCount(
 
 /**
  * Mark messages from a specific sender in a conversation as read
- * Simpler version that doesn't require compound queries
+ * Only the unread messages are read, and they are updated in batches.
  * @param conversationId ID of the conversation
- * @param currentUserId ID of the current user (recipient)
  * @param otherUserId ID of the other user (sender)
  */
 export async function markMessagesFromSenderAsRead(
@@ -627,43 +942,21 @@ export async function markMessagesFromSenderAsRead(
   otherUserId: string
 ): Promise<void> {
   try {
-    // Simple query to avoid index requirements
-    const messagesRef = collection(db, "messages");
     const q = query(
-      messagesRef,
-      where("conversationId", "==", conversationId)
+      collection(db, "messages"),
+      where("conversationId", "==", conversationId),
+      where("senderId", "==", otherUserId),
+      where("read", "==", false)
     );
-    
     const querySnapshot = await getDocs(q);
-    
-    // Filter client-side to find unread messages from the other user to the current user
-      const unreadMessages = querySnapshot.docs.filter(doc => {
-        const data = doc.data();
-        return data.senderId === otherUserId && data.read === false;
+
+    for (let start = 0; start < querySnapshot.docs.length; start += MAX_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      querySnapshot.docs.slice(start, start + MAX_BATCH_SIZE).forEach((messageDoc) => {
+        batch.update(messageDoc.ref, { read: true, readAt: serverTimestamp() });
       });
-    
-    // If no unread messages, exit early
-    if (unreadMessages.length === 0) {
-      return;
+      await batch.commit();
     }
-    
-    console.log(`Marking ${unreadMessages.length} messages as read from ${otherUserId} in conversation ${conversationId}`);
-    
-    // Update each unread message
-    const updatePromises = unreadMessages.map(async (document) => {
-      try {
-        const messageRef = doc(db, "messages", document.id);
-        await updateDoc(messageRef, {
-          read: true,
-          readAt: serverTimestamp()
-        });
-      } catch (e) {
-        console.error(`Failed to update message ${document.id}:`, e);
-      }
-    });
-    
-    await Promise.all(updatePromises);
-    
   } catch (error) {
     console.error("Error marking messages as read:", error);
   }
@@ -731,106 +1024,44 @@ export function subscribeToTypingStatus(
 }
 
 /**
- * Get new messages received within the specified timeframe
- * @param userId ID of the current user
- * @param timeWindowMs Time window in milliseconds to check for new messages
- * @returns Array of new messages with sender information
+ * Subscribes to messages other participants send to a user
+ * Listens to the user's conversations and reports each change to a
+ * conversation's last message, so a single listener covers every conversation.
+ * Messages sent in quick succession may be reported once, as only the latest
+ * is stored on the conversation.
+ * @param userId ID of the user
+ * @param callback Called with the conversations whose last message changed,
+ * including every existing conversation on the first call
+ * @returns Unsubscribe function
  */
-export async function getNewMessages(
+export function subscribeToIncomingMessages(
   userId: string,
-  timeWindowMs: number = 60000 // Default to last minute
-): Promise<Array<{
-  id: string;
-  conversationId: string;
-  senderId: string;
-  senderName: string;
-  text: string;
-  timestamp: Timestamp;
-}>> {
-  try {
-    if (!userId) return [];
-    
-    // Get all conversations for this user first
-    const conversationsRef = collection(db, "conversations");
-    const q = query(
-      conversationsRef,
-      where("participants", "array-contains", userId)
-    );
-    
-    const querySnapshot = await getDocs(q);
-    if (querySnapshot.empty) return [];
-    
-    const conversationIds = querySnapshot.docs.map(doc => doc.id);
-    const timeThreshold = new Date(Date.now() - timeWindowMs);
-    
-    // Find all new messages across all conversations
-    const newMessages: Array<{
-      id: string;
-      conversationId: string;
-      senderId: string;
-      senderName: string;
-      text: string;
-      timestamp: Timestamp;
-    }> = [];
-    
-    // Create a map to avoid fetching the same user profile multiple times
-    const userProfileCache = new Map();
-    
-    // For each conversation, find recent messages not from the current user
-    for (const conversationId of conversationIds) {
-      // Get messages in this conversation
-      const messagesQuery = query(
-        collection(db, "messages"),
-        where("conversationId", "==", conversationId)
-      );
-      
-      const messagesSnapshot = await getDocs(messagesQuery);
-      
-      // Filter client-side for messages:
-      // 1. Not from the current user
-      // 2. Within the time window
-      // 3. Not already seen (we'll use unread status)
-      const recentMessages = messagesSnapshot.docs
-        .map(doc => ({ id: doc.id, ...doc.data() } as Message))
-        .filter(msg => 
-          msg.senderId !== userId && 
-          msg.timestamp.toDate() > timeThreshold &&
-          !msg.read
-        );
-      
-      // If we found recent messages, add them to our results with sender info
-      for (const msg of recentMessages) {
-        // Get sender profile (using cache if available)
-        let senderProfile = userProfileCache.get(msg.senderId);
-        if (!senderProfile) {
-          senderProfile = await getUserProfile(msg.senderId);
-          if (senderProfile) {
-            userProfileCache.set(msg.senderId, senderProfile);
-          }
-        }
-        
-        const senderName = senderProfile?.displayName || 
-                           senderProfile?.username || 
-                           "Unknown User";
-        
-        newMessages.push({
-          id: msg.id,
-          conversationId,
-          senderId: msg.senderId,
-          senderName,
-          text: msg.text,
-          timestamp: msg.timestamp
-        });
-      }
+  callback: (messages: IncomingMessage[]) => void
+): () => void {
+  const q = query(
+    collection(db, "conversations"),
+    where("participants", "array-contains", userId)
+  );
+
+  return onSnapshot(q, (snapshot) => {
+    const messages = snapshot.docChanges()
+      .filter((change) => change.type !== "removed")
+      .map((change) => ({ id: change.doc.id, ...change.doc.data() } as Conversation))
+      // Pending server timestamps are null until the write is acknowledged
+      .filter((conversation) => conversation.lastMessage?.timestamp && conversation.lastMessage.senderId !== userId)
+      // Booking changes already reach the user as booking notifications
+      .filter((conversation) => conversation.lastMessage!.type !== MessageType.BOOKING_EVENT)
+      .map((conversation) => ({
+        conversationId: conversation.id,
+        senderId: conversation.lastMessage!.senderId,
+        text: conversation.lastMessage!.text,
+        timestamp: conversation.lastMessage!.timestamp
+      }));
+
+    if (messages.length > 0) {
+      callback(messages);
     }
-    
-    // Sort by timestamp (newest first)
-    return newMessages.sort((a, b) => 
-      b.timestamp.toMillis() - a.timestamp.toMillis()
-    );
-    
-  } catch (error) {
-    console.error("Error getting new messages:", error);
-    return [];
-  }
+  }, (error) => {
+    console.error("Error in incoming messages subscription:", error);
+  });
 }
@@ -0,0 +1,297 @@
+import {
+  collection,
+  deleteDoc,
+  doc,
+  DocumentData,
+  DocumentReference,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch
+} from "firebase/firestore";
+import db from "../firestore";
+import {
+  AppNotification,
+  BookingNotificationType,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NotificationCategory,
+  NotificationChannel,
+  NotificationData,
+  NotificationEvent,
+  NotificationPreferences,
+  NotificationType
+} from "../model/notificationmodel";
+
+// Firestore batches hold at most 500 writes
+const MAX_BATCH_SIZE = 500;
+
+// Longest message excerpt shown in a notification
+const MESSAGE_PREVIEW_LENGTH = 120;
+
+const BOOKING_TITLES: Record<BookingNotificationType, string> = {
+  [NotificationType.BOOKING_REQUESTED]: "New booking request",
+  [NotificationType.BOOKING_APPROVED]: "Booking approved",
+  [NotificationType.BOOKING_REJECTED]: "Booking declined",
+  [NotificationType.BOOKING_CANCELED]: "Booking canceled",
+  [NotificationType.BOOKING_STARTED]: "Rental started",
+  [NotificationType.BOOKING_COMPLETED]: "Rental completed",
+  [NotificationType.BOOKING_EXPIRED]: "Booking request expired"
+};
+
+/**
+ * Turns an event into the title, text and link shown to the recipient
+ */
+function toNotificationData(event: NotificationEvent): NotificationData {
+  const base = { userId: event.recipientId, type: event.type };
+
+  switch (event.type) {
+    case NotificationType.BOOKING_REQUESTED:
+    case NotificationType.BOOKING_APPROVED:
+    case NotificationType.BOOKING_REJECTED:
+    case NotificationType.BOOKING_CANCELED:
+    case NotificationType.BOOKING_STARTED:
+    case NotificationType.BOOKING_COMPLETED:
+    case NotificationType.BOOKING_EXPIRED: {
+      const bodies: Record<BookingNotificationType, string> = {
+        [NotificationType.BOOKING_REQUESTED]: `${event.actorName} wants to rent your ${event.carTitle}`,
+        [NotificationType.BOOKING_APPROVED]: `${event.actorName} approved your booking of the ${event.carTitle}`,
+        [NotificationType.BOOKING_REJECTED]: `${event.actorName} declined your booking of the ${event.carTitle}`,
+        [NotificationType.BOOKING_CANCELED]: `${event.actorName} canceled the booking of the ${event.carTitle}`,
+        [NotificationType.BOOKING_STARTED]: `The rental of the ${event.carTitle} has started`,
+        [NotificationType.BOOKING_COMPLETED]:
+          `The rental of the ${event.carTitle} is complete. Leave a review for ${event.actorName}.`,
+        [NotificationType.BOOKING_EXPIRED]: `${event.actorName} did not respond to your request for the ${event.carTitle}`
+      };
+
+      return {
+        ...base,
+        title: BOOKING_TITLES[event.type],
+        body: event.reason ? `${bodies[event.type]}: "${event.reason}"` : bodies[event.type],
+        link: event.recipientIsOwner ? "/my-bookings?tab=received" : "/my-bookings",
+        data: { bookingId: event.bookingId }
+      };
+    }
+
+    case NotificationType.REVIEW_RECEIVED:
+      return {
+        ...base,
+        title: "You received a review",
+        body: `${event.reviewerName} gave you ${event.rating} star${event.rating !== 1 ? "s" : ""}`,
+        link: event.recipientUsername ? `/user/${event.recipientUsername}` : "/profile",
+        data: { reviewId: event.reviewId }
+      };
+
+    case NotificationType.CAR_REVIEW_RECEIVED:
+      return {
+        ...base,
+        title: "Your car was reviewed",
+        body: `${event.reviewerName} rated your ${event.carTitle} ${event.rating} out of 5`,
+        link: `/cars/${event.carId}`,
+        data: { reviewId: event.reviewId, carId: event.carId }
+      };
+
+    case NotificationType.NEW_MESSAGE:
+      return {
+        ...base,
+        title: `Message from ${event.senderName}`,
+        body: event.preview.length > MESSAGE_PREVIEW_LENGTH
+          ? `${event.preview.slice(0, MESSAGE_PREVIEW_LENGTH)}...`
+          : event.preview,
+        link: `/messages/${event.conversationId}`,
+        data: { conversationId: event.conversationId }
+      };
+  }
+}
+
+/**
+ * Builds the document write for an event, so callers can add it to their own
+ * transaction or batch and publish it atomically with the change it reports
+ * New messages in a conversation share one notification per recipient, which
+ * each message replaces (and marks unread again) instead of piling up.
+ * @param event The event to publish
+ * @returns The notification's reference and document data
+ */
+export function notificationWrite(event: NotificationEvent): { ref: DocumentReference; data: DocumentData } {
+  const ref = event.type === NotificationType.NEW_MESSAGE
+    ? doc(db, "notifications", `message_${event.conversationId}_${event.recipientId}`)
+    : doc(collection(db, "notifications"));
+
+  return {
+    ref,
+    data: {
+      ...toNotificationData(event),
+      read: false,
+      createdAt: serverTimestamp()
+    }
+  };
+}
+
+/**
+ * Publishes a single event
+ * Failures are logged rather than thrown, so a notification never fails the
+ * action that caused it.
+ */
+export async function publishNotification(event: NotificationEvent): Promise<void> {
+  try {
+    const { ref, data } = notificationWrite(event);
+    await setDoc(ref, data);
+  } catch (error) {
+    console.error("Error publishing notification:", error);
+  }
+}
+
+/**
+ * Fills in a user's stored notification preferences with the defaults
+ * Profiles saved before per-channel preferences hold a single switch, which
+ * turned everything except in-app notifications off when false.
+ * @param stored userPreferences.notifications from the user's profile
+ * @returns Preferences for every category and channel
+ */
+export function resolveNotificationPreferences(
+  stored: NotificationPreferences | boolean | undefined
+): NotificationPreferences {
+  const preferences = {} as NotificationPreferences;
+
+  Object.values(NotificationCategory).forEach((category) => {
+    const defaults = DEFAULT_NOTIFICATION_PREFERENCES[category];
+
+    preferences[category] = typeof stored === "object"
+      ? { ...defaults, ...stored[category] }
+      : stored === false
+        ? { ...defaults, [NotificationChannel.EMAIL]: false, [NotificationChannel.PUSH]: false }
+        : { ...defaults };
+  });
+
+  return preferences;
+}
+
+function recentNotificationsQuery(userId: string, max: number, type?: NotificationType) {
+  return query(
+    collection(db, "notifications"),
+    where("userId", "==", userId),
+    ...(type ? [where("type", "==", type)] : []),
+    orderBy("createdAt", "desc"),
+    limit(max)
+  );
+}
+
+/**
+ * Fetches a user's most recent notifications
+ * @param userId The recipient
+ * @param type Optional type to restrict the results to
+ * @param max Maximum number of notifications
+ * @returns Notifications, newest first
+ */
+export async function getNotifications(
+  userId: string,
+  type?: NotificationType,
+  max: number = 50
+): Promise<AppNotification[]> {
+  try {
+    const snapshot = await getDocs(recentNotificationsQuery(userId, max, type));
+    return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as AppNotification);
+  } catch (error) {
+    console.error("Error fetching notifications:", error);
+    throw error;
+  }
+}
+
+/**
+ * Subscribes to a user's most recent notifications
+ * @param userId The recipient
+ * @param callback Called with the notifications, newest first, on every change
+ * @param max Maximum number of notifications
+ * @returns Function to unsubscribe
+ */
+export function subscribeToNotifications(
+  userId: string,
+  callback: (notifications: AppNotification[]) => void,
+  max: number = 20
+): () => void {
+  return onSnapshot(
+    recentNotificationsQuery(userId, max),
+    (snapshot) => {
+      callback(snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as AppNotification));
+    },
+    (error) => {
+      console.error("Error in notifications subscription:", error);
+    }
+  );
+}
+
+/**
+ * Subscribes to the number of unread notifications
+ * @param userId The recipient
+ * @param callback Called with the count on every change
+ * @returns Function to unsubscribe
+ */
+export function subscribeToUnreadNotificationCount(
+  userId: string,
+  callback: (count: number) => void
+): () => void {
+  const unreadQuery = query(
+    collection(db, "notifications"),
+    where("userId", "==", userId),
+    where("read", "==", false)
+  );
+
+  return onSnapshot(
+    unreadQuery,
+    (snapshot) => callback(snapshot.size),
+    (error) => {
+      console.error("Error in unread notification count subscription:", error);
+      callback(0);
+    }
+  );
+}
+
+/**
+ * Marks a notification as read
+ */
+export async function markNotificationRead(notificationId: string): Promise<void> {
+  try {
+    await updateDoc(doc(db, "notifications", notificationId), { read: true });
+  } catch (error) {
+    console.error("Error marking notification as read:", error);
+  }
+}
+
+/**
+ * Marks all of a user's notifications as read
+ */
+export async function markAllNotificationsRead(userId: string): Promise<void> {
+  try {
+    const snapshot = await getDocs(query(
+      collection(db, "notifications"),
+      where("userId", "==", userId),
+      where("read", "==", false)
+    ));
+
+    for (let start = 0; start < snapshot.docs.length; start += MAX_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      snapshot.docs.slice(start, start + MAX_BATCH_SIZE).forEach((doc) => {
+        batch.update(doc.ref, { read: true });
+      });
+      await batch.commit();
+    }
+  } catch (error) {
+    console.error("Error marking notifications as read:", error);
+  }
+}
+
+/**
+ * Deletes a notification
+ */
+export async function deleteNotification(notificationId: string): Promise<void> {
+  try {
+    await deleteDoc(doc(db, "notifications", notificationId));
+  } catch (error) {
+    console.error("Error deleting notification:", error);
+  }
+}
@@ -0,0 +1,73 @@
+import { deleteDoc, doc, serverTimestamp, setDoc } from "firebase/firestore";
+import db from "../firestore";
+
+interface PushSubscriptionResult {
+  success: boolean;
+  id?: string;
+  error?: string;
+}
+
+/**
+ * Document ID for a subscription: a hash of its endpoint, which is too long
+ * and contains characters that are not allowed in IDs
+ */
+async function subscriptionId(endpoint: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(endpoint));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Stores a browser's push subscription so the delivery function can reach it
+ * @param userId The subscribing user
+ * @param subscription The subscription from PushManager.subscribe
+ * @returns Promise with the result of the operation
+ */
+export async function savePushSubscription(
+  userId: string,
+  subscription: PushSubscriptionJSON
+): Promise<PushSubscriptionResult> {
+  try {
+    if (!subscription.endpoint || !subscription.keys?.p256dh || !subscription.keys?.auth) {
+      return { success: false, error: "The browser returned an incomplete push subscription" };
+    }
+
+    const id = await subscriptionId(subscription.endpoint);
+    await setDoc(doc(db, "users", userId, "pushSubscriptions", id), {
+      endpoint: subscription.endpoint,
+      keys: {
+        p256dh: subscription.keys.p256dh,
+        auth: subscription.keys.auth
+      },
+      userAgent: navigator.userAgent.slice(0, 500),
+      createdAt: serverTimestamp()
+    });
+
+    return { success: true, id };
+  } catch (error) {
+    console.error("Error saving push subscription:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to save push subscription"
+    };
+  }
+}
+
+/**
+ * Removes a browser's push subscription
+ * @param userId The subscribed user
+ * @param endpoint The subscription's endpoint
+ * @returns Promise with the result of the operation
+ */
+export async function deletePushSubscription(userId: string, endpoint: string): Promise<PushSubscriptionResult> {
+  try {
+    const id = await subscriptionId(endpoint);
+    await deleteDoc(doc(db, "users", userId, "pushSubscriptions", id));
+    return { success: true, id };
+  } catch (error) {
+    console.error("Error deleting push subscription:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to delete push subscription"
+    };
+  }
+}
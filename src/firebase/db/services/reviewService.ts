@@ -0,0 +1,642 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  runTransaction,
+  serverTimestamp,
+  increment
+} from "firebase/firestore";
+import db from "../firestore";
+import { User } from "firebase/auth";
+import { BookingStatus } from "../model/bookingmodel";
+import { NotificationType } from "../model/notificationmodel";
+import {
+  CarRatingSummary,
+  CarReview,
+  CarReviewScores,
+  EMPTY_CAR_RATING_SUMMARY,
+  EMPTY_RATING_SUMMARY,
+  RatingSummary,
+  Review,
+  ReviewableBooking,
+  ReviewDirection,
+  ReviewResult
+} from "../model/reviewmodel";
+import { getBookingsByOwner, getBookingsByRenter } from "./bookingService";
+import { getUserProfile } from "./userProfileService";
+import { notificationWrite } from "./notificationService";
+
+/**
+ * Deterministic review ID, which is what limits a booking to one review per direction
+ */
+function getReviewId(bookingId: string, direction: ReviewDirection): string {
+  return `${bookingId}_${direction}`;
+}
+
+/**
+ * Rounds a rating to one decimal place
+ */
+function roundRating(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Adds a rating to an aggregated summary
+ */
+function addRating(summary: RatingSummary | undefined, rating: number, reviewId: string): RatingSummary {
+  const current = summary ?? EMPTY_RATING_SUMMARY;
+  const count = current.count + 1;
+  const total = current.total + rating;
+  const key = String(rating) as keyof RatingSummary["distribution"];
+
+  return {
+    count,
+    total,
+    average: roundRating(total / count),
+    distribution: {
+      ...EMPTY_RATING_SUMMARY.distribution,
+      ...current.distribution,
+      [key]: (current.distribution?.[key] ?? 0) + 1
+    },
+    lastReviewId: reviewId
+  };
+}
+
+/**
+ * Adds a car review's scores to a car's aggregated summary
+ */
+function addCarRating(
+  summary: CarRatingSummary | undefined,
+  scores: CarReviewScores,
+  reviewId: string
+): CarRatingSummary {
+  const current = summary ?? EMPTY_CAR_RATING_SUMMARY;
+  const count = current.count + 1;
+  const totals: CarReviewScores = {
+    cleanliness: current.totals.cleanliness + scores.cleanliness,
+    accuracy: current.totals.accuracy + scores.accuracy,
+    comfort: current.totals.comfort + scores.comfort
+  };
+
+  return {
+    count,
+    totals,
+    cleanliness: roundRating(totals.cleanliness / count),
+    accuracy: roundRating(totals.accuracy / count),
+    comfort: roundRating(totals.comfort / count),
+    average: roundRating((totals.cleanliness + totals.accuracy + totals.comfort) / (count * 3)),
+    lastReviewId: reviewId
+  };
+}
+
+/**
+ * Submits a review for the other party of a completed booking
+ * The reviewed user's rating summary is updated in the same transaction.
+ * @param bookingId The completed booking being reviewed
+ * @param rating Star rating from 1 to 5
+ * @param comment The review text
+ * @param user The authenticated user writing the review
+ * @returns Promise with the result of the operation
+ */
+export async function submitReview(
+  bookingId: string,
+  rating: number,
+  comment: string,
+  user: User
+): Promise<ReviewResult> {
+  try {
+    // Verify the user is authenticated
+    if (!user || !user.uid) {
+      return {
+        success: false,
+        error: "User must be authenticated to write a review"
+      };
+    }
+
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+      return {
+        success: false,
+        error: "Rating must be between 1 and 5 stars"
+      };
+    }
+
+    if (comment.trim().length < 10) {
+      return {
+        success: false,
+        error: "Please provide a more detailed review (at least 10 characters)"
+      };
+    }
+
+    const reviewerProfile = await getUserProfile(user.uid);
+
+    return await runTransaction(db, async (transaction): Promise<ReviewResult> => {
+      const bookingSnap = await transaction.get(doc(db, "bookings", bookingId));
+
+      if (!bookingSnap.exists()) {
+        return {
+          success: false,
+          error: "Booking not found"
+        };
+      }
+
+      const booking = bookingSnap.data();
+
+      if (booking.renterId !== user.uid && booking.ownerId !== user.uid) {
+        return {
+          success: false,
+          error: "You can only review bookings you took part in"
+        };
+      }
+
+      if (booking.status !== BookingStatus.COMPLETED) {
+        return {
+          success: false,
+          error: "Reviews can only be written after the booking is completed"
+        };
+      }
+
+      const direction = booking.renterId === user.uid
+        ? ReviewDirection.RENTER_TO_OWNER
+        : ReviewDirection.OWNER_TO_RENTER;
+      const subjectId = direction === ReviewDirection.RENTER_TO_OWNER ? booking.ownerId : booking.renterId;
+      const reviewRef = doc(db, "reviews", getReviewId(bookingId, direction));
+      const reviewerName = reviewerProfile?.displayName || user.displayName || "Anonymous";
+      const subjectRef = doc(db, "userProfiles", subjectId);
+
+      // All reads must happen before any writes in a transaction
+      const [reviewSnap, subjectSnap] = await Promise.all([
+        transaction.get(reviewRef),
+        transaction.get(subjectRef)
+      ]);
+
+      if (reviewSnap.exists()) {
+        return {
+          success: false,
+          error: "You have already reviewed this booking"
+        };
+      }
+
+      transaction.set(reviewRef, {
+        bookingId,
+        carId: booking.carId,
+        subjectId,
+        reviewerId: user.uid,
+        reviewerName,
+        reviewerPhoto: reviewerProfile?.profileImageUrl || user.photoURL || "",
+        direction,
+        rating,
+        comment: comment.trim(),
+        helpfulCount: 0,
+        flagCount: 0,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+
+      // Only the profile's owner can create it, so a reviewed user without a
+      // profile has no page to show the summary on and it is left out
+      if (subjectSnap.exists()) {
+        transaction.update(subjectRef, {
+          ratingSummary: addRating(subjectSnap.data().ratingSummary, rating, reviewRef.id)
+        });
+      }
+
+      const notification = notificationWrite({
+        type: NotificationType.REVIEW_RECEIVED,
+        recipientId: subjectId,
+        recipientUsername: subjectSnap.data()?.username,
+        reviewId: reviewRef.id,
+        reviewerName,
+        rating
+      });
+      transaction.set(notification.ref, notification.data);
+
+      return {
+        success: true,
+        id: reviewRef.id
+      };
+    });
+  } catch (error) {
+    console.error("Error submitting review:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to submit review"
+    };
+  }
+}
+
+/**
+ * Gets all reviews written about a user, newest first
+ * @param userId The reviewed user's ID
+ * @returns Promise with an array of reviews
+ */
+export async function getReviewsForUser(userId: string): Promise<Review[]> {
+  try {
+    // Filter only, sorting client-side to avoid composite index requirements
+    const q = query(
+      collection(db, "reviews"),
+      where("subjectId", "==", userId)
+    );
+    const querySnapshot = await getDocs(q);
+
+    const reviews = querySnapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data()
+    } as Review));
+
+    return reviews.sort((a, b) => {
+      const aTime = a.createdAt?.toMillis() || 0;
+      const bTime = b.createdAt?.toMillis() || 0;
+      return bTime - aTime; // descending order
+    });
+  } catch (error) {
+    console.error("Error fetching reviews:", error);
+    throw error;
+  }
+}
+
+/**
+ * Lists completed bookings between two users that the reviewer has not reviewed yet
+ * @param reviewerId The user who wants to write a review
+ * @param subjectId The user being reviewed
+ * @returns Promise with the bookings that can still be reviewed
+ */
+export async function getReviewableBookings(
+  reviewerId: string,
+  subjectId: string
+): Promise<ReviewableBooking[]> {
+  try {
+    const [rentals, received] = await Promise.all([
+      getBookingsByRenter(reviewerId),
+      getBookingsByOwner(reviewerId)
+    ]);
+
+    const candidates: ReviewableBooking[] = [
+      ...rentals
+        .filter((booking) => booking.ownerId === subjectId && booking.status === BookingStatus.COMPLETED)
+        .map((booking) => ({
+          bookingId: booking.id,
+          carTitle: booking.carTitle,
+          endDate: booking.endDate,
+          direction: ReviewDirection.RENTER_TO_OWNER
+        })),
+      ...received
+        .filter((booking) => booking.renterId === subjectId && booking.status === BookingStatus.COMPLETED)
+        .map((booking) => ({
+          bookingId: booking.id,
+          carTitle: booking.carTitle,
+          endDate: booking.endDate,
+          direction: ReviewDirection.OWNER_TO_RENTER
+        }))
+    ];
+
+    const existing = await Promise.all(
+      candidates.map((candidate) =>
+        getDoc(doc(db, "reviews", getReviewId(candidate.bookingId, candidate.direction)))
+      )
+    );
+
+    return candidates.filter((_, index) => !existing[index].exists());
+  } catch (error) {
+    console.error("Error fetching reviewable bookings:", error);
+    throw error;
+  }
+}
+
+/**
+ * Toggles the current user's "helpful" vote on a review
+ * @param reviewId The review ID
+ * @param user The authenticated user voting
+ * @returns Promise with the result and whether the review is now marked helpful by the user
+ */
+export async function toggleHelpfulVote(
+  reviewId: string,
+  user: User
+): Promise<ReviewResult & { helpful?: boolean }> {
+  try {
+    if (!user || !user.uid) {
+      return {
+        success: false,
+        error: "User must be authenticated to vote"
+      };
+    }
+
+    const reviewRef = doc(db, "reviews", reviewId);
+    const voteRef = doc(db, "reviews", reviewId, "helpfulVotes", user.uid);
+
+    return await runTransaction(db, async (transaction) => {
+      const [reviewSnap, voteSnap] = await Promise.all([
+        transaction.get(reviewRef),
+        transaction.get(voteRef)
+      ]);
+
+      if (!reviewSnap.exists()) {
+        return {
+          success: false,
+          error: "Review not found"
+        };
+      }
+
+      if (reviewSnap.data().reviewerId === user.uid) {
+        return {
+          success: false,
+          error: "You can't vote on your own review"
+        };
+      }
+
+      if (voteSnap.exists()) {
+        transaction.delete(voteRef);
+        transaction.update(reviewRef, { helpfulCount: increment(-1) });
+        return { success: true, id: reviewId, helpful: false };
+      }
+
+      transaction.set(voteRef, { userId: user.uid, createdAt: serverTimestamp() });
+      transaction.update(reviewRef, { helpfulCount: increment(1) });
+      return { success: true, id: reviewId, helpful: true };
+    });
+  } catch (error) {
+    console.error("Error voting on review:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to update vote"
+    };
+  }
+}
+
+/**
+ * Gets which of the given reviews the user has marked helpful
+ * @param reviewIds The reviews to check
+ * @param userId The user ID
+ * @returns Promise with the set of review IDs the user voted on
+ */
+export async function getHelpfulVotes(reviewIds: string[], userId: string): Promise<Set<string>> {
+  try {
+    const votes = await Promise.all(
+      reviewIds.map((reviewId) => getDoc(doc(db, "reviews", reviewId, "helpfulVotes", userId)))
+    );
+
+    return new Set(reviewIds.filter((_, index) => votes[index].exists()));
+  } catch (error) {
+    console.error("Error fetching helpful votes:", error);
+    return new Set();
+  }
+}
+
+/**
+ * Flags a review for moderation
+ * Each user can flag a review once; repeated flags are ignored.
+ * @param reviewId The review ID
+ * @param user The authenticated user flagging the review
+ * @param reason Optional reason for the report
+ * @returns Promise with the result of the operation
+ */
+export async function flagReview(
+  reviewId: string,
+  user: User,
+  reason?: string
+): Promise<ReviewResult> {
+  try {
+    if (!user || !user.uid) {
+      return {
+        success: false,
+        error: "User must be authenticated to report a review"
+      };
+    }
+
+    const reviewRef = doc(db, "reviews", reviewId);
+    const flagRef = doc(db, "reviews", reviewId, "flags", user.uid);
+
+    return await runTransaction(db, async (transaction): Promise<ReviewResult> => {
+      const [reviewSnap, flagSnap] = await Promise.all([
+        transaction.get(reviewRef),
+        transaction.get(flagRef)
+      ]);
+
+      if (!reviewSnap.exists()) {
+        return {
+          success: false,
+          error: "Review not found"
+        };
+      }
+
+      if (!flagSnap.exists()) {
+        transaction.set(flagRef, {
+          userId: user.uid,
+          ...(reason ? { reason } : {}),
+          createdAt: serverTimestamp()
+        });
+        transaction.update(reviewRef, { flagCount: increment(1) });
+      }
+
+      return { success: true, id: reviewId };
+    });
+  } catch (error) {
+    console.error("Error reporting review:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to report review"
+    };
+  }
+}
+
+/**
+ * Submits the renter's review of the car from a completed booking
+ * The car listing's rating summary is updated in the same transaction.
+ * @param bookingId The completed booking being reviewed
+ * @param scores Cleanliness, accuracy and comfort scores from 1 to 5
+ * @param comment The review text
+ * @param user The authenticated renter writing the review
+ * @returns Promise with the result of the operation
+ */
+export async function submitCarReview(
+  bookingId: string,
+  scores: CarReviewScores,
+  comment: string,
+  user: User
+): Promise<ReviewResult> {
+  try {
+    // Verify the user is authenticated
+    if (!user || !user.uid) {
+      return {
+        success: false,
+        error: "User must be authenticated to write a review"
+      };
+    }
+
+    const invalidScore = Object.values(scores).some(
+      (score) => !Number.isInteger(score) || score < 1 || score > 5
+    );
+    if (invalidScore) {
+      return {
+        success: false,
+        error: "Please rate cleanliness, accuracy and comfort from 1 to 5 stars"
+      };
+    }
+
+    if (comment.trim().length < 10) {
+      return {
+        success: false,
+        error: "Please provide a more detailed review (at least 10 characters)"
+      };
+    }
+
+    const reviewerProfile = await getUserProfile(user.uid);
+
+    return await runTransaction(db, async (transaction): Promise<ReviewResult> => {
+      const bookingSnap = await transaction.get(doc(db, "bookings", bookingId));
+
+      if (!bookingSnap.exists()) {
+        return {
+          success: false,
+          error: "Booking not found"
+        };
+      }
+
+      const booking = bookingSnap.data();
+
+      if (booking.renterId !== user.uid) {
+        return {
+          success: false,
+          error: "Only the renter can review the car"
+        };
+      }
+
+      if (booking.status !== BookingStatus.COMPLETED) {
+        return {
+          success: false,
+          error: "Reviews can only be written after the booking is completed"
+        };
+      }
+
+      const reviewRef = doc(db, "carReviews", bookingId);
+      const reviewerName = reviewerProfile?.displayName || user.displayName || "Anonymous";
+      const rating = roundRating((scores.cleanliness + scores.accuracy + scores.comfort) / 3);
+      const carRef = doc(db, "carListings", booking.carId);
+
+      // All reads must happen before any writes in a transaction
+      const [reviewSnap, carSnap] = await Promise.all([
+        transaction.get(reviewRef),
+        transaction.get(carRef)
+      ]);
+
+      if (reviewSnap.exists()) {
+        return {
+          success: false,
+          error: "You have already reviewed this car for this booking"
+        };
+      }
+
+      if (!carSnap.exists()) {
+        return {
+          success: false,
+          error: "Car listing not found"
+        };
+      }
+
+      transaction.set(reviewRef, {
+        bookingId,
+        carId: booking.carId,
+        reviewerId: user.uid,
+        reviewerName,
+        reviewerPhoto: reviewerProfile?.profileImageUrl || user.photoURL || "",
+        cleanliness: scores.cleanliness,
+        accuracy: scores.accuracy,
+        comfort: scores.comfort,
+        rating,
+        comment: comment.trim(),
+        createdAt: serverTimestamp()
+      });
+
+      transaction.update(carRef, {
+        ratingSummary: addCarRating(carSnap.data().ratingSummary, scores, reviewRef.id)
+      });
+
+      const notification = notificationWrite({
+        type: NotificationType.CAR_REVIEW_RECEIVED,
+        recipientId: carSnap.data().owner,
+        reviewId: reviewRef.id,
+        carId: booking.carId,
+        carTitle: carSnap.data().title,
+        reviewerName,
+        rating
+      });
+      transaction.set(notification.ref, notification.data);
+
+      return {
+        success: true,
+        id: reviewRef.id
+      };
+    });
+  } catch (error) {
+    console.error("Error submitting car review:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to submit review"
+    };
+  }
+}
+
+/**
+ * Gets all reviews of a car, newest first
+ * @param carId The car listing ID
+ * @returns Promise with an array of car reviews
+ */
+export async function getReviewsForCar(carId: string): Promise<CarReview[]> {
+  try {
+    // Filter only, sorting client-side to avoid composite index requirements
+    const q = query(
+      collection(db, "carReviews"),
+      where("carId", "==", carId)
+    );
+    const querySnapshot = await getDocs(q);
+
+    const reviews = querySnapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data()
+    } as CarReview));
+
+    return reviews.sort((a, b) => {
+      const aTime = a.createdAt?.toMillis() || 0;
+      const bTime = b.createdAt?.toMillis() || 0;
+      return bTime - aTime; // descending order
+    });
+  } catch (error) {
+    console.error("Error fetching car reviews:", error);
+    throw error;
+  }
+}
+
+/**
+ * Lists the renter's completed bookings of a car that have no car review yet
+ * @param carId The car listing ID
+ * @param renterId The renter who wants to write a review
+ * @returns Promise with the bookings that can still be reviewed
+ */
+export async function getReviewableCarBookings(
+  carId: string,
+  renterId: string
+): Promise<ReviewableBooking[]> {
+  try {
+    const rentals = await getBookingsByRenter(renterId);
+
+    const candidates = rentals
+      .filter((booking) => booking.carId === carId && booking.status === BookingStatus.COMPLETED)
+      .map((booking) => ({
+        bookingId: booking.id,
+        carTitle: booking.carTitle,
+        endDate: booking.endDate,
+        direction: ReviewDirection.RENTER_TO_OWNER
+      }));
+
+    const existing = await Promise.all(
+      candidates.map((candidate) => getDoc(doc(db, "carReviews", candidate.bookingId)))
+    );
+
+    return candidates.filter((_, index) => !existing[index].exists());
+  } catch (error) {
+    console.error("Error fetching reviewable car bookings:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,123 @@
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  orderBy,
+  query,
+  serverTimestamp,
+  updateDoc
+} from "firebase/firestore";
+import db from "../firestore";
+import { CarSearchFilters } from "../model/carmodel";
+import { SavedSearch } from "../model/savedsearchmodel";
+import { filtersToSearchParams } from "@/utils/carSearchParams";
+
+// Limit on saved searches per user, so alert matching stays cheap
+export const MAX_SAVED_SEARCHES = 20;
+
+interface SavedSearchResult {
+  success: boolean;
+  id?: string;
+  error?: string;
+}
+
+function savedSearchesRef(userId: string) {
+  return collection(db, "users", userId, "savedSearches");
+}
+
+/**
+ * Saves a search for the user
+ * @param userId The user saving the search
+ * @param name Name shown in the saved searches list
+ * @param filters The search filters
+ * @param alertsEnabled Whether to notify the user about new matching listings
+ * @returns Promise with the result of the operation
+ */
+export async function saveSearch(
+  userId: string,
+  name: string,
+  filters: CarSearchFilters,
+  alertsEnabled: boolean = true
+): Promise<SavedSearchResult> {
+  try {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      return { success: false, error: "Please give the search a name" };
+    }
+
+    const existing = await getSavedSearches(userId);
+    if (existing.length >= MAX_SAVED_SEARCHES) {
+      return {
+        success: false,
+        error: `You can save up to ${MAX_SAVED_SEARCHES} searches. Delete one to save another.`
+      };
+    }
+
+    const docRef = await addDoc(savedSearchesRef(userId), {
+      userId,
+      name: trimmedName.slice(0, 100),
+      params: filtersToSearchParams(filters, new URLSearchParams()).toString(),
+      alertsEnabled,
+      createdAt: serverTimestamp()
+    });
+
+    return { success: true, id: docRef.id };
+  } catch (error) {
+    console.error("Error saving search:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to save search"
+    };
+  }
+}
+
+/**
+ * Fetches a user's saved searches, newest first
+ */
+export async function getSavedSearches(userId: string): Promise<SavedSearch[]> {
+  try {
+    const snapshot = await getDocs(query(savedSearchesRef(userId), orderBy("createdAt", "desc")));
+    return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as SavedSearch);
+  } catch (error) {
+    console.error("Error fetching saved searches:", error);
+    throw error;
+  }
+}
+
+/**
+ * Turns new-listing alerts on or off for a saved search
+ */
+export async function setSavedSearchAlerts(
+  userId: string,
+  searchId: string,
+  alertsEnabled: boolean
+): Promise<SavedSearchResult> {
+  try {
+    await updateDoc(doc(savedSearchesRef(userId), searchId), { alertsEnabled });
+    return { success: true, id: searchId };
+  } catch (error) {
+    console.error("Error updating saved search:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to update saved search"
+    };
+  }
+}
+
+/**
+ * Deletes a saved search
+ */
+export async function deleteSavedSearch(userId: string, searchId: string): Promise<SavedSearchResult> {
+  try {
+    await deleteDoc(doc(savedSearchesRef(userId), searchId));
+    return { success: true, id: searchId };
+  } catch (error) {
+    console.error("Error deleting saved search:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to delete saved search"
+    };
+  }
+}
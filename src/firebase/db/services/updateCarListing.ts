@@ -1,8 +1,9 @@
 import { doc, updateDoc, serverTimestamp } from "firebase/firestore"; 
 import db from "../firestore";
-import { CarListingData } from "../model/carmodel";
+import { CarListing, CarListingData } from "../model/carmodel";
 import { User } from "firebase/auth";
 import { getCarListingById } from "./getCarListings";
+import { resolveListingGeo } from "./geoSearchService";
 
 interface UpdateCarListingResult {
   success: boolean;
@@ -55,9 +56,22 @@ export async function updateCarListing(
       listingData.owner = user.uid; // Force the owner to be the current user
     }
 
+    // Geocode again only when the ZIP changed, or the listing predates coordinates
+    const current = currentListing as unknown as CarListing;
+    const needsGeocoding = !!listingData.zipCode &&
+      (listingData.zipCode !== current.zipCode || !current.geohash);
+    const geo = needsGeocoding ? await resolveListingGeo(listingData.zipCode!) : null;
+    if (needsGeocoding && !geo) {
+      return {
+        success: false,
+        error: `We couldn't find the ZIP code ${listingData.zipCode}`
+      };
+    }
+
     // Prepare the Firestore document
     const firestoreData = {
       ...listingData,
+      ...geo,
       // Convert JavaScript Dates to Firestore timestamps
       availableFrom: listingData.availableFrom instanceof Date ? 
         new Date(listingData.availableFrom) : listingData.availableFrom,
@@ -2,7 +2,7 @@ import { doc, getDoc,  serverTimestamp, runTransaction } from "firebase/firestor
 import db from "../firestore";
 import { User } from "firebase/auth";
 import { UserProfile } from "../model/usermodel";
-import { uploadImage } from "@/utils/imageUploadService";
+import { getUserImageFolder, uploadImage } from "@/utils/imageUploadService";
 
 interface UserProfileResult {
   success: boolean;
@@ -52,7 +52,7 @@ export async function saveUserProfile(
       if (photoFile) {
         try {
           // Upload to Firebase Storage
-          const imgUrl = await uploadImage(photoFile, 'profiles');
+          const { url: imgUrl } = await uploadImage(photoFile, getUserImageFolder(user.uid, 'profile'));
 
           if (imgUrl) {
             profileImageUrl = imgUrl;
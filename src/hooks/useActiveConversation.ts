@@ -0,0 +1,27 @@
+import { useEffect } from 'react';
+
+// Conversation the user currently has open, read by MessageNotifier when messages arrive
+let activeConversationId: string | null = null;
+
+/**
+ * Marks a conversation as open for as long as the calling component is mounted
+ * @param conversationId ID of the open conversation
+ */
+export function useActiveConversation(conversationId: string): void {
+  useEffect(() => {
+    activeConversationId = conversationId;
+
+    return () => {
+      if (activeConversationId === conversationId) {
+        activeConversationId = null;
+      }
+    };
+  }, [conversationId]);
+}
+
+/**
+ * Returns the ID of the conversation the user currently has open, if any
+ */
+export function getActiveConversationId(): string | null {
+  return activeConversationId;
+}
@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Message } from '@/firebase/db/model/messagemodel';
+import {
+  getConversationMessages,
+  MESSAGE_PAGE_SIZE,
+  subscribeToConversationMessages
+} from '@/firebase/db/services/messagingService';
+
+/**
+ * Combines message lists, keeping the later copy of a message, oldest first
+ */
+function mergeMessages(...lists: Message[][]): Message[] {
+  const byId = new Map<string, Message>();
+  lists.forEach((list) => list.forEach((message) => byId.set(message.id, message)));
+  return [...byId.values()].sort((a, b) => a.timestamp.toMillis() - b.timestamp.toMillis());
+}
+
+/**
+ * Hook to read a conversation's history page by page
+ * The latest messages stay live; older pages are fetched with loadOlder and
+ * kept as loaded. Messages pushed out of the live window by newer ones stay
+ * in the list.
+ * @param conversationId The conversation to read
+ * @returns The loaded messages, oldest first, and a function to load the previous page
+ */
+export function useConversationMessages(conversationId: string) {
+  const [liveMessages, setLiveMessages] = useState<Message[]>([]);
+  const [olderMessages, setOlderMessages] = useState<Message[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hasOlder, setHasOlder] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+
+  const liveMessagesRef = useRef<Message[]>([]);
+  const conversationIdRef = useRef(conversationId);
+
+  useEffect(() => {
+    conversationIdRef.current = conversationId;
+    liveMessagesRef.current = [];
+    setLiveMessages([]);
+    setOlderMessages([]);
+    setHasOlder(false);
+    setLoading(true);
+
+    if (!conversationId) return;
+
+    let firstSnapshot = true;
+    return subscribeToConversationMessages(conversationId, (messages, hasOlderThanLive) => {
+      const liveIds = new Set(messages.map((message) => message.id));
+      const oldestLive = messages[0]?.timestamp.toMillis() ?? Infinity;
+      const dropped = liveMessagesRef.current.filter((message) =>
+        !liveIds.has(message.id) && message.timestamp.toMillis() < oldestLive
+      );
+      if (dropped.length > 0) {
+        setOlderMessages((current) => mergeMessages(current, dropped));
+      }
+
+      // Later snapshots only tell whether messages fell out of the window, which are kept above
+      if (firstSnapshot) {
+        setHasOlder(hasOlderThanLive);
+        firstSnapshot = false;
+      }
+
+      liveMessagesRef.current = messages;
+      setLiveMessages(messages);
+      setLoading(false);
+    });
+  }, [conversationId]);
+
+  const messages = useMemo(
+    () => mergeMessages(olderMessages, liveMessages),
+    [olderMessages, liveMessages]
+  );
+
+  const loadOlder = useCallback(async () => {
+    const oldest = messages[0];
+    if (loadingOlder || !hasOlder || !oldest) return;
+
+    setLoadingOlder(true);
+    try {
+      const page = await getConversationMessages(conversationId, MESSAGE_PAGE_SIZE, oldest);
+      if (conversationIdRef.current !== conversationId) return;
+
+      setOlderMessages((current) => mergeMessages(page, current));
+      setHasOlder(page.length === MESSAGE_PAGE_SIZE);
+    } catch (error) {
+      // hasOlder is left as it was so the page can be retried
+      console.error(`Error loading older messages for conversation ${conversationId}:`, error);
+    } finally {
+      setLoadingOlder(false);
+    }
+  }, [conversationId, messages, hasOlder, loadingOlder]);
+
+  return { messages, loading, hasOlder, loadingOlder, loadOlder };
+}
@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/firebase/auth/AuthContext';
+import { Favorite, FavoriteListing } from '@/firebase/db/model/favoritemodel';
+import { addFavorite, removeFavorite, subscribeToFavorites } from '@/firebase/db/services/favoritesService';
+
+/**
+ * Hook to read and toggle the signed-in user's favorite cars
+ * Signed-out users are sent to sign in when they try to save a car.
+ * @returns The favorites by listing ID and a toggle function
+ */
+export function useFavorites() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [favorites, setFavorites] = useState<Map<string, Favorite>>(new Map());
+
+  useEffect(() => {
+    if (!user?.uid) {
+      setFavorites(new Map());
+      return;
+    }
+
+    return subscribeToFavorites(user.uid, setFavorites);
+  }, [user?.uid]);
+
+  const toggleFavorite = async (listing: FavoriteListing) => {
+    if (!user) {
+      navigate('/auth', { state: { from: `/cars/${listing.id}` } });
+      return;
+    }
+
+    if (favorites.has(listing.id)) {
+      await removeFavorite(user.uid, listing.id);
+    } else {
+      await addFavorite(user.uid, listing);
+    }
+  };
+
+  return { favorites, toggleFavorite };
+}
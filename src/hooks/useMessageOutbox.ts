@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { OutboxMessage } from '@/firebase/db/model/messagemodel';
+import { getOutboxMessages, subscribeToOutbox } from '@/utils/messageOutbox';
+
+/**
+ * Hook to read a conversation's unconfirmed messages
+ * Pending messages are sent by MessageOutboxSender, wherever the user is in the app.
+ * @param conversationId The conversation on screen
+ * @returns The conversation's outbox entries, oldest first
+ */
+export function useMessageOutbox(conversationId: string) {
+  const [outbox, setOutbox] = useState<OutboxMessage[]>([]);
+
+  useEffect(() => {
+    setOutbox(getOutboxMessages(conversationId));
+    return subscribeToOutbox(() => setOutbox(getOutboxMessages(conversationId)));
+  }, [conversationId]);
+
+  return outbox;
+}
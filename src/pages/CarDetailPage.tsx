@@ -7,19 +7,27 @@ import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/firebase/auth/AuthContext";
 import { 
   CalendarDays, MapPin,  User, ArrowLeft, Loader2, Car, Settings, 
-  ChevronLeft, ChevronRight, Fuel, Calendar, PaintBucket, CircleDashed, CheckCircle
+  ChevronLeft, ChevronRight, Fuel, Calendar, PaintBucket, CircleDashed, CheckCircle, Star
 } from "lucide-react";
-import { FuelType, TransmissionType } from "@/firebase/db/model/carmodel";
+import { CarPricing, FuelType, GeoCoordinates, TransmissionType } from "@/firebase/db/model/carmodel";
+import { CarRatingSummary } from "@/firebase/db/model/reviewmodel";
 import { getCarListingById } from "@/firebase/db/services/getCarListings";
 import { getUserProfile } from "@/firebase/db/services/userProfileService";
 import { BookingForm } from "@/components/bookings/BookingForm";
+import { CarReviews } from "@/components/cars/CarReviews";
+import { PickupAreaMap } from "@/components/cars/PickupAreaMap";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
+import { FavoriteButton } from "@/components/cars/FavoriteButton";
+import { getPriceDrop } from "@/firebase/db/services/favoritesService";
+import { useFavorites } from "@/hooks/useFavorites";
+import { StartConversationButton } from "@/components/messaging/StartConversationButton";
 
 interface CarListing {
   id: string;
   title: string;
   description: string;
   price: number;
+  pricing?: CarPricing;
   location: string;
   imageUrls: string[];
   owner: string;
@@ -39,6 +47,8 @@ interface CarListing {
     toDate: () => Date;
   };
   features: string[];
+  ratingSummary?: CarRatingSummary;
+  coordinates?: GeoCoordinates;
 }
 
 // Component for image carousel
@@ -128,6 +138,7 @@ export function CarDetailPage() {
   const navigate = useNavigate();
   const [owner, setOwner] = useState<{ username: string; displayName: string } | null>(null);
   const [bookingSuccess, setBookingSuccess] = useState(false);
+  const { favorites, toggleFavorite } = useFavorites();
 
   useEffect(() => {
     async function fetchCarDetails() {
@@ -231,6 +242,9 @@ export function CarDetailPage() {
     );
   }
 
+  const favorite = favorites.get(car.id);
+  const priceDrop = favorite ? getPriceDrop(favorite, car.price) : 0;
+
   return (
     <div className="container-standard mx-auto px-4 sm:px-6 py-8 md:py-12">
       <div className="flex flex-col gap-10 md:gap-12">
@@ -245,9 +259,35 @@ export function CarDetailPage() {
             <span>Back to Listings</span>
           </Button>
           
-          <h1 className="text-3xl sm:text-4xl md:text-5xl font-bold mb-4">{car.title}</h1>
+          <div className="flex items-start justify-between gap-4 mb-4">
+            <h1 className="text-3xl sm:text-4xl md:text-5xl font-bold">{car.title}</h1>
+            {user?.uid !== car.owner && (
+              <FavoriteButton
+                isFavorite={!!favorite}
+                onToggle={() => toggleFavorite({
+                  id: car.id,
+                  title: car.title,
+                  price: car.price,
+                  imageUrl: car.imageUrls?.[0]
+                })}
+                className="border flex-shrink-0 mt-1"
+              />
+            )}
+          </div>
+
+          {favorite && priceDrop > 0 && (
+            <p className="text-sm font-medium text-green-600 mb-2">
+              ${priceDrop}/day less than when you saved it (was ${favorite.savedPrice}/day)
+            </p>
+          )}
           
           <div className="flex flex-wrap gap-3 mb-2">
+            {car.ratingSummary && car.ratingSummary.count > 0 && (
+              <div className="flex items-center text-sm text-muted-foreground">
+                <Star size={16} className="mr-1 text-yellow-500 fill-yellow-500" />
+                {car.ratingSummary.average.toFixed(1)} ({car.ratingSummary.count} review{car.ratingSummary.count !== 1 ? "s" : ""})
+              </div>
+            )}
             <div className="flex items-center text-sm text-muted-foreground">
               <MapPin size={16} className="mr-1" />
               {car.location}
@@ -266,6 +306,15 @@ export function CarDetailPage() {
                 "Unknown Owner"
               )}
             </div>
+            {user?.uid !== car.owner && (
+              <StartConversationButton
+                targetUserId={car.owner}
+                context={{ carId: car.id, carTitle: car.title }}
+                className="w-fit"
+              >
+                Ask about this car
+              </StartConversationButton>
+            )}
           </div>
         </div>
 
@@ -390,6 +439,25 @@ export function CarDetailPage() {
                     From {formatDate(car.availableFrom.toDate())} to {formatDate(car.availableTo.toDate())}
                   </span>
                 </div>
+
+                {car.coordinates && (
+                  <>
+                    <Separator className="my-8" />
+
+                    <h3 className="text-xl font-semibold mb-3">Pickup Area</h3>
+                    <PickupAreaMap coordinates={car.coordinates} />
+                    <p className="text-sm text-muted-foreground mt-3">
+                      Shown as an approximate area. Message the owner to arrange the exact pickup spot.
+                    </p>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Reviews */}
+            <Card>
+              <CardContent className="p-6 md:p-8">
+                <CarReviews carId={car.id} ownerId={car.owner} />
               </CardContent>
             </Card>
           </div>
@@ -413,6 +481,7 @@ export function CarDetailPage() {
                     ownerId={car.owner}
                     ownerName={owner?.displayName || "Car Owner"}
                     pricePerDay={car.price}
+                    pricing={car.pricing}
                     availableFrom={car.availableFrom.toDate()}
                     availableTo={car.availableTo.toDate()}
                     onSuccess={handleBookingSuccess}
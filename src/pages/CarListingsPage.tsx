@@ -1,10 +1,40 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef, useCallback } from "react";
+import { DocumentData } from "firebase/firestore";
+import { useInView } from "react-intersection-observer";
 import { useAuth } from "@/firebase/auth/AuthContext";
 import { Button } from "@/components/ui/button";
-import { useNavigate } from "react-router-dom";
-import { PlusCircle, Loader2, MapPin, ChevronLeft, ChevronRight, Calendar, Car } from "lucide-react";
-import { getAvailableCarListings } from "@/firebase/db/services/getCarListings";
-import { FuelType, TransmissionType } from "@/firebase/db/model/carmodel";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PlusCircle, Loader2, MapPin, ChevronLeft, ChevronRight, Calendar, Car, Star, Map as MapIcon, X, BookmarkPlus } from "lucide-react";
+import { CarSearchSort, getCarSearchFacets, searchCarListingsPage } from "@/firebase/db/services/carSearchService";
+import { CarListingsCursor } from "@/firebase/db/services/getCarListings";
+import { getUserProfile } from "@/firebase/db/services/userProfileService";
+import {
+  CarSearchFacets,
+  CarSearchFilters,
+  FuelType,
+  GeoBounds,
+  GeoCoordinates,
+  TransmissionType
+} from "@/firebase/db/model/carmodel";
+import { CarFilterSidebar, SearchOrigin } from "@/components/cars/CarFilterSidebar";
+import { CarListingsMap } from "@/components/cars/CarListingsMap";
+import { countActiveFilters, filtersFromSearchParams, filtersToSearchParams } from "@/utils/carSearchParams";
+import { geocode } from "@/utils/geocodingService";
+import { formatDistance } from "@/utils/geoUtils";
+import { DISTANCE_SORT_RADIUS_MILES } from "@/config/geo";
+import { CarRatingSummary } from "@/firebase/db/model/reviewmodel";
+import { SaveSearchDialog } from "@/components/cars/SaveSearchDialog";
+import { FavoriteButton } from "@/components/cars/FavoriteButton";
+import { Favorite } from "@/firebase/db/model/favoritemodel";
+import { getPriceDrop } from "@/firebase/db/services/favoritesService";
+import { useFavorites } from "@/hooks/useFavorites";
 
 interface CarListing {
   id: string;
@@ -13,6 +43,7 @@ interface CarListing {
   price: number;
   location: string;
   imageUrls: string[];
+  thumbnailUrls?: string[];
   owner: string;
   carInfo: {
     make: string;
@@ -26,15 +57,47 @@ interface CarListing {
   features: string[];
   availableFrom: Date;
   availableTo: Date;
+  ratingSummary?: CarRatingSummary;
+  distanceMiles?: number; // Set by search when an origin is known
+  coordinates?: GeoCoordinates;
 }
 
+const SORT_OPTIONS: { value: CarSearchSort; label: string }[] = [
+  { value: "relevance", label: "Best match" },
+  { value: "newest", label: "Newest" },
+  { value: "distance", label: "Nearest" },
+  { value: "price_asc", label: "Price: low to high" },
+  { value: "price_desc", label: "Price: high to low" },
+  { value: "rating", label: "Highest rated" }
+];
+
+// Process the data to ensure dates are properly handled
+const toCarListing = (listing: DocumentData): CarListing => ({
+  ...listing,
+  availableFrom: listing.availableFrom instanceof Date
+    ? listing.availableFrom
+    : listing.availableFrom?.toDate?.() ?? new Date(listing.availableFrom),
+  availableTo: listing.availableTo instanceof Date
+    ? listing.availableTo
+    : listing.availableTo?.toDate?.() ?? new Date(listing.availableTo),
+  // Ensure imageUrls is always an array, fallback to empty array
+  imageUrls: listing.imageUrls || []
+} as CarListing);
+
 // Card component to display individual car listings
-const CarListingCard = ({ listing, onViewDetails }: { 
+const CarListingCard = ({ listing, onViewDetails, favorite, onToggleFavorite }: { 
   listing: CarListing; 
-  onViewDetails: (id: string) => void 
+  onViewDetails: (id: string) => void;
+  favorite?: Favorite;                  // Set when the user saved this car
+  onToggleFavorite: () => Promise<void>;
 }) => {
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
 
+  // Cards show the small variants; older listings only have full-size images
+  const images = listing.thumbnailUrls?.length === listing.imageUrls.length
+    ? listing.thumbnailUrls
+    : listing.imageUrls;
+
   const nextImage = (e: React.MouseEvent) => {
     e.stopPropagation();
     if (listing.imageUrls.length > 1) {
@@ -57,15 +120,28 @@ const CarListingCard = ({ listing, onViewDetails }: {
       <div className="relative">
         {/* Image carousel */}
         <img 
-          src={listing.imageUrls[currentImageIndex]} 
+          src={images[currentImageIndex]} 
+          loading="lazy"
           alt={listing.title} 
           className="w-full h-48 object-cover transition-opacity"
         />
         
+        <FavoriteButton
+          isFavorite={!!favorite}
+          onToggle={onToggleFavorite}
+          className="absolute top-2 right-2"
+        />
+
         {/* Price tag */}
         <div className="absolute bottom-0 right-0 bg-black bg-opacity-70 text-white px-3 py-1 rounded-tl-md font-bold">
           ${listing.price}/day
         </div>
+
+        {favorite && getPriceDrop(favorite, listing.price) > 0 && (
+          <div className="absolute top-2 left-2 bg-green-600 text-white px-2 py-0.5 rounded-md text-xs font-semibold">
+            ${getPriceDrop(favorite, listing.price)} less since you saved it
+          </div>
+        )}
         
         {/* Navigation arrows (only show if multiple images) */}
         {listing.imageUrls.length > 1 && (
@@ -102,7 +178,21 @@ const CarListingCard = ({ listing, onViewDetails }: {
       
       <div className="p-5 md:p-6 space-y-4 flex-grow flex flex-col">
         <div className="space-y-1">
-          <h2 className="text-xl font-semibold line-clamp-1">{listing.title}</h2>
+          <div className="flex items-start justify-between gap-2">
+            <h2 className="text-xl font-semibold line-clamp-1">{listing.title}</h2>
+            {listing.ratingSummary && listing.ratingSummary.count > 0 ? (
+              <span
+                className="flex items-center gap-1 text-sm font-medium flex-shrink-0 mt-1"
+                title={`${listing.ratingSummary.count} review${listing.ratingSummary.count !== 1 ? "s" : ""}`}
+              >
+                <Star size={14} className="text-yellow-500 fill-yellow-500" />
+                {listing.ratingSummary.average.toFixed(1)}
+                <span className="text-muted-foreground font-normal">({listing.ratingSummary.count})</span>
+              </span>
+            ) : (
+              <span className="text-xs text-muted-foreground flex-shrink-0 mt-1.5">New</span>
+            )}
+          </div>
           <p className="text-sm text-muted-foreground leading-relaxed">
             {listing.carInfo.make} {listing.carInfo.model} ({listing.carInfo.year})
           </p>
@@ -126,6 +216,11 @@ const CarListingCard = ({ listing, onViewDetails }: {
         <div className="flex items-center text-sm text-muted-foreground mt-1">
           <MapPin size={16} className="mr-2 flex-shrink-0" />
           <span className="truncate">{listing.location}</span>
+          {listing.distanceMiles !== undefined && (
+            <span className="ml-auto pl-2 flex-shrink-0 text-xs font-medium text-foreground">
+              {formatDistance(listing.distanceMiles)}
+            </span>
+          )}
         </div>
         
         <div className="flex items-center text-xs text-muted-foreground">
@@ -147,6 +242,48 @@ const CarListingCard = ({ listing, onViewDetails }: {
   );
 };
 
+// Placeholder with the same footprint as CarListingCard while a page loads
+const CarListingCardSkeleton = () => (
+  <div className="border rounded-lg overflow-hidden bg-card flex flex-col h-full animate-pulse" aria-hidden="true">
+    <div className="w-full h-48 bg-muted" />
+    <div className="p-5 md:p-6 space-y-4">
+      <div className="space-y-2">
+        <div className="h-6 bg-muted rounded w-3/4" />
+        <div className="h-4 bg-muted rounded w-1/2" />
+      </div>
+      <div className="flex gap-2">
+        <div className="h-6 bg-muted rounded-full w-16" />
+        <div className="h-6 bg-muted rounded-full w-20" />
+        <div className="h-6 bg-muted rounded-full w-16" />
+      </div>
+      <div className="h-10 bg-muted rounded" />
+      <div className="h-4 bg-muted rounded w-2/3" />
+      <div className="h-10 bg-muted rounded" />
+    </div>
+  </div>
+);
+
+const SkeletonGrid = ({ count }: { count: number }) => (
+  <>
+    {Array.from({ length: count }, (_, index) => (
+      <CarListingCardSkeleton key={index} />
+    ))}
+  </>
+);
+
+// Shown when filters exclude every listing
+const NoResultsState = ({ onClearFilters }: { onClearFilters: () => void }) => (
+  <div className="text-center py-12 px-4 bg-muted/30 rounded-lg border border-dashed">
+    <h3 className="text-lg font-medium mb-2">No cars match your filters</h3>
+    <p className="text-muted-foreground mb-6 max-w-md mx-auto">
+      Try different dates, a wider price range or fewer filters.
+    </p>
+    <Button onClick={onClearFilters} variant="outline">
+      Clear all filters
+    </Button>
+  </div>
+);
+
 // Empty state component
 const EmptyState = ({ onAddCar }: { onAddCar: () => void }) => (
   <div className="text-center py-12 px-4 bg-muted/30 rounded-lg border border-dashed">
@@ -167,49 +304,178 @@ const EmptyState = ({ onAddCar }: { onAddCar: () => void }) => (
 // Main component
 export function CarListingsPage() {
   const [listings, setListings] = useState<CarListing[]>([]);
+  const [nextCursor, setNextCursor] = useState<CarListingsCursor | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreFailed, setLoadMoreFailed] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [facets, setFacets] = useState<CarSearchFacets | null>(null);
+  const [profileOrigin, setProfileOrigin] = useState<SearchOrigin | null>(null);
+  const [saveSearchOpen, setSaveSearchOpen] = useState(false);
+  const { favorites, toggleFavorite } = useFavorites();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { user } = useAuth();
   const navigate = useNavigate();
+  // Incremented on every new search so pages from an older search are dropped
+  const searchIdRef = useRef(0);
+  const { ref: loadMoreRef, inView } = useInView({ rootMargin: "400px" });
+
+  // Filters and sort live in the URL so searches can be shared and survive reloads
+  const filtersKey = filtersToSearchParams(filtersFromSearchParams(searchParams), new URLSearchParams()).toString();
+  const urlFilters = useMemo(() => filtersFromSearchParams(new URLSearchParams(filtersKey)), [filtersKey]);
+
+  // Distances are measured from the location picked in the sidebar, or else the user's profile ZIP
+  const origin = useMemo<SearchOrigin | null>(() => {
+    if (!urlFilters.near) return profileOrigin;
+    return {
+      coordinates: urlFilters.near,
+      label: urlFilters.nearZip ? `ZIP ${urlFilters.nearZip}` : "your location",
+      zipCode: urlFilters.nearZip
+    };
+  }, [urlFilters.near, urlFilters.nearZip, profileOrigin]);
+
+  const filters = useMemo(
+    () => (origin && !urlFilters.near ? { ...urlFilters, near: origin.coordinates } : urlFilters),
+    [urlFilters, origin]
+  );
+
+  // Keyword searches are ranked by relevance unless another sort is picked
+  const defaultSort: CarSearchSort = filters.query ? "relevance" : "newest";
+  const requestedSort = SORT_OPTIONS.find((option) => option.value === searchParams.get("sort"))?.value ?? defaultSort;
+  const sortBy: CarSearchSort =
+    (requestedSort === "distance" && !origin) || (requestedSort === "relevance" && !filters.query)
+      ? defaultSort
+      : requestedSort;
+  const sortOptions = SORT_OPTIONS.filter((option) =>
+    (option.value !== "distance" || origin) && (option.value !== "relevance" || filters.query));
+  const hasActiveFilters = countActiveFilters(filters) > 0;
+  const showMap = searchParams.get("view") === "map";
+  // Radius searches return every match at once, limited to the radius
+  const searchRadius = !filters.bounds && filters.near &&
+    (filters.radiusMiles || (sortBy === "distance" ? DISTANCE_SORT_RADIUS_MILES : 0));
+
+  // Use the profile ZIP as the default origin so cards can show distances
+  useEffect(() => {
+    if (!user?.uid) {
+      setProfileOrigin(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    async function fetchProfileOrigin(uid: string) {
+      try {
+        const profile = await getUserProfile(uid);
+        const result = profile?.zipCode ? await geocode(profile.zipCode) : null;
+        if (!cancelled && result) {
+          setProfileOrigin({
+            coordinates: result.coordinates,
+            label: `your profile ZIP (${result.zipCode ?? profile?.zipCode})`,
+            zipCode: result.zipCode
+          });
+        }
+      } catch (err) {
+        console.error("Error loading profile location:", err);
+      }
+    }
+
+    fetchProfileOrigin(user.uid);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.uid]);
 
+  const handleFiltersChange = (nextFilters: CarSearchFilters) => {
+    // Keep the profile origin out of the URL unless a radius depends on it
+    const isProfileOrigin = !urlFilters.near && nextFilters.near === profileOrigin?.coordinates;
+    const urlNext = isProfileOrigin && !nextFilters.radiusMiles
+      ? { ...nextFilters, near: undefined, nearZip: undefined }
+      : nextFilters;
+    setSearchParams(filtersToSearchParams(urlNext, searchParams), { replace: true });
+  };
+
+  const handleSortChange = (value: CarSearchSort) => {
+    const params = new URLSearchParams(searchParams);
+    if (value === defaultSort) {
+      params.delete("sort");
+    } else {
+      params.set("sort", value);
+    }
+    setSearchParams(params, { replace: true });
+  };
+
+  // First page whenever the filters or sort change
   useEffect(() => {
-    async function fetchCarListings() {
+    const searchId = ++searchIdRef.current;
+
+    async function fetchFirstPage() {
       try {
         setLoading(true);
         setError(null);
-        
-        const fetchedListings = await getAvailableCarListings();
-        
-        if (Array.isArray(fetchedListings)) {
-          // Process the data to ensure dates are properly handled
-          const processedListings = fetchedListings.map(listing => ({
-            ...listing,
-            availableFrom: listing.availableFrom instanceof Date 
-              ? listing.availableFrom 
-              : new Date(listing.availableFrom),
-            availableTo: listing.availableTo instanceof Date 
-              ? listing.availableTo 
-              : new Date(listing.availableTo),
-            // Ensure imageUrls is always an array, fallback to empty array
-            imageUrls: listing.imageUrls || []
-          }));
-          
-          setListings(processedListings as CarListing[]);
-        } else {
-          console.error("Unexpected data format from getAvailableCarListings");
-          setError("Failed to load car listings due to data format issue.");
-          setListings([]);
-        }
+        setListings([]);
+        setNextCursor(null);
+        setLoadMoreFailed(false);
+
+        const page = await searchCarListingsPage(filters, { sort: sortBy });
+        if (searchId !== searchIdRef.current) return;
+
+        setListings(page.items.map(toCarListing));
+        setNextCursor(page.nextCursor);
       } catch (err) {
         console.error("Error fetching car listings:", err);
-        setError("Failed to load car listings. Please try again later.");
+        if (searchId === searchIdRef.current) {
+          setError("Failed to load car listings. Please try again later.");
+        }
       } finally {
-        setLoading(false);
+        if (searchId === searchIdRef.current) setLoading(false);
       }
     }
-    
-    fetchCarListings();
-  }, []);
+
+    fetchFirstPage();
+  }, [filters, sortBy]);
+
+  // Facet counts don't depend on the sort, so they are only recounted with the filters
+  // (the listings behind them are read once per session)
+  useEffect(() => {
+    let cancelled = false;
+
+    getCarSearchFacets(filters)
+      .then((fetchedFacets) => {
+        if (!cancelled) setFacets(fetchedFacets);
+      })
+      .catch((err) => console.error("Error fetching search facets:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filters]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+    const searchId = searchIdRef.current;
+
+    try {
+      setLoadingMore(true);
+      setLoadMoreFailed(false);
+      const page = await searchCarListingsPage(filters, { sort: sortBy, cursor: nextCursor });
+      if (searchId !== searchIdRef.current) return;
+
+      setListings((prev) => [...prev, ...page.items.map(toCarListing)]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error("Error fetching more car listings:", err);
+      // Stops the sentinel from retrying in a loop; the user can retry with the button
+      setLoadMoreFailed(true);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [filters, sortBy, nextCursor, loadingMore]);
+
+  // Load the next page when the sentinel below the grid scrolls into view
+  useEffect(() => {
+    if (inView && !loading && !loadMoreFailed) loadMore();
+  }, [inView, loading, loadMoreFailed, loadMore]);
 
   const handleAddCar = () => {
     if (user) {
@@ -219,63 +485,188 @@ export function CarListingsPage() {
     }
   };
 
+  const handleSaveSearch = () => {
+    if (user) {
+      setSaveSearchOpen(true);
+    } else {
+      navigate("/auth", { state: { from: `/cars?${searchParams}` } });
+    }
+  };
+
   const handleViewDetails = (id: string) => {
     navigate(`/cars/${id}`);
   };
 
+  const handleToggleMap = () => {
+    const params = new URLSearchParams(searchParams);
+    if (showMap) {
+      params.delete("view");
+    } else {
+      params.set("view", "map");
+    }
+    setSearchParams(params, { replace: true });
+  };
+
+  const handleSearchArea = (bounds: GeoBounds | undefined) => {
+    handleFiltersChange({ ...filters, bounds });
+  };
+
   return (
     <div className="container-standard mx-auto px-4 sm:px-6 py-8 md:py-12">
       <div className="flex justify-between items-center mb-8 md:mb-12">
         <div>
           <h1 className="text-3xl md:text-4xl font-bold">Available Cars</h1>
-          <p className="text-muted-foreground mt-2 text-base md:text-lg">Find and rent the perfect car for your needs</p>
-        </div>
-        <Button onClick={handleAddCar} className="flex items-center gap-2">
-          <PlusCircle size={16} />
-          <span className="hidden xs:inline-block">List Your Car</span>
-        </Button>
-      </div>
-
-      {/* Loading state */}
-      {loading && (
-        <div className="flex justify-center items-center h-64">
-          <div className="text-center">
-            <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto mb-4" />
-            <p className="text-muted-foreground">Loading available cars...</p>
-          </div>
+          {filters.query ? (
+            <p className="text-muted-foreground mt-2 text-base md:text-lg flex items-center gap-2">
+              Results for &ldquo;{filters.query}&rdquo;
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => handleFiltersChange({ ...filters, query: undefined })}
+                aria-label="Clear search"
+              >
+                <X size={16} />
+              </Button>
+            </p>
+          ) : (
+            <p className="text-muted-foreground mt-2 text-base md:text-lg">Find and rent the perfect car for your needs</p>
+          )}
         </div>
-      )}
-      
-      {/* Error state */}
-      {!loading && error && (
-        <div className="text-center py-8 px-4 bg-destructive/10 rounded-lg border border-destructive/20">
-          <p className="text-destructive font-medium mb-4">{error}</p>
-          <Button onClick={() => window.location.reload()} variant="outline" className="mt-2">
-            Try Again
+        <div className="flex gap-2">
+          {hasActiveFilters && (
+            <Button onClick={handleSaveSearch} variant="outline" className="flex items-center gap-2">
+              <BookmarkPlus size={16} />
+              <span className="hidden xs:inline-block">Save Search</span>
+            </Button>
+          )}
+          <Button onClick={handleToggleMap} variant="outline" className="flex items-center gap-2">
+            <MapIcon size={16} />
+            <span className="hidden xs:inline-block">{showMap ? "Hide Map" : "Show Map"}</span>
+          </Button>
+          <Button onClick={handleAddCar} className="flex items-center gap-2">
+            <PlusCircle size={16} />
+            <span className="hidden xs:inline-block">List Your Car</span>
           </Button>
         </div>
-      )}
-      
-      {/* Results */}
-      {!loading && !error && (
-        <>
-          {/* Filter/sort controls can be added here in the future */}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-[260px_1fr] gap-8">
+        <CarFilterSidebar filters={filters} facets={facets} origin={origin} onChange={handleFiltersChange} />
+
+        <div>
+          {/* Map view, kept mounted while results reload so the user's view isn't reset */}
+          {showMap && (
+            <div className="mb-6">
+              <CarListingsMap
+                listings={listings}
+                bounds={filters.bounds}
+                onSearchArea={handleSearchArea}
+                onClearArea={() => handleSearchArea(undefined)}
+                onViewDetails={handleViewDetails}
+              />
+            </div>
+          )}
+
+          {/* Loading state */}
+          {loading && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-6 md:gap-8" aria-busy="true">
+              <SkeletonGrid count={6} />
+            </div>
+          )}
           
-          {/* Car listing grid */}
-          {listings.length > 0 ? (
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 md:gap-8">
-              {listings.map((listing) => (
-                <CarListingCard 
-                  key={listing.id} 
-                  listing={listing} 
-                  onViewDetails={handleViewDetails} 
-                />
-              ))}
+          {/* Error state */}
+          {!loading && error && (
+            <div className="text-center py-8 px-4 bg-destructive/10 rounded-lg border border-destructive/20">
+              <p className="text-destructive font-medium mb-4">{error}</p>
+              <Button onClick={() => window.location.reload()} variant="outline" className="mt-2">
+                Try Again
+              </Button>
             </div>
-          ) : (
-            <EmptyState onAddCar={handleAddCar} />
           )}
-        </>
+          
+          {/* Results */}
+          {!loading && !error && (
+            <>
+              {/* Result count and sort controls */}
+              {listings.length > 0 && (
+                <div className="flex justify-between items-center mb-6">
+                  <p className="text-sm text-muted-foreground">
+                    Showing {listings.length} car{listings.length !== 1 ? "s" : ""}
+                    {searchRadius ? ` within ${searchRadius} mi` : ""}
+                  </p>
+                  <Select value={sortBy} onValueChange={(value) => handleSortChange(value as CarSearchSort)}>
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue placeholder="Sort by" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sortOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              
+              {/* Car listing grid */}
+              {listings.length > 0 ? (
+                <>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-6 md:gap-8">
+                    {listings.map((listing) => (
+                      <CarListingCard 
+                        key={listing.id} 
+                        listing={listing} 
+                        onViewDetails={handleViewDetails} 
+                        favorite={favorites.get(listing.id)}
+                        onToggleFavorite={() => toggleFavorite({
+                          id: listing.id,
+                          title: listing.title,
+                          price: listing.price,
+                          imageUrl: listing.thumbnailUrls?.[0] ?? listing.imageUrls[0]
+                        })}
+                      />
+                    ))}
+                    {loadingMore && <SkeletonGrid count={3} />}
+                  </div>
+
+                  {/* Infinite scroll sentinel */}
+                  {nextCursor && <div ref={loadMoreRef} className="h-px" />}
+
+                  {loadMoreFailed && (
+                    <div className="text-center mt-8">
+                      <p className="text-sm text-destructive mb-2">Failed to load more cars.</p>
+                      <Button onClick={loadMore} variant="outline" size="sm">
+                        Try Again
+                      </Button>
+                    </div>
+                  )}
+                </>
+              ) : nextCursor ? (
+                // Filters rejected every listing read so far, but more remain
+                <div className="flex justify-center py-12">
+                  <Button onClick={loadMore} variant="outline" disabled={loadingMore}>
+                    {loadingMore && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                    Keep searching
+                  </Button>
+                </div>
+              ) : hasActiveFilters ? (
+                <NoResultsState onClearFilters={() => handleFiltersChange({})} />
+              ) : (
+                <EmptyState onAddCar={handleAddCar} />
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {user && (
+        // The profile origin isn't part of the search, so only the URL filters are saved
+        <SaveSearchDialog
+          open={saveSearchOpen}
+          onOpenChange={setSaveSearchOpen}
+          userId={user.uid}
+          filters={urlFilters}
+        />
       )}
     </div>
   );
@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
 import { useAuth } from "@/firebase/auth/AuthContext";
 import { Booking } from "@/firebase/db/model/bookingmodel";
 import { 
@@ -18,6 +19,7 @@ export function MyBookingsPage() {
   const [loadingReceived, setLoadingReceived] = useState(true);
   const [error, setError] = useState("");
   const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
 
   const fetchBookings = async () => {
     if (!user) return;
@@ -72,7 +74,11 @@ export function MyBookingsPage() {
         </Alert>
       )}
       
-      <Tabs defaultValue="rental" className="w-full">
+      <Tabs
+        value={searchParams.get("tab") === "received" ? "received" : "rental"}
+        onValueChange={(tab) => setSearchParams({ tab }, { replace: true })}
+        className="w-full"
+      >
         <TabsList className="mb-4">
           <TabsTrigger value="rental">Cars I'm Renting</TabsTrigger>
           <TabsTrigger value="received">Booking Requests</TabsTrigger>
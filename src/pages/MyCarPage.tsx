@@ -16,6 +16,7 @@ interface CarListing {
   description: string;
   price: number;
   imageUrls: string[];
+  thumbnailUrls?: string[];
   location: string;
   status: ListingStatus;
   carInfo: {
@@ -151,7 +152,7 @@ export function MyCarPage() {
               <div className="aspect-video relative overflow-hidden bg-muted">
                 {car.imageUrls && car.imageUrls.length > 0 ? (
                   <img
-                    src={car.imageUrls[0]}
+                    src={car.thumbnailUrls?.[0] || car.imageUrls[0]}
                     alt={car.title}
                     className="w-full h-full object-cover"
                   />
@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { CheckCheck, Loader2, Trash2 } from "lucide-react";
+import { useAuth } from "@/firebase/auth/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { NotificationItem } from "@/components/notifications/NotificationItem";
+import { AppNotification } from "@/firebase/db/model/notificationmodel";
+import {
+  deleteNotification,
+  markAllNotificationsRead,
+  markNotificationRead,
+  subscribeToNotifications,
+  subscribeToUnreadNotificationCount
+} from "@/firebase/db/services/notificationService";
+
+const PAGE_SIZE = 20;
+
+export function NotificationsPage() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [max, setMax] = useState(PAGE_SIZE);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<"all" | "unread">("all");
+
+  // Loading more widens the live window rather than fetching a separate page,
+  // so older notifications keep updating too
+  useEffect(() => {
+    if (!user) return;
+
+    return subscribeToNotifications(user.uid, (latest) => {
+      setNotifications(latest);
+      setLoading(false);
+    }, max);
+  }, [user, max]);
+
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToUnreadNotificationCount(user.uid, setUnreadCount);
+  }, [user]);
+
+  const handleOpen = (notification: AppNotification) => {
+    if (!notification.read) {
+      markNotificationRead(notification.id);
+    }
+    navigate(notification.link);
+  };
+
+  const visible = filter === "unread"
+    ? notifications.filter((notification) => !notification.read)
+    : notifications;
+  const hasMore = notifications.length >= max;
+
+  return (
+    <div className="container mx-auto px-4 py-6 max-w-3xl">
+      <div className="flex items-center justify-between mb-6 gap-4">
+        <h1 className="text-2xl md:text-3xl font-bold">Notifications</h1>
+        {user && unreadCount > 0 && (
+          <Button variant="outline" size="sm" onClick={() => markAllNotificationsRead(user.uid)}>
+            <CheckCheck className="h-4 w-4 mr-1.5" />
+            Mark all as read
+          </Button>
+        )}
+      </div>
+
+      <Tabs value={filter} onValueChange={(value) => setFilter(value as "all" | "unread")} className="mb-4">
+        <TabsList>
+          <TabsTrigger value="all">All</TabsTrigger>
+          <TabsTrigger value="unread">Unread{unreadCount > 0 ? ` (${unreadCount})` : ""}</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <Card>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : visible.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">
+              {filter === "unread" ? "You have no unread notifications." : "You have no notifications yet."}
+            </p>
+          ) : (
+            <ul className="divide-y">
+              {visible.map((notification) => (
+                <li key={notification.id} className="flex items-start gap-2 p-4 hover:bg-muted/40">
+                  <button
+                    type="button"
+                    className="flex-1 min-w-0 text-left cursor-pointer"
+                    onClick={() => handleOpen(notification)}
+                  >
+                    <NotificationItem notification={notification} />
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="flex-shrink-0"
+                    aria-label="Delete notification"
+                    onClick={() => deleteNotification(notification.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {hasMore && (
+        <div className="flex justify-center mt-4">
+          <Button variant="outline" onClick={() => setMax((current) => current + PAGE_SIZE)}>
+            Load more
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
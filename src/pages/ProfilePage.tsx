@@ -1,8 +1,10 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { useAuth } from "@/firebase/auth/AuthContext";
 import { getUserProfile } from "@/firebase/db/services/userProfileService";
 import { UserProfile } from "@/firebase/db/model/usermodel";
+import { NOTIFICATION_CHANNEL_LABELS, NotificationChannel } from "@/firebase/db/model/notificationmodel";
+import { resolveNotificationPreferences } from "@/firebase/db/services/notificationService";
 import { Loader2, PenSquare, ChevronLeft,  MapPin, Shield, Phone, Mail, Briefcase,  FileCheck, AlertCircle, Globe, Share2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { EditProfileForm } from "@/components/profile/EditProfileForm";
@@ -11,6 +13,8 @@ import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Progress } from "@/components/ui/progress";
+import { SavedSearchesPanel } from "@/components/profile/SavedSearchesPanel";
+import { SavedCarsPanel } from "@/components/profile/SavedCarsPanel";
 
 export function ProfilePage() {
   const { user } = useAuth();
@@ -19,7 +23,9 @@ export function ProfilePage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isEditing, setIsEditing] = useState(false);
-  const [activeTab, setActiveTab] = useState("overview");
+  const [searchParams] = useSearchParams();
+  // Other pages can link straight to a tab, e.g. /profile?tab=searches
+  const [activeTab, setActiveTab] = useState(searchParams.get("tab") || "overview");
   const [completionPercentage, setCompletionPercentage] = useState(0);
 
   useEffect(() => {
@@ -207,6 +213,8 @@ export function ProfilePage() {
               <TabsTrigger value="details" className="flex-1">Details</TabsTrigger>
               <TabsTrigger value="preferences" className="flex-1">Preferences</TabsTrigger>
               <TabsTrigger value="security" className="flex-1">Security</TabsTrigger>
+              <TabsTrigger value="saved-cars" className="flex-1">Saved cars</TabsTrigger>
+              <TabsTrigger value="searches" className="flex-1">Saved Searches</TabsTrigger>
             </TabsList>
             
             <TabsContent value="overview">
@@ -508,14 +516,20 @@ export function ProfilePage() {
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div className="border rounded-md p-4">
                       <h4 className="font-medium mb-2">Notifications</h4>
-                      <div className="flex items-center justify-between">
-                        <span className="text-sm">
-                          {userProfile.userPreferences?.notifications ? "Enabled" : "Disabled"}
-                        </span>
-                        <Badge variant={userProfile.userPreferences?.notifications ? "default" : "outline"}>
-                          {userProfile.userPreferences?.notifications ? "On" : "Off"}
-                        </Badge>
-                      </div>
+                      {Object.values(NotificationChannel).map((channel) => {
+                        const enabled = Object.values(
+                          resolveNotificationPreferences(userProfile.userPreferences?.notifications)
+                        ).some((channels) => channels[channel]);
+
+                        return (
+                          <div key={channel} className="flex items-center justify-between">
+                            <span className="text-sm">{NOTIFICATION_CHANNEL_LABELS[channel]}</span>
+                            <Badge variant={enabled ? "default" : "outline"}>
+                              {enabled ? "On" : "Off"}
+                            </Badge>
+                          </div>
+                        );
+                      })}
                     </div>
                     
                     <div className="border rounded-md p-4">
@@ -620,6 +634,14 @@ export function ProfilePage() {
                 </CardContent>
               </Card>
             </TabsContent>
+
+            <TabsContent value="saved-cars">
+              {user && <SavedCarsPanel userId={user.uid} />}
+            </TabsContent>
+
+            <TabsContent value="searches">
+              {user && <SavedSearchesPanel userId={user.uid} />}
+            </TabsContent>
           </Tabs>
         </div>
       ) : (
@@ -8,6 +8,7 @@ import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { UserReviews } from "@/components/profile/UserReviews";
 
 export function ViewPublicProfilePage() {
   const { username } = useParams<{ username: string }>();
@@ -246,7 +247,7 @@ export function ViewPublicProfilePage() {
                       <p className="text-xs text-muted-foreground">Car Listings</p>
                     </div>
                     <div className="space-y-1">
-                      <p className="text-2xl font-bold text-primary">0</p>
+                      <p className="text-2xl font-bold text-primary">{userProfile.ratingSummary?.count ?? 0}</p>
                       <p className="text-xs text-muted-foreground">Reviews</p>
                     </div>
                     <div className="space-y-1">
@@ -255,7 +256,9 @@ export function ViewPublicProfilePage() {
                     </div>
                     <div className="space-y-1">
                       <div className="flex items-center justify-center">
-                        <p className="text-2xl font-bold text-primary">0.0</p>
+                        <p className="text-2xl font-bold text-primary">
+                          {(userProfile.ratingSummary?.average ?? 0).toFixed(1)}
+                        </p>
                         <Star className="h-4 w-4 text-yellow-500 ml-1" />
                       </div>
                       <p className="text-xs text-muted-foreground">Rating</p>
@@ -289,15 +292,8 @@ export function ViewPublicProfilePage() {
             
             <TabsContent value="reviews">
               <Card>
-                <CardHeader>
-                  <h3 className="text-lg font-semibold">Reviews for {userProfile.displayName}</h3>
-                </CardHeader>
-                <CardContent>
-                  <div className="text-center p-8 text-muted-foreground">
-                    <Star className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                    <p>No reviews yet.</p>
-                    <p className="text-sm mt-2">This user hasn't received any reviews.</p>
-                  </div>
+                <CardContent className="p-6">
+                  <UserReviews userId={userProfile.uid} userName={userProfile.displayName} />
                 </CardContent>
               </Card>
             </TabsContent>
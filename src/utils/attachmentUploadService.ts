@@ -0,0 +1,207 @@
+import { ref, uploadBytes, getDownloadURL, deleteObject } from "firebase/storage";
+import { auth, storage } from "@/firebase/firebase";
+import { MessageAttachment } from "@/firebase/db/model/messagemodel";
+import { processImage } from "./imageProcessing";
+import {
+  ATTACHMENT_DOCUMENT_TYPES,
+  ATTACHMENT_IMAGE_TYPES,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  MAX_ATTACHMENT_SIZE_BYTES
+} from "@/config/attachments";
+import {
+  MAX_SOURCE_IMAGE_SIZE_BYTES,
+  THUMBNAIL_MAX_DIMENSION,
+  THUMBNAIL_QUALITY
+} from "@/config/images";
+
+const MB = 1024 * 1024;
+
+/**
+ * Storage folder for files sent in a conversation; only its participants can read it
+ * @param conversationId The conversation ID
+ */
+export function getConversationAttachmentFolder(conversationId: string): string {
+  return `conversations/${conversationId}`;
+}
+
+function isImageType(type: string): boolean {
+  return ATTACHMENT_IMAGE_TYPES.includes(type);
+}
+
+/**
+ * Checks a file picked, pasted or dropped into the message composer
+ * @param file The file to check
+ * @returns A message explaining why the file can't be sent, or null if it can
+ */
+export function validateAttachment(file: File): string | null {
+  if (isImageType(file.type)) {
+    return file.size > MAX_SOURCE_IMAGE_SIZE_BYTES
+      ? `${file.name} is too large. Photos must be smaller than ${MAX_SOURCE_IMAGE_SIZE_BYTES / MB} MB.`
+      : null;
+  }
+
+  if (ATTACHMENT_DOCUMENT_TYPES.includes(file.type)) {
+    return file.size > MAX_ATTACHMENT_SIZE_BYTES
+      ? `${file.name} is too large. Documents must be smaller than ${MAX_ATTACHMENT_SIZE_BYTES / MB} MB.`
+      : null;
+  }
+
+  return `${file.name} can't be sent. Only photos (JPEG, PNG, WebP, HEIC) and PDF documents are supported.`;
+}
+
+/**
+ * Splits files into those that can be added to a message and the reasons the
+ * others were left out
+ * @param files The new files
+ * @param existingCount Attachments already waiting in the composer
+ */
+export function filterAttachments(files: File[], existingCount: number): { accepted: File[]; errors: string[] } {
+  const accepted: File[] = [];
+  const errors: string[] = [];
+
+  for (const file of files) {
+    const error = validateAttachment(file);
+    if (error) {
+      errors.push(error);
+    } else if (existingCount + accepted.length >= MAX_ATTACHMENTS_PER_MESSAGE) {
+      errors.push(`You can send up to ${MAX_ATTACHMENTS_PER_MESSAGE} files per message.`);
+      break;
+    } else {
+      accepted.push(file);
+    }
+  }
+
+  return { accepted, errors };
+}
+
+/**
+ * Uploads a blob with the uploader recorded in its metadata, which the Storage rules check
+ */
+async function uploadBlob(blob: Blob, filePath: string, ownerId: string, fileName: string): Promise<string> {
+  if (blob.size > MAX_ATTACHMENT_SIZE_BYTES) {
+    throw new Error(`${fileName} is larger than ${MAX_ATTACHMENT_SIZE_BYTES / MB} MB after compression`);
+  }
+
+  const snapshot = await uploadBytes(ref(storage, filePath), blob, {
+    contentType: blob.type,
+    customMetadata: { ownerId }
+  });
+
+  return getDownloadURL(snapshot.ref);
+}
+
+/**
+ * Uploads a file to be sent in a conversation
+ * Photos are downscaled and re-encoded like listing photos (see processImage),
+ * which strips EXIF location data, and get a thumbnail for the message bubble.
+ * Documents are stored unchanged.
+ * @param conversationId The conversation the file is sent in
+ * @param file A file accepted by validateAttachment
+ * @returns The attachment to store on the message
+ */
+export async function uploadMessageAttachment(conversationId: string, file: File): Promise<MessageAttachment> {
+  const validationError = validateAttachment(file);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  const ownerId = auth.currentUser?.uid;
+  if (!ownerId) {
+    throw new Error("You must be signed in to send files");
+  }
+
+  try {
+    const folder = getConversationAttachmentFolder(conversationId);
+    // The random part keeps files sent together apart, e.g. several pasted "image.png"
+    const fileId = `${Date.now()}_${crypto.randomUUID().slice(0, 8)}`;
+    const baseName = file.name.replace(/\.[^.]*$/, '').replace(/[^a-zA-Z0-9-]/g, '_');
+
+    if (!isImageType(file.type)) {
+      const path = `${folder}/${fileId}_${baseName}.pdf`;
+      const url = await uploadBlob(file, path, ownerId, file.name);
+      return { kind: "file", name: file.name, contentType: file.type, size: file.size, path, url };
+    }
+
+    const [image, thumbnail] = await Promise.all([
+      processImage(file),
+      processImage(file, { maxDimension: THUMBNAIL_MAX_DIMENSION, quality: THUMBNAIL_QUALITY })
+    ]);
+
+    const path = `${folder}/${fileId}_${baseName}.${image.extension}`;
+    const thumbnailPath = `${folder}/thumbs/${fileId}_${baseName}.${thumbnail.extension}`;
+
+    const [upload, thumbnailUpload] = await Promise.allSettled([
+      uploadBlob(image.blob, path, ownerId, file.name),
+      uploadBlob(thumbnail.blob, thumbnailPath, ownerId, file.name)
+    ]);
+
+    if (upload.status === "rejected") {
+      if (thumbnailUpload.status === "fulfilled") await deletePaths([thumbnailPath]);
+      throw upload.reason;
+    }
+    if (thumbnailUpload.status === "rejected") {
+      await deletePaths([path]);
+      throw thumbnailUpload.reason;
+    }
+    const url = upload.value;
+    const thumbnailUrl = thumbnailUpload.value;
+
+    return {
+      kind: "image",
+      name: file.name,
+      contentType: image.blob.type,
+      size: image.blob.size,
+      path,
+      url,
+      thumbnailPath,
+      thumbnailUrl,
+      width: image.width,
+      height: image.height
+    };
+  } catch (error) {
+    console.error("Error uploading message attachment:", error);
+    throw new Error(`Failed to upload ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Uploads the files of one message
+ * If any upload fails, the files that did upload are removed again so the
+ * failed send doesn't leave unreferenced files in the conversation folder.
+ * @param conversationId The conversation the files are sent in
+ * @param files Files accepted by filterAttachments
+ * @returns The attachments, in the order of the files
+ */
+export async function uploadMessageAttachments(conversationId: string, files: File[]): Promise<MessageAttachment[]> {
+  const results = await Promise.allSettled(files.map((file) => uploadMessageAttachment(conversationId, file)));
+
+  const failure = results.find((result): result is PromiseRejectedResult => result.status === "rejected");
+  const attachments = results.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []));
+
+  if (failure) {
+    await deleteMessageAttachments(attachments);
+    throw failure.reason;
+  }
+
+  return attachments;
+}
+
+/**
+ * Removes the stored files of a deleted message, including thumbnails
+ * Failures are logged, since the message no longer links to the files.
+ * @param attachments The message's attachments
+ */
+export async function deleteMessageAttachments(attachments: MessageAttachment[]): Promise<void> {
+  await deletePaths(attachments.flatMap((attachment) =>
+    attachment.thumbnailPath ? [attachment.path, attachment.thumbnailPath] : [attachment.path]
+  ));
+}
+
+async function deletePaths(paths: string[]): Promise<void> {
+  const results = await Promise.allSettled(paths.map((path) => deleteObject(ref(storage, path))));
+  results.forEach((result) => {
+    if (result.status === "rejected") {
+      console.error("Error deleting message attachment:", result.reason);
+    }
+  });
+}
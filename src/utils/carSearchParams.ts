@@ -0,0 +1,208 @@
+import { format, isValid, parse } from "date-fns";
+import { CarSearchFilters, FuelType, GeoBounds, GeoCoordinates, TransmissionType } from "@/firebase/db/model/carmodel";
+
+// Query parameter names, kept short so shared links stay readable
+const PARAMS = {
+  query: "q",
+  location: "location",
+  priceMin: "minPrice",
+  priceMax: "maxPrice",
+  make: "make",
+  fuelType: "fuel",
+  transmission: "transmission",
+  seatsMin: "seats",
+  availableFrom: "from",
+  availableTo: "to",
+  near: "near",
+  nearZip: "zip",
+  radiusMiles: "radius",
+  bounds: "bbox"
+} as const;
+
+const DATE_FORMAT = "yyyy-MM-dd";
+
+export const FUEL_LABELS: Record<string, string> = {
+  [FuelType.GASOLINE]: "Gasoline",
+  [FuelType.DIESEL]: "Diesel",
+  [FuelType.ELECTRIC]: "Electric",
+  [FuelType.HYBRID]: "Hybrid",
+  [FuelType.PLUGIN_HYBRID]: "Plug-in Hybrid"
+};
+
+export const TRANSMISSION_LABELS: Record<string, string> = {
+  [TransmissionType.AUTOMATIC]: "Automatic",
+  [TransmissionType.MANUAL]: "Manual"
+};
+
+function parseNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === "") return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : undefined;
+}
+
+function parseDate(value: string | null): Date | undefined {
+  if (!value) return undefined;
+  const date = parse(value, DATE_FORMAT, new Date());
+  return isValid(date) ? date : undefined;
+}
+
+// Coordinates are written as "lat,lng"
+function parseCoordinates(value: string | null): GeoCoordinates | undefined {
+  const [lat, lng] = (value ?? "").split(",").map((part) => Number(part));
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return undefined;
+  }
+  return { lat, lng };
+}
+
+// Bounds are written as "south,west,north,east"
+function parseBounds(value: string | null): GeoBounds | undefined {
+  const [south, west, north, east] = (value ?? "").split(",").map((part) => Number(part));
+  if (![south, west, north, east].every(Number.isFinite) || south >= north || Math.abs(south) > 90 ||
+      Math.abs(north) > 90 || Math.abs(west) > 180 || Math.abs(east) > 180) {
+    return undefined;
+  }
+  return { south, west, north, east };
+}
+
+function parseEnum<T extends string>(value: string | null, values: Record<string, T>): T | undefined {
+  return Object.values(values).find((option) => option === value);
+}
+
+/**
+ * Reads car search filters from URL query parameters, ignoring invalid values
+ * @param params The page's search params
+ */
+export function filtersFromSearchParams(params: URLSearchParams): CarSearchFilters {
+  const filters: CarSearchFilters = {
+    query: params.get(PARAMS.query)?.trim() || undefined,
+    location: params.get(PARAMS.location)?.trim() || undefined,
+    priceMin: parseNumber(params.get(PARAMS.priceMin)),
+    priceMax: parseNumber(params.get(PARAMS.priceMax)),
+    make: params.get(PARAMS.make) || undefined,
+    fuelType: parseEnum(params.get(PARAMS.fuelType), FuelType),
+    transmission: parseEnum(params.get(PARAMS.transmission), TransmissionType),
+    seatsMin: parseNumber(params.get(PARAMS.seatsMin)),
+    availableFrom: parseDate(params.get(PARAMS.availableFrom)),
+    availableTo: parseDate(params.get(PARAMS.availableTo)),
+    near: parseCoordinates(params.get(PARAMS.near)),
+    nearZip: params.get(PARAMS.nearZip) || undefined,
+    radiusMiles: parseNumber(params.get(PARAMS.radiusMiles)) || undefined,
+    bounds: parseBounds(params.get(PARAMS.bounds))
+  };
+
+  // The ZIP label and radius only apply to an origin
+  if (!filters.near) {
+    filters.nearZip = undefined;
+    filters.radiusMiles = undefined;
+  }
+
+  // A date range is only meaningful with both ends in order
+  if (!filters.availableFrom || !filters.availableTo || filters.availableTo < filters.availableFrom) {
+    filters.availableFrom = undefined;
+    filters.availableTo = undefined;
+  }
+
+  return filters;
+}
+
+/**
+ * Writes car search filters into URL query parameters
+ * Parameters that are not filters (e.g. sort) are kept as they are.
+ * @param filters The filters to write
+ * @param current The current search params
+ * @returns A new set of search params
+ */
+export function filtersToSearchParams(filters: CarSearchFilters, current: URLSearchParams): URLSearchParams {
+  const params = new URLSearchParams(current);
+
+  const values: Record<keyof CarSearchFilters, string | undefined> = {
+    query: filters.query?.trim() || undefined,
+    location: filters.location || undefined,
+    priceMin: filters.priceMin?.toString(),
+    priceMax: filters.priceMax?.toString(),
+    make: filters.make || undefined,
+    fuelType: filters.fuelType,
+    transmission: filters.transmission,
+    seatsMin: filters.seatsMin?.toString(),
+    availableFrom: filters.availableFrom ? format(filters.availableFrom, DATE_FORMAT) : undefined,
+    availableTo: filters.availableTo ? format(filters.availableTo, DATE_FORMAT) : undefined,
+    near: filters.near ? `${filters.near.lat},${filters.near.lng}` : undefined,
+    nearZip: filters.near ? filters.nearZip : undefined,
+    radiusMiles: filters.near ? filters.radiusMiles?.toString() : undefined,
+    bounds: filters.bounds
+      ? [filters.bounds.south, filters.bounds.west, filters.bounds.north, filters.bounds.east]
+        .map((value) => Number(value.toFixed(4)))
+        .join(",")
+      : undefined
+  };
+
+  (Object.keys(PARAMS) as (keyof CarSearchFilters)[]).forEach((key) => {
+    const value = values[key];
+    if (value === undefined) {
+      params.delete(PARAMS[key]);
+    } else {
+      params.set(PARAMS[key], value);
+    }
+  });
+
+  return params;
+}
+
+/**
+ * Counts the active filters, treating a date range as one filter
+ * The search origin on its own only affects distances and sorting, so it is not counted.
+ */
+export function countActiveFilters(filters: CarSearchFilters): number {
+  return [
+    filters.query,
+    filters.location,
+    filters.priceMin,
+    filters.priceMax,
+    filters.make,
+    filters.fuelType,
+    filters.transmission,
+    filters.seatsMin,
+    filters.availableFrom,
+    filters.radiusMiles,
+    filters.bounds
+  ].filter((value) => value !== undefined).length;
+}
+
+/**
+ * Describes filters in a few words, e.g. "Toyota Hybrid under $60 in Austin"
+ * Used as the default name of a saved search.
+ */
+export function describeFilters(filters: CarSearchFilters): string {
+  const car = [
+    filters.query ? `"${filters.query}"` : undefined,
+    filters.make,
+    filters.fuelType ? FUEL_LABELS[filters.fuelType] : undefined,
+    filters.transmission ? TRANSMISSION_LABELS[filters.transmission] : undefined
+  ].filter(Boolean).join(" ") || "Cars";
+
+  const parts = [car];
+
+  if (filters.seatsMin) parts.push(`with ${filters.seatsMin}+ seats`);
+
+  if (filters.priceMin !== undefined && filters.priceMax !== undefined) {
+    parts.push(`$${filters.priceMin}-$${filters.priceMax}`);
+  } else if (filters.priceMax !== undefined) {
+    parts.push(`under $${filters.priceMax}`);
+  } else if (filters.priceMin !== undefined) {
+    parts.push(`from $${filters.priceMin}`);
+  }
+
+  if (filters.location) parts.push(`in ${filters.location}`);
+  if (filters.radiusMiles) {
+    parts.push(`within ${filters.radiusMiles} mi${filters.nearZip ? ` of ${filters.nearZip}` : ""}`);
+  } else if (filters.bounds) {
+    parts.push("in a map area");
+  }
+
+  if (filters.availableFrom && filters.availableTo) {
+    parts.push(`${format(filters.availableFrom, "MMM d")}-${format(filters.availableTo, "MMM d")}`);
+  }
+
+  return parts.join(" ");
+}
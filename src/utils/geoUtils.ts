@@ -0,0 +1,56 @@
+import { distanceBetween, geohashForLocation } from "geofire-common";
+import { GeoCoordinates } from "@/firebase/db/model/carmodel";
+import { GEOHASH_PRECISION } from "@/config/geo";
+
+export const METERS_PER_MILE = 1609.344;
+
+/**
+ * Great-circle distance between two points
+ * @returns The distance in miles
+ */
+export function distanceInMiles(from: GeoCoordinates, to: GeoCoordinates): number {
+  // distanceBetween returns kilometers
+  return (distanceBetween([from.lat, from.lng], [to.lat, to.lng]) * 1000) / METERS_PER_MILE;
+}
+
+/**
+ * Encodes coordinates as a geohash for range queries
+ */
+export function toGeohash(coordinates: GeoCoordinates): string {
+  return geohashForLocation([coordinates.lat, coordinates.lng], GEOHASH_PRECISION);
+}
+
+/**
+ * Formats a distance for listing cards, e.g. "3.4 mi away"
+ */
+export function formatDistance(miles: number): string {
+  if (miles < 1) return "Less than 1 mi away";
+  if (miles < 10) return `${miles.toFixed(1)} mi away`;
+  return `${Math.round(miles)} mi away`;
+}
+
+/**
+ * Asks the browser for the user's current position
+ * @returns The coordinates, rounded to about 100 meters since search doesn't need more
+ */
+export function getCurrentPosition(): Promise<GeoCoordinates> {
+  return new Promise((resolve, reject) => {
+    if (!("geolocation" in navigator)) {
+      reject(new Error("Your browser does not support location access"));
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({
+        lat: Number(position.coords.latitude.toFixed(3)),
+        lng: Number(position.coords.longitude.toFixed(3))
+      }),
+      (error) => reject(new Error(
+        error.code === error.PERMISSION_DENIED
+          ? "Location access was denied"
+          : "Your location could not be determined"
+      )),
+      { maximumAge: 10 * 60 * 1000, timeout: 10000 }
+    );
+  });
+}
@@ -0,0 +1,94 @@
+import type { ZIPCodeList } from "us-zips/object";
+import { GeoCoordinates } from "@/firebase/db/model/carmodel";
+
+export interface GeocodeResult {
+  coordinates: GeoCoordinates;
+  zipCode?: string;
+}
+
+/**
+ * A geocoding provider. The default works offline from US ZIP code centroids;
+ * an online provider (street addresses, other countries) can be swapped in with setGeocoder.
+ */
+export interface Geocoder {
+  name: string;
+  geocode(query: string): Promise<GeocodeResult | null>;
+}
+
+// Five digit ZIP, optionally followed by ZIP+4
+const ZIP_CODE_PATTERN = /\b(\d{5})(?:-\d{4})?\b/;
+
+/**
+ * Finds a US ZIP code in free text, e.g. "Austin, TX 78701"
+ * @returns The five digit ZIP code, or null if there is none
+ */
+export function extractZipCode(text: string): string | null {
+  return text.match(ZIP_CODE_PATTERN)?.[1] ?? null;
+}
+
+let zipCentroids: Promise<ZIPCodeList> | null = null;
+
+/**
+ * Loads the ZIP centroid table on first use. It is large, so it is split into
+ * its own chunk instead of being part of the main bundle.
+ */
+function loadZipCentroids(): Promise<ZIPCodeList> {
+  if (!zipCentroids) {
+    zipCentroids = import("us-zips/object")
+      .then((module) => module.default)
+      .catch((error) => {
+        zipCentroids = null; // Allow a retry, e.g. after a network error loading the chunk
+        throw error;
+      });
+  }
+  return zipCentroids;
+}
+
+/**
+ * Offline geocoder resolving US ZIP codes to the centroid of their area
+ */
+export const zipGazetteerGeocoder: Geocoder = {
+  name: "us-zip-gazetteer",
+  async geocode(query: string) {
+    const zipCode = extractZipCode(query);
+    if (!zipCode) return null;
+
+    const centroid = (await loadZipCentroids())[zipCode];
+    if (!centroid) return null;
+
+    return {
+      coordinates: { lat: centroid.latitude, lng: centroid.longitude },
+      zipCode
+    };
+  }
+};
+
+let activeGeocoder: Geocoder = zipGazetteerGeocoder;
+
+/**
+ * Replaces the geocoding provider used by geocode
+ */
+export function setGeocoder(geocoder: Geocoder): void {
+  activeGeocoder = geocoder;
+}
+
+export function getGeocoder(): Geocoder {
+  return activeGeocoder;
+}
+
+/**
+ * Resolves a place (by default a US ZIP code) to coordinates
+ * @param query The text to geocode
+ * @returns The coordinates, or null if the place is unknown or the provider failed
+ */
+export async function geocode(query: string): Promise<GeocodeResult | null> {
+  const trimmed = query.trim();
+  if (!trimmed) return null;
+
+  try {
+    return await activeGeocoder.geocode(trimmed);
+  } catch (error) {
+    console.error(`Error geocoding with ${activeGeocoder.name}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,108 @@
+import { IMAGE_MAX_DIMENSION, IMAGE_QUALITY } from "@/config/images";
+
+export interface ProcessImageOptions {
+  maxDimension?: number; // Longest edge of the output, in pixels
+  quality?: number;      // Encoder quality between 0 and 1
+}
+
+export interface ProcessedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+  extension: "webp" | "jpg";
+}
+
+let webpSupported: boolean | null = null;
+
+/**
+ * Checks once whether the browser's canvas can encode WebP (Safari could not until 14)
+ */
+function canEncodeWebp(): boolean {
+  if (webpSupported === null) {
+    const canvas = document.createElement("canvas");
+    canvas.width = canvas.height = 1;
+    webpSupported = canvas.toDataURL("image/webp").startsWith("data:image/webp");
+  }
+  return webpSupported;
+}
+
+/**
+ * Scales dimensions down so the longest edge fits, never scaling up
+ */
+function fitWithin(width: number, height: number, maxDimension: number) {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale))
+  };
+}
+
+/**
+ * Decodes an image file, applying its EXIF orientation so the pixels are upright
+ */
+async function decodeImage(file: Blob): Promise<ImageBitmap> {
+  try {
+    return await createImageBitmap(file, { imageOrientation: "from-image" });
+  } catch (error) {
+    console.error("Error decoding image:", error);
+    throw new Error("This image could not be read. Please try a JPEG, PNG or WebP file.");
+  }
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode image"))),
+      type,
+      quality
+    );
+  });
+}
+
+/**
+ * Downscales and re-encodes an image in the browser.
+ * Drawing to a canvas and encoding again drops all metadata, so EXIF data such as
+ * GPS coordinates and camera details never leaves the user's device.
+ * @param file The image picked by the user
+ * @param options Maximum size and encoder quality
+ * @returns The re-encoded image as WebP, or JPEG where WebP encoding is unavailable
+ */
+export async function processImage(
+  file: Blob,
+  { maxDimension = IMAGE_MAX_DIMENSION, quality = IMAGE_QUALITY }: ProcessImageOptions = {}
+): Promise<ProcessedImage> {
+  const bitmap = await decodeImage(file);
+
+  try {
+    const { width, height } = fitWithin(bitmap.width, bitmap.height, maxDimension);
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("Image processing is not supported in this browser");
+    }
+
+    // JPEG has no alpha channel, so transparent areas would otherwise turn black
+    const useWebp = canEncodeWebp();
+    if (!useWebp) {
+      context.fillStyle = "#ffffff";
+      context.fillRect(0, 0, width, height);
+    }
+
+    context.imageSmoothingQuality = "high";
+    context.drawImage(bitmap, 0, 0, width, height);
+
+    const blob = await canvasToBlob(canvas, useWebp ? "image/webp" : "image/jpeg", quality);
+
+    return {
+      blob,
+      width,
+      height,
+      extension: useWebp ? "webp" : "jpg"
+    };
+  } finally {
+    bitmap.close();
+  }
+}
@@ -1,29 +1,110 @@
-import { ref, uploadBytes, getDownloadURL } from "firebase/storage";
-import { storage } from "@/firebase/firebase";
+import { ref, uploadBytes, getDownloadURL, listAll, deleteObject, StorageReference } from "firebase/storage";
+import { auth, storage } from "@/firebase/firebase";
+import { processImage } from "./imageProcessing";
+import {
+  MAX_SOURCE_IMAGE_SIZE_BYTES,
+  THUMBNAIL_MAX_DIMENSION,
+  THUMBNAIL_QUALITY
+} from "@/config/images";
+
+// Keep in sync with storage.rules
+export const MAX_IMAGE_SIZE_BYTES = 5 * 1024 * 1024;
+
+export interface UploadedImage {
+  path: string;           // Full Storage path, e.g. cars/{carId}/1700000000000_front.webp
+  url: string;            // Public download URL
+  thumbnailPath?: string; // Set when a thumbnail was requested
+  thumbnailUrl?: string;
+}
+
+export interface UploadImageOptions {
+  thumbnail?: boolean; // Also upload a small variant for grids and lists
+}
+
+/**
+ * Storage folder for images that belong to a user (e.g. profile photos)
+ * @param uid The user's ID
+ * @param folder Sub-folder inside the user's space
+ */
+export function getUserImageFolder(uid: string, folder: string = 'images'): string {
+  return `users/${uid}/${folder}`;
+}
+
+/**
+ * Storage folder for a car listing's photos
+ * @param carId The car listing ID (see newCarListingId for listings not saved yet)
+ */
+export function getCarImageFolder(carId: string): string {
+  return `cars/${carId}`;
+}
+
+/**
+ * Uploads a processed blob with the uploader recorded in its metadata
+ */
+async function uploadBlob(blob: Blob, filePath: string, ownerId: string): Promise<string> {
+  if (blob.size > MAX_IMAGE_SIZE_BYTES) {
+    throw new Error(`Images must be smaller than ${MAX_IMAGE_SIZE_BYTES / (1024 * 1024)} MB after compression`);
+  }
+
+  const snapshot = await uploadBytes(ref(storage, filePath), blob, {
+    contentType: blob.type,
+    customMetadata: { ownerId }
+  });
+
+  return getDownloadURL(snapshot.ref);
+}
 
 /**
  * Upload an image to Firebase Storage
+ * The image is resized and re-encoded first (see processImage), which also strips
+ * EXIF metadata. The uploader's ID is stored in the object's metadata, which the
+ * Storage rules use to check ownership of car photos uploaded before the listing is saved.
  * @param file - The image file to upload
- * @param folder - Optional folder path (e.g., 'cars', 'profiles')
- * @returns Promise with the download URL of the uploaded image
+ * @param folder - Folder path from getUserImageFolder or getCarImageFolder
+ * @param options - Whether to also upload a thumbnail
+ * @returns Promise with the Storage paths and download URLs of the uploaded image
  */
-export async function uploadImage(file: File, folder: string = 'images'): Promise<string> {
+export async function uploadImage(
+  file: File,
+  folder: string,
+  options: UploadImageOptions = {}
+): Promise<UploadedImage> {
+  if (!file.type.startsWith('image/')) {
+    throw new Error("Only image files can be uploaded");
+  }
+
+  if (file.size > MAX_SOURCE_IMAGE_SIZE_BYTES) {
+    throw new Error(`Images must be smaller than ${MAX_SOURCE_IMAGE_SIZE_BYTES / (1024 * 1024)} MB`);
+  }
+
+  const ownerId = auth.currentUser?.uid;
+  if (!ownerId) {
+    throw new Error("You must be signed in to upload images");
+  }
+
   try {
-    // Create a unique filename with timestamp
+    // Create a unique filename with timestamp, keeping the original name without its extension
     const timestamp = Date.now();
-    const filename = `${timestamp}_${file.name.replace(/[^a-zA-Z0-9.-]/g, '_')}`;
-    const filePath = `${folder}/${filename}`;
+    const baseName = file.name.replace(/\.[^.]*$/, '').replace(/[^a-zA-Z0-9-]/g, '_');
 
-    // Create a storage reference
-    const storageRef = ref(storage, filePath);
+    const [image, thumbnail] = await Promise.all([
+      processImage(file),
+      options.thumbnail
+        ? processImage(file, { maxDimension: THUMBNAIL_MAX_DIMENSION, quality: THUMBNAIL_QUALITY })
+        : Promise.resolve(null)
+    ]);
 
-    // Upload the file
-    const snapshot = await uploadBytes(storageRef, file);
+    const filePath = `${folder}/${timestamp}_${baseName}.${image.extension}`;
+    const thumbnailPath = thumbnail
+      ? `${folder}/thumbs/${timestamp}_${baseName}.${thumbnail.extension}`
+      : undefined;
 
-    // Get the download URL
-    const downloadURL = await getDownloadURL(snapshot.ref);
+    const [url, thumbnailUrl] = await Promise.all([
+      uploadBlob(image.blob, filePath, ownerId),
+      thumbnail && thumbnailPath ? uploadBlob(thumbnail.blob, thumbnailPath, ownerId) : Promise.resolve(undefined)
+    ]);
 
-    return downloadURL;
+    return { path: filePath, url, thumbnailPath, thumbnailUrl };
   } catch (error) {
     console.error("Error uploading image to Firebase Storage:", error);
     throw new Error(`Failed to upload image: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -31,9 +112,17 @@ export async function uploadImage(file: File, folder: string = 'images'): Promis
 }
 
 /**
- * Legacy function name for backward compatibility
- * @deprecated Use uploadImage instead
+ * Deletes every object stored under a folder, including sub-folders
+ * @param folder - Folder path, e.g. from getCarImageFolder
  */
-export async function uploadToImgbb(file: File): Promise<string> {
-  return uploadImage(file, 'cars');
+export async function deleteImageFolder(folder: string): Promise<void> {
+  const deleteAll = async (folderRef: StorageReference): Promise<void> => {
+    const result = await listAll(folderRef);
+    await Promise.all([
+      ...result.items.map((item) => deleteObject(item)),
+      ...result.prefixes.map((prefix) => deleteAll(prefix))
+    ]);
+  };
+
+  await deleteAll(ref(storage, folder));
 }
@@ -0,0 +1,215 @@
+import { MessageAttachment, OutboxMessage, OutboxStatus } from "@/firebase/db/model/messagemodel";
+import { messageExists, newMessageId, sendMessage } from "@/firebase/db/services/messagingService";
+import { deleteMessageAttachments } from "@/utils/attachmentUploadService";
+
+// Messages written on this device wait here until the server confirms them.
+// Entries are mirrored to IndexedDB so they survive reloads and going offline;
+// if IndexedDB is unavailable the outbox still works for the current page.
+
+const DB_NAME = "vroomly-outbox";
+const DB_VERSION = 1;
+const STORE_NAME = "messages";
+
+const entries = new Map<string, OutboxMessage>();
+const inFlight = new Set<string>();
+const listeners = new Set<() => void>();
+let dbPromise: Promise<IDBDatabase> | null = null;
+let loadPromise: Promise<void> | null = null;
+
+function openOutboxDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Runs a single request against the outbox store
+ */
+async function runRequest<T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const outboxDb = await openOutboxDb();
+  return new Promise((resolve, reject) => {
+    const request = makeRequest(outboxDb.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function notifyListeners() {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Reads the entries saved by earlier visits, once per page load
+ */
+function loadOutbox(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = runRequest<OutboxMessage[]>("readonly", (store) => store.getAll())
+      .then((saved) => {
+        saved.forEach((entry) => {
+          if (!entries.has(entry.id)) entries.set(entry.id, entry);
+        });
+        notifyListeners();
+      })
+      .catch((error) => {
+        console.error("Error loading message outbox:", error);
+      });
+  }
+  return loadPromise;
+}
+
+function saveEntry(entry: OutboxMessage) {
+  entries.set(entry.id, entry);
+  notifyListeners();
+  runRequest("readwrite", (store) => store.put(entry)).catch((error) => {
+    console.error("Error saving message to outbox:", error);
+  });
+}
+
+function removeEntry(id: string) {
+  entries.delete(id);
+  notifyListeners();
+  runRequest("readwrite", (store) => store.delete(id)).catch((error) => {
+    console.error("Error removing message from outbox:", error);
+  });
+}
+
+/**
+ * Sends one entry. Offline, the entry stays pending until flushOutbox runs
+ * again; a send rejected by the server marks it failed.
+ */
+async function deliver(entry: OutboxMessage): Promise<void> {
+  if (inFlight.has(entry.id) || !navigator.onLine) return;
+
+  inFlight.add(entry.id);
+  try {
+    // An earlier attempt may have been written even though this device never heard back
+    if (entry.attempts > 0 && await messageExists(entry.id)) {
+      removeEntry(entry.id);
+      return;
+    }
+
+    saveEntry({ ...entry, status: OutboxStatus.PENDING, attempts: entry.attempts + 1, error: undefined });
+    await sendMessage(entry.conversationId, entry.senderId, entry.text, entry.attachments, entry.id);
+    removeEntry(entry.id);
+  } catch (error) {
+    const current = entries.get(entry.id);
+    if (current) {
+      saveEntry({
+        ...current,
+        status: OutboxStatus.FAILED,
+        error: error instanceof Error ? error.message : "Failed to send message"
+      });
+    }
+  } finally {
+    inFlight.delete(entry.id);
+  }
+}
+
+/**
+ * Lists the unconfirmed messages in a conversation, oldest first
+ * @param conversationId The conversation
+ */
+export function getOutboxMessages(conversationId: string): OutboxMessage[] {
+  return [...entries.values()]
+    .filter((entry) => entry.conversationId === conversationId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Listens for changes to the outbox
+ * @param callback Called after saved entries are loaded and whenever an entry changes
+ * @returns Unsubscribe function
+ */
+export function subscribeToOutbox(callback: () => void): () => void {
+  listeners.add(callback);
+  loadOutbox().then(callback);
+  return () => {
+    listeners.delete(callback);
+  };
+}
+
+/**
+ * Adds a message to the outbox and starts sending it
+ * @param conversationId ID of the conversation
+ * @param senderId ID of the sender
+ * @param text Message text, which may be empty when attachments are sent
+ * @param attachments Files already uploaded with uploadMessageAttachment
+ * @returns The queued message
+ */
+export async function queueMessage(
+  conversationId: string,
+  senderId: string,
+  text: string,
+  attachments: MessageAttachment[] = []
+): Promise<OutboxMessage> {
+  await loadOutbox();
+
+  const entry: OutboxMessage = {
+    id: newMessageId(),
+    conversationId,
+    senderId,
+    text,
+    attachments,
+    createdAt: Date.now(),
+    status: OutboxStatus.PENDING,
+    attempts: 0
+  };
+
+  saveEntry(entry);
+  deliver(entry);
+  return entry;
+}
+
+/**
+ * Sends the user's pending messages, e.g. when the browser comes back online.
+ * Failed messages wait for retryOutboxMessage.
+ * @param senderId The signed-in user; other users' entries on a shared device are left alone
+ */
+export async function flushOutbox(senderId: string): Promise<void> {
+  await loadOutbox();
+
+  await Promise.all([...entries.values()]
+    .filter((entry) => entry.senderId === senderId && entry.status === OutboxStatus.PENDING)
+    .map(deliver));
+}
+
+/**
+ * Sends a failed message again
+ * @param id The message ID
+ */
+export async function retryOutboxMessage(id: string): Promise<void> {
+  const entry = entries.get(id);
+  if (!entry) return;
+
+  saveEntry({ ...entry, status: OutboxStatus.PENDING, error: undefined });
+  await deliver({ ...entry, status: OutboxStatus.PENDING });
+}
+
+/**
+ * Drops a message that has not been sent, along with the files uploaded for it
+ * @param id The message ID
+ */
+export async function discardOutboxMessage(id: string): Promise<void> {
+  const entry = entries.get(id);
+  if (!entry || inFlight.has(id)) return;
+
+  removeEntry(id);
+
+  // A failed attempt may still have been written, in which case the message keeps its files
+  if (entry.attachments.length === 0) return;
+  try {
+    if (entry.attempts > 0 && await messageExists(id)) return;
+  } catch (error) {
+    console.error("Error checking discarded message:", error);
+    return;
+  }
+  await deleteMessageAttachments(entry.attachments);
+}
@@ -0,0 +1,39 @@
+import { format, startOfDay } from "date-fns";
+import { CarPricing } from "@/firebase/db/model/carmodel";
+import { PriceBreakdown } from "@/firebase/db/model/bookingmodel";
+import { PRICING_CONFIG, PricingConfig } from "@/config/pricing";
+import { calculateDayPriceBreakdown } from "@shared/pricing";
+
+export { totalsMatch } from "@shared/pricing";
+
+/**
+ * The listing fields that pricing depends on
+ */
+export interface PricedListing {
+  price: number;
+  pricing?: CarPricing;
+}
+
+/**
+ * Builds an itemized quote for renting a car between two dates (both inclusive)
+ * The dates are read as calendar days in the browser's time zone, the same day
+ * keys createBooking sends to the server, which prices them with the same code.
+ * @param listing The car listing (or its pricing fields)
+ * @param startDate First day of the rental
+ * @param endDate Last day of the rental
+ * @param config Service fee and tax configuration
+ * @returns The price breakdown, with every amount rounded to cents
+ */
+export function calculatePriceBreakdown(
+  listing: PricedListing,
+  startDate: Date,
+  endDate: Date,
+  config: PricingConfig = PRICING_CONFIG
+): PriceBreakdown {
+  return calculateDayPriceBreakdown(
+    listing,
+    format(startOfDay(startDate), "yyyy-MM-dd"),
+    format(startOfDay(endDate), "yyyy-MM-dd"),
+    config
+  );
+}
@@ -0,0 +1,90 @@
+import { PUSH_SERVICE_WORKER_URL, VAPID_PUBLIC_KEY } from "@/config/notifications";
+import { deletePushSubscription, savePushSubscription } from "@/firebase/db/services/pushSubscriptionService";
+
+export type PushState = "unsupported" | "denied" | "disabled" | "enabled";
+
+/**
+ * Whether this browser can receive web push and the app is configured for it
+ */
+export function isPushSupported(): boolean {
+  return Boolean(VAPID_PUBLIC_KEY) &&
+    "serviceWorker" in navigator &&
+    "PushManager" in window &&
+    "Notification" in window;
+}
+
+/**
+ * Decodes the base64url VAPID key into the bytes PushManager expects
+ */
+function urlBase64ToUint8Array(base64Url: string): Uint8Array<ArrayBuffer> {
+  const base64 = (base64Url + "=".repeat((4 - (base64Url.length % 4)) % 4))
+    .replace(/-/g, "+")
+    .replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+async function getCurrentSubscription(): Promise<PushSubscription | null> {
+  const registration = await navigator.serviceWorker.getRegistration(PUSH_SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+/**
+ * Reports whether push notifications are on for this browser
+ */
+export async function getPushState(): Promise<PushState> {
+  if (!isPushSupported()) return "unsupported";
+  if (Notification.permission === "denied") return "denied";
+
+  const subscription = await getCurrentSubscription();
+  return subscription && Notification.permission === "granted" ? "enabled" : "disabled";
+}
+
+/**
+ * Asks for permission, subscribes this browser and stores the subscription
+ * for the user. Must be called from a user gesture, e.g. a button click.
+ * An existing subscription is replaced rather than reused, since on a shared
+ * browser it may still be stored for another user who signed in before.
+ * @param userId The signed-in user
+ * @returns The resulting push state
+ */
+export async function enablePushNotifications(userId: string): Promise<PushState> {
+  if (!isPushSupported()) return "unsupported";
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") {
+    return permission === "denied" ? "denied" : "disabled";
+  }
+
+  const registration = await navigator.serviceWorker.register(PUSH_SERVICE_WORKER_URL);
+  await navigator.serviceWorker.ready;
+
+  const previous = await registration.pushManager.getSubscription();
+  await previous?.unsubscribe();
+
+  const subscription = await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY)
+  });
+
+  const result = await savePushSubscription(userId, subscription.toJSON());
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+
+  return "enabled";
+}
+
+/**
+ * Unsubscribes this browser and forgets its subscription
+ * @param userId The signed-in user
+ */
+export async function disablePushNotifications(userId: string): Promise<PushState> {
+  const subscription = isPushSupported() ? await getCurrentSubscription() : null;
+
+  if (subscription) {
+    await deletePushSubscription(userId, subscription.endpoint);
+    await subscription.unsubscribe();
+  }
+
+  return isPushSupported() ? "disabled" : "unsupported";
+}
@@ -0,0 +1,173 @@
+// In-memory full-text index used for keyword search over car listings.
+// The listings' terms are extracted by a Cloud Function with the same tokenizer
+// (@shared/textSearch) and the index is built in the browser; see listingSearchService.
+
+import { allowedTypos, boundedEditDistance, MIN_PREFIX_LENGTH, tokenize } from "@shared/textSearch";
+
+// A document reduced to its terms, each with the weight of the most important
+// field it appears in (e.g. title over description)
+export interface IndexedDocument {
+  id: string;
+  terms: Record<string, number>;
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+}
+
+export interface SearchIndex {
+  postings: Map<string, Map<string, number>>; // term -> document ID -> field weight
+  termWeights: Map<string, number>;           // term -> highest field weight it appears in
+  sortedTerms: string[];                      // For prefix lookups
+  documentCount: number;
+}
+
+// Scores relative to an exact term match
+const PREFIX_MATCH_FACTOR = 0.75;
+const TYPO_MATCH_FACTOR = 0.5;
+
+/**
+ * Builds an index from documents reduced to their terms
+ */
+export function buildSearchIndex(documents: IndexedDocument[]): SearchIndex {
+  const postings = new Map<string, Map<string, number>>();
+  const termWeights = new Map<string, number>();
+
+  documents.forEach((document) => {
+    Object.entries(document.terms).forEach(([term, weight]) => {
+      let documentWeights = postings.get(term);
+      if (!documentWeights) {
+        documentWeights = new Map();
+        postings.set(term, documentWeights);
+      }
+      documentWeights.set(document.id, weight);
+      termWeights.set(term, Math.max(termWeights.get(term) ?? 0, weight));
+    });
+  });
+
+  return {
+    postings,
+    termWeights,
+    sortedTerms: [...postings.keys()].sort(),
+    documentCount: documents.length
+  };
+}
+
+/**
+ * Finds the indexed terms starting with a prefix
+ */
+export function termsWithPrefix(index: SearchIndex, prefix: string): string[] {
+  const { sortedTerms } = index;
+  let low = 0;
+  let high = sortedTerms.length;
+
+  // First term >= prefix
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (sortedTerms[middle] < prefix) low = middle + 1;
+    else high = middle;
+  }
+
+  const matches: string[] = [];
+  for (let i = low; i < sortedTerms.length && sortedTerms[i].startsWith(prefix); i++) {
+    matches.push(sortedTerms[i]);
+  }
+  return matches;
+}
+
+/**
+ * Finds the indexed terms a query term could mean, with how well each matches
+ */
+function matchTerm(index: SearchIndex, queryTerm: string): Map<string, number> {
+  const matches = new Map<string, number>();
+
+  if (index.postings.has(queryTerm)) {
+    matches.set(queryTerm, 1);
+  }
+
+  if (queryTerm.length >= MIN_PREFIX_LENGTH) {
+    termsWithPrefix(index, queryTerm).forEach((term) => {
+      if (!matches.has(term)) matches.set(term, PREFIX_MATCH_FACTOR);
+    });
+  }
+
+  const maxTypos = allowedTypos(queryTerm);
+  if (maxTypos > 0) {
+    index.sortedTerms.forEach((term) => {
+      if (matches.has(term)) return;
+      const distance = boundedEditDistance(queryTerm, term, maxTypos);
+      if (distance <= maxTypos) matches.set(term, TYPO_MATCH_FACTOR / distance);
+    });
+  }
+
+  return matches;
+}
+
+/**
+ * Searches the index. Every query term has to match (exactly, as a prefix or
+ * with a typo); rarer terms and more important fields rank higher.
+ * @param index The index to search
+ * @param query The user's search text
+ * @returns Matching document IDs, best first
+ */
+export function searchIndex(index: SearchIndex, query: string): SearchHit[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0) return [];
+
+  let scores: Map<string, number> | null = null;
+
+  for (const queryTerm of queryTerms) {
+    const termScores = new Map<string, number>();
+
+    matchTerm(index, queryTerm).forEach((factor, term) => {
+      const documentWeights = index.postings.get(term)!;
+      const idf = Math.log(1 + index.documentCount / documentWeights.size);
+
+      documentWeights.forEach((weight, id) => {
+        const score = factor * weight * idf;
+        termScores.set(id, Math.max(termScores.get(id) ?? 0, score));
+      });
+    });
+
+    // Keep only documents that matched every term so far
+    const previous: Map<string, number> | null = scores;
+    scores = new Map();
+    termScores.forEach((score, id) => {
+      if (previous === null) {
+        scores!.set(id, score);
+      } else if (previous.has(id)) {
+        scores!.set(id, previous.get(id)! + score);
+      }
+    });
+
+    if (scores.size === 0) return [];
+  }
+
+  return [...(scores ?? new Map<string, number>()).entries()]
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Suggests completions for the last word of a query, preferring terms from
+ * important fields and terms that appear in many documents
+ * @returns Full query strings with the last word completed
+ */
+export function suggestQueries(index: SearchIndex, query: string, limit: number): string[] {
+  const words = query.trimStart().toLowerCase().split(/\s+/);
+  const lastWord = tokenize(words[words.length - 1] ?? "")[0];
+  if (!lastWord || lastWord.length < MIN_PREFIX_LENGTH) return [];
+
+  const leading = words.slice(0, -1).join(" ");
+
+  return termsWithPrefix(index, lastWord)
+    .filter((term) => term !== lastWord || index.postings.has(term))
+    .sort((a, b) =>
+      (index.termWeights.get(b) ?? 0) - (index.termWeights.get(a) ?? 0) ||
+      index.postings.get(b)!.size - index.postings.get(a)!.size ||
+      a.length - b.length
+    )
+    .slice(0, limit)
+    .map((term) => (leading ? `${leading} ${term}` : term));
+}
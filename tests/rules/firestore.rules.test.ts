@@ -0,0 +1,497 @@
+// Security rules tests, run against the Firestore emulator: npm run test:rules
+import { readFileSync } from "node:fs";
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment
+} from "@firebase/rules-unit-testing";
+import firebase from "firebase/compat/app";
+import "firebase/compat/firestore";
+
+type Firestore = firebase.firestore.Firestore;
+
+const { FieldValue, Timestamp } = firebase.firestore;
+
+const RENTER = "renter";
+const OWNER = "owner";
+const STRANGER = "stranger";
+
+const CAR_ID = "car1";
+const BOOKING_ID = "booking1";
+const CONVERSATION_ID = "conversation1";
+
+// Monday to Wednesday at $50/day: no weekend days, no discount, the $10 flat service fee
+const BOOKING_DAYS = ["2030-01-07", "2030-01-08", "2030-01-09"];
+
+const LISTING = {
+  owner: OWNER,
+  title: "Toyota Corolla",
+  description: "A reliable sedan",
+  price: 50,
+  location: "Austin, TX",
+  carInfo: { make: "Toyota", model: "Corolla", seats: 5 },
+  status: "active"
+};
+
+let testEnv: RulesTestEnvironment;
+
+function dbAs(uid: string): Firestore {
+  return testEnv.authenticatedContext(uid).firestore();
+}
+
+function dayStart(day: string): firebase.firestore.Timestamp {
+  return Timestamp.fromDate(new Date(`${day}T00:00:00Z`));
+}
+
+/**
+ * A booking request as the createBooking function writes it, for the given days at $50/day
+ */
+function bookingRequest(days: string[] = BOOKING_DAYS): Record<string, unknown> {
+  const subtotal = days.length * 50;
+  return {
+    renterId: RENTER,
+    ownerId: OWNER,
+    carId: CAR_ID,
+    status: "pending",
+    startDate: dayStart(days[0]),
+    endDate: dayStart(days[days.length - 1]),
+    startDay: days[0],
+    endDay: days[days.length - 1],
+    totalPrice: subtotal + 10,
+    priceBreakdown: {
+      days: days.length,
+      weekdayDays: days.length,
+      weekendDays: 0,
+      lineItems: [],
+      rentalSubtotal: subtotal,
+      discount: 0,
+      serviceFee: 10,
+      taxes: 0,
+      total: subtotal + 10
+    },
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp()
+  };
+}
+
+function lockRef(db: Firestore, day: string) {
+  return db.doc(`carListings/${CAR_ID}/bookingLocks/${day}`);
+}
+
+function lock(day: string, bookingId: string = BOOKING_ID) {
+  return { bookingId, carId: CAR_ID, day, createdAt: FieldValue.serverTimestamp() };
+}
+
+/**
+ * Writes a booking and the locks of the given days in one batch, as the app did
+ * before bookings were created by the createBooking function
+ */
+function writeBookingWithLocks(
+  db: Firestore,
+  booking: Record<string, unknown> = bookingRequest(),
+  lockDays: string[] = BOOKING_DAYS
+): Promise<void> {
+  const batch = db.batch();
+  batch.set(db.doc(`bookings/${BOOKING_ID}`), booking);
+  lockDays.forEach((day) => batch.set(lockRef(db, day), lock(day)));
+  return batch.commit();
+}
+
+/**
+ * Approves the booking and locks the given days in one batch, like updateBookingStatus
+ */
+function approveWithLocks(db: Firestore, lockDays: string[] = BOOKING_DAYS): Promise<void> {
+  const batch = db.batch();
+  batch.update(db.doc(`bookings/${BOOKING_ID}`), { status: "approved", updatedAt: FieldValue.serverTimestamp() });
+  lockDays.forEach((day) => batch.set(lockRef(db, day), lock(day)));
+  return batch.commit();
+}
+
+/**
+ * Writes documents with the rules turned off
+ */
+async function seed(documents: Record<string, Record<string, unknown>>): Promise<void> {
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    await Promise.all(Object.entries(documents).map(([path, data]) => db.doc(path).set(data)));
+  });
+}
+
+async function seedBooking(status: string): Promise<void> {
+  await seed({
+    [`bookings/${BOOKING_ID}`]: {
+      ...bookingRequest(),
+      status,
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now()
+    }
+  });
+}
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: "demo-vroomly",
+    firestore: { rules: readFileSync(new URL("../../firestore.rules", import.meta.url), "utf8") }
+  });
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await seed({ [`carListings/${CAR_ID}`]: LISTING });
+});
+
+describe("user profiles", () => {
+  it("lets users edit their own profile", async () => {
+    await assertSucceeds(dbAs(RENTER).doc(`userProfiles/${RENTER}`).set({ uid: RENTER, displayName: "Renter" }));
+  });
+
+  it("doesn't let users edit someone else's profile", async () => {
+    await assertFails(dbAs(STRANGER).doc(`userProfiles/${RENTER}`).set({ uid: RENTER, displayName: "Renter" }));
+  });
+
+  it("doesn't let users set their own rating", async () => {
+    await assertFails(dbAs(RENTER).doc(`userProfiles/${RENTER}`).set({
+      uid: RENTER,
+      ratingSummary: { count: 10, average: 5 }
+    }));
+  });
+});
+
+describe("car listings", () => {
+  const NEW_CAR = "car2";
+
+  it("lets users list a car as its owner", async () => {
+    await assertSucceeds(dbAs(OWNER).doc(`carListings/${NEW_CAR}`).set(LISTING));
+  });
+
+  it("doesn't let users list a car for someone else", async () => {
+    await assertFails(dbAs(STRANGER).doc(`carListings/${NEW_CAR}`).set(LISTING));
+  });
+
+  it("requires a positive price", async () => {
+    await assertFails(dbAs(OWNER).doc(`carListings/${NEW_CAR}`).set({ ...LISTING, price: 0 }));
+    await assertFails(dbAs(OWNER).doc(`carListings/${NEW_CAR}`).set({ ...LISTING, price: "50" }));
+  });
+
+  it("requires a known status", async () => {
+    await assertFails(dbAs(OWNER).doc(`carListings/${NEW_CAR}`).set({ ...LISTING, status: "sold" }));
+  });
+
+  it("lets only the owner edit or delete a listing", async () => {
+    await assertSucceeds(dbAs(OWNER).doc(`carListings/${CAR_ID}`).update({ price: 45 }));
+    await assertFails(dbAs(STRANGER).doc(`carListings/${CAR_ID}`).update({ price: 1 }));
+    await assertFails(dbAs(STRANGER).doc(`carListings/${CAR_ID}`).delete());
+  });
+
+  it("doesn't let the owner hand the listing to someone else", async () => {
+    await assertFails(dbAs(OWNER).doc(`carListings/${CAR_ID}`).update({ owner: STRANGER }));
+  });
+});
+
+describe("booking requests", () => {
+  it("doesn't let clients create bookings, even with a lock on every day", async () => {
+    await assertFails(writeBookingWithLocks(dbAs(RENTER)));
+  });
+
+  it("doesn't let clients create a booking without locks", async () => {
+    await assertFails(dbAs(RENTER).doc(`bookings/${BOOKING_ID}`).set(bookingRequest()));
+  });
+
+  it("doesn't let clients create a booking that skips the middle days", async () => {
+    await assertFails(writeBookingWithLocks(dbAs(RENTER), bookingRequest(), [BOOKING_DAYS[0], BOOKING_DAYS[2]]));
+  });
+
+  it("doesn't let clients lock days for a booking that doesn't exist", async () => {
+    await assertFails(lockRef(dbAs(RENTER), BOOKING_DAYS[0]).set(lock(BOOKING_DAYS[0])));
+  });
+
+  it("doesn't let clients send booking request notifications", async () => {
+    await seedBooking("pending");
+    await assertFails(dbAs(RENTER).collection("notifications").add({
+      userId: OWNER,
+      type: "booking_requested",
+      title: "New booking request",
+      body: "",
+      link: "/my-bookings?tab=received",
+      data: { bookingId: BOOKING_ID },
+      read: false,
+      createdAt: FieldValue.serverTimestamp()
+    }));
+  });
+});
+
+describe("booking locks", () => {
+  beforeEach(async () => {
+    await seedBooking("pending");
+  });
+
+  it("lets the owner lock the days of a booking they approve", async () => {
+    await assertSucceeds(approveWithLocks(dbAs(OWNER)));
+  });
+
+  it("doesn't let participants lock days of a booking that isn't approved", async () => {
+    await assertFails(lockRef(dbAs(RENTER), BOOKING_DAYS[0]).set(lock(BOOKING_DAYS[0])));
+    await assertFails(lockRef(dbAs(OWNER), BOOKING_DAYS[0]).set(lock(BOOKING_DAYS[0])));
+  });
+
+  it("rejects days outside the booking", async () => {
+    await assertFails(approveWithLocks(dbAs(OWNER), [...BOOKING_DAYS, "2030-01-10"]));
+  });
+
+  it("doesn't let others lock days for the booking", async () => {
+    await assertFails(lockRef(dbAs(STRANGER), BOOKING_DAYS[0]).set(lock(BOOKING_DAYS[0])));
+  });
+
+  it("doesn't let a booking take over another booking's lock", async () => {
+    await seed({ [`carListings/${CAR_ID}/bookingLocks/${BOOKING_DAYS[0]}`]: lock(BOOKING_DAYS[0], "other") });
+    await assertFails(approveWithLocks(dbAs(OWNER)));
+  });
+
+  it("lets the owner record the day keys of an older booking when approving it", async () => {
+    const olderBooking = bookingRequest();
+    delete olderBooking.startDay;
+    delete olderBooking.endDay;
+    await seed({ [`bookings/${BOOKING_ID}`]: { ...olderBooking, createdAt: Timestamp.now(), updatedAt: Timestamp.now() } });
+    const db = dbAs(OWNER);
+
+    const approve = db.batch();
+    approve.update(db.doc(`bookings/${BOOKING_ID}`), {
+      status: "approved",
+      startDay: BOOKING_DAYS[0],
+      endDay: BOOKING_DAYS[2],
+      updatedAt: FieldValue.serverTimestamp()
+    });
+    BOOKING_DAYS.forEach((day) => approve.set(lockRef(db, day), lock(day)));
+    await assertSucceeds(approve.commit());
+  });
+
+  it("doesn't let participants change a booking's day keys", async () => {
+    await assertFails(dbAs(OWNER).doc(`bookings/${BOOKING_ID}`).update({
+      status: "approved",
+      endDay: "2030-01-20",
+      updatedAt: FieldValue.serverTimestamp()
+    }));
+  });
+
+  it("doesn't let participants release the locks of a pending or approved booking", async () => {
+    await seed({ [`carListings/${CAR_ID}/bookingLocks/${BOOKING_DAYS[0]}`]: lock(BOOKING_DAYS[0]) });
+    await assertFails(lockRef(dbAs(RENTER), BOOKING_DAYS[0]).delete());
+
+    await seedBooking("approved");
+    await assertFails(lockRef(dbAs(OWNER), BOOKING_DAYS[0]).delete());
+  });
+
+  it("releases the locks in the write that cancels the booking", async () => {
+    await seedBooking("approved");
+    await seed({ [`carListings/${CAR_ID}/bookingLocks/${BOOKING_DAYS[0]}`]: lock(BOOKING_DAYS[0]) });
+    const db = dbAs(RENTER);
+
+    const cancel = db.batch();
+    cancel.update(db.doc(`bookings/${BOOKING_ID}`), { status: "canceled", updatedAt: FieldValue.serverTimestamp() });
+    cancel.delete(lockRef(db, BOOKING_DAYS[0]));
+    await assertSucceeds(cancel.commit());
+  });
+
+  it("doesn't let others release a booking's locks", async () => {
+    await seedBooking("canceled");
+    await seed({ [`carListings/${CAR_ID}/bookingLocks/${BOOKING_DAYS[0]}`]: lock(BOOKING_DAYS[0]) });
+    await assertFails(lockRef(dbAs(STRANGER), BOOKING_DAYS[0]).delete());
+  });
+});
+
+describe("booking status changes", () => {
+  function setStatus(db: Firestore, status: string) {
+    return db.doc(`bookings/${BOOKING_ID}`).update({ status, updatedAt: FieldValue.serverTimestamp() });
+  }
+
+  it("lets the owner approve a request", async () => {
+    await seedBooking("pending");
+    await assertSucceeds(setStatus(dbAs(OWNER), "approved"));
+  });
+
+  it("doesn't let the renter approve their own request", async () => {
+    await seedBooking("pending");
+    await assertFails(setStatus(dbAs(RENTER), "approved"));
+  });
+
+  it("lets the renter cancel an approved booking", async () => {
+    await seedBooking("approved");
+    await assertSucceeds(setStatus(dbAs(RENTER), "canceled"));
+  });
+
+  it("doesn't let a request skip to completed", async () => {
+    await seedBooking("pending");
+    await assertFails(setStatus(dbAs(OWNER), "completed"));
+  });
+
+  it("rejects statuses that don't exist", async () => {
+    await seedBooking("pending");
+    await assertFails(setStatus(dbAs(OWNER), "paid"));
+  });
+
+  it("doesn't let participants change the price", async () => {
+    await seedBooking("pending");
+    await assertFails(dbAs(OWNER).doc(`bookings/${BOOKING_ID}`).update({ totalPrice: 1 }));
+  });
+
+  it("hides bookings from other users", async () => {
+    await seedBooking("pending");
+    await assertFails(dbAs(STRANGER).doc(`bookings/${BOOKING_ID}`).get());
+    await assertSucceeds(dbAs(RENTER).doc(`bookings/${BOOKING_ID}`).get());
+  });
+
+  it("records events only with the status change they describe", async () => {
+    await seedBooking("pending");
+    const db = dbAs(OWNER);
+
+    const approve = db.batch();
+    approve.update(db.doc(`bookings/${BOOKING_ID}`), { status: "approved" });
+    approve.set(db.doc(`bookings/${BOOKING_ID}/events/approved`), { actorId: OWNER, toStatus: "approved" });
+    await assertSucceeds(approve.commit());
+
+    await assertFails(db.doc(`bookings/${BOOKING_ID}/events/completed`).set({ actorId: OWNER, toStatus: "completed" }));
+  });
+});
+
+describe("messages", () => {
+  const MESSAGE_ID = "message1";
+
+  function textMessage(overrides: Record<string, unknown> = {}) {
+    return {
+      conversationId: CONVERSATION_ID,
+      senderId: RENTER,
+      text: "Is the car available?",
+      timestamp: FieldValue.serverTimestamp(),
+      read: false,
+      ...overrides
+    };
+  }
+
+  async function seedMessage(sentAt = Timestamp.now()) {
+    await seed({
+      [`messages/${MESSAGE_ID}`]: { ...textMessage(), timestamp: sentAt }
+    });
+  }
+
+  beforeEach(async () => {
+    await seed({ [`conversations/${CONVERSATION_ID}`]: { participants: [RENTER, OWNER] } });
+  });
+
+  it("lets participants send messages", async () => {
+    await assertSucceeds(dbAs(RENTER).collection("messages").add(textMessage()));
+  });
+
+  it("doesn't let others post in the conversation", async () => {
+    await assertFails(dbAs(STRANGER).collection("messages").add(textMessage({ senderId: STRANGER })));
+  });
+
+  it("doesn't let participants post as each other", async () => {
+    await assertFails(dbAs(OWNER).collection("messages").add(textMessage()));
+  });
+
+  it("requires the server time as the timestamp", async () => {
+    await assertFails(dbAs(RENTER).collection("messages").add(textMessage({ timestamp: Timestamp.now() })));
+  });
+
+  it("hides conversations and messages from other users", async () => {
+    await seedMessage();
+    await assertFails(dbAs(STRANGER).doc(`conversations/${CONVERSATION_ID}`).get());
+    await assertFails(dbAs(STRANGER).doc(`messages/${MESSAGE_ID}`).get());
+  });
+
+  it("lets the sender edit a recent message and keep the earlier version", async () => {
+    await seedMessage();
+    const db = dbAs(RENTER);
+
+    const batch = db.batch();
+    batch.update(db.doc(`messages/${MESSAGE_ID}`), { text: "Is it free?", editedAt: FieldValue.serverTimestamp() });
+    batch.set(db.doc(`messages/${MESSAGE_ID}/edits/edit1`), {
+      text: "Is the car available?",
+      replacedAt: FieldValue.serverTimestamp()
+    });
+    await assertSucceeds(batch.commit());
+  });
+
+  it("closes editing after the edit window", async () => {
+    await seedMessage(Timestamp.fromMillis(Date.now() - 60 * 60 * 1000));
+    await assertFails(dbAs(RENTER).doc(`messages/${MESSAGE_ID}`)
+      .update({ text: "Is it free?", editedAt: FieldValue.serverTimestamp() }));
+  });
+
+  it("doesn't let the recipient edit", async () => {
+    await seedMessage();
+    await assertFails(dbAs(OWNER).doc(`messages/${MESSAGE_ID}`)
+      .update({ text: "Yes", editedAt: FieldValue.serverTimestamp() }));
+  });
+
+  it("lets the sender delete a message for everyone", async () => {
+    await seedMessage();
+    await assertSucceeds(dbAs(RENTER).doc(`messages/${MESSAGE_ID}`).update({
+      text: "",
+      deleted: true,
+      deletedAt: FieldValue.serverTimestamp()
+    }));
+  });
+
+  it("lets participants set only their own reaction", async () => {
+    await seedMessage();
+    const db = dbAs(OWNER);
+
+    await assertSucceeds(db.doc(`messages/${MESSAGE_ID}`).update({ [`reactions.${OWNER}`]: "👍" }));
+    await assertFails(db.doc(`messages/${MESSAGE_ID}`).update({ [`reactions.${RENTER}`]: "👍" }));
+    await assertFails(db.doc(`messages/${MESSAGE_ID}`).update({ [`reactions.${OWNER}`]: "🚗" }));
+  });
+
+  it("lets the recipient mark a message read", async () => {
+    await seedMessage();
+    await assertSucceeds(dbAs(OWNER).doc(`messages/${MESSAGE_ID}`).update({ read: true }));
+  });
+
+  it("doesn't let the sender mark their own message read", async () => {
+    await seedMessage();
+    await assertFails(dbAs(RENTER).doc(`messages/${MESSAGE_ID}`).update({ read: true }));
+  });
+});
+
+describe("favorites", () => {
+  const favorite = { userId: RENTER, listingId: CAR_ID, title: LISTING.title, savedPrice: 50 };
+
+  it("lets users save a listing", async () => {
+    await assertSucceeds(dbAs(RENTER).doc(`users/${RENTER}/favorites/${CAR_ID}`).set(favorite));
+  });
+
+  it("doesn't let users save to someone else's favorites", async () => {
+    await assertFails(dbAs(STRANGER).doc(`users/${RENTER}/favorites/${CAR_ID}`).set(favorite));
+  });
+
+  it("keeps the saved price once recorded", async () => {
+    await seed({ [`users/${RENTER}/favorites/${CAR_ID}`]: favorite });
+    await assertFails(dbAs(RENTER).doc(`users/${RENTER}/favorites/${CAR_ID}`).update({ savedPrice: 40 }));
+  });
+});
+
+describe("server-written collections", () => {
+  it("keeps the search index read-only", async () => {
+    await assertSucceeds(dbAs(RENTER).doc("listingSearchIndex/shard-0").get());
+    await assertFails(dbAs(OWNER).doc("listingSearchIndex/shard-0").set({ listings: {} }));
+  });
+
+  it("doesn't let clients send saved search alerts", async () => {
+    await assertFails(dbAs(OWNER).collection("notifications").add({
+      userId: RENTER,
+      type: "saved_search_match",
+      title: "New match",
+      body: "",
+      link: `/cars/${CAR_ID}`,
+      data: { listingId: CAR_ID, savedSearchId: "search1" },
+      read: false,
+      createdAt: FieldValue.serverTimestamp()
+    }));
+  });
+});
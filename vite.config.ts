@@ -9,6 +9,8 @@ export default defineConfig({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // Code the app shares with the Cloud Functions
+      "@shared": path.resolve(__dirname, "./functions/src/shared"),
     },
   },
   optimizeDeps: {